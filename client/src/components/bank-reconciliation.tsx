@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Upload, CheckCircle, XCircle } from "lucide-react";
+
+interface MatchSuggestion {
+  invoiceId: number;
+  invoiceNumber: string | null;
+  workOrderId: number | null;
+  clientName: string | null;
+  due: number;
+  score: number;
+  reasons: string[];
+  tdsAmount: number;
+}
+
+interface StatementLine {
+  id: number;
+  valueDate: string;
+  amount: string;
+  narration: string;
+  reference: string | null;
+  status: "unmatched" | "matched" | "ignored";
+  receiptId: number | null;
+  suggestions: MatchSuggestion[];
+}
+
+function formatCurrency(amount: number | string | null | undefined) {
+  const value = Number(amount ?? 0);
+  if (Number.isNaN(value)) return "₹0";
+  return `₹${value.toLocaleString()}`;
+}
+
+export default function BankReconciliation() {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [status, setStatus] = useState<StatementLine["status"]>("unmatched");
+
+  const { data: lines = [], isLoading } = useQuery<StatementLine[]>({
+    queryKey: ["/api/bank-statements/lines", { status }],
+  });
+
+  const refresh = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-statements/lines"] }),
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts/payments"] }),
+    ]);
+
+  const importStatement = useMutation({
+    mutationFn: async () => {
+      const form = new FormData();
+      form.append("file", file as File);
+      const res = await fetch("/api/bank-statements", { method: "POST", body: form, credentials: "include" });
+      if (!res.ok) {
+        const errorText = await res.text();
+        let errorMessage = "Import failed";
+        try {
+          errorMessage = JSON.parse(errorText).error || errorMessage;
+        } catch {
+          errorMessage = errorText || errorMessage;
+        }
+        throw new Error(errorMessage);
+      }
+      return res.json();
+    },
+    onSuccess: async (data) => {
+      setFile(null);
+      await refresh();
+      toast({
+        title: "Statement imported",
+        description: `${data.creditCount} new credit(s)${data.duplicateCount ? `, ${data.duplicateCount} already imported` : ""}.`,
+      });
+    },
+    onError: (err: any) => {
+      toast({ title: "Could not import statement", description: err?.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  const confirmMatch = useMutation({
+    mutationFn: async ({ lineId, suggestion }: { lineId: number; suggestion: MatchSuggestion }) => {
+      const res = await apiRequest("POST", `/api/bank-statements/lines/${lineId}/confirm`, {
+        invoiceId: suggestion.invoiceId,
+        tdsAmount: suggestion.tdsAmount || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: async () => {
+      await refresh();
+      toast({ title: "Receipt recorded" });
+    },
+    onError: (err: any) => {
+      toast({ title: "Could not confirm match", description: err?.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  const ignoreLine = useMutation({
+    mutationFn: async (lineId: number) => {
+      const res = await apiRequest("POST", `/api/bank-statements/lines/${lineId}/ignore`);
+      return res.json();
+    },
+    onSuccess: refresh,
+    onError: (err: any) => {
+      toast({ title: "Could not ignore line", description: err?.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Import Bank Statement</CardTitle>
+          <CardDescription>CSV export or MT940 file. Only credits are imported; lines already imported are skipped.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3 md:flex-row md:items-center">
+          <Input
+            type="file"
+            accept=".csv,.txt,.sta,.940,.mt940"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="md:max-w-sm"
+          />
+          <Button onClick={() => importStatement.mutate()} disabled={!file || importStatement.isPending}>
+            <Upload className="mr-2 h-4 w-4" />
+            {importStatement.isPending ? "Importing..." : "Import"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle>Statement Credits</CardTitle>
+            <CardDescription>Confirm a suggested invoice to record the credit as a receipt against it.</CardDescription>
+          </div>
+          <Select value={status} onValueChange={(value) => setStatus(value as StatementLine["status"])}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unmatched">Unmatched</SelectItem>
+              <SelectItem value="matched">Matched</SelectItem>
+              <SelectItem value="ignored">Ignored</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : lines.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">No {status} statement credits.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Narration</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>{status === "unmatched" ? "Suggested Matches" : "Status"}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(line.valueDate).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(line.amount)}</TableCell>
+                    <TableCell className="max-w-xs break-words text-sm">{line.narration || "—"}</TableCell>
+                    <TableCell className="text-sm">{line.reference || "—"}</TableCell>
+                    <TableCell>
+                      {status !== "unmatched" ? (
+                        <Badge variant={status === "matched" ? "default" : "outline"}>
+                          {status === "matched" ? `Receipt #${line.receiptId}` : "Ignored"}
+                        </Badge>
+                      ) : (
+                        <div className="space-y-2">
+                          {line.suggestions.length === 0 && <p className="text-sm text-muted-foreground">No likely invoice found</p>}
+                          {line.suggestions.map((suggestion) => (
+                            <div key={suggestion.invoiceId} className="flex items-start justify-between gap-3 rounded-md border p-2">
+                              <div className="text-sm">
+                                <div className="font-medium">
+                                  {suggestion.invoiceNumber ?? `Invoice #${suggestion.invoiceId}`}
+                                  {suggestion.clientName ? ` · ${suggestion.clientName}` : ""}
+                                </div>
+                                <div className="text-muted-foreground">
+                                  Due {formatCurrency(suggestion.due)}
+                                  {suggestion.tdsAmount > 0 ? ` · TDS ${formatCurrency(suggestion.tdsAmount)}` : ""}
+                                </div>
+                                <div className="text-xs text-muted-foreground">{suggestion.reasons.join(", ")}</div>
+                              </div>
+                              <Button
+                                size="sm"
+                                onClick={() => confirmMatch.mutate({ lineId: line.id, suggestion })}
+                                disabled={confirmMatch.isPending}
+                              >
+                                <CheckCircle className="mr-1 h-4 w-4" />
+                                Confirm
+                              </Button>
+                            </div>
+                          ))}
+                          <Button variant="ghost" size="sm" onClick={() => ignoreLine.mutate(line.id)} disabled={ignoreLine.isPending}>
+                            <XCircle className="mr-1 h-4 w-4" />
+                            Not a client payment
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Download } from "lucide-react";
+
+interface LedgerEntry {
+  date: string;
+  kind: "invoice" | "receipt" | "tds" | "credit_note";
+  documentNumber: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+interface ClientLedger {
+  client: { id: number; name: string; businessSchoolName: string | null };
+  from: string | null;
+  to: string;
+  openingBalance: number;
+  entries: LedgerEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+  discrepancies: Array<{ workOrderId: number; ledgerBalance: number; pendingAmount: number }>;
+}
+
+function formatCurrency(amount: number) {
+  return `₹${amount.toLocaleString()}`;
+}
+
+// Dr when the client owes, Cr when they have paid in advance
+const formatBalance = (value: number) => `${formatCurrency(Math.abs(value))} ${value < 0 ? "Cr" : "Dr"}`;
+
+// Statement of account for one client over a date range, with the PDF export
+export default function ClientStatementDialog({
+  clientId,
+  clientName,
+  open,
+  onOpenChange,
+}: {
+  clientId: number;
+  clientName?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const range = { ...(from && { from }), ...(to && { to }) };
+
+  const { data: ledger, isLoading, error } = useQuery<ClientLedger>({
+    queryKey: [`/api/clients/${clientId}/ledger`, range],
+    enabled: open,
+  });
+
+  const downloadPdf = () => {
+    const params = new URLSearchParams(range);
+    const query = params.toString();
+    window.open(`/api/clients/${clientId}/ledger/pdf${query ? `?${query}` : ""}`, "_blank", "noopener");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[860px]">
+        <DialogHeader>
+          <DialogTitle>Statement of Account</DialogTitle>
+          <DialogDescription>{clientName || ledger?.client.businessSchoolName || ledger?.client.name}</DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="statement-from">From</Label>
+            <Input id="statement-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="statement-to">To</Label>
+            <Input id="statement-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={downloadPdf} disabled={!ledger}>
+            <Download className="mr-2 h-4 w-4" />
+            Download PDF
+          </Button>
+        </div>
+        {isLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : error || !ledger ? (
+          <p className="py-6 text-center text-sm text-destructive">{(error as Error)?.message || "Could not load the statement"}</p>
+        ) : (
+          <ScrollArea className="max-h-[420px]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Particulars</TableHead>
+                  <TableHead>Doc No.</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow className="font-medium">
+                  <TableCell>{ledger.from ? new Date(ledger.from).toLocaleDateString() : ""}</TableCell>
+                  <TableCell colSpan={4}>Opening Balance</TableCell>
+                  <TableCell className="text-right">{formatBalance(ledger.openingBalance)}</TableCell>
+                </TableRow>
+                {ledger.entries.map((entry, index) => (
+                  <TableRow key={index}>
+                    <TableCell className="whitespace-nowrap">{new Date(entry.date).toLocaleDateString()}</TableCell>
+                    <TableCell>{entry.description}</TableCell>
+                    <TableCell>{entry.documentNumber}</TableCell>
+                    <TableCell className="text-right">{entry.debit ? formatCurrency(entry.debit) : ""}</TableCell>
+                    <TableCell className="text-right">{entry.credit ? formatCurrency(entry.credit) : ""}</TableCell>
+                    <TableCell className="text-right">{formatBalance(entry.balance)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-medium">
+                  <TableCell />
+                  <TableCell colSpan={2}>Total</TableCell>
+                  <TableCell className="text-right">{formatCurrency(ledger.totalDebit)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(ledger.totalCredit)}</TableCell>
+                  <TableCell />
+                </TableRow>
+                <TableRow className="font-semibold">
+                  <TableCell>{new Date(ledger.to).toLocaleDateString()}</TableCell>
+                  <TableCell colSpan={4}>Closing Balance</TableCell>
+                  <TableCell className="text-right">{formatBalance(ledger.closingBalance)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+            {ledger.discrepancies.length > 0 && (
+              <p className="mt-2 text-xs text-destructive">
+                {ledger.discrepancies
+                  .map((d) => `WO #${d.workOrderId}: statement shows ${formatCurrency(d.ledgerBalance)}, work order has ${formatCurrency(d.pendingAmount)} pending`)
+                  .join("; ")}
+              </p>
+            )}
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
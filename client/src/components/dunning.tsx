@@ -0,0 +1,302 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Play } from "lucide-react";
+
+type Channel = "in_app" | "email" | "whatsapp";
+
+interface DunningStep {
+  id: number;
+  stepNumber: number;
+  name: string;
+  offsetDays: number;
+  channels: string;
+  notifyClient: boolean;
+  copyRole: string | null;
+  isActive: boolean;
+}
+
+interface DunningLog {
+  id: number;
+  invoiceId: number;
+  invoiceNumber: string | null;
+  workOrderId: number;
+  stepName: string;
+  channel: Channel;
+  recipientName: string;
+  recipientAddress: string | null;
+  status: "sent" | "failed";
+  amountDue: string;
+  daysOverdue: number;
+  error: string | null;
+  sentAt: string;
+}
+
+const CHANNEL_LABELS: Record<Channel, string> = { in_app: "In-app", email: "Email", whatsapp: "WhatsApp" };
+const ROLE_LABELS: Record<string, string> = { manager: "Manager", vp: "VP", pv_sir: "PV Sir", accounts: "Accounts", admin: "Admin" };
+const NO_ROLE = "none";
+
+// Dunning steps accounts can tune, and every reminder they have sent
+export default function Dunning() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<DunningStep | null>(null);
+  const [form, setForm] = useState({ name: "", offsetDays: "", channels: [] as Channel[], notifyClient: true, copyRole: NO_ROLE });
+
+  const { data: steps = [], isLoading: stepsLoading } = useQuery<DunningStep[]>({ queryKey: ["/api/dunning/steps"] });
+  const { data: logs = [], isLoading: logsLoading } = useQuery<DunningLog[]>({ queryKey: ["/api/dunning/logs"] });
+
+  const saveStep = useMutation({
+    mutationFn: async (body: Record<string, unknown>) => {
+      const res = await apiRequest("PATCH", `/api/dunning/steps/${editing!.id}`, body);
+      return res.json();
+    },
+    onSuccess: async () => {
+      setEditing(null);
+      await queryClient.invalidateQueries({ queryKey: ["/api/dunning/steps"] });
+      toast({ title: "Dunning step saved" });
+    },
+    onError: (err: any) => {
+      toast({ title: "Could not save step", description: err?.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  const runNow = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/dunning/run");
+      return res.json();
+    },
+    onSuccess: async (result: { invoices: number; messages: number }) => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/dunning/logs"] });
+      toast({
+        title: "Dunning run complete",
+        description: result.invoices > 0 ? `${result.messages} message(s) for ${result.invoices} invoice(s)` : "No reminders were due.",
+      });
+    },
+    onError: (err: any) => {
+      toast({ title: "Dunning run failed", description: err?.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  const openEditor = (step: DunningStep) => {
+    setForm({
+      name: step.name,
+      offsetDays: String(step.offsetDays),
+      channels: JSON.parse(step.channels) as Channel[],
+      notifyClient: step.notifyClient,
+      copyRole: step.copyRole ?? NO_ROLE,
+    });
+    setEditing(step);
+  };
+
+  const toggleChannel = (channel: Channel, checked: boolean) =>
+    setForm({ ...form, channels: checked ? [...form.channels, channel] : form.channels.filter((c) => c !== channel) });
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Dunning Steps</CardTitle>
+            <CardDescription>Each overdue invoice gets the furthest step it has reached, once. Runs daily.</CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => runNow.mutate()} disabled={runNow.isPending}>
+            <Play className="mr-1 h-4 w-4" />
+            {runNow.isPending ? "Running..." : "Run now"}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {stepsLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Step</TableHead>
+                  <TableHead>Days overdue</TableHead>
+                  <TableHead>Channels</TableHead>
+                  <TableHead>Sent to</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {steps.map((step) => (
+                  <TableRow key={step.id}>
+                    <TableCell className="font-medium">
+                      {step.stepNumber}. {step.name}
+                      {!step.isActive && (
+                        <Badge variant="outline" className="ml-2">
+                          Off
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{step.offsetDays}</TableCell>
+                    <TableCell>{(JSON.parse(step.channels) as Channel[]).map((c) => CHANNEL_LABELS[c]).join(", ")}</TableCell>
+                    <TableCell>
+                      {[step.notifyClient ? "Client" : null, step.copyRole ? `${ROLE_LABELS[step.copyRole] ?? step.copyRole}${step.notifyClient ? " (cc)" : ""}` : null]
+                        .filter(Boolean)
+                        .join(", ")}
+                    </TableCell>
+                    <TableCell className="space-x-2 text-right">
+                      <Button size="sm" variant="outline" onClick={() => openEditor(step)}>
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() =>
+                          apiRequest("PATCH", `/api/dunning/steps/${step.id}`, { isActive: !step.isActive }).then(() =>
+                            queryClient.invalidateQueries({ queryKey: ["/api/dunning/steps"] })
+                          )
+                        }
+                      >
+                        {step.isActive ? "Turn off" : "Turn on"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Dunning Log</CardTitle>
+          <CardDescription>Latest reminders and escalations, per recipient and channel.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {logsLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : logs.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No reminders sent yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Step</TableHead>
+                  <TableHead>Recipient</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead className="text-right">Due</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {logs.map((log) => (
+                  <TableRow key={log.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(log.sentAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <a className="underline" href={`/payments/work-orders/${log.workOrderId}`}>
+                        {log.invoiceNumber ?? `#${log.invoiceId}`}
+                      </a>
+                      <div className="text-xs text-muted-foreground">{log.daysOverdue} days overdue</div>
+                    </TableCell>
+                    <TableCell>{log.stepName}</TableCell>
+                    <TableCell>
+                      {log.recipientName}
+                      {log.recipientAddress && <div className="text-xs text-muted-foreground">{log.recipientAddress}</div>}
+                    </TableCell>
+                    <TableCell>{CHANNEL_LABELS[log.channel]}</TableCell>
+                    <TableCell className="text-right">₹{Number(log.amountDue).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge variant={log.status === "sent" ? "secondary" : "destructive"} title={log.error ?? undefined}>
+                        {log.status === "sent" ? "Sent" : "Failed"}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit step {editing?.stepNumber}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="dunning-name">Name</Label>
+              <Input id="dunning-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="dunning-offset">Days after due date</Label>
+              <Input
+                id="dunning-offset"
+                type="number"
+                min="0"
+                value={form.offsetDays}
+                onChange={(e) => setForm({ ...form, offsetDays: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Channels</Label>
+              <div className="flex gap-4">
+                {(Object.keys(CHANNEL_LABELS) as Channel[]).map((channel) => (
+                  <label key={channel} className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={form.channels.includes(channel)} onCheckedChange={(checked) => toggleChannel(channel, checked === true)} />
+                    {CHANNEL_LABELS[channel]}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={form.notifyClient} onCheckedChange={(checked) => setForm({ ...form, notifyClient: checked === true })} />
+              Send to the client
+            </label>
+            <div className="space-y-1">
+              <Label>{form.notifyClient ? "Copy staff role" : "Escalate to"}</Label>
+              <Select value={form.copyRole} onValueChange={(copyRole) => setForm({ ...form, copyRole })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ROLE}>Nobody</SelectItem>
+                  {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                    <SelectItem key={role} value={role}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                saveStep.mutate({
+                  name: form.name,
+                  offsetDays: Number(form.offsetDays),
+                  channels: form.channels,
+                  notifyClient: form.notifyClient,
+                  copyRole: form.copyRole === NO_ROLE ? null : form.copyRole,
+                })
+              }
+              disabled={!form.name.trim() || form.channels.length === 0 || saveStep.isPending}
+            >
+              {saveStep.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2 } from "lucide-react";
+
+type Anchor = "ro_accepted" | "campaign_start";
+
+interface InstallmentPart {
+  percent: number;
+  anchor: Anchor;
+  offsetDays: number;
+}
+
+interface InstallmentPlan {
+  id: number;
+  name: string;
+  parts: string;
+  reminderDays: string;
+  isActive: boolean;
+}
+
+const ANCHOR_LABELS: Record<Anchor, string> = { ro_accepted: "RO acceptance", campaign_start: "Campaign start" };
+
+const describePart = (part: InstallmentPart) => {
+  const offset = part.offsetDays === 0 ? "on" : part.offsetDays < 0 ? `${-part.offsetDays}d before` : `${part.offsetDays}d after`;
+  return `${part.percent}% ${offset} ${ANCHOR_LABELS[part.anchor].toLowerCase()}`;
+};
+
+const emptyForm = () => ({
+  name: "",
+  reminderDays: "-3, 0, 7",
+  parts: [{ percent: "100", anchor: "ro_accepted" as Anchor, offsetDays: "0" }],
+});
+
+// Installment plan templates accounts apply to work orders; edits only affect later applications
+export default function InstallmentPlans() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<InstallmentPlan | "new" | null>(null);
+  const [form, setForm] = useState(emptyForm());
+
+  const { data: plans = [], isLoading } = useQuery<InstallmentPlan[]>({ queryKey: ["/api/installment-plans", { all: "true" }] });
+
+  const savePlan = useMutation({
+    mutationFn: async (body: Record<string, unknown>) => {
+      const res =
+        editing && editing !== "new"
+          ? await apiRequest("PATCH", `/api/installment-plans/${editing.id}`, body)
+          : await apiRequest("POST", "/api/installment-plans", body);
+      return res.json();
+    },
+    onSuccess: async () => {
+      setEditing(null);
+      await queryClient.invalidateQueries({ queryKey: ["/api/installment-plans"] });
+      toast({ title: "Installment plan saved" });
+    },
+    onError: (err: any) => {
+      toast({ title: "Could not save plan", description: err?.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  const openEditor = (plan: InstallmentPlan | "new") => {
+    if (plan === "new") {
+      setForm(emptyForm());
+    } else {
+      const parts = JSON.parse(plan.parts) as InstallmentPart[];
+      setForm({
+        name: plan.name,
+        reminderDays: (JSON.parse(plan.reminderDays) as number[]).join(", "),
+        parts: parts.map((part) => ({ percent: String(part.percent), anchor: part.anchor, offsetDays: String(part.offsetDays) })),
+      });
+    }
+    setEditing(plan);
+  };
+
+  const updatePart = (index: number, changes: Partial<(typeof form.parts)[number]>) =>
+    setForm({ ...form, parts: form.parts.map((part, i) => (i === index ? { ...part, ...changes } : part)) });
+
+  const submit = () =>
+    savePlan.mutate({
+      name: form.name,
+      parts: form.parts.map((part) => ({ percent: Number(part.percent), anchor: part.anchor, offsetDays: Number(part.offsetDays) })),
+      reminderDays: form.reminderDays
+        .split(",")
+        .map((day) => day.trim())
+        .filter(Boolean)
+        .map(Number),
+    });
+
+  const totalPercent = form.parts.reduce((sum, part) => sum + (Number(part.percent) || 0), 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Installment Plans</CardTitle>
+          <CardDescription>Templates for splitting a work order into installments and when each falls due.</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openEditor("new")}>
+          <Plus className="mr-1 h-4 w-4" />
+          New Plan
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : plans.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No installment plans yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Installments</TableHead>
+                <TableHead>Reminders (days from due)</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plans.map((plan) => (
+                <TableRow key={plan.id}>
+                  <TableCell className="font-medium">
+                    {plan.name}
+                    {!plan.isActive && (
+                      <Badge variant="outline" className="ml-2">
+                        Inactive
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{(JSON.parse(plan.parts) as InstallmentPart[]).map(describePart).join(", ")}</TableCell>
+                  <TableCell>{(JSON.parse(plan.reminderDays) as number[]).join(", ")}</TableCell>
+                  <TableCell className="space-x-2 text-right">
+                    <Button size="sm" variant="outline" onClick={() => openEditor(plan)}>
+                      Edit
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => apiRequest("PATCH", `/api/installment-plans/${plan.id}`, { isActive: !plan.isActive }).then(() => queryClient.invalidateQueries({ queryKey: ["/api/installment-plans"] }))}
+                    >
+                      {plan.isActive ? "Deactivate" : "Activate"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New installment plan" : "Edit installment plan"}</DialogTitle>
+            <DialogDescription>Work orders already on this plan keep their invoices until the plan is applied again.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="plan-name">Name</Label>
+              <Input id="plan-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            {form.parts.map((part, index) => (
+              <div key={index} className="flex items-end gap-2">
+                <div className="w-20 space-y-1">
+                  <Label>%</Label>
+                  <Input type="number" min="0" value={part.percent} onChange={(e) => updatePart(index, { percent: e.target.value })} />
+                </div>
+                <div className="w-24 space-y-1">
+                  <Label>Days</Label>
+                  <Input type="number" value={part.offsetDays} onChange={(e) => updatePart(index, { offsetDays: e.target.value })} />
+                </div>
+                <div className="flex-1 space-y-1">
+                  <Label>Relative to</Label>
+                  <Select value={part.anchor} onValueChange={(anchor) => updatePart(index, { anchor: anchor as Anchor })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ro_accepted">{ANCHOR_LABELS.ro_accepted}</SelectItem>
+                      <SelectItem value="campaign_start">{ANCHOR_LABELS.campaign_start}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={form.parts.length === 1}
+                  onClick={() => setForm({ ...form, parts: form.parts.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between text-sm">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setForm({ ...form, parts: [...form.parts, { percent: "", anchor: "campaign_start", offsetDays: "0" }] })}
+              >
+                Add installment
+              </Button>
+              <span className={totalPercent === 100 ? "text-muted-foreground" : "text-destructive"}>Total {totalPercent}%</span>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="plan-reminders">Reminder days (relative to each due date)</Label>
+              <Input id="plan-reminders" value={form.reminderDays} onChange={(e) => setForm({ ...form, reminderDays: e.target.value })} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={submit} disabled={!form.name.trim() || savePlan.isPending}>
+              {savePlan.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface Checkout {
+  provider: string;
+  orderId: string;
+  amount: number; // paise
+  currency: string;
+  description: string;
+  key?: string;
+  name?: string;
+}
+
+interface PaymentOrder {
+  id: number;
+  status: "created" | "paid" | "failed";
+  receiptId: number | null;
+  error: string | null;
+}
+
+declare global {
+  interface Window {
+    Razorpay?: any;
+  }
+}
+
+function loadRazorpay(): Promise<void> {
+  if (window.Razorpay) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = "https://checkout.razorpay.com/v1/checkout.js";
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error("Could not load the payment window"));
+    document.body.appendChild(script);
+  });
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// The gateway confirms by webhook, which can land a moment after checkout closes
+async function waitForSettlement(orderId: number): Promise<PaymentOrder> {
+  let order: PaymentOrder | null = null;
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const res = await apiRequest("GET", `/api/payment-orders/${orderId}`);
+    order = await res.json();
+    if (order && order.status !== "created") return order;
+    await wait(1500);
+  }
+  return order as PaymentOrder;
+}
+
+export default function PayOnlineButton({
+  invoiceId,
+  onSettled,
+  label = "Pay Now",
+  size = "sm",
+}: {
+  invoiceId: number;
+  onSettled: () => void | Promise<void>;
+  label?: string;
+  size?: "sm" | "default";
+}) {
+  const { toast } = useToast();
+  const [busy, setBusy] = useState(false);
+  const [testOrder, setTestOrder] = useState<{ id: number; checkout: Checkout } | null>(null);
+
+  const finish = async (orderId: number) => {
+    const order = await waitForSettlement(orderId);
+    if (order.status === "paid" && order.receiptId) {
+      toast({ title: "Payment successful", description: "Your payment has been received." });
+    } else if (order.status === "paid") {
+      toast({ title: "Payment received", description: "Our accounts team will apply it to your invoice shortly." });
+    } else if (order.status === "failed") {
+      toast({ title: "Payment failed", description: order.error || "Please try again", variant: "destructive" });
+    } else {
+      toast({ title: "Payment processing", description: "We will update the invoice as soon as the bank confirms." });
+    }
+    await onSettled();
+  };
+
+  const start = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setBusy(true);
+    try {
+      const res = await apiRequest("POST", `/api/invoices/${invoiceId}/payment-order`);
+      const { order, checkout } = (await res.json()) as { order: PaymentOrder; checkout: Checkout };
+      if (checkout.provider === "razorpay") {
+        await loadRazorpay();
+        const razorpay = new window.Razorpay({
+          key: checkout.key,
+          amount: checkout.amount,
+          currency: checkout.currency,
+          name: checkout.name,
+          description: checkout.description,
+          order_id: checkout.orderId,
+          handler: () => {
+            finish(order.id).finally(() => setBusy(false));
+          },
+          modal: { ondismiss: () => setBusy(false) },
+        });
+        razorpay.open();
+      } else {
+        setTestOrder({ id: order.id, checkout });
+        setBusy(false);
+      }
+    } catch (err: any) {
+      toast({ title: "Could not start payment", description: err?.message || "Please try again", variant: "destructive" });
+      setBusy(false);
+    }
+  };
+
+  const simulate = async (outcome: "success" | "failure") => {
+    if (!testOrder) return;
+    setBusy(true);
+    try {
+      await apiRequest("POST", `/api/payment-orders/${testOrder.id}/simulate`, { outcome });
+      setTestOrder(null);
+      await finish(testOrder.id);
+    } catch (err: any) {
+      toast({ title: "Payment failed", description: err?.message || "Please try again", variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <Button size={size} onClick={start} disabled={busy}>
+        {busy ? "Processing…" : label}
+      </Button>
+      <Dialog open={!!testOrder} onOpenChange={(open) => !open && setTestOrder(null)}>
+        <DialogContent onClick={(e) => e.stopPropagation()}>
+          <DialogHeader>
+            <DialogTitle>Test Checkout</DialogTitle>
+            <DialogDescription>
+              No payment gateway is configured. Choose how this test payment of ₹
+              {((testOrder?.checkout.amount ?? 0) / 100).toLocaleString()} for {testOrder?.checkout.description} should end.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => simulate("failure")} disabled={busy}>
+              Decline
+            </Button>
+            <Button onClick={() => simulate("success")} disabled={busy}>
+              Pay
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
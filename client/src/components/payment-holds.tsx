@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth-context";
+import { useToast } from "@/hooks/use-toast";
+
+interface PaymentDefaultPolicy {
+  id: number;
+  overdueDays: number;
+  isActive: boolean;
+}
+
+interface PaymentHold {
+  id: number;
+  workOrderId: number;
+  clientName: string;
+  status: "pending_approval" | "paused" | "dismissed" | "resolved";
+  daysOverdue: number;
+  amountOverdue: string;
+  liveDeployments: number;
+  pausedDeployments: number;
+  decidedByName: string | null;
+  decisionNote: string | null;
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+const STATUS_LABELS: Record<PaymentHold["status"], string> = {
+  pending_approval: "Awaiting VP",
+  paused: "Paused",
+  dismissed: "Dismissed",
+  resolved: "Resumed",
+};
+
+// Payment default policy (accounts edit it) and the holds it raised (VPs approve or dismiss them)
+export default function PaymentHolds() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canEditPolicy = user?.role === "accounts" || user?.role === "admin";
+  const canDecide = user?.role === "vp" || user?.role === "admin";
+  const [overdueDays, setOverdueDays] = useState("");
+
+  const { data: policy } = useQuery<PaymentDefaultPolicy>({ queryKey: ["/api/payment-holds/policy"] });
+  const { data: holds = [], isLoading } = useQuery<PaymentHold[]>({ queryKey: ["/api/payment-holds"] });
+
+  useEffect(() => {
+    if (policy) setOverdueDays(String(policy.overdueDays));
+  }, [policy]);
+
+  const savePolicy = useMutation({
+    mutationFn: async (body: Partial<PaymentDefaultPolicy>) => {
+      const res = await apiRequest("PATCH", "/api/payment-holds/policy", body);
+      return res.json();
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/payment-holds/policy"] });
+      toast({ title: "Payment default policy saved" });
+    },
+    onError: (err: any) => {
+      toast({ title: "Could not save policy", description: err?.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  const decide = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: "approve" | "dismiss" }) => {
+      const res = await apiRequest("POST", `/api/payment-holds/${id}/${action}`);
+      return res.json();
+    },
+    onSuccess: async (_result, { action }) => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/payment-holds"] });
+      toast({ title: action === "approve" ? "Campaign paused" : "Hold dismissed" });
+    },
+    onError: (err: any) => {
+      toast({ title: "Could not update hold", description: err?.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      {policy && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Payment Default Policy</CardTitle>
+            <CardDescription>
+              Work orders with live campaigns are flagged once an invoice is this many days overdue. A VP approval pauses
+              the campaign; it resumes automatically when the overdue amount is received.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="default-overdue-days">Days overdue</Label>
+              <Input
+                id="default-overdue-days"
+                type="number"
+                min="1"
+                className="w-32"
+                value={overdueDays}
+                disabled={!canEditPolicy}
+                onChange={(e) => setOverdueDays(e.target.value)}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Switch
+                checked={policy.isActive}
+                disabled={!canEditPolicy || savePolicy.isPending}
+                onCheckedChange={(isActive) => savePolicy.mutate({ isActive })}
+              />
+              {policy.isActive ? "Enabled" : "Disabled"}
+            </label>
+            {canEditPolicy && (
+              <Button
+                size="sm"
+                onClick={() => savePolicy.mutate({ overdueDays: Number(overdueDays) })}
+                disabled={savePolicy.isPending || Number(overdueDays) === policy.overdueDays}
+              >
+                Save
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Payment Holds</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : holds.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No work order has been flagged for payment default.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Work Order</TableHead>
+                  <TableHead className="text-right">Overdue</TableHead>
+                  <TableHead>Flagged</TableHead>
+                  <TableHead>Deployments</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {holds.map((hold) => (
+                  <TableRow key={hold.id}>
+                    <TableCell>
+                      <div className="font-medium">WO #{hold.workOrderId}</div>
+                      <div className="text-xs text-muted-foreground">{hold.clientName}</div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      ₹{Number(hold.amountOverdue).toLocaleString()}
+                      <div className="text-xs text-muted-foreground">{hold.daysOverdue} days</div>
+                    </TableCell>
+                    <TableCell>{new Date(hold.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>{hold.status === "paused" ? `${hold.pausedDeployments} paused` : `${hold.liveDeployments} live`}</TableCell>
+                    <TableCell>
+                      <Badge variant={hold.status === "paused" ? "destructive" : hold.status === "pending_approval" ? "default" : "secondary"}>
+                        {STATUS_LABELS[hold.status]}
+                      </Badge>
+                      {hold.decidedByName && <div className="text-xs text-muted-foreground">by {hold.decidedByName}</div>}
+                    </TableCell>
+                    <TableCell className="space-x-2 text-right">
+                      {canDecide && hold.status === "pending_approval" && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            disabled={decide.isPending}
+                            onClick={() => decide.mutate({ id: hold.id, action: "approve" })}
+                          >
+                            Pause campaign
+                          </Button>
+                          <Button size="sm" variant="outline" disabled={decide.isPending} onClick={() => decide.mutate({ id: hold.id, action: "dismiss" })}>
+                            Dismiss
+                          </Button>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Upload } from "lucide-react";
+
+interface OutstandingTds {
+  clientId: number;
+  clientName: string;
+  financialYear: string;
+  quarter: number;
+  tdsAmount: number;
+  receiptIds: number[];
+  certificateDueOn: string;
+  overdue: boolean;
+}
+
+interface TdsCertificate {
+  id: number;
+  clientId: number;
+  financialYear: string;
+  quarter: number;
+  certificateNumber: string;
+  tdsAmount: string;
+  fileUrl: string;
+  createdAt: string;
+}
+
+const QUARTER_LABELS = ["Apr–Jun", "Jul–Sep", "Oct–Dec", "Jan–Mar"];
+
+function formatCurrency(amount: number | string | null | undefined) {
+  const value = Number(amount ?? 0);
+  if (Number.isNaN(value)) return "₹0";
+  return `₹${value.toLocaleString()}`;
+}
+
+const periodLabel = (financialYear: string, quarter: number) => `FY ${financialYear} Q${quarter} (${QUARTER_LABELS[quarter - 1]})`;
+
+// Outstanding Form 16A per client and quarter, with upload; `showClient` is off on the client's own page
+export default function TdsCertificates({ showClient = true }: { showClient?: boolean }) {
+  const { toast } = useToast();
+  const [target, setTarget] = useState<OutstandingTds | null>(null);
+  const [form, setForm] = useState({ certificateNumber: "", tdsAmount: "" });
+  const [file, setFile] = useState<File | null>(null);
+
+  const { data: outstanding = [], isLoading } = useQuery<OutstandingTds[]>({ queryKey: ["/api/tds/outstanding"] });
+  const { data: certificates = [] } = useQuery<TdsCertificate[]>({ queryKey: ["/api/tds/certificates"] });
+
+  const uploadCertificate = useMutation({
+    mutationFn: async () => {
+      if (!target || !file) throw new Error("Choose the certificate PDF");
+      const data = new FormData();
+      data.append("file", file);
+      data.append("clientId", String(target.clientId));
+      data.append("financialYear", target.financialYear);
+      data.append("quarter", String(target.quarter));
+      data.append("certificateNumber", form.certificateNumber);
+      data.append("tdsAmount", form.tdsAmount);
+      const res = await fetch("/api/tds/certificates", { method: "POST", body: data, credentials: "include" });
+      if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || "Upload failed");
+      return res.json();
+    },
+    onSuccess: async (result: { difference: number }) => {
+      setTarget(null);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ["/api/tds/outstanding"] }),
+        queryClient.invalidateQueries({ queryKey: ["/api/tds/certificates"] }),
+      ]);
+      toast({
+        title: "Form 16A uploaded",
+        description:
+          Math.abs(result.difference) >= 1
+            ? `The certified amount differs from the TDS recorded on receipts by ${formatCurrency(result.difference)}.`
+            : undefined,
+      });
+    },
+    onError: (err: any) => {
+      toast({ title: "Could not upload certificate", description: err?.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  const openUpload = (row: OutstandingTds) => {
+    setForm({ certificateNumber: "", tdsAmount: String(row.tdsAmount) });
+    setFile(null);
+    setTarget(row);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Pending TDS Certificates</CardTitle>
+          <CardDescription>TDS deducted on payments that no Form 16A covers yet, by quarter.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : outstanding.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No TDS certificates pending.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {showClient && <TableHead>Client</TableHead>}
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">TDS Deducted</TableHead>
+                  <TableHead>Certificate Due</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {outstanding.map((row) => (
+                  <TableRow key={`${row.clientId}-${row.financialYear}-${row.quarter}`}>
+                    {showClient && <TableCell className="font-medium">{row.clientName}</TableCell>}
+                    <TableCell>{periodLabel(row.financialYear, row.quarter)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.tdsAmount)}</TableCell>
+                    <TableCell>
+                      {new Date(row.certificateDueOn).toLocaleDateString()}
+                      {row.overdue && (
+                        <Badge variant="destructive" className="ml-2">
+                          Overdue
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => openUpload(row)}>
+                        <Upload className="mr-1 h-4 w-4" />
+                        Upload Form 16A
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {certificates.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Received Certificates</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Certificate No.</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Certified TDS</TableHead>
+                  <TableHead>Uploaded</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {certificates.map((certificate) => (
+                  <TableRow key={certificate.id}>
+                    <TableCell className="font-medium">{certificate.certificateNumber}</TableCell>
+                    <TableCell>{periodLabel(certificate.financialYear, certificate.quarter)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(certificate.tdsAmount)}</TableCell>
+                    <TableCell>{new Date(certificate.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="ghost" onClick={() => window.open(certificate.fileUrl, "_blank", "noopener")}>
+                        View
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!target} onOpenChange={(open) => !open && setTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Upload Form 16A</DialogTitle>
+            <DialogDescription>
+              {target ? `${showClient ? `${target.clientName} · ` : ""}${periodLabel(target.financialYear, target.quarter)}` : ""}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="tds-certificate-number">Certificate number</Label>
+              <Input
+                id="tds-certificate-number"
+                value={form.certificateNumber}
+                onChange={(e) => setForm({ ...form, certificateNumber: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="tds-certified-amount">TDS as certified</Label>
+              <Input
+                id="tds-certified-amount"
+                type="number"
+                min="0"
+                value={form.tdsAmount}
+                onChange={(e) => setForm({ ...form, tdsAmount: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="tds-certificate-file">Certificate (PDF)</Label>
+              <Input id="tds-certificate-file" type="file" accept="application/pdf" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => uploadCertificate.mutate()}
+              disabled={!file || !form.certificateNumber.trim() || uploadCertificate.isPending}
+            >
+              {uploadCertificate.isPending ? "Uploading..." : "Upload"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
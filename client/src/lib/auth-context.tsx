@@ -1,5 +1,6 @@
 import { createContext, useContext, useState, useEffect } from "react";
 import type { User } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
 
 type AuthContextType = {
   user: User | null;
@@ -24,7 +25,30 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, [user]);
 
+  // The server session is the source of truth; the cached user only avoids a flash on reload
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/auth/me", { credentials: "include" })
+      .then(async (res) => {
+        if (cancelled) return;
+        if (res.status === 401) {
+          setUser(null);
+          return;
+        }
+        if (res.ok) {
+          const data = await res.json();
+          setUser(data.user);
+        }
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   const logout = () => {
+    fetch("/api/auth/logout", { method: "POST", credentials: "include" }).catch(() => {});
+    queryClient.clear();
     setUser(null);
   };
 
@@ -65,9 +65,6 @@ export default function AccountsDashboard() {
       setUploadingId(workOrderId);
       const form = new FormData();
       form.append("file", file);
-      if (user?.id) {
-        form.append("actorId", String(user.id));
-      }
       const res = await fetch(`/api/work-orders/${workOrderId}/upload-proforma`, {
         method: "POST",
         body: form,
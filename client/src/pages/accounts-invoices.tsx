@@ -8,13 +8,20 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
 import { FileText, Download, Eye, Search, Filter, CheckCircle, Clock, XCircle } from "lucide-react";
 import { useAuth } from "@/lib/auth-context";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 
 interface Invoice {
   id: number;
+  invoiceNumber: string | null;
+  proformaInvoiceId: number | null;
+  creditedInvoiceId: number | null;
+  reason: string | null;
   bookingId: number | null;
   workOrderId: number | null;
   amount: string;
@@ -26,6 +33,12 @@ interface Invoice {
   generatedById: number;
 }
 
+const INVOICE_TYPE_LABELS: Record<string, string> = {
+  proforma: "Proforma",
+  tax_invoice: "Tax Invoice",
+  credit_note: "Credit Note",
+};
+
 const formatCurrency = (value: number | string | null | undefined) => {
   const num = Number(value ?? 0);
   return `₹${num.toLocaleString()}`;
@@ -49,8 +62,12 @@ export default function AccountsInvoicesPage() {
   });
 
   const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState<"all" | "pending" | "completed" | "failed" | "partial">("all");
-  const [typeFilter, setTypeFilter] = useState<"all" | "proforma" | "tax_invoice">("all");
+  const [statusFilter, setStatusFilter] = useState<"all" | "pending" | "completed" | "failed" | "partial" | "cancelled">("all");
+  const [typeFilter, setTypeFilter] = useState<"all" | "proforma" | "tax_invoice" | "credit_note">("all");
+  // Invoice being cancelled or credited from the dialog
+  const [reversal, setReversal] = useState<{ invoice: Invoice; mode: "cancel" | "credit" } | null>(null);
+  const [reversalReason, setReversalReason] = useState("");
+  const [creditAmount, setCreditAmount] = useState("");
 
   // Get client names for invoices
   const invoicesWithDetails = useMemo(() => {
@@ -104,6 +121,50 @@ export default function AccountsInvoicesPage() {
     window.open(`/api/invoices/${invoiceId}/pdf`, "_blank", "noopener");
   };
 
+  // Paid proformas without a tax invoice yet
+  const canIssueTaxInvoice = (invoice: Invoice) =>
+    invoice.invoiceType === "proforma" &&
+    invoice.status === "completed" &&
+    !invoices.some((other) => other.proformaInvoiceId === invoice.id);
+
+  const handleIssueTaxInvoice = async (invoiceId: number) => {
+    try {
+      const res = await apiRequest("POST", `/api/invoices/${invoiceId}/tax-invoice`);
+      const taxInvoice = (await res.json()) as Invoice;
+      toast({ title: "Tax invoice issued", description: taxInvoice.invoiceNumber ?? `Invoice #${taxInvoice.id}` });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+    } catch (error: any) {
+      toast({ title: "Could not issue tax invoice", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const openReversal = (invoice: Invoice, mode: "cancel" | "credit") => {
+    setReversal({ invoice, mode });
+    setReversalReason("");
+    setCreditAmount("");
+  };
+
+  const handleReversal = async () => {
+    if (!reversal) return;
+    try {
+      if (reversal.mode === "cancel") {
+        await apiRequest("POST", `/api/invoices/${reversal.invoice.id}/cancel`, { reason: reversalReason });
+        toast({ title: "Invoice cancelled" });
+      } else {
+        const res = await apiRequest("POST", `/api/invoices/${reversal.invoice.id}/credit-notes`, {
+          reason: reversalReason,
+          amount: creditAmount || undefined,
+        });
+        const creditNote = (await res.json()) as Invoice;
+        toast({ title: "Credit note issued", description: creditNote.invoiceNumber ?? `Invoice #${creditNote.id}` });
+      }
+      setReversal(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+    } catch (error: any) {
+      toast({ title: "Could not update invoice", description: error.message, variant: "destructive" });
+    }
+  };
+
   const handleDownloadInvoice = (invoiceId: number) => {
     const link = document.createElement("a");
     link.href = `/api/invoices/${invoiceId}/pdf`;
@@ -186,6 +247,7 @@ export default function AccountsInvoicesPage() {
             <SelectItem value="completed">Completed</SelectItem>
             <SelectItem value="failed">Failed</SelectItem>
             <SelectItem value="partial">Partial</SelectItem>
+            <SelectItem value="cancelled">Cancelled</SelectItem>
           </SelectContent>
         </Select>
         <Select value={typeFilter} onValueChange={(v: any) => setTypeFilter(v)}>
@@ -196,6 +258,7 @@ export default function AccountsInvoicesPage() {
             <SelectItem value="all">All Types</SelectItem>
             <SelectItem value="proforma">Proforma</SelectItem>
             <SelectItem value="tax_invoice">Tax Invoice</SelectItem>
+            <SelectItem value="credit_note">Credit Note</SelectItem>
           </SelectContent>
         </Select>
       </div>
@@ -239,7 +302,7 @@ export default function AccountsInvoicesPage() {
                 <Card key={invoice.id} className="hover:shadow-md transition">
                   <CardHeader className="flex flex-row items-center justify-between">
                     <div>
-                      <CardTitle className="text-lg">Invoice #{invoice.id}</CardTitle>
+                      <CardTitle className="text-lg">{invoice.invoiceNumber ?? `Invoice #${invoice.id}`}</CardTitle>
                       <CardDescription>
                         {invoice.clientName} • WO #{invoice.workOrderId || "N/A"}
                         {invoice.dueDate && ` • Due: ${new Date(invoice.dueDate).toLocaleDateString()}`}
@@ -250,7 +313,7 @@ export default function AccountsInvoicesPage() {
                         {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
                       </Badge>
                       <Badge variant="outline" className="capitalize">
-                        {invoice.invoiceType === "proforma" ? "Proforma" : "Tax Invoice"}
+                        {INVOICE_TYPE_LABELS[invoice.invoiceType] ?? invoice.invoiceType}
                       </Badge>
                     </div>
                   </CardHeader>
@@ -309,6 +372,16 @@ export default function AccountsInvoicesPage() {
                             View WO
                           </Button>
                         )}
+                        {invoice.invoiceType === "tax_invoice" && invoice.status !== "cancelled" && (
+                          <Button variant="outline" size="sm" onClick={() => openReversal(invoice, "credit")}>
+                            Credit Note
+                          </Button>
+                        )}
+                        {invoice.invoiceType !== "credit_note" && (invoice.status === "pending" || invoice.status === "failed") && (
+                          <Button variant="outline" size="sm" className="text-red-600" onClick={() => openReversal(invoice, "cancel")}>
+                            Cancel
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </CardContent>
@@ -334,7 +407,7 @@ export default function AccountsInvoicesPage() {
                 <Card key={invoice.id} className="hover:shadow-md transition">
                   <CardHeader className="flex flex-row items-center justify-between">
                     <div>
-                      <CardTitle className="text-lg">Invoice #{invoice.id}</CardTitle>
+                      <CardTitle className="text-lg">{invoice.invoiceNumber ?? `Invoice #${invoice.id}`}</CardTitle>
                       <CardDescription>
                         {invoice.clientName} • WO #{invoice.workOrderId || "N/A"}
                         {invoice.dueDate && ` • Due: ${new Date(invoice.dueDate).toLocaleDateString()}`}
@@ -343,7 +416,7 @@ export default function AccountsInvoicesPage() {
                     <div className="flex items-center gap-2">
                       <Badge variant="secondary">Pending</Badge>
                       <Badge variant="outline" className="capitalize">
-                        {invoice.invoiceType === "proforma" ? "Proforma" : "Tax Invoice"}
+                        {INVOICE_TYPE_LABELS[invoice.invoiceType] ?? invoice.invoiceType}
                       </Badge>
                     </div>
                   </CardHeader>
@@ -423,7 +496,7 @@ export default function AccountsInvoicesPage() {
                 <Card key={invoice.id} className="hover:shadow-md transition">
                   <CardHeader className="flex flex-row items-center justify-between">
                     <div>
-                      <CardTitle className="text-lg">Invoice #{invoice.id}</CardTitle>
+                      <CardTitle className="text-lg">{invoice.invoiceNumber ?? `Invoice #${invoice.id}`}</CardTitle>
                       <CardDescription>
                         {invoice.clientName} • WO #{invoice.workOrderId || "N/A"}
                         {invoice.dueDate && ` • Due: ${new Date(invoice.dueDate).toLocaleDateString()}`}
@@ -432,7 +505,7 @@ export default function AccountsInvoicesPage() {
                     <div className="flex items-center gap-2">
                       <Badge variant="default">Completed</Badge>
                       <Badge variant="outline" className="capitalize">
-                        {invoice.invoiceType === "proforma" ? "Proforma" : "Tax Invoice"}
+                        {INVOICE_TYPE_LABELS[invoice.invoiceType] ?? invoice.invoiceType}
                       </Badge>
                     </div>
                   </CardHeader>
@@ -451,6 +524,12 @@ export default function AccountsInvoicesPage() {
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
+                        {canIssueTaxInvoice(invoice) && (
+                          <Button size="sm" onClick={() => handleIssueTaxInvoice(invoice.id)} className="gap-2">
+                            <FileText className="h-4 w-4" />
+                            Issue Tax Invoice
+                          </Button>
+                        )}
                         <Button
                           variant="outline"
                           size="sm"
@@ -503,7 +582,7 @@ export default function AccountsInvoicesPage() {
                 <Card key={invoice.id} className="hover:shadow-md transition border-red-200">
                   <CardHeader className="flex flex-row items-center justify-between">
                     <div>
-                      <CardTitle className="text-lg">Invoice #{invoice.id}</CardTitle>
+                      <CardTitle className="text-lg">{invoice.invoiceNumber ?? `Invoice #${invoice.id}`}</CardTitle>
                       <CardDescription>
                         {invoice.clientName} • WO #{invoice.workOrderId || "N/A"}
                       </CardDescription>
@@ -511,7 +590,7 @@ export default function AccountsInvoicesPage() {
                     <div className="flex items-center gap-2">
                       <Badge variant="destructive">Failed</Badge>
                       <Badge variant="outline" className="capitalize">
-                        {invoice.invoiceType === "proforma" ? "Proforma" : "Tax Invoice"}
+                        {INVOICE_TYPE_LABELS[invoice.invoiceType] ?? invoice.invoiceType}
                       </Badge>
                     </div>
                   </CardHeader>
@@ -566,6 +645,44 @@ export default function AccountsInvoicesPage() {
           )}
         </TabsContent>
       </Tabs>
+
+      <Dialog open={!!reversal} onOpenChange={(open) => !open && setReversal(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{reversal?.mode === "cancel" ? "Cancel invoice" : "Issue credit note"}</DialogTitle>
+            <DialogDescription>
+              {reversal?.mode === "cancel"
+                ? "The invoice is kept and marked cancelled. A tax invoice is reversed by a credit note for its full amount."
+                : "Reverses part or all of this tax invoice, including its GST. Leave the amount empty to credit the remaining balance."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {reversal?.mode === "credit" && (
+              <div className="space-y-1">
+                <Label htmlFor="credit-amount">Amount incl. GST (max {formatCurrency(reversal.invoice.amount)})</Label>
+                <Input id="credit-amount" type="number" min="0" value={creditAmount} onChange={(e) => setCreditAmount(e.target.value)} />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="reversal-reason">Reason</Label>
+              <Textarea
+                id="reversal-reason"
+                value={reversalReason}
+                onChange={(e) => setReversalReason(e.target.value)}
+                placeholder="e.g. Campaign ended early, slot withdrawn"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReversal(null)}>
+              Close
+            </Button>
+            <Button onClick={handleReversal} disabled={!reversalReason.trim()}>
+              {reversal?.mode === "cancel" ? "Cancel Invoice" : "Issue Credit Note"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
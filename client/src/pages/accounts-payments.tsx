@@ -12,6 +12,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useAuth } from "@/lib/auth-context";
+import BankReconciliation from "@/components/bank-reconciliation";
+import TdsCertificates from "@/components/tds-certificates";
+import InstallmentPlans from "@/components/installment-plans";
+import Dunning from "@/components/dunning";
+import PaymentHolds from "@/components/payment-holds";
 import {
   DollarSign,
   AlertTriangle,
@@ -73,6 +78,13 @@ export default function AccountsPaymentsPage() {
     queryKey: ["/api/release-orders"],
   });
 
+  // Server-side balances count receipts plus the TDS clients deducted, net of credit notes
+  const { data: balances = [] } = useQuery<
+    Array<{ workOrderId: number; paidAmount: number; tdsAmount: number; creditedAmount: number; pendingAmount: number }>
+  >({
+    queryKey: ["/api/accounts/payments"],
+  });
+
   // Get all clients
   const clients = useMemo(() => {
     const clientSet = new Set<number>();
@@ -96,10 +108,10 @@ export default function AccountsPaymentsPage() {
         const releaseOrder = releaseOrders.find((ro) => ro.workOrderId === wo.id);
         
         const totalAmount = Number(wo.totalAmount ?? 0);
-        const paidAmount = woInvoices
-          .filter((inv) => inv.status === "completed")
-          .reduce((sum, inv) => sum + Number(inv.amount ?? 0), 0);
-        const pendingAmount = totalAmount - paidAmount;
+        const balance = balances.find((b) => b.workOrderId === wo.id);
+        const paidAmount = balance?.paidAmount ?? 0;
+        const tdsAmount = balance?.tdsAmount ?? 0;
+        const pendingAmount = balance?.pendingAmount ?? totalAmount;
         
         // Check for overdue
         const dueDate = proformaInvoice?.dueDate || releaseOrder?.dueDate || null;
@@ -112,9 +124,9 @@ export default function AccountsPaymentsPage() {
         // 1. Paid amount >= total amount AND
         // 2. Work order status is "paid" (manager has approved)
         let paymentStatus: "paid" | "pending" | "overdue" | "due_soon" = "pending";
-        if (paidAmount >= totalAmount && wo.status === "paid") {
+        if (pendingAmount <= 0 && wo.status === "paid") {
           paymentStatus = "paid";
-        } else if (paidAmount >= totalAmount && wo.status !== "paid") {
+        } else if (pendingAmount <= 0 && wo.status !== "paid") {
           // Payment received but not yet approved by manager
           paymentStatus = "pending";
         } else if (isOverdue) {
@@ -130,6 +142,7 @@ export default function AccountsPaymentsPage() {
           paymentMode: wo.paymentMode || "full",
           totalAmount,
           paidAmount,
+          tdsAmount,
           pendingAmount,
           dueDate,
           daysOverdue,
@@ -142,7 +155,7 @@ export default function AccountsPaymentsPage() {
           items: items || [],
         };
       });
-  }, [workOrdersData, invoices, releaseOrders]);
+  }, [workOrdersData, invoices, releaseOrders, balances]);
 
   // Filter payment data
   const filteredPayments = useMemo(() => {
@@ -394,6 +407,11 @@ export default function AccountsPaymentsPage() {
           <TabsTrigger value="overdue">Overdue ({overduePayments.length})</TabsTrigger>
           <TabsTrigger value="by-client">By Client</TabsTrigger>
           <TabsTrigger value="by-slot">By Slot</TabsTrigger>
+          <TabsTrigger value="bank-reconciliation">Bank Reconciliation</TabsTrigger>
+          <TabsTrigger value="tds">TDS</TabsTrigger>
+          <TabsTrigger value="installment-plans">Installment Plans</TabsTrigger>
+          <TabsTrigger value="dunning">Dunning</TabsTrigger>
+          <TabsTrigger value="payment-holds">Payment Holds</TabsTrigger>
         </TabsList>
 
         <TabsContent value="all-payments" className="space-y-4">
@@ -500,6 +518,9 @@ export default function AccountsPaymentsPage() {
                           <TableCell>{formatCurrency(payment.totalAmount)}</TableCell>
                           <TableCell className="text-emerald-600 font-medium">
                             {formatCurrency(payment.paidAmount)}
+                            {payment.tdsAmount > 0 && (
+                              <div className="text-xs font-normal text-muted-foreground">incl. TDS {formatCurrency(payment.tdsAmount)}</div>
+                            )}
                           </TableCell>
                           <TableCell className="text-orange-600 font-medium">
                             {formatCurrency(payment.pendingAmount)}
@@ -728,6 +749,26 @@ export default function AccountsPaymentsPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="bank-reconciliation" className="space-y-4">
+          <BankReconciliation />
+        </TabsContent>
+
+        <TabsContent value="tds" className="space-y-4">
+          <TdsCertificates />
+        </TabsContent>
+
+        <TabsContent value="installment-plans" className="space-y-4">
+          <InstallmentPlans />
+        </TabsContent>
+
+        <TabsContent value="dunning" className="space-y-4">
+          <Dunning />
+        </TabsContent>
+
+        <TabsContent value="payment-holds" className="space-y-4">
+          <PaymentHolds />
+        </TabsContent>
       </Tabs>
     </div>
   );
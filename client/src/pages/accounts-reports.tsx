@@ -18,6 +18,11 @@ interface Invoice {
   invoiceType?: string;
   dueDate?: string | null;
   generatedAt: string;
+  taxableAmount?: string | null;
+  supplyType?: "intra_state" | "inter_state" | null;
+  cgstAmount?: string;
+  sgstAmount?: string;
+  igstAmount?: string;
 }
 
 function formatCurrency(amount: number | string | null | undefined) {
@@ -107,6 +112,23 @@ export default function AccountsReportsPage() {
     };
   }, [invoices]);
 
+  // GST collected on tax invoices, from the breakup stored on each invoice
+  const gstMetrics = useMemo(() => {
+    const taxInvoices = invoices.filter((inv) => inv.invoiceType === "tax_invoice");
+    // Credit notes reverse the GST of the invoices they credit
+    const taxDocuments = invoices.filter((inv) => inv.invoiceType === "tax_invoice" || inv.invoiceType === "credit_note");
+    const sum = (pick: (inv: Invoice) => string | null | undefined) =>
+      taxDocuments.reduce((total, inv) => total + (inv.invoiceType === "credit_note" ? -1 : 1) * Number(pick(inv) ?? 0), 0);
+    return {
+      taxable: sum((inv) => inv.taxableAmount),
+      cgst: sum((inv) => inv.cgstAmount),
+      sgst: sum((inv) => inv.sgstAmount),
+      igst: sum((inv) => inv.igstAmount),
+      intraStateCount: taxInvoices.filter((inv) => inv.supplyType === "intra_state").length,
+      interStateCount: taxInvoices.filter((inv) => inv.supplyType === "inter_state").length,
+    };
+  }, [invoices]);
+
   // Revenue Trends Chart Data
   const revenueChartData = useMemo(() => {
     const now = new Date();
@@ -341,6 +363,39 @@ export default function AccountsReportsPage() {
             </Card>
           </div>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>GST on Tax Invoices (net of credit notes)</CardTitle>
+              <CardDescription>
+                Intra-state (CGST + SGST): {gstMetrics.intraStateCount} • Inter-state (IGST): {gstMetrics.interStateCount}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <Skeleton className="h-6 w-full" />
+              ) : (
+                <div className="grid gap-4 text-sm md:grid-cols-4">
+                  <div>
+                    <div className="text-muted-foreground">Taxable value</div>
+                    <div className="text-lg font-semibold">{formatCurrency(gstMetrics.taxable)}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">CGST</div>
+                    <div className="text-lg font-semibold">{formatCurrency(gstMetrics.cgst)}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">SGST</div>
+                    <div className="text-lg font-semibold">{formatCurrency(gstMetrics.sgst)}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">IGST</div>
+                    <div className="text-lg font-semibold">{formatCurrency(gstMetrics.igst)}</div>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Invoice Status Distribution */}
           <div className="grid gap-4 md:grid-cols-2">
             <Card>
@@ -120,7 +120,7 @@ function WorkOrderCard({ workOrder, items }: { workOrder: any; items: any[] }) {
                 <span className="text-green-600 font-medium">Proforma invoice available - Banners can now be uploaded</span>
                 {proformaInvoice && (
                   <div className="text-xs text-muted-foreground">
-                    Invoice #{proformaInvoice.id} • ₹{Number(proformaInvoice.amount).toLocaleString()}
+                    {proformaInvoice.invoiceNumber ?? `Invoice #${proformaInvoice.id}`} • ₹{Number(proformaInvoice.amount).toLocaleString()}
                   </div>
                 )}
               </div>
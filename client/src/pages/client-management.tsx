@@ -7,6 +7,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 import { Textarea } from "@/components/ui/textarea";
+import ClientStatementDialog from "@/components/client-statement";
 
 type Client = {
   id: number;
@@ -24,6 +25,7 @@ export default function ClientManagementPage() {
   const [q, setQ] = useState("");
   const [editing, setEditing] = useState<Client | null>(null);
   const [createOpen, setCreateOpen] = useState(false);
+  const [statementFor, setStatementFor] = useState<Client | null>(null);
   const [newClient, setNewClient] = useState<Partial<Client>>({
     name: "",
     email: "",
@@ -129,6 +131,7 @@ export default function ClientManagementPage() {
               </div>
               <div className="flex items-center gap-2 shrink-0">
                 <Button size="sm" variant="secondary" onClick={() => setEditing(c)}>Edit</Button>
+                <Button size="sm" variant="outline" onClick={() => setStatementFor(c)}>Statement</Button>
                 <Button size="sm" onClick={() => navigate(`/manager/work-orders/new?clientId=${c.id}`)}>Add Work Order</Button>
               </div>
             </CardContent>
@@ -136,6 +139,15 @@ export default function ClientManagementPage() {
         ))}
       </div>
 
+      {statementFor && (
+        <ClientStatementDialog
+          clientId={statementFor.id}
+          clientName={statementFor.businessSchoolName || statementFor.name}
+          open={!!statementFor}
+          onOpenChange={(open) => !open && setStatementFor(null)}
+        />
+      )}
+
       <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
         <DialogContent className="sm:max-w-[560px]">
           <DialogHeader>
@@ -1,16 +1,25 @@
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/lib/auth-context";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
+import PayOnlineButton from "@/components/pay-online-button";
+import TdsCertificates from "@/components/tds-certificates";
+import ClientStatementDialog from "@/components/client-statement";
+
+const INVOICE_STATUS_LABELS: Record<string, string> = {
+  completed: "Paid",
+  partial: "Partially Paid",
+  cancelled: "Cancelled",
+};
 
 export default function ClientPayments() {
   const { user } = useAuth();
-  const { toast } = useToast();
+  const [statementOpen, setStatementOpen] = useState(false);
 
   const { data, isLoading } = useQuery<{ workOrder: any; items: any[] }[]>({
     queryKey: ["/api/work-orders", { clientId: user?.id }],
@@ -29,9 +38,16 @@ export default function ClientPayments() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold">Payments</h1>
-        <p className="text-muted-foreground">View invoices and complete payments</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Payments</h1>
+          <p className="text-muted-foreground">View invoices and complete payments</p>
+        </div>
+        {user && (
+          <Button variant="outline" onClick={() => setStatementOpen(true)}>
+            Statement of Account
+          </Button>
+        )}
       </div>
 
       {isLoading ? (
@@ -45,15 +61,18 @@ export default function ClientPayments() {
       ) : (
         <div className="space-y-3">
           {sortedData.map(({ workOrder }) => (
-            <WorkOrderInvoices key={workOrder.id} workOrder={workOrder} onPaid={() => toast({ title: 'Payment successful' })} />
+            <WorkOrderInvoices key={workOrder.id} workOrder={workOrder} />
           ))}
         </div>
       )}
+
+      <TdsCertificates showClient={false} />
+      {user && <ClientStatementDialog clientId={user.id} open={statementOpen} onOpenChange={setStatementOpen} />}
     </div>
   );
 }
 
-function WorkOrderInvoices({ workOrder, onPaid }: { workOrder: any; onPaid: () => void }) {
+function WorkOrderInvoices({ workOrder }: { workOrder: any }) {
   const [, navigate] = useLocation();
   const { data: invoices = [], isLoading } = useQuery<any[]>({
     queryKey: [`/api/invoices/work-order/${workOrder.id}`],
@@ -73,8 +92,8 @@ function WorkOrderInvoices({ workOrder, onPaid }: { workOrder: any; onPaid: () =
         {invoices.map((inv) => (
           <div key={inv.id} className="flex items-center justify-between border rounded-md p-2 text-sm">
             <div className="space-y-0.5">
-              <div>Invoice #{inv.id} • ₹{Number(inv.amount).toLocaleString()}</div>
-              <div className="text-muted-foreground">Status: {inv.status === 'completed' ? 'Paid' : 'Not Paid'}</div>
+              <div>{inv.invoiceNumber ?? `Invoice #${inv.id}`} • ₹{Number(inv.amount).toLocaleString()}</div>
+              <div className="text-muted-foreground">Status: {INVOICE_STATUS_LABELS[inv.status] ?? 'Not Paid'}</div>
             </div>
             <div className="flex items-center gap-2">
               <Button
@@ -87,12 +106,12 @@ function WorkOrderInvoices({ workOrder, onPaid }: { workOrder: any; onPaid: () =
               >
                 Download PDF
               </Button>
-              {inv.status !== 'completed' && (
-                <Button size="sm" onClick={async (e) => {
-                  e.stopPropagation();
-                  await fetch(`/api/invoices/${inv.id}/pay`, { method: 'POST' }).then(r => r.ok ? r.json() : Promise.reject(r));
-                  onPaid();
-                }}>Pay</Button>
+              {['pending', 'partial', 'failed'].includes(inv.status) && inv.invoiceType !== 'credit_note' && (
+                <PayOnlineButton
+                  invoiceId={inv.id}
+                  label="Pay"
+                  onSettled={() => queryClient.invalidateQueries({ queryKey: [`/api/invoices/work-order/${workOrder.id}`] })}
+                />
               )}
             </div>
           </div>
@@ -82,7 +82,6 @@ export default function ITDashboard() {
           releaseOrderId,
           workOrderItemId: itemId,
           bannerUrl,
-          deployedById: user?.id,
         }),
       });
       if (!res.ok) throw new Error(await res.text());
@@ -6,8 +6,10 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Server, CheckCircle, XCircle, Clock, Upload, Download, Eye, AlertCircle } from "lucide-react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Server, CheckCircle, XCircle, Clock, Upload, Download, Eye, AlertCircle, RefreshCw, ClipboardCheck } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth-context";
@@ -41,6 +43,10 @@ export default function ITDeploymentsPage() {
   const [, navigate] = useLocation();
   const [selectedItem, setSelectedItem] = useState<any | null>(null);
   const [deployDialogOpen, setDeployDialogOpen] = useState(false);
+  const [takeDownItem, setTakeDownItem] = useState<any | null>(null);
+  const [takeDownReason, setTakeDownReason] = useState("");
+  const [replaceItem, setReplaceItem] = useState<any | null>(null);
+  const [replacementFile, setReplacementFile] = useState<File | null>(null);
 
   if (!user || user.role !== "it") {
     return <Redirect to="/" />;
@@ -66,10 +72,16 @@ export default function ITDeploymentsPage() {
           const deployment = deployments.find((d: any) => d.workOrderItemId === it.id);
           
           // Determine deployment status
-          let deploymentStatus: "pending" | "deployed" | "expired" = "pending";
+          let deploymentStatus: "pending" | "deployed" | "expired" | "paused" | "removed" = "pending";
           if (deployment) {
             if (deployment.status === "expired") {
               deploymentStatus = "expired";
+            } else if (deployment.status === "removed") {
+              // Taken down before its end date
+              deploymentStatus = "removed";
+            } else if (deployment.status === "paused") {
+              // Taken down for payment default; comes back when the overdue payment is received
+              deploymentStatus = "paused";
             } else if (deployment.status === "deployed") {
               // Check if campaign has expired
               const endDate = new Date(it.endDate);
@@ -108,8 +120,10 @@ export default function ITDeploymentsPage() {
 
   // Separate by status
   const pendingItems = itemsToDeploy.filter((item) => item.deploymentStatus === "pending");
-  const deployedItems = itemsToDeploy.filter((item) => item.deploymentStatus === "deployed");
-  const expiredItems = itemsToDeploy.filter((item) => item.deploymentStatus === "expired");
+  const deployedItems = itemsToDeploy.filter((item) => item.deploymentStatus === "deployed" || item.deploymentStatus === "paused");
+  const expiredItems = itemsToDeploy.filter((item) => item.deploymentStatus === "expired" || item.deploymentStatus === "removed");
+  // Expired deployments IT still has to take off their slots
+  const removalChecklist = itemsToDeploy.filter((item) => item.deployment?.status === "expired" && !item.deployment.removedAt);
 
   // Check for items expiring in 2 days
   const now = new Date();
@@ -127,7 +141,6 @@ export default function ITDeploymentsPage() {
         releaseOrderId,
         workOrderItemId: itemId,
         bannerUrl,
-        deployedById: user?.id,
       });
     },
     onSuccess: () => {
@@ -149,6 +162,44 @@ export default function ITDeploymentsPage() {
     },
   });
 
+  const onDeploymentChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/release-orders", { status: "accepted" }] });
+    queryClient.invalidateQueries({ queryKey: ["/api/deployments"] });
+  };
+
+  const removeMutation = useMutation({
+    mutationFn: async ({ deploymentId, reason }: { deploymentId: number; reason?: string }) => {
+      const res = await apiRequest("POST", `/api/deployments/${deploymentId}/remove`, { reason });
+      return res.json();
+    },
+    onSuccess: () => {
+      onDeploymentChanged();
+      toast({ title: "Banner taken down" });
+      setTakeDownItem(null);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to take down banner", variant: "destructive" });
+    },
+  });
+
+  const replaceMutation = useMutation({
+    mutationFn: async ({ deploymentId, file }: { deploymentId: number; file: File }) => {
+      const data = new FormData();
+      data.append("file", file);
+      const res = await fetch(`/api/deployments/${deploymentId}/replace`, { method: "POST", body: data, credentials: "include" });
+      if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || "Replace failed");
+      return res.json();
+    },
+    onSuccess: () => {
+      onDeploymentChanged();
+      toast({ title: "Banner replaced", description: "The new creative is live on the slot" });
+      setReplaceItem(null);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to replace banner", variant: "destructive" });
+    },
+  });
+
   const getSlotInfo = (item: any) => {
     if (item.slot) {
       return {
@@ -184,8 +235,20 @@ export default function ITDeploymentsPage() {
               {item.client?.name || item.workOrder?.contactName || `Client #${item.workOrder?.clientId}`}
             </CardDescription>
           </div>
-          <Badge variant={item.deploymentStatus === "deployed" ? "default" : item.deploymentStatus === "expired" ? "destructive" : "secondary"}>
-            {item.deploymentStatus === "deployed" ? "Deployed" : item.deploymentStatus === "expired" ? "Expired" : "Pending"}
+          <Badge
+            variant={
+              item.deploymentStatus === "deployed" ? "default" : item.deploymentStatus === "expired" || item.deploymentStatus === "paused" ? "destructive" : "secondary"
+            }
+          >
+            {item.deploymentStatus === "deployed"
+              ? "Deployed"
+              : item.deploymentStatus === "expired"
+              ? "Expired"
+              : item.deploymentStatus === "paused"
+              ? "Paused (payment)"
+              : item.deploymentStatus === "removed"
+              ? "Removed"
+              : "Pending"}
           </Badge>
         </CardHeader>
         <CardContent>
@@ -230,9 +293,17 @@ export default function ITDeploymentsPage() {
                 <div className="mt-1 space-y-1 text-xs">
                   <p>Deployed on: {new Date(deployment.deployedAt).toLocaleString()}</p>
                   <p>Campaign ended: {new Date(item.endDate).toLocaleString()}</p>
+                  <p>{deployment.removedAt ? `Taken down: ${new Date(deployment.removedAt).toLocaleString()}` : "Still on the slot — take it down"}</p>
                 </div>
               </div>
             )}
+
+            {item.deploymentStatus === "removed" && deployment && (
+              <div className="rounded-md border p-3 text-sm text-muted-foreground">
+                <p className="font-semibold">Taken Down Early</p>
+                <p className="mt-1 text-xs">Removed on: {new Date(deployment.removedAt).toLocaleString()}</p>
+              </div>
+            )}
             
             {item.bannerUrl && (
               <div className="flex items-center gap-2">
@@ -281,6 +352,45 @@ export default function ITDeploymentsPage() {
                     View Details
                   </Button>
                 )}
+                {item.deploymentStatus === "deployed" && deployment?.status === "deployed" && (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => {
+                        setReplacementFile(null);
+                        setReplaceItem(item);
+                      }}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                      Replace Banner
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => {
+                        setTakeDownReason("");
+                        setTakeDownItem(item);
+                      }}
+                    >
+                      <XCircle className="h-4 w-4" />
+                      Take Down
+                    </Button>
+                  </>
+                )}
+                {deployment?.status === "expired" && !deployment.removedAt && (
+                  <Button
+                    size="sm"
+                    className="gap-2"
+                    disabled={removeMutation.isPending}
+                    onClick={() => removeMutation.mutate({ deploymentId: deployment.id })}
+                  >
+                    <CheckCircle className="h-4 w-4" />
+                    Mark Taken Down
+                  </Button>
+                )}
               </div>
             )}
           </div>
@@ -320,6 +430,37 @@ export default function ITDeploymentsPage() {
         </Card>
       )}
 
+      {removalChecklist.length > 0 && (
+        <Card className="border-red-200 bg-red-50">
+          <CardHeader>
+            <CardTitle className="text-red-900 flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5" />
+              Removal Checklist
+            </CardTitle>
+            <CardDescription className="text-red-800">
+              Campaigns that have ended; take each banner off its slot and tick it off.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {removalChecklist.map((item) => (
+              <div key={`rm-${item.deployment.id}`} className="flex items-center justify-between text-sm text-red-900">
+                <span>
+                  RO #{item.releaseOrder.id} • ended {item.endDate} • {getSlotInfo(item).mediaType} • {getSlotInfo(item).position}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={removeMutation.isPending}
+                  onClick={() => removeMutation.mutate({ deploymentId: item.deployment.id })}
+                >
+                  Mark Taken Down
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       <Tabs defaultValue="pending" className="w-full">
         <TabsList>
           <TabsTrigger value="pending">
@@ -329,7 +470,7 @@ export default function ITDeploymentsPage() {
             Deployed ({deployedItems.length})
           </TabsTrigger>
           <TabsTrigger value="expired">
-            Expired ({expiredItems.length})
+            Expired & Removed ({expiredItems.length})
           </TabsTrigger>
         </TabsList>
 
@@ -545,6 +686,59 @@ export default function ITDeploymentsPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!takeDownItem} onOpenChange={(open) => !open && setTakeDownItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Take down banner</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 text-sm">
+            <p className="text-muted-foreground">
+              RO #{takeDownItem?.releaseOrder.id} • runs until {takeDownItem?.endDate}. The slot stops showing this banner now.
+            </p>
+            <Label htmlFor="take-down-reason">Reason</Label>
+            <Input id="take-down-reason" value={takeDownReason} onChange={(e) => setTakeDownReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTakeDownItem(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={removeMutation.isPending || !takeDownReason.trim()}
+              onClick={() => removeMutation.mutate({ deploymentId: takeDownItem.deployment.id, reason: takeDownReason })}
+            >
+              {removeMutation.isPending ? "Taking down..." : "Take Down"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!replaceItem} onOpenChange={(open) => !open && setReplaceItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Replace banner</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 text-sm">
+            <p className="text-muted-foreground">
+              The new creative goes live on the same slot; the current one is kept in the deployment history.
+            </p>
+            <Label htmlFor="replacement-banner">New banner (image, below 500KB)</Label>
+            <Input id="replacement-banner" type="file" accept="image/jpeg,image/png,image/gif,image/webp" onChange={(e) => setReplacementFile(e.target.files?.[0] ?? null)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReplaceItem(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={replaceMutation.isPending || !replacementFile}
+              onClick={() => replacementFile && replaceMutation.mutate({ deploymentId: replaceItem.deployment.id, file: replacementFile })}
+            >
+              {replaceMutation.isPending ? "Replacing..." : "Replace"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -1,14 +1,20 @@
 import { useMemo, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Redirect } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { Slot } from "@shared/schema";
 import { useAuth } from "@/lib/auth-context";
-import { Settings, Search } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Settings, Search, Code, ImageIcon } from "lucide-react";
 
 const MEDIA_OPTIONS: Array<{ value: "all" | Slot["mediaType"]; label: string }> = [
   { value: "all", label: "All media" },
@@ -36,6 +42,16 @@ const PAGE_OPTIONS: Array<{ value: "all" | keyof typeof PAGE_LABELS | "other"; l
   { value: "other", label: "Other" },
 ];
 
+// Only website and mobile slots are filled by the ad-serving API
+const SERVED_MEDIA: Slot["mediaType"][] = ["website", "mobile"];
+
+interface EmbedSnippet {
+  position: string;
+  pageType: string;
+  script: string;
+  iframe: string;
+}
+
 function humanize(value?: string | null) {
   if (!value) return "—";
   return value.replace(/[-_]/g, " ").replace(/\b\w/g, (m) => m.toUpperCase());
@@ -55,6 +71,61 @@ export default function ITSlotMasterPage() {
   const [searchTerm, setSearchTerm] = useState("");
   const [mediaFilter, setMediaFilter] = useState<(typeof MEDIA_OPTIONS)[number]["value"]>("all");
   const [pageFilter, setPageFilter] = useState<(typeof PAGE_OPTIONS)[number]["value"]>("all");
+  const { toast } = useToast();
+  const [houseAdSlot, setHouseAdSlot] = useState<Slot | null>(null);
+  const [houseAdFile, setHouseAdFile] = useState<File | null>(null);
+  const [houseAdLink, setHouseAdLink] = useState("");
+  const [embedSlot, setEmbedSlot] = useState<Slot | null>(null);
+
+  const { data: embed } = useQuery<EmbedSnippet>({
+    queryKey: [`/api/slots/${embedSlot?.id}/embed`],
+    enabled: !!embedSlot,
+  });
+
+  const saveHouseAd = useMutation({
+    mutationFn: async () => {
+      const data = new FormData();
+      if (houseAdFile) data.append("file", houseAdFile);
+      data.append("linkUrl", houseAdLink);
+      const res = await fetch(`/api/slots/${houseAdSlot!.id}/house-ad`, { method: "PUT", body: data, credentials: "include" });
+      if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || "Save failed");
+      return res.json();
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/slots"] });
+      toast({ title: "House ad saved", description: "It is served whenever the slot has nothing live" });
+      setHouseAdSlot(null);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save house ad", variant: "destructive" });
+    },
+  });
+
+  const clearHouseAd = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/slots/${houseAdSlot!.id}/house-ad`);
+      return res.json();
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/slots"] });
+      toast({ title: "House ad removed", description: "The slot stays empty while unsold" });
+      setHouseAdSlot(null);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to remove house ad", variant: "destructive" });
+    },
+  });
+
+  const openHouseAd = (slot: Slot) => {
+    setHouseAdFile(null);
+    setHouseAdLink(slot.houseAdLinkUrl ?? "");
+    setHouseAdSlot(slot);
+  };
+
+  const copy = async (text: string) => {
+    await navigator.clipboard.writeText(text);
+    toast({ title: "Copied to clipboard" });
+  };
 
 
   const filteredSlots = useMemo(() => {
@@ -158,13 +229,107 @@ export default function ITSlotMasterPage() {
                     <span className="text-muted-foreground">Size:</span>{" "}
                     <span className="font-medium">{slot.dimensions}</span>
                   </div>
+                  {SERVED_MEDIA.includes(slot.mediaType) && (
+                    <div>
+                      <span className="text-muted-foreground">House ad:</span>{" "}
+                      {slot.houseAdUrl ? (
+                        <a className="font-medium underline" href={slot.houseAdUrl} target="_blank" rel="noreferrer">
+                          View
+                        </a>
+                      ) : (
+                        <span className="font-medium">None</span>
+                      )}
+                    </div>
+                  )}
                 </div>
+                {SERVED_MEDIA.includes(slot.mediaType) && (
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => openHouseAd(slot)}>
+                      <ImageIcon className="mr-1 h-4 w-4" />
+                      House ad
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setEmbedSlot(slot)}>
+                      <Code className="mr-1 h-4 w-4" />
+                      Embed code
+                    </Button>
+                  </div>
+                )}
               </CardContent>
             </Card>
           ))}
         </div>
       )}
 
+      <Dialog open={!!houseAdSlot} onOpenChange={(open) => !open && setHouseAdSlot(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>House ad for Slot #{houseAdSlot?.id}</DialogTitle>
+            <DialogDescription>Shown on {houseAdSlot?.dimensions} whenever no sold banner is live on the slot.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {houseAdSlot?.houseAdUrl && !houseAdFile && (
+              <img src={houseAdSlot.houseAdUrl} alt="Current house ad" className="max-h-40 rounded border" />
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="house-ad-file">{houseAdSlot?.houseAdUrl ? "Replace image" : "Image"}</Label>
+              <Input id="house-ad-file" type="file" accept="image/jpeg,image/png,image/gif,image/webp" onChange={(e) => setHouseAdFile(e.target.files?.[0] ?? null)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="house-ad-link">Click-through URL</Label>
+              <Input id="house-ad-link" placeholder="https://" value={houseAdLink} onChange={(e) => setHouseAdLink(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            {houseAdSlot?.houseAdUrl && (
+              <Button variant="ghost" onClick={() => clearHouseAd.mutate()} disabled={clearHouseAd.isPending}>
+                Remove
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setHouseAdSlot(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveHouseAd.mutate()} disabled={(!houseAdFile && !houseAdSlot?.houseAdUrl) || saveHouseAd.isPending}>
+              {saveHouseAd.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!embedSlot} onOpenChange={(open) => !open && setEmbedSlot(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Embed code: {humanize(embedSlot?.position)}</DialogTitle>
+            <DialogDescription>
+              Paste once into the {PAGE_LABELS[embedSlot?.pageType ?? ""] || humanize(embedSlot?.pageType)} at this position. The page
+              then shows whatever is live there, or the house ad, with no further edits.
+            </DialogDescription>
+          </DialogHeader>
+          {!embed ? (
+            <Skeleton className="h-32 w-full" />
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <Label>JavaScript</Label>
+                  <Button size="sm" variant="ghost" onClick={() => copy(embed.script)}>
+                    Copy
+                  </Button>
+                </div>
+                <Textarea readOnly rows={3} className="font-mono text-xs" value={embed.script} />
+              </div>
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <Label>iframe</Label>
+                  <Button size="sm" variant="ghost" onClick={() => copy(embed.iframe)}>
+                    Copy
+                  </Button>
+                </div>
+                <Textarea readOnly rows={3} className="font-mono text-xs" value={embed.iframe} />
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -69,7 +69,7 @@ export default function Login() {
     onSuccess: (data, variables) => {
       toast({
         title: "Account Created!",
-        description: "Please check the console for your OTP code.",
+        description: "We have sent a verification code to your phone.",
       });
       setPhone(variables.phone);
       setStep("otp");
@@ -91,7 +91,7 @@ export default function Login() {
     onSuccess: () => {
       toast({
         title: "OTP Sent",
-        description: "Please check the console for your verification code.",
+        description: "We have sent a verification code to your phone.",
       });
       setStep("otp");
     },
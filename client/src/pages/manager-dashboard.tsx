@@ -102,7 +102,6 @@ export default function ManagerDashboard() {
       return await apiRequest("POST", "/api/slots", {
         ...data,
         pricing: String(data.pricing),
-        createdById: user?.id,
       });
     },
     onSuccess: async () => {
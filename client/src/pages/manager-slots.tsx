@@ -19,7 +19,7 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import type { Slot, Booking } from "@shared/schema";
+import type { Slot, Booking, SlotBlock } from "@shared/schema";
 import { useAuth } from "@/lib/auth-context";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -80,6 +80,8 @@ type WorkOrderListEntry = {
   }>;
 };
 
+const todayIso = () => new Date().toISOString().split("T")[0];
+
 function humanize(value?: string | null) {
   if (!value) return "—";
   return value.replace(/[-_]/g, " ").replace(/\b\w/g, (m) => m.toUpperCase());
@@ -101,12 +103,21 @@ export default function ManagerSlotsPage() {
   const { data: workOrders = [], isLoading: workOrdersLoading } = useQuery<WorkOrderListEntry[]>({
     queryKey: ["/api/work-orders"],
   });
+  const { data: slotBlocks = [] } = useQuery<SlotBlock[]>({
+    queryKey: ["/api/slot-blocks", { status: "active" }],
+  });
 
   const [searchTerm, setSearchTerm] = useState("");
   const [mediaFilter, setMediaFilter] = useState<(typeof MEDIA_OPTIONS)[number]["value"]>("all");
   const [statusFilter, setStatusFilter] = useState<(typeof STATUS_OPTIONS)[number]["value"]>("all");
   const [pageFilter, setPageFilter] = useState<(typeof PAGE_OPTIONS)[number]["value"]>("all");
   const [createOpen, setCreateOpen] = useState(false);
+  const [blockSlot, setBlockSlot] = useState<Slot | null>(null);
+  const [blockForm, setBlockForm] = useState<{ startDate: string; endDate: string; reason: string }>({
+    startDate: "",
+    endDate: "",
+    reason: "",
+  });
 
   const { toast } = useToast();
 
@@ -127,7 +138,6 @@ export default function ManagerSlotsPage() {
       return await apiRequest("POST", "/api/slots", {
         ...payload,
         pricing: String(payload.pricing),
-        createdById: user?.id,
       });
     },
     onSuccess: async () => {
@@ -148,6 +158,42 @@ export default function ManagerSlotsPage() {
     },
   });
 
+  const createBlockMutation = useMutation({
+    mutationFn: async ({ slotId, ...payload }: { slotId: number; startDate: string; endDate: string; reason: string }) => {
+      return await apiRequest("POST", `/api/slots/${slotId}/blocks`, payload);
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/slot-blocks"] });
+      toast({ title: "Slot blocked", description: "The slot is unavailable for the selected dates." });
+      setBlockSlot(null);
+      setBlockForm({ startDate: "", endDate: "", reason: "" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to block slot",
+        description: error?.message || "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelBlockMutation = useMutation({
+    mutationFn: async (blockId: number) => {
+      return await apiRequest("POST", `/api/slot-blocks/${blockId}/cancel`, {});
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/slot-blocks"] });
+      toast({ title: "Block cancelled" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to cancel block",
+        description: error?.message || "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const enhancedSlots = useMemo(() => {
     const busyStatuses = new Set<Booking["status"]>([
       "pending_manager",
@@ -166,8 +212,13 @@ export default function ManagerSlotsPage() {
       "active",
     ]);
     const now = new Date();
+    const today = todayIso();
 
     return (slots || []).map((slot) => {
+      const upcomingBlocks = (slotBlocks || [])
+        .filter((block) => block.slotId === slot.id && block.endDate >= today)
+        .sort((a, b) => a.startDate.localeCompare(b.startDate));
+      const currentBlock = upcomingBlocks.find((block) => block.startDate <= today);
       const activeBooking = (bookings || []).find((booking) => {
         if (booking.slotId !== slot.id) return false;
         if (!busyStatuses.has(booking.status as Booking["status"])) return false;
@@ -180,7 +231,7 @@ export default function ManagerSlotsPage() {
       });
 
       let derivedStatus: DerivedStatus = slot.status as DerivedStatus;
-      if (slot.isBlocked) {
+      if (currentBlock) {
         derivedStatus = "blocked";
       } else if (activeBooking || activeWorkOrder) {
         derivedStatus = "booked";
@@ -195,13 +246,15 @@ export default function ManagerSlotsPage() {
         derivedStatus,
         activeBooking,
         activeWorkOrder,
+        upcomingBlocks,
       } as Slot & {
         derivedStatus: DerivedStatus;
         activeBooking?: Booking;
         activeWorkOrder?: WorkOrderListEntry;
+        upcomingBlocks: SlotBlock[];
       };
     });
-  }, [slots, bookings, workOrders]);
+  }, [slots, bookings, workOrders, slotBlocks]);
 
   const filteredSlots = useMemo(() => {
     const term = searchTerm.trim().toLowerCase();
@@ -541,12 +594,30 @@ export default function ManagerSlotsPage() {
                         </span>
                       </div>
                     )}
-                    {slot.isBlocked && (
-                      <div className="flex items-center justify-between text-amber-600">
-                        <span>Blocked</span>
-                        <span className="font-medium">{slot.blockReason || "Temporarily unavailable"}</span>
+                    {slot.upcomingBlocks.map((block) => (
+                      <div key={block.id} className="flex items-center justify-between gap-2 text-amber-600">
+                        <span>
+                          Blocked {new Date(block.startDate).toLocaleDateString()} – {new Date(block.endDate).toLocaleDateString()}
+                        </span>
+                        <span className="flex items-center gap-2">
+                          <span className="font-medium">{block.reason || "Temporarily unavailable"}</span>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-6 px-2"
+                            disabled={cancelBlockMutation.isPending}
+                            onClick={() => cancelBlockMutation.mutate(block.id)}
+                          >
+                            Cancel
+                          </Button>
+                        </span>
                       </div>
-                    )}
+                    ))}
+                  </div>
+                  <div className="flex justify-end">
+                    <Button size="sm" variant="outline" onClick={() => setBlockSlot(slot)}>
+                      Block dates
+                    </Button>
                   </div>
                 </div>
               ))}
@@ -554,8 +625,53 @@ export default function ManagerSlotsPage() {
           )}
         </CardContent>
       </Card>
+
+      <Dialog open={!!blockSlot} onOpenChange={(open) => !open && setBlockSlot(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Block Slot #{blockSlot?.id}</DialogTitle>
+            <DialogDescription>
+              The slot cannot be requested by clients during this window. Existing blocks stay in place.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <div className="text-xs text-muted-foreground mb-1">Start</div>
+              <Input
+                type="date"
+                value={blockForm.startDate}
+                onChange={(e) => setBlockForm({ ...blockForm, startDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground mb-1">End</div>
+              <Input
+                type="date"
+                value={blockForm.endDate}
+                onChange={(e) => setBlockForm({ ...blockForm, endDate: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2">
+              <Input
+                placeholder="Reason"
+                value={blockForm.reason}
+                onChange={(e) => setBlockForm({ ...blockForm, reason: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => setBlockSlot(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!blockSlot || !blockForm.startDate || !blockForm.endDate || createBlockMutation.isPending}
+              onClick={() => blockSlot && createBlockMutation.mutate({ slotId: blockSlot.id, ...blockForm })}
+            >
+              {createBlockMutation.isPending ? "Blocking..." : "Block Slot"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
-
-
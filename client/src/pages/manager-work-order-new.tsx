@@ -371,7 +371,6 @@ export default function ManagerWorkOrderNewPage() {
                         includeWhatsApp,
                         rangeStart: startDate.toISOString().split('T')[0],
                         rangeEnd: endDate.toISOString().split('T')[0],
-                        createdById: user?.id,
                       }),
                     }).then((r) => (r.ok ? r.json() : r.json().then((e) => Promise.reject(new Error(e.error || "Request failed")))));
                     const newId = res?.workOrder?.id;
@@ -1,4 +1,4 @@
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import { useLocation } from "wouter";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,6 +7,40 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth-context";
+import { apiRequest } from "@/lib/queryClient";
+import PayOnlineButton from "@/components/pay-online-button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const RECEIPT_MODES = [
+  { value: "neft", label: "NEFT" },
+  { value: "rtgs", label: "RTGS" },
+  { value: "imps", label: "IMPS" },
+  { value: "upi", label: "UPI" },
+  { value: "cheque", label: "Cheque" },
+  { value: "cash", label: "Cash" },
+  { value: "gateway", label: "Payment Gateway" },
+  { value: "other", label: "Other" },
+];
+
+const INVOICE_STATUS_LABELS: Record<string, string> = {
+  completed: "Paid",
+  partial: "Partially Paid",
+  cancelled: "Cancelled",
+};
+
+type Receipt = {
+  id: number;
+  invoiceId: number;
+  amount: string;
+  tdsAmount: string;
+  tdsSection: string | null;
+  mode: string;
+  reference: string | null;
+  receivedOn: string;
+};
 
 type WorkOrder = {
   id: number;
@@ -23,6 +57,13 @@ type WorkOrder = {
   createdOnDate?: string | null;
   createdOnTime?: string | null;
   quotedById?: number | null;
+  installmentPlanId?: number | null;
+};
+
+type InstallmentPlan = {
+  id: number;
+  name: string;
+  parts: string;
 };
 
 export default function PaymentWorkOrderDetailPage() {
@@ -51,23 +92,64 @@ export default function PaymentWorkOrderDetailPage() {
     enabled: Number.isFinite(workOrderId),
   });
 
-  const proformaInvoice = useMemo(() => invoices.find((inv) => inv.invoiceType === "proforma") ?? invoices[0], [invoices]);
+  const canRecordReceipts = user?.role === "accounts" || user?.role === "admin";
+  const { data: receiptData, refetch: refetchReceipts } = useQuery<{
+    receipts: Receipt[];
+    balance: { paidAmount: number; creditedAmount: number; pendingAmount: number };
+  }>({
+    queryKey: [`/api/work-orders/${workOrderId}/receipts`],
+    enabled: Number.isFinite(workOrderId) && canRecordReceipts,
+  });
+
+  const [receiptInvoice, setReceiptInvoice] = useState<any | null>(null);
+  const [receiptForm, setReceiptForm] = useState({ amount: "", tdsAmount: "", tdsSection: "194C", mode: "neft", reference: "", receivedOn: "" });
 
-  const payInvoice = useMutation({
-    mutationFn: async (invoiceId: number) => {
-      const res = await fetch(`/api/invoices/${invoiceId}/pay`, { method: "POST" });
-      if (!res.ok) throw new Error(await res.text());
+  const recordReceipt = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/invoices/${receiptInvoice.id}/receipts`, {
+        amount: receiptForm.amount || undefined,
+        tdsAmount: receiptForm.tdsAmount || undefined,
+        tdsSection: Number(receiptForm.tdsAmount) > 0 ? receiptForm.tdsSection : undefined,
+        mode: receiptForm.mode,
+        reference: receiptForm.reference,
+        receivedOn: receiptForm.receivedOn || undefined,
+      });
       return res.json();
     },
     onSuccess: async () => {
-      await Promise.all([refetch(), refetchInvoices()]);
-      toast({ title: "Payment successful", description: "Payment recorded successfully." });
+      setReceiptInvoice(null);
+      await Promise.all([refetch(), refetchInvoices(), refetchReceipts()]);
+      toast({ title: "Receipt recorded" });
     },
     onError: (err: any) => {
-      toast({ title: "Payment failed", description: err?.message || "Please try again", variant: "destructive" });
+      toast({ title: "Could not record receipt", description: err?.message || "Please try again", variant: "destructive" });
     },
   });
 
+  const { data: installmentPlans = [] } = useQuery<InstallmentPlan[]>({
+    queryKey: ["/api/installment-plans"],
+    enabled: canRecordReceipts,
+  });
+  const [selectedPlanId, setSelectedPlanId] = useState("");
+
+  const applyPlan = useMutation({
+    mutationFn: async (planId: number) => {
+      const res = await apiRequest("POST", `/api/work-orders/${workOrderId}/installments`, { planId });
+      return res.json();
+    },
+    onSuccess: async () => {
+      setSelectedPlanId("");
+      await Promise.all([refetch(), refetchInvoices(), refetchReceipts()]);
+      toast({ title: "Installment plan applied", description: "Unpaid installments were revised; paid ones are unchanged." });
+    },
+    onError: (err: any) => {
+      toast({ title: "Could not apply plan", description: err?.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  const proformaInvoice = useMemo(() => invoices.find((inv) => inv.invoiceType === "proforma") ?? invoices[0], [invoices]);
+
+
   const subtotal = useMemo(() => items.reduce((sum: number, it: any) => sum + Number(it?.subtotal ?? it?.unitPrice ?? 0), 0), [items]);
   const gstPercent = Number((workOrder as any)?.gstPercent ?? 0);
   const gstAmount = subtotal * (Number.isFinite(gstPercent) ? gstPercent : 0) / 100;
@@ -262,16 +344,22 @@ export default function PaymentWorkOrderDetailPage() {
                   <div key={invoice.id} className="space-y-2 rounded-md border p-3 text-sm">
                     <div className="flex items-center justify-between">
                       <div className="font-medium">
-                        Invoice #{invoice.id} • {invoice.invoiceType?.replace(/_/g, " ")}
+                        {invoice.invoiceNumber ?? `Invoice #${invoice.id}`} • {invoice.invoiceType?.replace(/_/g, " ")}
                       </div>
                       <Badge variant={invoice.status === "completed" ? "default" : "outline"}>
-                        {invoice.status === "completed" ? "Paid" : "Not Paid"}
+                        {INVOICE_STATUS_LABELS[invoice.status] ?? "Not Paid"}
                       </Badge>
                     </div>
                     <div className="flex items-center justify-between text-muted-foreground">
                       <span>Amount</span>
                       <span>₹{Number(invoice.amount).toLocaleString()}</span>
                     </div>
+                    {invoice.installmentNumber && (
+                      <div className="flex items-center justify-between text-muted-foreground">
+                        <span>Installment</span>
+                        <span>#{invoice.installmentNumber}</span>
+                      </div>
+                    )}
                     {invoice.dueDate && (
                       <div className="flex items-center justify-between text-muted-foreground">
                         <span>Due Date</span>
@@ -286,19 +374,51 @@ export default function PaymentWorkOrderDetailPage() {
                       >
                         Download PDF
                       </Button>
-                      {invoice.status !== "completed" && (
-                        <Button
-                          size="sm"
-                          onClick={() => payInvoice.mutate(invoice.id)}
-                          disabled={payInvoice.isPending}
-                        >
-                          {payInvoice.isPending ? "Processing…" : "Pay Now"}
-                        </Button>
+                      {["pending", "partial", "failed"].includes(invoice.status) && invoice.invoiceType !== "credit_note" && (
+                        canRecordReceipts ? (
+                          <Button
+                            size="sm"
+                            onClick={() => {
+                              setReceiptForm({ amount: "", tdsAmount: "", tdsSection: "194C", mode: "neft", reference: "", receivedOn: "" });
+                              setReceiptInvoice(invoice);
+                            }}
+                          >
+                            Record Receipt
+                          </Button>
+                        ) : (
+                          <PayOnlineButton
+                            invoiceId={invoice.id}
+                            onSettled={async () => {
+                              await Promise.all([refetch(), refetchInvoices()]);
+                            }}
+                          />
+                        )
                       )}
                     </div>
                   </div>
                 ))
               )}
+              {receiptData && receiptData.receipts.length > 0 && (
+                <div className="space-y-1 border-t pt-3">
+                  <div className="font-medium text-sm">Receipts</div>
+                  {receiptData.receipts.map((receipt) => (
+                    <div key={receipt.id} className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>
+                        {new Date(receipt.receivedOn).toLocaleDateString()} • {receipt.mode.toUpperCase()}
+                        {receipt.reference ? ` • ${receipt.reference}` : ""}
+                      </span>
+                      <span>
+                        ₹{Number(receipt.amount).toLocaleString()}
+                        {Number(receipt.tdsAmount) > 0 ? ` + TDS ₹${Number(receipt.tdsAmount).toLocaleString()} (${receipt.tdsSection ?? "194C"})` : ""}
+                      </span>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between text-sm font-medium pt-1">
+                    <span>Balance due</span>
+                    <span>₹{Number(receiptData.balance.pendingAmount).toLocaleString()}</span>
+                  </div>
+                </div>
+              )}
               {proformaInvoice && invoices.length > 1 && (
                 <div className="text-xs text-muted-foreground">
                   Latest proforma: #{proformaInvoice.id} • ₹{Number(proformaInvoice.amount).toLocaleString()}
@@ -307,6 +427,41 @@ export default function PaymentWorkOrderDetailPage() {
             </CardContent>
           </Card>
 
+          {canRecordReceipts && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Installment Plan</CardTitle>
+                <CardDescription>
+                  {installmentPlans.find((plan) => plan.id === workOrder.installmentPlanId)?.name ?? "No plan applied"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex items-center gap-2">
+                <Select
+                  value={selectedPlanId || (workOrder.installmentPlanId ? String(workOrder.installmentPlanId) : "")}
+                  onValueChange={setSelectedPlanId}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a plan" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {installmentPlans.map((plan) => (
+                      <SelectItem key={plan.id} value={String(plan.id)}>
+                        {plan.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  onClick={() => applyPlan.mutate(Number(selectedPlanId || workOrder.installmentPlanId))}
+                  disabled={!(selectedPlanId || workOrder.installmentPlanId) || applyPlan.isPending}
+                >
+                  {applyPlan.isPending ? "Applying…" : "Apply"}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle>Release Order Snapshot</CardTitle>
@@ -357,6 +512,91 @@ export default function PaymentWorkOrderDetailPage() {
           </Card>
         </div>
       </div>
+
+      <Dialog open={!!receiptInvoice} onOpenChange={(open) => !open && setReceiptInvoice(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record receipt for {receiptInvoice?.invoiceNumber ?? `Invoice #${receiptInvoice?.id}`}</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="receipt-amount">Amount received</Label>
+              <Input
+                id="receipt-amount"
+                type="number"
+                min="0"
+                placeholder="Full balance"
+                value={receiptForm.amount}
+                onChange={(e) => setReceiptForm({ ...receiptForm, amount: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="receipt-tds">TDS deducted</Label>
+              <Input
+                id="receipt-tds"
+                type="number"
+                min="0"
+                value={receiptForm.tdsAmount}
+                onChange={(e) => setReceiptForm({ ...receiptForm, tdsAmount: e.target.value })}
+              />
+            </div>
+            {Number(receiptForm.tdsAmount) > 0 && (
+              <div className="space-y-1">
+                <Label>TDS section</Label>
+                <Select value={receiptForm.tdsSection} onValueChange={(tdsSection) => setReceiptForm({ ...receiptForm, tdsSection })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="194C">194C (contract)</SelectItem>
+                    <SelectItem value="194J">194J (professional)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label>Mode</Label>
+              <Select value={receiptForm.mode} onValueChange={(mode) => setReceiptForm({ ...receiptForm, mode })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RECEIPT_MODES.map((mode) => (
+                    <SelectItem key={mode.value} value={mode.value}>
+                      {mode.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="receipt-reference">{receiptForm.mode === "cheque" ? "Cheque number" : "UTR / reference"}</Label>
+              <Input
+                id="receipt-reference"
+                value={receiptForm.reference}
+                onChange={(e) => setReceiptForm({ ...receiptForm, reference: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="receipt-date">Received on</Label>
+              <Input
+                id="receipt-date"
+                type="date"
+                value={receiptForm.receivedOn}
+                onChange={(e) => setReceiptForm({ ...receiptForm, receivedOn: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReceiptInvoice(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => recordReceipt.mutate()} disabled={recordReceipt.isPending}>
+              {recordReceipt.isPending ? "Saving…" : "Record Receipt"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
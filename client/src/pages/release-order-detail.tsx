@@ -9,6 +9,16 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth-context";
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { ApprovalStage } from "@shared/schema";
+
+type ApprovalProgress = {
+  policy: { id: number; name: string } | null;
+  stages: Array<{ stage: ApprovalStage; state: "done" | "current" | "pending" | "skipped"; approvals: number }>;
+  currentStage: ApprovalStage | null;
+  isFirstStage: boolean;
+  canApprove: boolean;
+  canReject: boolean;
+};
 
 export default function ReleaseOrderDetailPage() {
   const { user } = useAuth();
@@ -17,7 +27,7 @@ export default function ReleaseOrderDetailPage() {
   const idStr = useMemo(() => loc.split("/").pop() || "", [loc]);
   const releaseOrderId = Number(idStr);
 
-  const { data, isLoading, refetch } = useQuery<{ releaseOrder: any; items: any[]; workOrder?: any; client?: any; createdBy?: any }>({
+  const { data, isLoading, refetch } = useQuery<{ releaseOrder: any; items: any[]; workOrder?: any; client?: any; createdBy?: any; approval?: ApprovalProgress }>({
     queryKey: [`/api/release-orders/${releaseOrderId}`],
     enabled: Number.isFinite(releaseOrderId),
   });
@@ -35,6 +45,9 @@ export default function ReleaseOrderDetailPage() {
   const wo = (data as any)?.workOrder;
   const client = (data as any)?.client;
   const createdBy = (data as any)?.createdBy;
+  const approval = data?.approval;
+  const upcomingStages = approval?.stages.filter((s) => s.state === "pending") ?? [];
+  const nextStageName = upcomingStages[0]?.stage.name;
 
   const PAGE_LABELS: Record<string, string> = {
     main: "Landing page",
@@ -53,7 +66,7 @@ export default function ReleaseOrderDetailPage() {
       await fetch(`/api/release-orders/${releaseOrderId}/approve`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ actorId: user?.id }),
+        body: JSON.stringify({}),
       }).then(r => r.ok ? r.json() : Promise.reject(r));
       await refetch();
       toast({ title: successMessage });
@@ -71,7 +84,7 @@ export default function ReleaseOrderDetailPage() {
       await fetch(`/api/release-orders/${releaseOrderId}/return-to-client`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ actorId: user?.id, reason: returnReason }),
+        body: JSON.stringify({ reason: returnReason }),
       }).then((r) => (r.ok ? r.json() : Promise.reject(r)));
       await refetch();
       toast({ title: "Sent back to client", description: "The client has been asked to revise and resubmit." });
@@ -281,54 +294,54 @@ export default function ReleaseOrderDetailPage() {
                   )}
                 </div>
               )}
-              {(user?.role === 'manager' || user?.role === 'admin') && ro?.status === 'pending_manager_review' && (
-                <div className="flex justify-end gap-2">
-                  <Button
-                    size="sm"
-                    variant="destructive"
-                    onClick={() => {
-                      setReturnDialogOpen(true);
-                      setReturnReason(ro?.rejectionReason ?? "");
-                    }}
-                    disabled={returning}
-                  >
-                    Send back to Client
-                  </Button>
-                  <Button
-                    size="sm"
-                    onClick={() => advanceReleaseOrder('Release Order sent to VP', 'Could not send Release Order to VP')}
-                    disabled={approving}
-                  >
-                    {approving ? 'Approving…' : 'Approve and Send to VP'}
-                  </Button>
-                </div>
-              )}
-
-              {(user?.role === 'vp' || user?.role === 'admin') && ro?.status === 'pending_vp_review' && (
-                <div className="flex justify-end">
-                  <Button
-                    size="sm"
-                    onClick={() => advanceReleaseOrder('Release Order sent to PV Sir', 'Could not send Release Order to PV Sir')}
-                    disabled={approving}
-                  >
-                    {approving ? 'Approving…' : 'Approve and Send to PV Sir'}
-                  </Button>
+              {approval && approval.stages.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  {approval.stages.map(({ stage, state, approvals }) => (
+                    <Badge
+                      key={stage.id}
+                      variant={state === "current" ? "default" : "outline"}
+                      className={state === "skipped" ? "line-through opacity-60" : state === "done" ? "text-emerald-600" : undefined}
+                    >
+                      {stage.name}
+                      {state === "current" && stage.requiredApprovals > 1 && ` (${approvals}/${stage.requiredApprovals})`}
+                    </Badge>
+                  ))}
                 </div>
               )}
 
-              {(user?.role === 'pv_sir' || user?.role === 'admin') && ro?.status === 'pending_pv_review' && (
-                <div className="flex justify-end">
-                  <Button
-                    size="sm"
-                    onClick={() => advanceReleaseOrder('Release Order accepted', 'Could not accept Release Order')}
-                    disabled={approving}
-                  >
-                    {approving ? 'Approving…' : 'Approve Release Order'}
-                  </Button>
+              {approval?.currentStage && (approval.canApprove || (approval.isFirstStage && (user?.role === 'manager' || user?.role === 'admin'))) && (
+                <div className="flex justify-end gap-2">
+                  {approval.isFirstStage && (user?.role === 'manager' || user?.role === 'admin') && (
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => {
+                        setReturnDialogOpen(true);
+                        setReturnReason(ro?.rejectionReason ?? "");
+                      }}
+                      disabled={returning}
+                    >
+                      Send back to Client
+                    </Button>
+                  )}
+                  {approval.canApprove && (
+                    <Button
+                      size="sm"
+                      onClick={() =>
+                        advanceReleaseOrder(
+                          nextStageName ? `Release Order sent to ${nextStageName}` : 'Release Order approved',
+                          'Could not approve Release Order'
+                        )
+                      }
+                      disabled={approving}
+                    >
+                      {approving ? 'Approving…' : nextStageName ? `Approve and Send to ${nextStageName}` : 'Approve Release Order'}
+                    </Button>
+                  )}
                 </div>
               )}
 
-              {ro?.status && !['pending_manager_review', 'pending_vp_review', 'pending_pv_review'].includes(String(ro.status)) && (
+              {ro?.status && !approval?.currentStage && (
                 <div className="text-xs text-muted-foreground text-right">
                   Current stage: {String(ro.status).replace(/_/g, ' ')}
                 </div>
@@ -1,7 +1,254 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AddonProduct, AddonProductPrice } from "@shared/schema";
+
+type AddonProductWithPrice = AddonProduct & { currentPrice: number; currentPriceFrom: string | null };
+type AddonPriceHistoryEntry = AddonProductPrice & { createdByName: string | null };
+
+const todayIso = () => new Date().toISOString().split("T")[0];
+
+function AddonProductsCard() {
+  const { toast } = useToast();
+  const [priceTarget, setPriceTarget] = useState<AddonProductWithPrice | null>(null);
+  const [priceForm, setPriceForm] = useState({ price: "", effectiveFrom: todayIso(), note: "" });
+  const [historyFor, setHistoryFor] = useState<AddonProductWithPrice | null>(null);
+  const [newProduct, setNewProduct] = useState({ code: "", name: "", price: "" });
+
+  const { data: products = [], isLoading } = useQuery<AddonProductWithPrice[]>({
+    queryKey: ["/api/addon-products"],
+  });
+  const { data: history = [], isLoading: historyLoading } = useQuery<AddonPriceHistoryEntry[]>({
+    queryKey: [`/api/addon-products/${historyFor?.id}/prices`],
+    enabled: !!historyFor,
+  });
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error?.message || "Please try again later.", variant: "destructive" });
+  };
+
+  const createProductMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/addon-products", {
+        code: newProduct.code.trim().toLowerCase(),
+        name: newProduct.name.trim(),
+        price: Number(newProduct.price || 0),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/addon-products"] });
+      toast({ title: "Add-on created" });
+      setNewProduct({ code: "", name: "", price: "" });
+    },
+    onError: onError("Failed to create add-on"),
+  });
+
+  const toggleProductMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      return await apiRequest("PATCH", `/api/addon-products/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/addon-products"] });
+    },
+    onError: onError("Failed to update add-on"),
+  });
+
+  const changePriceMutation = useMutation({
+    mutationFn: async () => {
+      if (!priceTarget) return;
+      return await apiRequest("POST", `/api/addon-products/${priceTarget.id}/prices`, {
+        price: Number(priceForm.price),
+        effectiveFrom: priceForm.effectiveFrom,
+        note: priceForm.note || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/addon-products"] });
+      toast({ title: "Price scheduled", description: `Effective from ${priceForm.effectiveFrom}` });
+      setPriceTarget(null);
+    },
+    onError: onError("Failed to change price"),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Add-on Products</CardTitle>
+        <CardDescription>Prices for add-ons offered alongside slots. Every change is kept in the price history.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(2)].map((_, i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {products.map((product) => (
+              <div key={product.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-medium">{product.name}</h4>
+                    <Badge variant="outline">{product.code}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    ₹{product.currentPrice.toLocaleString()}
+                    {product.currentPriceFrom && ` since ${new Date(product.currentPriceFrom).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor={`addon-active-${product.id}`} className="text-xs">
+                      {product.isActive ? "Offered" : "Hidden"}
+                    </Label>
+                    <Switch
+                      id={`addon-active-${product.id}`}
+                      checked={product.isActive}
+                      onCheckedChange={(checked) => toggleProductMutation.mutate({ id: product.id, isActive: checked })}
+                    />
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => setHistoryFor(product)}>
+                    History
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => {
+                      setPriceForm({ price: String(product.currentPrice), effectiveFrom: todayIso(), note: "" });
+                      setPriceTarget(product);
+                    }}
+                  >
+                    Change price
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-2 border-t pt-4 md:grid-cols-4">
+          <Input
+            placeholder="Code (e.g. sms)"
+            value={newProduct.code}
+            onChange={(e) => setNewProduct({ ...newProduct, code: e.target.value })}
+          />
+          <Input
+            placeholder="Name"
+            value={newProduct.name}
+            onChange={(e) => setNewProduct({ ...newProduct, name: e.target.value })}
+          />
+          <Input
+            type="number"
+            min="0"
+            placeholder="Price (₹)"
+            value={newProduct.price}
+            onChange={(e) => setNewProduct({ ...newProduct, price: e.target.value })}
+          />
+          <Button
+            disabled={!newProduct.code.trim() || !newProduct.name.trim() || createProductMutation.isPending}
+            onClick={() => createProductMutation.mutate()}
+          >
+            Add add-on
+          </Button>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!priceTarget} onOpenChange={(open) => !open && setPriceTarget(null)}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Change price: {priceTarget?.name}</DialogTitle>
+            <DialogDescription>Work orders created on or after the effective date use the new price.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="addon-price">Price (₹)</Label>
+              <Input
+                id="addon-price"
+                type="number"
+                min="0"
+                value={priceForm.price}
+                onChange={(e) => setPriceForm({ ...priceForm, price: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="addon-effective">Effective from</Label>
+              <Input
+                id="addon-effective"
+                type="date"
+                value={priceForm.effectiveFrom}
+                onChange={(e) => setPriceForm({ ...priceForm, effectiveFrom: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="addon-note">Note</Label>
+              <Input
+                id="addon-note"
+                placeholder="Reason for the change"
+                value={priceForm.note}
+                onChange={(e) => setPriceForm({ ...priceForm, note: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => setPriceTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={priceForm.price === "" || !priceForm.effectiveFrom || changePriceMutation.isPending}
+              onClick={() => changePriceMutation.mutate()}
+            >
+              Save
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historyFor} onOpenChange={(open) => !open && setHistoryFor(null)}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle>Price history: {historyFor?.name}</DialogTitle>
+            <DialogDescription>Newest first</DialogDescription>
+          </DialogHeader>
+          {historyLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : (
+            <div className="space-y-2 text-sm">
+              {history.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between gap-3 rounded-md border p-2">
+                  <div>
+                    <div className="font-medium">₹{Number(entry.price).toLocaleString()}</div>
+                    <div className="text-xs text-muted-foreground">
+                      from {new Date(entry.effectiveFrom).toLocaleDateString()}
+                      {entry.note && ` • ${entry.note}`}
+                    </div>
+                  </div>
+                  <div className="text-right text-xs text-muted-foreground">
+                    <div>{entry.createdByName || "System"}</div>
+                    <div>{new Date(entry.createdAt).toLocaleString()}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
 
 export default function SettingsPage() {
+  const { user } = useAuth();
+
   return (
     <div className="space-y-6">
       <div>
@@ -33,8 +280,8 @@ export default function SettingsPage() {
           </div>
         </CardContent>
       </Card>
+
+      {user?.role === "admin" && <AddonProductsCard />}
     </div>
   );
 }
-
-
@@ -7,6 +7,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Info } from "lucide-react";
+import PaymentHolds from "@/components/payment-holds";
 
 interface ReleaseOrderEntry {
   releaseOrder: any;
@@ -186,6 +187,7 @@ export default function VPApprovalsPage() {
           <TabsTrigger value="accepted">
             Accepted ({acceptedCount})
           </TabsTrigger>
+          <TabsTrigger value="payment-holds">Payment Holds</TabsTrigger>
         </TabsList>
 
         <TabsContent value="all" className="space-y-4">
@@ -223,6 +225,10 @@ export default function VPApprovalsPage() {
             renderReleaseOrders(accepted, setSelectedEntry)
           )}
         </TabsContent>
+
+        <TabsContent value="payment-holds" className="space-y-4">
+          <PaymentHolds />
+        </TabsContent>
       </Tabs>
 
       <Dialog open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
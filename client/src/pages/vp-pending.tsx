@@ -198,7 +198,7 @@ export default function VPPendingPage() {
       const res = await fetch(`/api/release-orders/${releaseOrderId}/approve`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ actorId: user?.id }),
+        body: JSON.stringify({}),
       });
       if (!res.ok) throw new Error(await res.text());
       return res.json();
@@ -223,7 +223,7 @@ export default function VPPendingPage() {
       const res = await fetch(`/api/release-orders/${releaseOrderId}/reject`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ actorId: user?.id, reason }),
+        body: JSON.stringify({ reason }),
       });
       if (!res.ok) throw new Error(await res.text());
       return res.json();
@@ -11,6 +11,8 @@ import { useAuth } from "@/lib/auth-context";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { queryClient } from "@/lib/queryClient";
+import PayOnlineButton from "@/components/pay-online-button";
 
 type WorkOrder = {
   id: number;
@@ -35,6 +37,123 @@ type WorkOrder = {
   negotiationRequestedAt?: string | null;
 };
 
+type NegotiationEntry = {
+  id: number;
+  authorId: number;
+  authorName: string | null;
+  authorRole: string;
+  kind: "counter_offer" | "reply";
+  message: string;
+  proposedItems: Array<{ workOrderItemId: number; amount: number }>;
+  proposedTotal: string | null;
+  quoteVersion: number | null;
+  quoteSnapshot: { totalAmount: string; items: Array<{ id: number; subtotal: string }> };
+  createdAt: string;
+};
+
+function NegotiationTimeline({ workOrderId, items, canReply }: { workOrderId: number; items: any[]; canReply: boolean }) {
+  const { toast } = useToast();
+  const [reply, setReply] = useState("");
+  const { data: entries = [], refetch } = useQuery<NegotiationEntry[]>({
+    queryKey: [`/api/work-orders/${workOrderId}/negotiations`],
+    enabled: Number.isFinite(workOrderId),
+  });
+
+  const sendReply = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/work-orders/${workOrderId}/negotiations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: reply }),
+      });
+      if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || "Request failed");
+      return res.json();
+    },
+    onSuccess: async () => {
+      setReply("");
+      await refetch();
+      toast({ title: "Reply sent", description: "The client has been notified." });
+    },
+    onError: (e: any) => toast({ title: "Failed", description: e?.message || "Could not send reply", variant: "destructive" }),
+  });
+
+  const itemLabel = (itemId: number) => {
+    const it = items.find((i: any) => i.id === itemId);
+    if (!it) return `Item #${itemId}`;
+    if (it.addonType) return it.addonType === "email" ? "Email Campaign" : "WhatsApp Campaign";
+    return it.slot ? `${it.slot.mediaType} • ${String(it.slot.pageType).replace(/_/g, " ")}` : `Slot #${it.slotId}`;
+  };
+
+  if (entries.length === 0 && !canReply) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Negotiation</CardTitle>
+        <CardDescription>Counter-offers and replies, each against the quote it answered</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {entries.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No negotiation yet.</div>
+        ) : (
+          <ol className="space-y-3 border-l pl-4">
+            {entries.map((entry) => (
+              <li key={entry.id} className="relative">
+                <span
+                  className={`absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full ${entry.kind === "counter_offer" ? "bg-amber-500" : "bg-primary"}`}
+                />
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">{entry.authorName || "Unknown"}</span>
+                  <Badge variant="outline" className="text-[10px]">
+                    {entry.kind === "counter_offer" ? "Counter-offer" : "Reply"}
+                  </Badge>
+                  <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                  <span>
+                    • on {entry.quoteVersion ? `quote v${entry.quoteVersion}` : "draft"} of ₹{Number(entry.quoteSnapshot.totalAmount).toLocaleString()}
+                  </span>
+                </div>
+                <div className="mt-1 whitespace-pre-wrap text-sm">{entry.message}</div>
+                {entry.proposedItems.length > 0 && (
+                  <div className="mt-2 space-y-1 rounded-md border bg-muted/20 p-2 text-xs">
+                    {entry.proposedItems.map((p) => {
+                      const quoted = entry.quoteSnapshot.items.find((i) => i.id === p.workOrderItemId);
+                      return (
+                        <div key={p.workOrderItemId} className="flex justify-between gap-3">
+                          <span className="capitalize">{itemLabel(p.workOrderItemId)}</span>
+                          <span>
+                            {quoted && <span className="mr-2 text-muted-foreground line-through">₹{Number(quoted.subtotal).toLocaleString()}</span>}
+                            ₹{Number(p.amount).toLocaleString()}
+                          </span>
+                        </div>
+                      );
+                    })}
+                    {entry.proposedTotal && (
+                      <div className="flex justify-between border-t pt-1 font-medium">
+                        <span>Proposed total (incl. GST)</span>
+                        <span>₹{Number(entry.proposedTotal).toLocaleString()}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+        {canReply && (
+          <div className="space-y-2 border-t pt-3">
+            <Textarea value={reply} onChange={(e) => setReply(e.target.value)} placeholder="Reply to the client" rows={3} />
+            <div className="flex justify-end">
+              <Button size="sm" onClick={() => sendReply.mutate()} disabled={!reply.trim() || sendReply.isPending}>
+                {sendReply.isPending ? "Sending…" : "Send Reply"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function WorkOrderDetailPage() {
   const { toast } = useToast();
   const { user } = useAuth();
@@ -52,6 +171,7 @@ export default function WorkOrderDetailPage() {
   const [rejectReason, setRejectReason] = useState("");
   const [negotiateOpen, setNegotiateOpen] = useState(false);
   const [negotiationReason, setNegotiationReason] = useState("");
+  const [proposedAmounts, setProposedAmounts] = useState<Record<number, string>>({});
   const [itemPrices, setItemPrices] = useState<Record<number, string>>({});
   const [pendingBannerPreviews, setPendingBannerPreviews] = useState<Record<number, string>>({});
   const [pendingBannerFiles, setPendingBannerFiles] = useState<Record<number, File>>({});
@@ -95,7 +215,13 @@ export default function WorkOrderDetailPage() {
     }
   };
 
-  const { data, isLoading, refetch } = useQuery<{ workOrder: WorkOrder; items: any[]; releaseOrderId?: number | null; releaseOrderStatus?: string | null }>({
+  const { data, isLoading, refetch } = useQuery<{
+    workOrder: WorkOrder;
+    items: any[];
+    releaseOrderId?: number | null;
+    releaseOrderStatus?: string | null;
+    quote?: { id: number; version: number; createdAt: string; acceptedAt: string | null } | null;
+  }>({
     queryKey: [`/api/work-orders/${workOrderId}`],
     enabled: Number.isFinite(workOrderId),
   });
@@ -198,7 +324,7 @@ export default function WorkOrderDetailPage() {
       const res = await fetch(`/api/work-orders/${workOrderId}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status: "quoted", paymentMode, gstPercent: gst, quotedById: user?.id }),
+        body: JSON.stringify({ status: "quoted", paymentMode, gstPercent: gst }),
       });
       if (!res.ok) throw new Error(await res.text());
       return res.json();
@@ -215,7 +341,12 @@ export default function WorkOrderDetailPage() {
       const res = await fetch(`/api/work-orders/${workOrderId}/negotiate`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ reason: negotiationReason }),
+        body: JSON.stringify({
+          reason: negotiationReason,
+          items: Object.entries(proposedAmounts)
+            .filter(([, amount]) => amount.trim() !== "")
+            .map(([itemId, amount]) => ({ workOrderItemId: Number(itemId), amount: Number(amount) })),
+        }),
       });
       if (!res.ok) {
         let message = "Request failed";
@@ -232,7 +363,9 @@ export default function WorkOrderDetailPage() {
     onSuccess: async () => {
       await refetch();
       toast({ title: "Negotiation requested", description: "Manager has been notified." });
+      queryClient.invalidateQueries({ queryKey: [`/api/work-orders/${workOrderId}/negotiations`] });
       setNegotiationReason("");
+      setProposedAmounts({});
       setNegotiateOpen(false);
     },
     onError: (e: any) => {
@@ -242,8 +375,12 @@ export default function WorkOrderDetailPage() {
 
   const acceptQuote = useMutation({
     mutationFn: async () => {
-      const res = await fetch(`/api/work-orders/${workOrderId}/accept`, { method: "POST" });
-      if (!res.ok) throw new Error(await res.text());
+      const res = await fetch(`/api/work-orders/${workOrderId}/accept`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ quoteVersion: data?.quote?.version }),
+      });
+      if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || "Request failed");
       return res.json();
     },
     onSuccess: async () => {
@@ -253,27 +390,12 @@ export default function WorkOrderDetailPage() {
     onError: (e: any) => toast({ title: "Failed to accept", description: e?.message || "Try again", variant: "destructive" }),
   });
 
-  const payInvoice = useMutation({
-    mutationFn: async (invoiceId: number) => {
-      const res = await fetch(`/api/invoices/${invoiceId}/pay`, { method: "POST" });
-      if (!res.ok) throw new Error(await res.text());
-      return res.json();
-    },
-    onSuccess: async () => {
-      await Promise.all([refetch(), refetchInvoices()]);
-      toast({ title: "Payment successful", description: "Payment recorded successfully." });
-    },
-    onError: (err: any) => {
-      toast({ title: "Payment failed", description: err?.message || "Please try again", variant: "destructive" });
-    },
-  });
-
   const rejectWo = useMutation({
     mutationFn: async () => {
       const res = await fetch(`/api/work-orders/${workOrderId}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status: "rejected", reason: rejectReason, actorId: user?.id }),
+        body: JSON.stringify({ status: "rejected", reason: rejectReason }),
       });
       if (!res.ok) throw new Error(await res.text());
       return res.json();
@@ -396,6 +518,11 @@ export default function WorkOrderDetailPage() {
         {wo && (
           <div className="flex items-center gap-2">
             <Badge variant="secondary">{wo.status.replace(/_/g, " ")}</Badge>
+            {data?.quote && (
+              <Badge variant="outline" title={`Issued ${new Date(data.quote.createdAt).toLocaleString()}`}>
+                Quote v{data.quote.version}{data.quote.acceptedAt ? " • accepted" : ""}
+              </Badge>
+            )}
             {Number(wo.totalAmount) > 0 || wo.status === 'quoted' ? (
               <span className="font-semibold">₹{Number(wo.totalAmount).toLocaleString()}</span>
             ) : (
@@ -547,6 +674,9 @@ export default function WorkOrderDetailPage() {
                     <div key={it.id} className="flex items-center justify-between gap-2">
                       <div className="text-sm truncate">{label}</div>
                       <div className="flex items-center gap-2">
+                        {it.priceSource === 'rate_card' && (
+                          <span className="text-xs text-muted-foreground">Rate card</span>
+                        )}
                         <Input
                           id={`price-${it.id}`}
                           value={currentPrice}
@@ -591,7 +721,7 @@ export default function WorkOrderDetailPage() {
                               await fetch(`/api/work-orders/${workOrderId}/approve-po`, {
                                 method: "POST",
                                 headers: { "Content-Type": "application/json" },
-                                body: JSON.stringify({ actorId: user?.id }),
+                                body: JSON.stringify({}),
                               }).then(r => r.ok ? r.json() : Promise.reject(r));
                               await refetch();
                               toast({ title: "PO approved", description: "Accounts notified to upload the proforma invoice." });
@@ -686,7 +816,7 @@ export default function WorkOrderDetailPage() {
                     <div className="space-y-2 rounded-md border p-3 bg-muted/40 text-sm">
                       <div className="flex items-center justify-between">
                         <span>Invoice #</span>
-                        <span>{proformaInvoice.id}</span>
+                        <span>{proformaInvoice.invoiceNumber ?? proformaInvoice.id}</span>
                       </div>
                       <div className="flex items-center justify-between">
                         <span>Status</span>
@@ -724,17 +854,18 @@ export default function WorkOrderDetailPage() {
                         >
                           Download PDF
                         </Button>
-                        <Button
-                          size="sm"
-                          onClick={() => payInvoice.mutate(proformaInvoice.id)}
-                          disabled={proformaInvoice.status === 'completed' || payInvoice.isPending}
-                        >
-                          {proformaInvoice.status === 'completed'
-                            ? 'Paid'
-                            : payInvoice.isPending
-                              ? 'Processing…'
-                              : 'Pay Now'}
-                        </Button>
+                        {['pending', 'partial', 'failed'].includes(proformaInvoice.status) ? (
+                          <PayOnlineButton
+                            invoiceId={proformaInvoice.id}
+                            onSettled={async () => {
+                              await Promise.all([refetch(), refetchInvoices()]);
+                            }}
+                          />
+                        ) : (
+                          <Button size="sm" disabled>
+                            {proformaInvoice.status === 'completed' ? 'Paid' : 'Cancelled'}
+                          </Button>
+                        )}
                       </div>
                     </div>
                     <div className="rounded-md border p-3 text-xs text-muted-foreground bg-muted/20">
@@ -787,6 +918,13 @@ export default function WorkOrderDetailPage() {
           )}
         </div>
       )}
+      {wo && (
+        <NegotiationTimeline
+          workOrderId={workOrderId}
+          items={items}
+          canReply={(user?.role === 'manager' || user?.role === 'admin') && ['draft', 'quoted'].includes(wo.status)}
+        />
+      )}
       {/* Upload PO dialog */}
       <Dialog open={showPoDialog} onOpenChange={setShowPoDialog}>
         <DialogContent className="sm:max-w-[440px]">
@@ -875,7 +1013,10 @@ export default function WorkOrderDetailPage() {
         open={negotiateOpen}
         onOpenChange={(open) => {
           setNegotiateOpen(open);
-          if (!open) setNegotiationReason("");
+          if (!open) {
+            setNegotiationReason("");
+            setProposedAmounts({});
+          }
         }}
       >
         <DialogContent className="sm:max-w-[480px]">
@@ -891,6 +1032,29 @@ export default function WorkOrderDetailPage() {
               placeholder="Describe what you would like to negotiate (pricing, timeline, slots, etc.)"
               rows={5}
             />
+            {items.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Your offer per item (optional)</div>
+                {items.map((it: any) => (
+                  <div key={it.id} className="flex items-center justify-between gap-3 text-sm">
+                    <div className="min-w-0 truncate text-muted-foreground">
+                      {it.addonType
+                        ? (it.addonType === 'email' ? 'Email Campaign' : 'WhatsApp Campaign')
+                        : it.slot ? `${humanize(it.slot.mediaType)} • ${PAGE_LABELS[it.slot.pageType] ?? humanize(it.slot.pageType)}` : `Slot #${it.slotId}`}
+                      {' '}(₹{Number(it.subtotal ?? it.unitPrice ?? 0).toLocaleString()})
+                    </div>
+                    <Input
+                      type="number"
+                      min="0"
+                      className="h-8 w-32"
+                      placeholder="₹"
+                      value={proposedAmounts[it.id] ?? ""}
+                      onChange={(e) => setProposedAmounts({ ...proposedAmounts, [it.id]: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="text-xs text-muted-foreground">
               This message is visible to the manager handling your work order.
             </div>
@@ -1007,7 +1171,7 @@ export default function WorkOrderDetailPage() {
                       </span>
                       <input
                         type="file"
-                        accept="image/*"
+                        accept="image/jpeg,image/png,image/gif,image/webp"
                         className="hidden"
                         onChange={(e) => {
                           const f = e.target.files?.[0];
@@ -106,7 +106,7 @@ export default function WorkOrdersPage() {
       const res = await fetch(`/api/work-orders/${id}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status: "rejected", reason, actorId: user?.id }),
+        body: JSON.stringify({ status: "rejected", reason }),
       });
       if (!res.ok) throw new Error(await res.text());
       return res.json();
@@ -0,0 +1,9 @@
+-- Track OTP verification attempts, sender IP and lockouts
+ALTER TABLE "otp_codes"
+  ADD COLUMN IF NOT EXISTS "attempts" integer DEFAULT 0 NOT NULL,
+  ADD COLUMN IF NOT EXISTS "request_ip" text,
+  ADD COLUMN IF NOT EXISTS "invalidated_at" timestamp,
+  ADD COLUMN IF NOT EXISTS "locked_until" timestamp;
+
+CREATE INDEX IF NOT EXISTS "otp_codes_phone_created_at_idx" ON "otp_codes" ("phone", "created_at");
+CREATE INDEX IF NOT EXISTS "otp_codes_request_ip_created_at_idx" ON "otp_codes" ("request_ip", "created_at");
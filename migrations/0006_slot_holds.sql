@@ -0,0 +1,21 @@
+DO $$ BEGIN
+  CREATE TYPE "slot_hold_status" AS ENUM ('active', 'released', 'confirmed', 'expired');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "slot_holds" (
+  "id" serial PRIMARY KEY,
+  "slot_id" integer NOT NULL REFERENCES "slots"("id"),
+  "user_id" integer NOT NULL REFERENCES "users"("id"),
+  "start_date" date NOT NULL,
+  "end_date" date NOT NULL,
+  "status" "slot_hold_status" DEFAULT 'active' NOT NULL,
+  "expires_at" timestamp NOT NULL,
+  "work_order_id" integer,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "released_at" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "slot_holds_slot_status_idx" ON "slot_holds" ("slot_id", "status");
+CREATE INDEX IF NOT EXISTS "slot_holds_expires_at_idx" ON "slot_holds" ("expires_at") WHERE "status" = 'active';
@@ -0,0 +1,28 @@
+DO $$ BEGIN
+  CREATE TYPE "slot_block_status" AS ENUM ('active', 'cancelled');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "slot_blocks" (
+  "id" serial PRIMARY KEY,
+  "slot_id" integer NOT NULL REFERENCES "slots"("id"),
+  "start_date" date NOT NULL,
+  "end_date" date NOT NULL,
+  "reason" text,
+  "status" "slot_block_status" DEFAULT 'active' NOT NULL,
+  "created_by_id" integer REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "cancelled_by_id" integer REFERENCES "users"("id"),
+  "cancelled_at" timestamp,
+  "cancel_reason" text
+);
+
+CREATE INDEX IF NOT EXISTS "slot_blocks_slot_status_idx" ON "slot_blocks" ("slot_id", "status");
+
+-- Carry over blocks recorded on the slot itself
+INSERT INTO "slot_blocks" ("slot_id", "start_date", "end_date", "reason", "created_by_id")
+SELECT "id", COALESCE("block_start", CURRENT_DATE), COALESCE("block_until", DATE '9999-12-31'), "block_reason", "blocked_by_id"
+FROM "slots"
+WHERE "is_blocked" = true
+  AND NOT EXISTS (SELECT 1 FROM "slot_blocks" b WHERE b."slot_id" = "slots"."id");
@@ -0,0 +1,46 @@
+DO $$ BEGIN
+  CREATE TYPE "price_source" AS ENUM ('rate_card', 'manual');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "rate_cards" (
+  "id" serial PRIMARY KEY,
+  "slot_id" integer NOT NULL REFERENCES "slots"("id"),
+  "daily_rate" numeric(10, 2) NOT NULL,
+  "weekly_rate" numeric(10, 2),
+  "monthly_rate" numeric(10, 2),
+  "effective_from" date NOT NULL,
+  "effective_to" date,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_by_id" integer REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "rate_cards_slot_idx" ON "rate_cards" ("slot_id", "effective_from");
+
+CREATE TABLE IF NOT EXISTS "seasonal_pricing_rules" (
+  "id" serial PRIMARY KEY,
+  "name" text NOT NULL,
+  "start_date" date NOT NULL,
+  "end_date" date NOT NULL,
+  "multiplier" numeric(5, 2) NOT NULL,
+  "media_type" "media_type",
+  "page_type" "page_type",
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_by_id" integer REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "duration_discounts" (
+  "id" serial PRIMARY KEY,
+  "min_days" integer NOT NULL,
+  "discount_percent" numeric(5, 2) NOT NULL,
+  "media_type" "media_type",
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_by_id" integer REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "work_order_items" ADD COLUMN IF NOT EXISTS "price_source" "price_source" DEFAULT 'manual' NOT NULL;
+ALTER TABLE "work_order_items" ADD COLUMN IF NOT EXISTS "pricing_breakdown" text;
@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS "addon_products" (
+  "id" serial PRIMARY KEY,
+  "code" text NOT NULL UNIQUE,
+  "name" text NOT NULL,
+  "description" text,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "addon_product_prices" (
+  "id" serial PRIMARY KEY,
+  "addon_product_id" integer NOT NULL REFERENCES "addon_products"("id"),
+  "price" numeric(10, 2) NOT NULL,
+  "effective_from" date NOT NULL,
+  "note" text,
+  "created_by_id" integer REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "addon_product_prices_product_idx" ON "addon_product_prices" ("addon_product_id", "effective_from");
+
+INSERT INTO "addon_products" ("code", "name", "description")
+VALUES
+  ('email', 'Email campaign', 'Email blast to the student mailing list'),
+  ('whatsapp', 'WhatsApp campaign', 'WhatsApp broadcast to opted-in students')
+ON CONFLICT ("code") DO NOTHING;
+
+INSERT INTO "addon_product_prices" ("addon_product_id", "price", "effective_from", "note")
+SELECT p."id", 0, DATE '2000-01-01', 'Initial price'
+FROM "addon_products" p
+WHERE NOT EXISTS (SELECT 1 FROM "addon_product_prices" pp WHERE pp."addon_product_id" = p."id");
@@ -0,0 +1,71 @@
+ALTER TYPE "release_order_status" ADD VALUE IF NOT EXISTS 'pending_approval' BEFORE 'accepted';
+
+DO $$ BEGIN
+  CREATE TYPE "approval_decision" AS ENUM ('approved', 'rejected');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "approval_policies" (
+  "id" serial PRIMARY KEY,
+  "name" text NOT NULL,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_by_id" integer REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "approval_stages" (
+  "id" serial PRIMARY KEY,
+  "policy_id" integer NOT NULL REFERENCES "approval_policies"("id"),
+  "position" integer NOT NULL,
+  "name" text NOT NULL,
+  "approver_role" "user_role" NOT NULL,
+  "required_approvals" integer DEFAULT 1 NOT NULL,
+  "release_order_status" "release_order_status" DEFAULT 'pending_approval' NOT NULL,
+  "skip_below_amount" numeric(12, 2),
+  "notify_by_email" boolean DEFAULT false NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "approval_stages_policy_position_idx" ON "approval_stages" ("policy_id", "position");
+
+CREATE TABLE IF NOT EXISTS "release_order_approvals" (
+  "id" serial PRIMARY KEY,
+  "release_order_id" integer NOT NULL REFERENCES "release_orders"("id"),
+  "stage_id" integer NOT NULL REFERENCES "approval_stages"("id"),
+  "approver_id" integer NOT NULL REFERENCES "users"("id"),
+  "decision" "approval_decision" NOT NULL,
+  "comment" text,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "release_order_approvals_ro_idx" ON "release_order_approvals" ("release_order_id", "stage_id");
+
+ALTER TABLE "release_orders" ADD COLUMN IF NOT EXISTS "approval_policy_id" integer REFERENCES "approval_policies"("id");
+ALTER TABLE "release_orders" ADD COLUMN IF NOT EXISTS "current_stage_id" integer REFERENCES "approval_stages"("id");
+ALTER TABLE "release_orders" ADD COLUMN IF NOT EXISTS "stage_entered_at" timestamp;
+
+-- Seed the manager -> VP -> PV Sir chain that used to be hard-coded
+INSERT INTO "approval_policies" ("name")
+SELECT 'Standard release order approval'
+WHERE NOT EXISTS (SELECT 1 FROM "approval_policies");
+
+INSERT INTO "approval_stages" ("policy_id", "position", "name", "approver_role", "release_order_status", "notify_by_email")
+SELECT p."id", s."position", s."name", s."role"::"user_role", s."status"::"release_order_status", s."email"
+FROM "approval_policies" p
+CROSS JOIN (VALUES
+  (1, 'Manager review', 'manager', 'pending_manager_review', false),
+  (2, 'VP review', 'vp', 'pending_vp_review', false),
+  (3, 'PV Sir review', 'pv_sir', 'pending_pv_review', true)
+) AS s("position", "name", "role", "status", "email")
+WHERE p."id" = (SELECT min("id") FROM "approval_policies")
+  AND NOT EXISTS (SELECT 1 FROM "approval_stages");
+
+-- Release orders already in review continue under the seeded policy
+UPDATE "release_orders" ro
+SET "approval_policy_id" = st."policy_id",
+    "current_stage_id" = st."id",
+    "stage_entered_at" = COALESCE(ro."stage_entered_at", now())
+FROM "approval_stages" st
+WHERE ro."current_stage_id" IS NULL
+  AND st."policy_id" = (SELECT min("id") FROM "approval_policies")
+  AND st."release_order_status"::text = ro."status"::text;
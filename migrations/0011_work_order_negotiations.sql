@@ -0,0 +1,30 @@
+DO $$ BEGIN
+  CREATE TYPE "negotiation_entry_kind" AS ENUM ('counter_offer', 'reply');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "work_order_negotiations" (
+  "id" serial PRIMARY KEY,
+  "work_order_id" integer NOT NULL REFERENCES "work_orders"("id"),
+  "author_id" integer NOT NULL REFERENCES "users"("id"),
+  "author_role" "user_role" NOT NULL,
+  "kind" "negotiation_entry_kind" NOT NULL,
+  "message" text NOT NULL,
+  "proposed_items" text,
+  "proposed_total" numeric(12, 2),
+  "quote_snapshot" text NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "work_order_negotiations_wo_idx" ON "work_order_negotiations" ("work_order_id", "created_at");
+
+-- Keep the single open request that existed before the thread
+INSERT INTO "work_order_negotiations" ("work_order_id", "author_id", "author_role", "kind", "message", "quote_snapshot", "created_at")
+SELECT wo."id", wo."client_id", 'client', 'counter_offer', wo."negotiation_reason",
+       json_build_object('totalAmount', wo."total_amount", 'gstPercent', wo."gst_percent", 'paymentMode', wo."payment_mode", 'items', '[]'::json)::text,
+       COALESCE(wo."negotiation_requested_at", now())
+FROM "work_orders" wo
+WHERE wo."negotiation_requested" = true
+  AND wo."negotiation_reason" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "work_order_negotiations" n WHERE n."work_order_id" = wo."id");
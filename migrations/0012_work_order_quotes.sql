@@ -0,0 +1,37 @@
+CREATE TABLE IF NOT EXISTS "work_order_quotes" (
+  "id" serial PRIMARY KEY,
+  "work_order_id" integer NOT NULL REFERENCES "work_orders"("id"),
+  "version" integer NOT NULL,
+  "payment_mode" "payment_type" NOT NULL,
+  "gst_percent" numeric(5, 2) NOT NULL,
+  "subtotal" numeric(12, 2) NOT NULL,
+  "total_amount" numeric(12, 2) NOT NULL,
+  "items" text NOT NULL,
+  "quoted_by_id" integer REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "accepted_at" timestamp,
+  "accepted_by_id" integer REFERENCES "users"("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "work_order_quotes_version_idx" ON "work_order_quotes" ("work_order_id", "version");
+
+ALTER TABLE "work_order_negotiations" ADD COLUMN IF NOT EXISTS "quote_id" integer REFERENCES "work_order_quotes"("id");
+
+-- Freeze what existing quoted or accepted work orders currently show as version 1
+INSERT INTO "work_order_quotes" ("work_order_id", "version", "payment_mode", "gst_percent", "subtotal", "total_amount", "items", "quoted_by_id", "accepted_at")
+SELECT wo."id", 1, wo."payment_mode", wo."gst_percent",
+       COALESCE((SELECT sum(i."subtotal") FROM "work_order_items" i WHERE i."work_order_id" = wo."id"), 0),
+       wo."total_amount",
+       COALESCE((
+         SELECT json_agg(json_build_object(
+           'id', i."id", 'slotId', i."slot_id", 'addonType', i."addon_type",
+           'startDate', i."start_date", 'endDate', i."end_date",
+           'unitPrice', i."unit_price", 'subtotal', i."subtotal"
+         ) ORDER BY i."id")
+         FROM "work_order_items" i WHERE i."work_order_id" = wo."id"
+       ), '[]'::json)::text,
+       wo."quoted_by_id",
+       CASE WHEN wo."status" IN ('client_accepted', 'paid', 'active', 'completed') THEN wo."updated_at" END
+FROM "work_orders" wo
+WHERE wo."status" IN ('quoted', 'client_accepted', 'paid', 'active', 'completed')
+  AND NOT EXISTS (SELECT 1 FROM "work_order_quotes" q WHERE q."work_order_id" = wo."id");
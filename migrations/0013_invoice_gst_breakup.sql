@@ -0,0 +1,42 @@
+DO $$ BEGIN
+  CREATE TYPE "gst_supply_type" AS ENUM ('intra_state', 'inter_state');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "taxable_amount" numeric(12, 2);
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "gst_percent" numeric(5, 2);
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "supply_type" "gst_supply_type";
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "place_of_supply" text;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "recipient_gstin" text;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "cgst_amount" numeric(12, 2) DEFAULT 0 NOT NULL;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "sgst_amount" numeric(12, 2) DEFAULT 0 NOT NULL;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "igst_amount" numeric(12, 2) DEFAULT 0 NOT NULL;
+
+-- Backfill work order invoices: amount is gross, place of supply from the client's GSTIN (36 = Telangana, ours)
+WITH src AS (
+  SELECT i."id",
+         i."amount",
+         wo."gst_percent" AS rate,
+         NULLIF(trim(u."gst_number"), '') AS gstin,
+         CASE
+           WHEN u."gst_number" IS NULL OR substring(trim(u."gst_number") FROM 1 FOR 2) !~ '^[0-9]{2}$' THEN '36'
+           ELSE substring(trim(u."gst_number") FROM 1 FOR 2)
+         END AS pos,
+         round(i."amount" - i."amount" / (1 + wo."gst_percent" / 100), 2) AS tax
+  FROM "invoices" i
+  JOIN "work_orders" wo ON wo."id" = i."work_order_id"
+  JOIN "users" u ON u."id" = wo."client_id"
+  WHERE i."supply_type" IS NULL
+)
+UPDATE "invoices" i
+SET "gst_percent" = src.rate,
+    "place_of_supply" = src.pos,
+    "recipient_gstin" = src.gstin,
+    "supply_type" = CASE WHEN src.pos = '36' THEN 'intra_state'::"gst_supply_type" ELSE 'inter_state'::"gst_supply_type" END,
+    "cgst_amount" = CASE WHEN src.pos = '36' THEN round(src.tax / 2, 2) ELSE 0 END,
+    "sgst_amount" = CASE WHEN src.pos = '36' THEN round(src.tax / 2, 2) ELSE 0 END,
+    "igst_amount" = CASE WHEN src.pos = '36' THEN 0 ELSE src.tax END,
+    "taxable_amount" = src."amount" - CASE WHEN src.pos = '36' THEN 2 * round(src.tax / 2, 2) ELSE src.tax END
+FROM src
+WHERE i."id" = src."id";
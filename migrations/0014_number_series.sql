@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS "number_series" (
+  "id" serial PRIMARY KEY,
+  "code" text NOT NULL UNIQUE,
+  "name" text NOT NULL,
+  "format" text NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "number_sequences" (
+  "id" serial PRIMARY KEY,
+  "series_id" integer NOT NULL REFERENCES "number_series"("id"),
+  "financial_year" text NOT NULL,
+  "last_value" integer DEFAULT 0 NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "number_sequences_series_fy_idx" ON "number_sequences" ("series_id", "financial_year");
+
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "invoice_number" text;
+CREATE UNIQUE INDEX IF NOT EXISTS "invoices_invoice_number_idx" ON "invoices" ("invoice_number");
+
+INSERT INTO "number_series" ("code", "name", "format")
+VALUES
+  ('proforma', 'Proforma invoice', 'TIME/PI/{FY}/{SEQ:4}'),
+  ('tax_invoice', 'Tax invoice', 'TIME/{FY}/{SEQ:4}'),
+  ('credit_note', 'Credit note', 'TIME/CN/{FY}/{SEQ:4}'),
+  ('release_order', 'Release order', 'TIME/RO/{FY}/{SEQ:4}')
+ON CONFLICT ("code") DO NOTHING;
@@ -0,0 +1,9 @@
+ALTER TABLE "slots" ADD COLUMN IF NOT EXISTS "sac_code" text DEFAULT '998365' NOT NULL;
+ALTER TABLE "addon_products" ADD COLUMN IF NOT EXISTS "sac_code" text DEFAULT '998365' NOT NULL;
+
+-- Print advertising space is a different service code from internet advertising space
+UPDATE "slots" SET "sac_code" = '998363' WHERE "media_type" = 'magazine';
+
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "proforma_invoice_id" integer;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "line_items" text;
+CREATE UNIQUE INDEX IF NOT EXISTS "invoices_proforma_invoice_id_idx" ON "invoices" ("proforma_invoice_id");
@@ -0,0 +1,9 @@
+ALTER TYPE "payment_status" ADD VALUE IF NOT EXISTS 'cancelled';
+ALTER TYPE "invoice_type" ADD VALUE IF NOT EXISTS 'credit_note';
+
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "credited_invoice_id" integer;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "reissued" boolean DEFAULT false NOT NULL;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "reason" text;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "cancelled_at" timestamp;
+
+CREATE INDEX IF NOT EXISTS "invoices_credited_invoice_id_idx" ON "invoices" ("credited_invoice_id");
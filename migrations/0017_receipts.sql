@@ -0,0 +1,32 @@
+DO $$ BEGIN
+  CREATE TYPE "receipt_mode" AS ENUM ('neft', 'rtgs', 'imps', 'upi', 'cheque', 'cash', 'other');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "receipts" (
+  "id" serial PRIMARY KEY,
+  "invoice_id" integer NOT NULL REFERENCES "invoices"("id"),
+  "work_order_id" integer REFERENCES "work_orders"("id"),
+  "amount" numeric(12, 2) NOT NULL,
+  "tds_amount" numeric(12, 2) DEFAULT 0 NOT NULL,
+  "mode" "receipt_mode" NOT NULL,
+  "reference" text,
+  "received_on" date NOT NULL,
+  "note" text,
+  "recorded_by_id" integer REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "receipts_invoice_idx" ON "receipts" ("invoice_id");
+CREATE INDEX IF NOT EXISTS "receipts_work_order_idx" ON "receipts" ("work_order_id");
+
+-- Invoices marked paid before the ledger existed get one receipt for their full amount.
+-- Tax invoices issued against a paid proforma are skipped: the proforma carries the receipt.
+INSERT INTO "receipts" ("invoice_id", "work_order_id", "amount", "mode", "received_on", "note")
+SELECT i."id", i."work_order_id", i."amount", 'other', i."generated_at"::date, 'Recorded before receipts were tracked'
+FROM "invoices" i
+WHERE i."status" = 'completed'
+  AND i."invoice_type" <> 'credit_note'
+  AND i."proforma_invoice_id" IS NULL
+  AND NOT EXISTS (SELECT 1 FROM "receipts" r WHERE r."invoice_id" = i."id");
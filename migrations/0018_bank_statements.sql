@@ -0,0 +1,38 @@
+DO $$ BEGIN
+  CREATE TYPE "bank_statement_format" AS ENUM ('csv', 'mt940');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "bank_line_status" AS ENUM ('unmatched', 'matched', 'ignored');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "bank_statement_imports" (
+  "id" serial PRIMARY KEY,
+  "file_name" text NOT NULL,
+  "format" "bank_statement_format" NOT NULL,
+  "credit_count" integer DEFAULT 0 NOT NULL,
+  "duplicate_count" integer DEFAULT 0 NOT NULL,
+  "imported_by_id" integer REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "bank_statement_lines" (
+  "id" serial PRIMARY KEY,
+  "import_id" integer NOT NULL REFERENCES "bank_statement_imports"("id"),
+  "value_date" date NOT NULL,
+  "amount" numeric(12, 2) NOT NULL,
+  "narration" text NOT NULL,
+  "reference" text,
+  "fingerprint" text NOT NULL UNIQUE,
+  "status" "bank_line_status" DEFAULT 'unmatched' NOT NULL,
+  "receipt_id" integer REFERENCES "receipts"("id"),
+  "resolved_by_id" integer REFERENCES "users"("id"),
+  "resolved_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "bank_statement_lines_status_idx" ON "bank_statement_lines" ("status");
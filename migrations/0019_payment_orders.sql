@@ -0,0 +1,25 @@
+ALTER TYPE "receipt_mode" ADD VALUE IF NOT EXISTS 'gateway' BEFORE 'other';
+
+DO $$ BEGIN
+  CREATE TYPE "payment_order_status" AS ENUM ('created', 'paid', 'failed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "payment_orders" (
+  "id" serial PRIMARY KEY,
+  "invoice_id" integer NOT NULL REFERENCES "invoices"("id"),
+  "provider" text NOT NULL,
+  "provider_order_id" text NOT NULL UNIQUE,
+  "amount" numeric(12, 2) NOT NULL,
+  "currency" text DEFAULT 'INR' NOT NULL,
+  "status" "payment_order_status" DEFAULT 'created' NOT NULL,
+  "provider_payment_id" text,
+  "receipt_id" integer REFERENCES "receipts"("id"),
+  "error" text,
+  "created_by_id" integer NOT NULL REFERENCES "users"("id"),
+  "paid_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "payment_orders_invoice_idx" ON "payment_orders" ("invoice_id");
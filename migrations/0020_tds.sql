@@ -0,0 +1,25 @@
+DO $$ BEGIN
+  CREATE TYPE "tds_section" AS ENUM ('194C', '194J');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "tds_certificates" (
+  "id" serial PRIMARY KEY,
+  "client_id" integer NOT NULL REFERENCES "users"("id"),
+  "financial_year" text NOT NULL,
+  "quarter" integer NOT NULL,
+  "certificate_number" text NOT NULL,
+  "tds_amount" numeric(12, 2) NOT NULL,
+  "file_url" text NOT NULL,
+  "uploaded_by_id" integer REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "tds_certificates_client_idx" ON "tds_certificates" ("client_id", "financial_year", "quarter");
+
+ALTER TABLE "receipts" ADD COLUMN IF NOT EXISTS "tds_section" "tds_section";
+ALTER TABLE "receipts" ADD COLUMN IF NOT EXISTS "tds_certificate_id" integer REFERENCES "tds_certificates"("id");
+
+-- TDS recorded before sections were tracked is almost always on advertising contracts
+UPDATE "receipts" SET "tds_section" = '194C' WHERE "tds_amount" > 0 AND "tds_section" IS NULL;
@@ -0,0 +1,22 @@
+CREATE TABLE IF NOT EXISTS "installment_plans" (
+  "id" serial PRIMARY KEY,
+  "name" text NOT NULL UNIQUE,
+  "parts" text NOT NULL,
+  "reminder_days" text DEFAULT '[-3,0,7]' NOT NULL,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+INSERT INTO "installment_plans" ("name", "parts") VALUES
+  ('50/50', '[{"percent":50,"anchor":"ro_accepted","offsetDays":0},{"percent":50,"anchor":"campaign_start","offsetDays":0}]'),
+  ('30/40/30', '[{"percent":30,"anchor":"ro_accepted","offsetDays":0},{"percent":40,"anchor":"campaign_start","offsetDays":0},{"percent":30,"anchor":"campaign_start","offsetDays":30}]')
+ON CONFLICT ("name") DO NOTHING;
+
+ALTER TABLE "work_orders" ADD COLUMN IF NOT EXISTS "installment_plan_id" integer REFERENCES "installment_plans"("id");
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "installment_number" integer;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "last_reminder_on" date;
+ALTER TABLE "release_orders" ADD COLUMN IF NOT EXISTS "accepted_at" timestamp;
+
+-- Release orders accepted before this column existed: the last stage change is the acceptance
+UPDATE "release_orders" SET "accepted_at" = COALESCE("stage_entered_at", "issued_at")
+WHERE "accepted_at" IS NULL AND "status" IN ('accepted', 'ready_for_it', 'deployed');
@@ -0,0 +1,44 @@
+DO $$ BEGIN
+  CREATE TYPE "dunning_channel" AS ENUM ('in_app', 'email', 'whatsapp');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "dunning_send_status" AS ENUM ('sent', 'failed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "dunning_steps" (
+  "id" serial PRIMARY KEY,
+  "step_number" integer NOT NULL UNIQUE,
+  "name" text NOT NULL,
+  "offset_days" integer NOT NULL,
+  "channels" text NOT NULL,
+  "notify_client" boolean DEFAULT true NOT NULL,
+  "copy_role" "user_role",
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+INSERT INTO "dunning_steps" ("step_number", "name", "offset_days", "channels", "notify_client", "copy_role") VALUES
+  (1, 'Polite reminder', 1, '["in_app","email"]', true, NULL),
+  (2, 'Firm reminder', 7, '["in_app","email","whatsapp"]', true, 'manager'),
+  (3, 'VP escalation', 15, '["in_app","email"]', false, 'vp')
+ON CONFLICT ("step_number") DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS "dunning_logs" (
+  "id" serial PRIMARY KEY,
+  "invoice_id" integer NOT NULL REFERENCES "invoices"("id"),
+  "work_order_id" integer NOT NULL REFERENCES "work_orders"("id"),
+  "step_id" integer NOT NULL REFERENCES "dunning_steps"("id"),
+  "channel" "dunning_channel" NOT NULL,
+  "recipient_id" integer NOT NULL REFERENCES "users"("id"),
+  "recipient_address" text,
+  "status" "dunning_send_status" NOT NULL,
+  "amount_due" numeric(12, 2) NOT NULL,
+  "days_overdue" integer NOT NULL,
+  "error" text,
+  "sent_at" timestamp DEFAULT now() NOT NULL
+);
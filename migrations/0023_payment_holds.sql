@@ -0,0 +1,34 @@
+ALTER TYPE "deployment_status" ADD VALUE IF NOT EXISTS 'paused';
+
+DO $$ BEGIN
+  CREATE TYPE "payment_hold_status" AS ENUM ('pending_approval', 'paused', 'dismissed', 'resolved');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "payment_default_policy" (
+  "id" serial PRIMARY KEY,
+  "overdue_days" integer DEFAULT 30 NOT NULL,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "updated_by_id" integer REFERENCES "users"("id"),
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+INSERT INTO "payment_default_policy" ("overdue_days")
+SELECT 30 WHERE NOT EXISTS (SELECT 1 FROM "payment_default_policy");
+
+CREATE TABLE IF NOT EXISTS "payment_holds" (
+  "id" serial PRIMARY KEY,
+  "work_order_id" integer NOT NULL REFERENCES "work_orders"("id"),
+  "status" "payment_hold_status" DEFAULT 'pending_approval' NOT NULL,
+  "days_overdue" integer NOT NULL,
+  "amount_overdue" numeric(12, 2) NOT NULL,
+  "decided_by_id" integer REFERENCES "users"("id"),
+  "decided_at" timestamp,
+  "decision_note" text,
+  "resolved_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "deployments" ADD COLUMN IF NOT EXISTS "paused_at" timestamp;
+ALTER TABLE "deployments" ADD COLUMN IF NOT EXISTS "payment_hold_id" integer REFERENCES "payment_holds"("id");
@@ -0,0 +1,2 @@
+ALTER TABLE "slots" ADD COLUMN IF NOT EXISTS "house_ad_url" text;
+ALTER TABLE "slots" ADD COLUMN IF NOT EXISTS "house_ad_link_url" text;
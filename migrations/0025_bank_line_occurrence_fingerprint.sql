@@ -0,0 +1,19 @@
+-- Bank line fingerprints now carry the credit's occurrence number within its statement, so identical
+-- credits on the same day are both kept. Lines imported so far were unique, i.e. occurrence 0.
+UPDATE "bank_statement_lines"
+SET "fingerprint" = encode(
+  sha256(
+    convert_to(
+      concat_ws(
+        '|',
+        "value_date"::text,
+        "amount"::text,
+        coalesce("reference", ''),
+        upper(regexp_replace("narration", '\s+', ' ', 'g')),
+        '0'
+      ),
+      'UTF8'
+    )
+  ),
+  'hex'
+);
@@ -0,0 +1,117 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+
+export type UserRole = User["role"];
+
+declare module "express-session" {
+  interface SessionData {
+    userId: number;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      authUser?: User;
+    }
+  }
+}
+
+const SESSION_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Roles that work inside the institute (everyone except clients)
+export const STAFF_ROLES: UserRole[] = ["manager", "vp", "pv_sir", "accounts", "it", "admin"];
+
+export function setupAuth(app: Express) {
+  const PgStore = connectPgSimple(session);
+
+  if (app.get("env") === "production") {
+    app.set("trust proxy", 1);
+    if (!process.env.SESSION_SECRET) throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  app.use(
+    session({
+      store: new PgStore({
+        conString: process.env.DATABASE_URL,
+        tableName: "user_sessions",
+        createTableIfMissing: true,
+      }),
+      name: "adslot.sid",
+      secret: process.env.SESSION_SECRET || "dev-session-secret",
+      resave: false,
+      saveUninitialized: false,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: app.get("env") === "production",
+        maxAge: SESSION_MAX_AGE,
+      },
+    })
+  );
+}
+
+// Issue a fresh session for the user (called after OTP verification)
+export function establishSession(req: Request, user: User): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) return reject(err);
+      req.session.userId = user.id;
+      req.session.save((saveErr) => (saveErr ? reject(saveErr) : resolve()));
+    });
+  });
+}
+
+export function destroySession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+// Loads the session user on every request so role changes and deactivation apply immediately
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    const user = await storage.getUser(userId);
+    if (!user || !user.isActive) {
+      await destroySession(req).catch(() => {});
+      return res.status(401).json({ error: "Session is no longer valid. Please login again." });
+    }
+    req.authUser = user;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Admin passes every role check
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = req.authUser;
+    if (!user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (user.role !== "admin" && !roles.includes(user.role)) {
+      return res.status(403).json({ error: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
+
+export function currentUser(req: Request): User {
+  if (!req.authUser) {
+    throw Object.assign(new Error("Authentication required"), { status: 401 });
+  }
+  return req.authUser;
+}
+
+// Clients may only touch records that belong to them; staff can see everything
+export function canAccessClient(user: User, clientId: number): boolean {
+  return user.role !== "client" || user.id === clientId;
+}
@@ -5,6 +5,7 @@ import { registerRoutes } from "./routes";
 import path from "path";
 import { setupVite, serveStatic, log } from "./vite";
 import { cronService } from "./services/cron";
+import { setupAuth } from "./auth";
 
 const app = express();
 
@@ -19,6 +20,7 @@ app.use(express.json({
   }
 }));
 app.use(express.urlencoded({ extended: false }));
+setupAuth(app);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import multer from "multer";
 import { Client } from "@replit/object-storage";
 import path from "path";
@@ -6,12 +6,35 @@ import fs from "fs";
 import PDFDocument from "pdfkit";
 import { storage } from "./storage";
 import { db } from "./db";
-import { banners, versionHistory, workOrders, workOrderItems, releaseOrders, releaseOrderItems, invoices, activityLogs, deployments } from "@shared/schema";
+import { banners, versionHistory, workOrders, workOrderItems, releaseOrders, releaseOrderItems, invoices, receipts, activityLogs, deployments, paymentHolds, type Invoice, type PaymentHold, type WorkOrderQuote } from "@shared/schema";
 import { eq, and } from "drizzle-orm";
-import { insertUserSchema, insertOtpCodeSchema, insertSlotSchema, insertBookingSchema, insertBannerSchema, insertApprovalSchema, signupSchema, users } from "@shared/schema";
+import { insertUserSchema, insertOtpCodeSchema, insertSlotSchema, insertBookingSchema, insertBannerSchema, insertApprovalSchema, insertRateCardSchema, insertSeasonalPricingRuleSchema, insertDurationDiscountSchema, insertAddonProductSchema, insertApprovalStageSchema, signupSchema, users } from "@shared/schema";
 import { notificationService } from "./services/notification";
 import { analyticsService } from "./services/analytics";
 import { emailService } from "./services/email";
+import { otpService, OtpError } from "./services/otp";
+import { slotReservationService, SlotConflictError, SlotHoldError } from "./services/reservation";
+import { slotAvailabilityService, isIsoDate } from "./services/availability";
+import { pricingService } from "./services/pricing";
+import { workOrderStateMachine, WorkOrderTransitionError, WORK_ORDER_TRANSITIONS, type WorkOrderEvent } from "./services/work-order-state";
+import { releaseOrderApprovalService, ApprovalError } from "./services/approval-policy";
+import { negotiationService, NegotiationError } from "./services/negotiation";
+import { quoteService, QuoteError } from "./services/quotes";
+import { SUPPLIER_GSTIN, GST_STATE_CODES, computeGst, invoiceTaxFields, invoiceTaxLines } from "./services/gst";
+import { numberingService, NumberingError, financialYearOf } from "./services/numbering";
+import { taxInvoiceService, TaxInvoiceError } from "./services/tax-invoice";
+import { creditNoteService, CreditNoteError } from "./services/credit-notes";
+import { receiptService, ReceiptError, workOrderBalance } from "./services/receipts";
+import { bankStatementService, BankStatementError } from "./services/bank-statements";
+import { paymentGatewayService, PaymentGatewayError } from "./services/payment-gateway";
+import { tdsService, TdsError } from "./services/tds";
+import { ledgerService, LedgerError } from "./services/ledger";
+import { installmentPlanService, InstallmentPlanError } from "./services/installment-plans";
+import { dunningService, DunningError } from "./services/dunning";
+import { paymentHoldService, PaymentHoldError } from "./services/payment-holds";
+import { deploymentService, DeploymentError, BANNER_IMAGE_TYPES } from "./services/deployments";
+import { adServingService, AdServingError } from "./services/ad-serving";
+import { requireAuth, requireRole, currentUser, canAccessClient, establishSession, destroySession, STAFF_ROLES, type UserRole } from "./auth";
 
 const upload = multer({ storage: multer.memoryStorage() });
 
@@ -26,7 +49,7 @@ const SERVICE_PROVIDER = {
     "SECUNDERABAD - 500 003",
     "STATE: TELANGANA",
   ],
-  gst: "GST NO. 36AAGCS0684P1ZQ",
+  gst: `GST NO. ${SUPPLIER_GSTIN}`,
 };
 
 const BANK_DETAILS = {
@@ -37,12 +60,71 @@ const BANK_DETAILS = {
   ifsc: "PUNB0107710",
 };
 
-const DEFAULT_HSN = "998365";
+// Title, number label and file name of each invoice type's PDF; `legacyPrefix` numbers rows issued before number series
+const INVOICE_DOCUMENTS: Record<Invoice["invoiceType"], { title: string; numberLabel: string; fileName: string; legacyPrefix: string }> = {
+  proforma: { title: "PROFORMA INVOICE", numberLabel: "Proforma Invoice No:", fileName: "proforma-invoice", legacyPrefix: "PI" },
+  tax_invoice: { title: "TAX INVOICE", numberLabel: "Invoice No:", fileName: "tax-invoice", legacyPrefix: "INV" },
+  credit_note: { title: "CREDIT NOTE", numberLabel: "Credit Note No:", fileName: "credit-note", legacyPrefix: "CN" },
+};
+
+function sendOtpError(res: Response, error: OtpError) {
+  if (error.retryAfterSeconds) {
+    res.setHeader("Retry-After", String(error.retryAfterSeconds));
+  }
+  return res.status(error.status).json({ error: error.message, retryAfterSeconds: error.retryAfterSeconds ?? null });
+}
+
+// Statuses a manager may set through PATCH /api/work-orders/:id, and the transition each one fires
+const PATCH_STATUS_EVENTS: Record<string, WorkOrderEvent> = {
+  quoted: "quote",
+  rejected: "reject",
+  active: "activate",
+  completed: "complete",
+};
+
+function sendReservationError(res: Response, error: any) {
+  if (error instanceof SlotConflictError) {
+    return res.status(409).json({ error: error.message, conflicts: error.conflicts });
+  }
+  if (error instanceof SlotHoldError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  return res.status(500).json({ error: error.message });
+}
 
 function formatCurrencyINR(value: number): string {
   return new Intl.NumberFormat("en-IN", { minimumFractionDigits: 0 }).format(Math.round(value));
 }
 
+// Registered office strip at the bottom of the current page of an invoice or statement
+function drawCompanyFooter(doc: InstanceType<typeof PDFDocument>) {
+  const left = doc.page.margins.left;
+  const right = doc.page.width - doc.page.margins.right;
+  const width = right - left;
+  doc.moveTo(left, doc.page.height - doc.page.margins.bottom - 40)
+    .lineTo(right, doc.page.height - doc.page.margins.bottom - 40)
+    .stroke();
+
+  doc.font("Helvetica-Bold").fontSize(10).text(
+    "Advanced Educational Activities Pvt. Ltd.",
+    left,
+    doc.page.height - doc.page.margins.bottom - 30,
+    { width }
+  );
+  doc.font("Helvetica").fontSize(8).text(
+    "Regd. Office: 95B, 2nd Floor, Siddamsetty Complex, Park Lane, Secunderabad, Telangana - 500 003. Tel: 040-40088300/400.",
+    left,
+    doc.y,
+    { width }
+  );
+  doc.text(
+    "CIN No.: U80100TG1994PTC018452   e-mail: hoaccounts@time4education.com   website: www.time4education.com",
+    left,
+    doc.y,
+    { width }
+  );
+}
+
 function getOrdinalSuffix(day: number): string {
   if (day >= 11 && day <= 13) return "th";
   switch (day % 10) {
@@ -163,6 +245,8 @@ export function registerRoutes(app: Express) {
       if (existingPhone) {
         return res.status(400).json({ error: "Phone number already registered. Please login instead." });
       }
+
+      await otpService.assertCanSend(validatedData.phone, req.ip);
       
       const user = await storage.createUser({
         name: validatedData.name,
@@ -174,14 +258,11 @@ export function registerRoutes(app: Express) {
         gstNumber: validatedData.gstNumber,
       });
       
-      const code = Math.floor(100000 + Math.random() * 900000).toString();
-      const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
-      await storage.createOtpCode({ phone: validatedData.phone, code, expiresAt, verified: false });
-      
-      console.log(`OTP for ${validatedData.phone}: ${code}`);
+      await otpService.issue(validatedData.phone, req.ip);
       
       res.json({ success: true, message: "Account created! Please verify your phone with the OTP sent.", userId: user.id });
     } catch (error: any) {
+      if (error instanceof OtpError) return sendOtpError(res, error);
       console.error("Signup error:", error);
       res.status(400).json({ error: error.message });
     }
@@ -195,17 +276,11 @@ export function registerRoutes(app: Express) {
         return res.status(400).json({ error: "Phone number is required" });
       }
       
-      // Generate 6-digit OTP
-      const code = Math.floor(100000 + Math.random() * 900000).toString();
-      const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
-      
-      await storage.createOtpCode({ phone, code, expiresAt, verified: false });
-      
-      // TODO: Send OTP via SMS service
-      console.log(`\n🔐 OTP for ${phone}: ${code}\n`);
+      await otpService.issue(String(phone), req.ip);
       
       res.json({ success: true, message: "OTP sent successfully" });
     } catch (error: any) {
+      if (error instanceof OtpError) return sendOtpError(res, error);
       console.error("Send OTP error:", error);
       res.status(500).json({ error: "Failed to send OTP. Please try again." });
     }
@@ -214,31 +289,126 @@ export function registerRoutes(app: Express) {
   app.post("/api/auth/verify-otp", async (req, res) => {
     try {
       const { phone, code } = req.body;
-      
-      const otp = await storage.getValidOtp(phone, code);
-      if (!otp) {
-        return res.status(400).json({ error: "Invalid or expired OTP" });
-      }
-      
-      if (new Date() > new Date(otp.expiresAt)) {
-        return res.status(400).json({ error: "OTP has expired" });
+      if (!phone || !code) {
+        return res.status(400).json({ error: "Phone number and OTP are required" });
       }
       
-      await storage.markOtpAsVerified(otp.id);
+      await otpService.verify(String(phone), String(code));
       
       const user = await storage.getUserByPhone(phone);
       if (!user) {
         return res.status(404).json({ error: "User not found. Please contact administrator to create your account." });
       }
+      if (!user.isActive) {
+        return res.status(403).json({ error: "Your account has been disabled. Please contact administrator." });
+      }
       
+      await establishSession(req, user);
       res.json({ success: true, user });
     } catch (error: any) {
+      if (error instanceof OtpError) return sendOtpError(res, error);
       res.status(400).json({ error: error.message });
     }
   });
 
+  app.get("/api/auth/me", requireAuth, async (req, res) => {
+    res.json({ user: currentUser(req) });
+  });
+
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      await destroySession(req);
+      res.clearCookie("adslot.sid");
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Payment provider webhooks authenticate by signature over the raw body, not by session
+  app.post("/api/payment-webhooks/:provider", async (req, res) => {
+    try {
+      const signature = req.get(paymentGatewayService.signatureHeader);
+      const result = await paymentGatewayService.handleWebhook(req.params.provider, req.rawBody, signature);
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof PaymentGatewayError) return res.status(error.status).json({ error: error.message });
+      console.error("Payment webhook failed:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Ad serving: public pages ask what is live on a slot or position. Answers are cached briefly so
+  // a new deployment, take-down or house ad shows up within a minute without editing the page.
+  const serveHeaders = (res: Response) => {
+    res.set("Access-Control-Allow-Origin", "*");
+    res.set("Cache-Control", "public, max-age=60");
+  };
+  const sendServingError = (res: Response, error: any, frame = false) => {
+    res.set("Access-Control-Allow-Origin", "*");
+    res.set("Cache-Control", "no-store");
+    const status = error instanceof AdServingError ? error.status : 500;
+    if (frame) return res.status(status).type("html").send(adServingService.frameHtml(null));
+    res.status(status).json({ error: error.message });
+  };
+
+  app.get("/api/serve/embed.js", (_req, res) => {
+    try {
+      const script = adServingService.embedScript();
+      serveHeaders(res);
+      res.type("application/javascript").send(script);
+    } catch (error: any) {
+      sendServingError(res, error);
+    }
+  });
+
+  app.get("/api/serve/slots/:slotId", async (req, res) => {
+    try {
+      const creative = await adServingService.resolveSlot(Number(req.params.slotId));
+      serveHeaders(res);
+      res.json({ creative });
+    } catch (error: any) {
+      sendServingError(res, error);
+    }
+  });
+
+  app.get("/api/serve/slots/:slotId/frame", async (req, res) => {
+    try {
+      const creative = await adServingService.resolveSlot(Number(req.params.slotId));
+      serveHeaders(res);
+      res.type("html").send(adServingService.frameHtml(creative));
+    } catch (error: any) {
+      sendServingError(res, error, true);
+    }
+  });
+
+  app.get("/api/serve/positions/:position", async (req, res) => {
+    try {
+      const pageType = typeof req.query.pageType === "string" ? req.query.pageType : undefined;
+      const creative = await adServingService.resolvePosition(req.params.position, pageType);
+      serveHeaders(res);
+      res.json({ creative });
+    } catch (error: any) {
+      sendServingError(res, error);
+    }
+  });
+
+  app.get("/api/serve/positions/:position/frame", async (req, res) => {
+    try {
+      const pageType = typeof req.query.pageType === "string" ? req.query.pageType : undefined;
+      const creative = await adServingService.resolvePosition(req.params.position, pageType);
+      serveHeaders(res);
+      res.type("html").send(adServingService.frameHtml(creative));
+    } catch (error: any) {
+      sendServingError(res, error, true);
+    }
+  });
+
+  // Everything below requires a signed-in session
+  app.use("/api", requireAuth);
+
   // User routes
-  app.post("/api/users", async (req, res) => {
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
     try {
       const validatedData = insertUserSchema.parse(req.body);
       const user = await storage.createUser(validatedData);
@@ -249,7 +419,11 @@ export function registerRoutes(app: Express) {
   });
 
   app.get("/api/users/:id", async (req, res) => {
-    const user = await storage.getUser(parseInt(req.params.id));
+    const id = parseInt(req.params.id);
+    if (!canAccessClient(currentUser(req), id)) {
+      return res.status(403).json({ error: "You can only view your own profile" });
+    }
+    const user = await storage.getUser(id);
     if (!user) {
       return res.status(404).json({ error: "User not found" });
     }
@@ -262,63 +436,16 @@ export function registerRoutes(app: Express) {
     res.json(slots);
   });
 
-  // Get available slots for date range
+  // Slots free for the whole date range (see services/availability for what counts as occupied)
   app.get("/api/slots/available", async (req, res) => {
     try {
       const { startDate, endDate, pageType, mediaType } = req.query as Record<string, string | undefined>;
-      
-      if (!startDate || !endDate) {
-        return res.status(400).json({ error: "startDate and endDate are required" });
+      if (!isIsoDate(startDate) || !isIsoDate(endDate)) {
+        return res.status(400).json({ error: "startDate and endDate are required (YYYY-MM-DD)" });
       }
 
-      // Get all slots
-      let slots = await storage.getAllSlots();
-
-      // Filter by page type if provided
-      if (pageType) slots = slots.filter(s => s.pageType === pageType);
-      // Filter by media type if provided
-      if (mediaType) slots = slots.filter(s => s.mediaType === mediaType);
-
-      // Blocked slots: if isBlocked and blockUntil >= startDate, exclude; if blockUntil < startDate, allow
-      const start = new Date(startDate as string);
-      slots = slots.filter(s => {
-        if (!s.isBlocked) return true;
-        if (!s.blockUntil) return false;
-        const until = new Date(s.blockUntil as any);
-        return until < start; // only available after blockUntil
-      });
-      // Only show slots marked available in DB
-      slots = slots.filter(s => s.status === "available");
-
-      // Get all bookings that overlap with the date range
-      const allBookings = await storage.getAllBookings();
-      const overlappingBookings = allBookings.filter(booking => {
-        const bookingStart = new Date(booking.startDate);
-        const bookingEnd = new Date(booking.endDate);
-        const rangeStart = new Date(startDate as string);
-        const rangeEnd = new Date(endDate as string);
-
-        // Check if date ranges overlap
-        return bookingStart <= rangeEnd && bookingEnd >= rangeStart;
-      });
-
-      // Filter out slots that are booked in the overlapping bookings
-      const blockingStatuses = new Set([
-        "pending_manager",
-        "pending_vp",
-        "pending_pv",
-        "pending_payment",
-        "pending_deployment",
-        "approved",
-        "active",
-        "paused",
-      ]);
-      const bookedSlotIds = new Set(
-        overlappingBookings.filter(b => blockingStatuses.has(b.status as any)).map(b => b.slotId)
-      );
-      const availableSlots = slots.filter(s => !bookedSlotIds.has(s.id));
-
-      res.json(availableSlots);
+      const slotsList = await slotAvailabilityService.getAvailability(startDate, endDate, { pageType, mediaType }, currentUser(req).id);
+      res.json(slotsList.filter((s) => s.available));
     } catch (error: any) {
       res.status(500).json({ error: "Failed to fetch available slots", details: error.message });
     }
@@ -328,77 +455,52 @@ export function registerRoutes(app: Express) {
   app.get("/api/slots/availability", async (req, res) => {
     try {
       const { startDate, endDate, pageType, mediaType } = req.query as Record<string, string | undefined>;
-      if (!startDate || !endDate) {
-        return res.status(400).json({ error: "startDate and endDate are required" });
-      }
-      const rangeStart = new Date(startDate as string);
-      const rangeEnd = new Date(endDate as string);
-      // Base slots
-      let slotsList = await storage.getAllSlots();
-      if (mediaType) slotsList = slotsList.filter(s => s.mediaType === mediaType);
-      if (pageType) slotsList = slotsList.filter(s => s.pageType === pageType);
-
-      // Preload work order items for relevant slots
-      // We fetch all WO items and filter in-memory for simplicity
-      const allWorkOrders = await db.select().from(workOrders);
-      const allWorkOrderItems = await db.select().from(workOrderItems);
-      const woById = new Map<number, any>(allWorkOrders.map((w: any) => [w.id, w]));
-
-      const blocksForSlot = (slotId: number) => {
-        // Blocks due to manager manual block (slot fields)
-        // Overlapping if [blockStart, blockUntil] overlaps [rangeStart, rangeEnd]
-        const slot = slotsList.find(s => s.id === slotId);
-        let managerBlocked = false;
-        if (slot?.isBlocked) {
-          const s = slot.blockStart ? new Date(slot.blockStart as any) : null;
-          const e = slot.blockUntil ? new Date(slot.blockUntil as any) : null;
-          if (s && e && s <= rangeEnd && e >= rangeStart) {
-            managerBlocked = true;
-          } else if (s && !e && s <= rangeEnd) {
-            managerBlocked = true;
-          } else if (!s && e && e >= rangeStart) {
-            managerBlocked = true;
-          }
-        }
-        if (managerBlocked) return { blocked: true, blockType: "manager_block", state: "booked" };
-
-        // Blocks due to work order items (for any non-rejected WO)
-        const items = allWorkOrderItems.filter((it: any) => it.slotId === slotId);
-        let hasBooked = false;
-        let bookedWoId: number | null = null;
-        for (const it of items) {
-          const wo = woById.get(it.workOrderId);
-          if (!wo) continue;
-          // Consider WOs that are not rejected
-          if (wo.status === "rejected") continue;
-          const iStart = new Date(it.startDate as any);
-          const iEnd = new Date(it.endDate as any);
-          const overlap = iStart <= rangeEnd && iEnd >= rangeStart;
-          if (overlap) {
-            // Treat any requested/processing (draft/quoted) and later states as booked for availability
-            // Only 'rejected' above is ignored; everything else blocks as 'booked'
-            hasBooked = true;
-            bookedWoId = wo.id;
-          }
-        }
-        if (hasBooked) return { blocked: true, blockType: "work_order", state: "booked", workOrderId: bookedWoId };
-        return { blocked: false, blockType: null, state: "available" };
-      };
+      if (!isIsoDate(startDate) || !isIsoDate(endDate)) {
+        return res.status(400).json({ error: "startDate and endDate are required (YYYY-MM-DD)" });
+      }
 
-      const out = slotsList.map((s: any) => {
-        const blk = blocksForSlot(s.id);
-        return {
-          ...s,
-          status: blk.blocked ? (blk as any).state : "available",
-          blockType: blk.blockType,
-          blockingWorkOrderId: (blk as any).workOrderId || null,
-        };
-      });
-      res.json(out);
+      const slotsList = await slotAvailabilityService.getAvailability(startDate, endDate, { pageType, mediaType }, currentUser(req).id);
+      res.json(slotsList);
     } catch (error: any) {
       res.status(500).json({ error: "Failed to compute availability", details: error.message });
     }
   });
+
+  // Per-day occupancy calendar for one or more slots (?slotIds=1,2,3)
+  app.get("/api/slots/calendar", async (req, res) => {
+    try {
+      const { startDate, endDate, slotIds, pageType, mediaType } = req.query as Record<string, string | undefined>;
+      if (!isIsoDate(startDate) || !isIsoDate(endDate) || startDate > endDate) {
+        return res.status(400).json({ error: "A valid startDate and endDate are required (YYYY-MM-DD)" });
+      }
+
+      const ids = slotIds
+        ? slotIds.split(",").map((id) => parseInt(id)).filter((id) => !isNaN(id))
+        : (await slotAvailabilityService.getSlots({ pageType, mediaType })).map((s) => s.id);
+      const calendar = await slotAvailabilityService.getCalendar(ids, startDate, endDate, currentUser(req).id);
+      res.json(calendar);
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to build slot calendar", details: error.message });
+    }
+  });
+
+  app.get("/api/slots/:id/calendar", async (req, res) => {
+    try {
+      const slotId = parseInt(req.params.id);
+      const { startDate, endDate } = req.query as Record<string, string | undefined>;
+      if (!isIsoDate(startDate) || !isIsoDate(endDate) || startDate > endDate) {
+        return res.status(400).json({ error: "A valid startDate and endDate are required (YYYY-MM-DD)" });
+      }
+      const slot = await storage.getSlot(slotId);
+      if (!slot) return res.status(404).json({ error: "Slot not found" });
+
+      const [calendar] = await slotAvailabilityService.getCalendar([slotId], startDate, endDate, currentUser(req).id);
+      res.json(calendar);
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to build slot calendar", details: error.message });
+    }
+  });
+
   app.get("/api/slots/:id", async (req, res) => {
     const slot = await storage.getSlot(parseInt(req.params.id));
     if (!slot) {
@@ -407,9 +509,9 @@ export function registerRoutes(app: Express) {
     res.json(slot);
   });
 
-  app.post("/api/slots", async (req, res) => {
+  app.post("/api/slots", requireRole("manager", "it"), async (req, res) => {
     try {
-      const validatedData = insertSlotSchema.parse(req.body);
+      const validatedData = insertSlotSchema.parse({ ...req.body, createdById: currentUser(req).id });
       const slot = await storage.createSlot(validatedData);
       res.json(slot);
     } catch (error: any) {
@@ -417,7 +519,7 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  app.patch("/api/slots/:id", async (req, res) => {
+  app.patch("/api/slots/:id", requireRole("manager", "it"), async (req, res) => {
     const slot = await storage.updateSlot(parseInt(req.params.id), req.body);
     if (!slot) {
       return res.status(404).json({ error: "Slot not found" });
@@ -425,162 +527,186 @@ export function registerRoutes(app: Express) {
     res.json(slot);
   });
 
-  // Slot state transition routes
-  app.post("/api/slots/:id/select", async (req, res) => {
+  // House ad served on the slot while it is unsold; multipart with an optional new image and link
+  app.put("/api/slots/:id/house-ad", requireRole("manager", "it"), upload.single("file"), async (req, res) => {
     try {
-      const slotId = parseInt(req.params.id);
-      const { userId } = req.body;
-
-      if (!userId) {
-        return res.status(400).json({ error: "User ID is required" });
-      }
-
-      const updatedSlot = await storage.selectSlot(slotId, userId);
+      res.json(await adServingService.setHouseAd(parseInt(req.params.id), { file: req.file, linkUrl: req.body?.linkUrl }, currentUser(req)));
+    } catch (error: any) {
+      if (error instanceof AdServingError) return res.status(error.status).json({ error: error.message });
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      if (!updatedSlot) {
-        const slot = await storage.getSlot(slotId);
-        if (!slot) {
-          return res.status(404).json({ error: "Slot not found" });
-        }
-        return res.status(409).json({ 
-          error: "Slot is not available", 
-          currentStatus: slot.status,
-          reservedBy: slot.reservedByUserId 
-        });
-      }
+  app.delete("/api/slots/:id/house-ad", requireRole("manager", "it"), async (req, res) => {
+    try {
+      res.json(await adServingService.setHouseAd(parseInt(req.params.id), { clear: true }, currentUser(req)));
+    } catch (error: any) {
+      if (error instanceof AdServingError) return res.status(error.status).json({ error: error.message });
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      res.json(updatedSlot);
+  // Embed snippets IT pastes into the website for the slot's position
+  app.get("/api/slots/:id/embed", requireRole("manager", "it"), async (req, res) => {
+    try {
+      res.json(await adServingService.embedSnippet(Number(req.params.id)));
     } catch (error: any) {
+      if (error instanceof AdServingError) return res.status(error.status).json({ error: error.message });
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.post("/api/slots/:id/release", async (req, res) => {
+  // Slot holds: a client (or manager on their behalf) holds a slot for a date range while
+  // building a work order. Holds expire after SLOT_HOLD_TTL_MINUTES unless confirmed.
+  app.post("/api/slots/:id/select", requireRole("client", "manager"), async (req, res) => {
     try {
       const slotId = parseInt(req.params.id);
-      const { userId } = req.body;
+      const userId = currentUser(req).id;
+      const { startDate, endDate } = req.body;
 
-      if (!userId) {
-        return res.status(400).json({ error: "User ID is required" });
-      }
+      const hold = await slotReservationService.hold(slotId, userId, startDate, endDate);
+      res.json(hold);
+    } catch (error: any) {
+      sendReservationError(res, error);
+    }
+  });
 
-      const updatedSlot = await storage.releaseSlot(slotId, userId);
+  app.post("/api/slots/:id/release", requireRole("client", "manager"), async (req, res) => {
+    try {
+      const slotId = parseInt(req.params.id);
+      const userId = currentUser(req).id;
 
-      if (!updatedSlot) {
-        const slot = await storage.getSlot(slotId);
-        if (!slot) {
-          return res.status(404).json({ error: "Slot not found" });
-        }
-        if (slot.status !== "pending") {
-          return res.status(409).json({ 
-            error: "Only pending slots can be released",
-            currentStatus: slot.status
-          });
-        }
-        return res.status(403).json({ 
-          error: "You cannot release a slot reserved by another user" 
-        });
+      const released = await slotReservationService.release(slotId, userId);
+      if (!released) {
+        return res.status(404).json({ error: "You do not have an active hold on this slot" });
       }
-
-      res.json(updatedSlot);
+      res.json(released);
     } catch (error: any) {
-      res.status(500).json({ error: error.message });
+      sendReservationError(res, error);
     }
   });
 
-  app.post("/api/slots/:id/confirm", async (req, res) => {
+  // Re-validates and extends the caller's hold (e.g. right before submitting the work order)
+  app.post("/api/slots/:id/confirm", requireRole("client", "manager"), async (req, res) => {
     try {
       const slotId = parseInt(req.params.id);
-      const { userId } = req.body;
+      const userId = currentUser(req).id;
+      const { startDate, endDate } = req.body;
 
-      if (!userId) {
-        return res.status(400).json({ error: "User ID is required" });
-      }
+      const hold = await slotReservationService.hold(slotId, userId, startDate, endDate);
+      res.json(hold);
+    } catch (error: any) {
+      sendReservationError(res, error);
+    }
+  });
 
-      const updatedSlot = await storage.confirmSlot(slotId, userId);
+  app.get("/api/slot-holds/mine", requireRole("client", "manager"), async (req, res) => {
+    try {
+      const holds = await slotReservationService.getActiveHolds(currentUser(req).id);
+      res.json(holds);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      if (!updatedSlot) {
-        const slot = await storage.getSlot(slotId);
-        if (!slot) {
-          return res.status(404).json({ error: "Slot not found" });
-        }
-        if (slot.status !== "pending") {
-          return res.status(409).json({ 
-            error: "Slot must be in pending status to confirm", 
-            currentStatus: slot.status 
-          });
-        }
-        return res.status(403).json({ 
-          error: "You can only confirm slots you reserved" 
-        });
-      }
+  // Slot blocks: managers can take a slot off sale for any number of dated windows
+  app.get("/api/slot-blocks", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const { status } = req.query as { status?: "active" | "cancelled" };
+      const blocks = await storage.getSlotBlocks({ status });
+      res.json(blocks);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      res.json(updatedSlot);
+  app.get("/api/slots/:id/blocks", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const blocks = await storage.getSlotBlocks({ slotId: parseInt(req.params.id) });
+      res.json(blocks);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Manual slot blocking/unblocking
-  app.post("/api/slots/:id/block", async (req, res) => {
+  // "/block" is kept for older clients
+  app.post(["/api/slots/:id/blocks", "/api/slots/:id/block"], requireRole("manager"), async (req, res) => {
     try {
+      const actor = currentUser(req);
       const slotId = parseInt(req.params.id);
-      const { reason, startDate, endDate, managerId } = req.body as { reason?: string; startDate?: string; endDate?: string; managerId?: number };
+      const { reason, startDate, endDate } = req.body as { reason?: string; startDate?: string; endDate?: string };
       const slot = await storage.getSlot(slotId);
       if (!slot) return res.status(404).json({ error: "Slot not found" });
       if (!startDate || !endDate) return res.status(400).json({ error: "startDate and endDate are required to block a slot" });
+      if (!isIsoDate(startDate) || !isIsoDate(endDate) || startDate > endDate) {
+        return res.status(400).json({ error: "Invalid start or end date" });
+      }
 
-      // Prevent blocking overlaps with existing client work orders (non-rejected)
-      try {
-        const s = new Date(startDate as any);
-        const e = new Date(endDate as any);
-        if (isNaN(s.getTime()) || isNaN(e.getTime())) {
-          return res.status(400).json({ error: "Invalid start or end date" });
-        }
-        const items = await db.select().from(workOrderItems).where(eq(workOrderItems.slotId, slotId));
-        const woIds = Array.from(new Set(items.map((it: any) => it.workOrderId))).filter(Boolean) as number[];
-        const allWos = await db.select().from(workOrders);
-        const woMap = new Map<number, any>(allWos.map((w: any) => [w.id, w]));
-        for (const it of items) {
-          const wo = woMap.get(it.workOrderId);
-          if (!wo || wo.status === "rejected") continue;
-          const iStart = new Date(it.startDate as any);
-          const iEnd = new Date(it.endDate as any);
-          const overlap = iStart <= e && iEnd >= s;
-          if (overlap) {
-            return res.status(409).json({ error: "Cannot block this slot: overlaps with an existing client work order period." });
-          }
-        }
-      } catch (err: any) {
-        return res.status(500).json({ error: "Failed to validate block against existing work orders", details: err.message });
-      }
-      const updated = await storage.updateSlot(slotId, {
-        isBlocked: true,
-        blockReason: reason || null as any,
-        blockedById: managerId as any,
-        blockStart: startDate as any,
-        blockUntil: endDate as any,
-        status: "available" as any, // keep status but mark blocked
-      } as any);
-      res.json(updated);
+      // Refuses periods already committed to clients, or days that are already blocked
+      const block = await slotReservationService.block(slotId, { startDate, endDate, reason: reason || null }, actor.id);
+      await storage.createActivityLog({
+        actorId: actor.id,
+        actorRole: actor.role,
+        action: "slot_blocked",
+        entityType: "slot",
+        entityId: slotId,
+        metadata: JSON.stringify({ blockId: block.id, startDate, endDate, reason: reason || null }),
+      });
+      res.json(block);
+    } catch (error: any) {
+      if (error instanceof SlotHoldError) return sendReservationError(res, error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/slot-blocks/:id/cancel", requireRole("manager"), async (req, res) => {
+    try {
+      const actor = currentUser(req);
+      const { reason } = req.body as { reason?: string };
+      const block = await storage.getSlotBlock(parseInt(req.params.id));
+      if (!block) return res.status(404).json({ error: "Block not found" });
+      if (block.status !== "active") return res.status(409).json({ error: "Block is already cancelled" });
+
+      const cancelled = await storage.cancelSlotBlock(block.id, actor.id, reason);
+      await storage.createActivityLog({
+        actorId: actor.id,
+        actorRole: actor.role,
+        action: "slot_unblocked",
+        entityType: "slot",
+        entityId: block.slotId,
+        metadata: JSON.stringify({ blockId: block.id, reason: reason || null }),
+      });
+      res.json(cancelled);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.post("/api/slots/:id/unblock", async (req, res) => {
+  // Cancels every active block on the slot; the blocks stay on record as cancelled
+  app.post("/api/slots/:id/unblock", requireRole("manager"), async (req, res) => {
     try {
+      const actor = currentUser(req);
       const slotId = parseInt(req.params.id);
       const slot = await storage.getSlot(slotId);
       if (!slot) return res.status(404).json({ error: "Slot not found" });
-      const updated = await storage.updateSlot(slotId, {
-        isBlocked: false,
-        blockReason: null as any,
-        blockedById: null as any,
-        blockStart: null as any,
-        blockUntil: null as any,
-      } as any);
-      res.json(updated);
+
+      const active = await storage.getSlotBlocks({ slotId, status: "active" });
+      const cancelled = [];
+      for (const block of active) {
+        const c = await storage.cancelSlotBlock(block.id, actor.id, req.body?.reason);
+        if (c) cancelled.push(c);
+      }
+      if (cancelled.length > 0) {
+        await storage.createActivityLog({
+          actorId: actor.id,
+          actorRole: actor.role,
+          action: "slot_unblocked",
+          entityType: "slot",
+          entityId: slotId,
+          metadata: JSON.stringify({ blockIds: cancelled.map((c) => c.id) }),
+        });
+      }
+      res.json({ slot, cancelled });
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
@@ -588,7 +714,9 @@ export function registerRoutes(app: Express) {
 
   // Booking routes
   app.get("/api/bookings", async (req, res) => {
-    const { clientId, status } = req.query;
+    const actor = currentUser(req);
+    const { status } = req.query;
+    const clientId = actor.role === "client" ? String(actor.id) : req.query.clientId;
     
     if (clientId) {
       const bookings = await storage.getBookingsByClient(parseInt(clientId as string));
@@ -606,15 +734,18 @@ export function registerRoutes(app: Express) {
 
   app.get("/api/bookings/:id", async (req, res) => {
     const booking = await storage.getBooking(parseInt(req.params.id));
-    if (!booking) {
+    if (!booking || !canAccessClient(currentUser(req), booking.clientId)) {
       return res.status(404).json({ error: "Booking not found" });
     }
     res.json(booking);
   });
 
-  app.post("/api/bookings", async (req, res) => {
+  app.post("/api/bookings", requireRole("client", "manager"), async (req, res) => {
     try {
-      const validatedData = insertBookingSchema.parse(req.body);
+      const actor = currentUser(req);
+      const validatedData = insertBookingSchema.parse(
+        actor.role === "client" ? { ...req.body, clientId: actor.id } : req.body
+      );
 
       // Enforce: only one slot per section for a client (section = website:pageType, or mediaType for others)
       const slot = await storage.getSlot(validatedData.slotId);
@@ -670,7 +801,7 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  app.patch("/api/bookings/:id", async (req, res) => {
+  app.patch("/api/bookings/:id", requireRole("manager"), async (req, res) => {
     const booking = await storage.updateBooking(parseInt(req.params.id), req.body);
     if (!booking) {
       return res.status(404).json({ error: "Booking not found" });
@@ -678,7 +809,7 @@ export function registerRoutes(app: Express) {
     res.json(booking);
   });
 
-  app.patch("/api/bookings/:id/status", async (req, res) => {
+  app.patch("/api/bookings/:id/status", requireRole(...STAFF_ROLES), async (req, res) => {
     try {
       const { status } = req.body;
       const bookingId = parseInt(req.params.id);
@@ -746,20 +877,40 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  // Booking-scoped records (banners, payments, analytics) are visible to the booking's client and staff
+  const BOOKING_VIEWER_ROLES: UserRole[] = ["client", "manager", "vp", "pv_sir", "accounts", "it"];
+  const accessibleBooking = async (req: Request, bookingId: number) => {
+    if (isNaN(bookingId)) return undefined;
+    const booking = await storage.getBooking(bookingId);
+    return booking && canAccessClient(currentUser(req), booking.clientId) ? booking : undefined;
+  };
+  const accessibleBanner = async (req: Request, bannerId: number) => {
+    if (isNaN(bannerId)) return undefined;
+    const banner = await storage.getBanner(bannerId);
+    return banner && (await accessibleBooking(req, banner.bookingId)) ? banner : undefined;
+  };
+
   // Banner routes
-  app.get("/api/banners/booking/:bookingId", async (req, res) => {
-    const banners = await storage.getBannersByBooking(parseInt(req.params.bookingId));
+  app.get("/api/banners/booking/:bookingId", requireRole(...BOOKING_VIEWER_ROLES), async (req, res) => {
+    const booking = await accessibleBooking(req, parseInt(req.params.bookingId));
+    if (!booking) return res.status(404).json({ error: "Booking not found" });
+    const banners = await storage.getBannersByBooking(booking.id);
     res.json(banners);
   });
 
-  app.get("/api/banners/current/:bookingId", async (req, res) => {
-    const banner = await storage.getCurrentBanner(parseInt(req.params.bookingId));
+  app.get("/api/banners/current/:bookingId", requireRole(...BOOKING_VIEWER_ROLES), async (req, res) => {
+    const booking = await accessibleBooking(req, parseInt(req.params.bookingId));
+    if (!booking) return res.status(404).json({ error: "Booking not found" });
+    const banner = await storage.getCurrentBanner(booking.id);
     res.json(banner);
   });
 
-  app.post("/api/banners", async (req, res) => {
+  app.post("/api/banners", requireRole("client", "manager"), async (req, res) => {
     try {
-      const validatedData = insertBannerSchema.parse(req.body);
+      const validatedData = insertBannerSchema.parse({ ...req.body, uploadedById: currentUser(req).id });
+      if (!(await accessibleBooking(req, validatedData.bookingId))) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
       const banner = await storage.createBanner(validatedData);
       res.json(banner);
     } catch (error: any) {
@@ -768,12 +919,15 @@ export function registerRoutes(app: Express) {
   });
 
   // Get banners by booking
-  app.get("/api/banners/:bookingId", async (req, res) => {
+  app.get("/api/banners/:bookingId", requireRole(...BOOKING_VIEWER_ROLES), async (req, res) => {
     try {
       const bookingId = parseInt(req.params.bookingId);
       if (isNaN(bookingId)) {
         return res.status(400).json({ error: "Invalid booking ID" });
       }
+      if (!(await accessibleBooking(req, bookingId))) {
+        return res.status(404).json({ error: "Booking not found" });
+      }
       
       const banners = await storage.getBannersByBooking(bookingId);
       res.json(banners);
@@ -782,8 +936,8 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  app.post("/api/banners/upload", upload.single("file"), async (req, res) => {
-    const ALLOWED_MIME_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"];
+  app.post("/api/banners/upload", requireRole("client", "manager"), upload.single("file"), async (req, res) => {
+    const ALLOWED_MIME_TYPES = Object.keys(BANNER_IMAGE_TYPES);
     const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
     
     let uploadedFileName: string | null = null;
@@ -805,21 +959,21 @@ export function registerRoutes(app: Express) {
         });
       }
 
-      const { bookingId, uploadedById } = req.body;
+      const { bookingId } = req.body;
 
-      if (!bookingId || !uploadedById) {
-        return res.status(400).json({ error: "bookingId and uploadedById are required" });
+      if (!bookingId) {
+        return res.status(400).json({ error: "bookingId is required" });
       }
 
       const parsedBookingId = parseInt(bookingId, 10);
-      const parsedUploadedById = parseInt(uploadedById, 10);
+      const parsedUploadedById = currentUser(req).id;
 
-      if (isNaN(parsedBookingId) || isNaN(parsedUploadedById)) {
-        return res.status(400).json({ error: "bookingId and uploadedById must be valid numbers" });
+      if (isNaN(parsedBookingId)) {
+        return res.status(400).json({ error: "bookingId must be a valid number" });
       }
 
       const booking = await storage.getBooking(parsedBookingId);
-      if (!booking) {
+      if (!booking || !canAccessClient(currentUser(req), booking.clientId)) {
         return res.status(404).json({ error: "Booking not found" });
       }
 
@@ -914,17 +1068,17 @@ export function registerRoutes(app: Express) {
   });
 
   // Approval routes
-  app.get("/api/approvals/booking/:bookingId", async (req, res) => {
+  app.get("/api/approvals/booking/:bookingId", requireRole(...STAFF_ROLES), async (req, res) => {
     const approvals = await storage.getApprovalsByBooking(parseInt(req.params.bookingId));
     res.json(approvals);
   });
 
-  app.get("/api/approvals/pending/:role", async (req, res) => {
+  app.get("/api/approvals/pending/:role", requireRole(...STAFF_ROLES), async (req, res) => {
     const approvals = await storage.getPendingApprovals(req.params.role);
     res.json(approvals);
   });
 
-  app.post("/api/approvals", async (req, res) => {
+  app.post("/api/approvals", requireRole(...STAFF_ROLES), async (req, res) => {
     try {
       const validatedData = insertApprovalSchema.parse(req.body);
       const approval = await storage.createApproval(validatedData);
@@ -934,7 +1088,7 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  app.patch("/api/approvals/:id", async (req, res) => {
+  app.patch("/api/approvals/:id", requireRole(...STAFF_ROLES), async (req, res) => {
     const approval = await storage.updateApproval(parseInt(req.params.id), req.body);
     if (!approval) {
       return res.status(404).json({ error: "Approval not found" });
@@ -1000,67 +1154,92 @@ export function registerRoutes(app: Express) {
 
   // Notification routes
   app.get("/api/notifications/:userId", async (req, res) => {
-    const notifications = await notificationService.getUserNotifications(parseInt(req.params.userId));
+    const userId = parseInt(req.params.userId);
+    if (userId !== currentUser(req).id) {
+      return res.status(403).json({ error: "You can only read your own notifications" });
+    }
+    const notifications = await notificationService.getUserNotifications(userId);
     res.json(notifications);
   });
 
   app.patch("/api/notifications/:id/read", async (req, res) => {
-    await notificationService.markAsRead(parseInt(req.params.id));
+    const updated = await notificationService.markAsRead(parseInt(req.params.id), currentUser(req).id);
+    if (!updated) {
+      return res.status(404).json({ error: "Notification not found" });
+    }
     res.json({ success: true });
   });
 
   app.patch("/api/notifications/:userId/read-all", async (req, res) => {
-    await notificationService.markAllAsRead(parseInt(req.params.userId));
+    const userId = parseInt(req.params.userId);
+    if (userId !== currentUser(req).id) {
+      return res.status(403).json({ error: "You can only update your own notifications" });
+    }
+    await notificationService.markAllAsRead(userId);
     res.json({ success: true });
   });
 
   // Analytics routes
-  app.get("/api/analytics/banner/:bannerId", async (req, res) => {
+  app.get("/api/analytics/banner/:bannerId", requireRole(...BOOKING_VIEWER_ROLES), async (req, res) => {
+    const banner = await accessibleBanner(req, parseInt(req.params.bannerId));
+    if (!banner) return res.status(404).json({ error: "Banner not found" });
     const { startDate, endDate } = req.query;
     const analytics = await analyticsService.getBannerAnalytics(
-      parseInt(req.params.bannerId),
+      banner.id,
       startDate as string,
       endDate as string
     );
     res.json(analytics);
   });
 
-  app.get("/api/analytics/booking/:bookingId", async (req, res) => {
+  app.get("/api/analytics/booking/:bookingId", requireRole(...BOOKING_VIEWER_ROLES), async (req, res) => {
+    const booking = await accessibleBooking(req, parseInt(req.params.bookingId));
+    if (!booking) return res.status(404).json({ error: "Booking not found" });
     const { startDate, endDate } = req.query;
     const analytics = await analyticsService.getBookingAnalytics(
-      parseInt(req.params.bookingId),
+      booking.id,
       startDate as string,
       endDate as string
     );
     res.json(analytics);
   });
 
-  app.post("/api/analytics/track/impression/:bannerId", async (req, res) => {
-    const success = await analyticsService.trackImpression(parseInt(req.params.bannerId));
+  // Tracking is recorded by IT from the serving side, never by clients
+  app.post("/api/analytics/track/impression/:bannerId", requireRole("it"), async (req, res) => {
+    const banner = await storage.getBanner(parseInt(req.params.bannerId));
+    if (!banner) return res.status(404).json({ error: "Banner not found" });
+    const success = await analyticsService.trackImpression(banner.id);
     res.json({ success });
   });
 
-  app.post("/api/analytics/track/click/:bannerId", async (req, res) => {
-    const success = await analyticsService.trackClick(parseInt(req.params.bannerId));
+  app.post("/api/analytics/track/click/:bannerId", requireRole("it"), async (req, res) => {
+    const banner = await storage.getBanner(parseInt(req.params.bannerId));
+    if (!banner) return res.status(404).json({ error: "Banner not found" });
+    const success = await analyticsService.trackClick(banner.id);
     res.json({ success });
   });
 
   // Version history routes
-  app.get("/api/version-history/:bannerId", async (req, res) => {
-    const history = await storage.getVersionHistory(parseInt(req.params.bannerId));
+  app.get("/api/version-history/:bannerId", requireRole(...BOOKING_VIEWER_ROLES), async (req, res) => {
+    const banner = await accessibleBanner(req, parseInt(req.params.bannerId));
+    if (!banner) return res.status(404).json({ error: "Banner not found" });
+    const history = await storage.getVersionHistory(banner.id);
     res.json(history);
   });
 
   // Payment routes
-  app.get("/api/payments/booking/:bookingId", async (req, res) => {
-    const payments = await storage.getPaymentsByBooking(parseInt(req.params.bookingId));
+  app.get("/api/payments/booking/:bookingId", requireRole("client", "manager", "vp", "pv_sir", "accounts"), async (req, res) => {
+    const booking = await accessibleBooking(req, parseInt(req.params.bookingId));
+    if (!booking) return res.status(404).json({ error: "Booking not found" });
+    const payments = await storage.getPaymentsByBooking(booking.id);
     res.json(payments);
   });
 
   // Work Orders
-  app.post("/api/work-orders", async (req, res) => {
+  app.post("/api/work-orders", requireRole("client", "manager"), async (req, res) => {
     try {
-      const { clientId, businessSchoolName, contactName, items, includeEmail, includeWhatsApp, rangeStart, rangeEnd, createdById } = req.body as {
+      const actor = currentUser(req);
+      const { businessSchoolName, contactName, items, includeEmail, includeWhatsApp, rangeStart, rangeEnd } = req.body as {
         clientId: number;
         businessSchoolName?: string;
         contactName?: string;
@@ -1069,8 +1248,9 @@ export function registerRoutes(app: Express) {
         includeWhatsApp?: boolean;
         rangeStart?: string;
         rangeEnd?: string;
-        createdById?: number;
       };
+      const clientId = actor.role === "client" ? actor.id : Number(req.body.clientId);
+      const createdById = actor.id;
 
       if (!clientId || !Array.isArray(items)) {
         return res.status(400).json({ error: "clientId and items are required" });
@@ -1079,16 +1259,26 @@ export function registerRoutes(app: Express) {
         return res.status(400).json({ error: "At least one slot or an add-on (email/whatsapp) must be selected" });
       }
 
-      // create items with zero pricing; manager will set prices later
+      // Price items from the rate card where one exists; the rest stay at 0 for the manager to quote
       const sectionKeys: string[] = [];
       const enriched = await Promise.all(
         items.map(async (it) => {
+          if (!isIsoDate(it.startDate) || !isIsoDate(it.endDate) || it.startDate > it.endDate) {
+            throw new Error(`Invalid dates for slot ${it.slotId}`);
+          }
           const slot = await storage.getSlot(it.slotId);
           if (!slot) throw new Error(`Slot ${it.slotId} not found`);
           const key = slot.mediaType === "website" ? `website:${slot.pageType}` : slot.mediaType;
           sectionKeys.push(key);
-          const unit = 0;
-          return { ...it, unitPrice: unit, subtotal: unit };
+          const quote = await pricingService.quoteSlot(slot, it.startDate, it.endDate);
+          const unit = quote ? quote.total : 0;
+          return {
+            ...it,
+            unitPrice: unit,
+            subtotal: unit,
+            priceSource: quote ? ("rate_card" as const) : ("manual" as const),
+            pricingBreakdown: quote ? JSON.stringify(quote) : null,
+          };
         })
       );
 
@@ -1100,18 +1290,23 @@ export function registerRoutes(app: Express) {
         }
         seen.add(k);
       }
-      // Add-ons pricing
-      const emailPrice = 0;
-      const whatsappPrice = 0;
-
+      // Add-ons are priced from the add-on product price effective on the campaign start date
       let addonItems: Array<{ addonType: "email" | "whatsapp"; startDate: string; endDate: string; unitPrice: number; subtotal: number }> = [];
       const addonStart = items[0]?.startDate || rangeStart;
       const addonEnd = items[0]?.endDate || rangeEnd;
       if ((includeEmail || includeWhatsApp) && (!addonStart || !addonEnd)) {
         return res.status(400).json({ error: "Start and end dates are required for addons" });
       }
-      if (includeEmail) addonItems.push({ addonType: "email", startDate: addonStart as string, endDate: addonEnd as string, unitPrice: emailPrice, subtotal: emailPrice });
-      if (includeWhatsApp) addonItems.push({ addonType: "whatsapp", startDate: addonStart as string, endDate: addonEnd as string, unitPrice: whatsappPrice, subtotal: whatsappPrice });
+      const requestedAddons = [includeEmail && "email", includeWhatsApp && "whatsapp"].filter(Boolean) as Array<"email" | "whatsapp">;
+      for (const code of requestedAddons) {
+        const product = await storage.getAddonProductByCode(code);
+        if (!product || !product.isActive) {
+          return res.status(400).json({ error: `The ${code} add-on is not currently offered` });
+        }
+        const price = await storage.getEffectiveAddonPrice(product.id, addonStart as string);
+        const amount = price ? Number(price.price) : 0;
+        addonItems.push({ addonType: code, startDate: addonStart as string, endDate: addonEnd as string, unitPrice: amount, subtotal: amount });
+      }
 
       const totalAmount = [...enriched, ...addonItems].reduce((sum, it) => sum + (it.subtotal as number), 0);
 
@@ -1151,43 +1346,54 @@ export function registerRoutes(app: Express) {
       const createdOnDate = now.toISOString().split("T")[0];
       const createdOnTime = now.toTimeString().split(" ")[0]; // HH:MM:SS
 
-      const wo = await storage.createWorkOrder({
-        clientId,
-        businessSchoolName: finalBusinessSchoolName,
-        contactName: finalContactName,
-        status: "draft",
-        paymentMode: "full",
-        totalAmount: String(totalAmount),
-        createdById: createdById as any,
-        createdByName: creatorName as any,
-        createdOnDate: createdOnDate as any,
-        createdOnTime: createdOnTime as any,
-      });
-
-      await storage.addWorkOrderItems(
-        [
-          ...enriched.map((it) => ({
-          workOrderId: wo.id,
-          slotId: it.slotId,
-          startDate: it.startDate,
-          endDate: it.endDate,
-          unitPrice: String(it.unitPrice),
-          subtotal: String(it.subtotal),
-          })),
-          ...addonItems.map((a) => ({
-            workOrderId: wo.id,
-            slotId: null as any,
-            addonType: a.addonType,
-            startDate: a.startDate,
-            endDate: a.endDate,
-            unitPrice: String(a.unitPrice),
-            subtotal: String(a.subtotal),
-          })),
-        ]
+      // Insert under row locks on the requested slots so two clients cannot book overlapping dates;
+      // the loser gets a 409 from the SlotConflictError below
+      const { workOrderId } = await slotReservationService.reserveForWorkOrder(
+        enriched.map((it) => ({ slotId: it.slotId, startDate: it.startDate, endDate: it.endDate })),
+        [clientId, actor.id],
+        async (tx) => {
+          const [wo] = await tx
+            .insert(workOrders)
+            .values({
+              clientId,
+              businessSchoolName: finalBusinessSchoolName,
+              contactName: finalContactName,
+              status: "draft",
+              paymentMode: "full",
+              totalAmount: String(totalAmount),
+              createdById: createdById as any,
+              createdByName: creatorName as any,
+              createdOnDate: createdOnDate as any,
+              createdOnTime: createdOnTime as any,
+            })
+            .returning();
+
+          await tx.insert(workOrderItems).values([
+            ...enriched.map((it) => ({
+              workOrderId: wo.id,
+              slotId: it.slotId,
+              startDate: it.startDate,
+              endDate: it.endDate,
+              unitPrice: String(it.unitPrice),
+              subtotal: String(it.subtotal),
+              priceSource: it.priceSource,
+              pricingBreakdown: it.pricingBreakdown,
+            })),
+            ...addonItems.map((a) => ({
+              workOrderId: wo.id,
+              slotId: null as any,
+              addonType: a.addonType,
+              startDate: a.startDate,
+              endDate: a.endDate,
+              unitPrice: String(a.unitPrice),
+              subtotal: String(a.subtotal),
+            })),
+          ]);
+          return { workOrderId: wo.id };
+        }
       );
-
-      const workOrder = await storage.getWorkOrder(wo.id);
-      const itemsOut = await storage.getWorkOrderItems(wo.id);
+      const workOrder = await storage.getWorkOrder(workOrderId);
+      const itemsOut = await storage.getWorkOrderItems(workOrderId);
 
       // Notifications: inform client and all managers
       try {
@@ -1197,7 +1403,7 @@ export function registerRoutes(app: Express) {
           await notificationService.createNotification({
             userId: client.id,
             type: "work_order_created",
-            message: `Your request (Work Order #${wo.id}) has been submitted and awaits manager quote.`,
+            message: `Your request (Work Order #${workOrderId}) has been submitted and awaits manager quote.`,
           });
 
           // Notify managers: new request
@@ -1206,7 +1412,7 @@ export function registerRoutes(app: Express) {
             await notificationService.createNotification({
               userId: m.id,
               type: "approval_required",
-              message: `New Work Order #${wo.id} from ${client.name} requires a quote.`,
+              message: `New Work Order #${workOrderId} from ${client.name} requires a quote.`,
             });
           }
         }
@@ -1214,12 +1420,14 @@ export function registerRoutes(app: Express) {
 
       res.json({ workOrder, items: itemsOut });
     } catch (error: any) {
+      if (error instanceof SlotConflictError || error instanceof SlotHoldError) return sendReservationError(res, error);
       res.status(400).json({ error: error.message });
     }
   });
 
   app.get("/api/work-orders", async (req, res) => {
-    const { clientId } = req.query as { clientId?: string };
+    const actor = currentUser(req);
+    const clientId = actor.role === "client" ? String(actor.id) : (req.query as { clientId?: string }).clientId;
     try {
       // Fetch work orders with client information using a join
       let all = await db
@@ -1310,90 +1518,330 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  // Expose addon prices to client UI
-  app.get("/api/addon-prices", async (_req, res) => {
-    const email = Number(process.env.ADDON_EMAIL_PRICE || 0);
-    const whatsapp = Number(process.env.ADDON_WHATSAPP_PRICE || 0);
-    res.json({ email, whatsapp });
+  // Rate card pricing
+  app.get("/api/pricing/quote", async (req, res) => {
+    try {
+      const { slotId, startDate, endDate } = req.query as Record<string, string | undefined>;
+      if (!slotId || !isIsoDate(startDate) || !isIsoDate(endDate) || startDate > endDate) {
+        return res.status(400).json({ error: "slotId, startDate and endDate are required" });
+      }
+      const slot = await storage.getSlot(parseInt(slotId));
+      if (!slot) return res.status(404).json({ error: "Slot not found" });
+      const quote = await pricingService.quoteSlot(slot, startDate, endDate);
+      if (!quote) return res.status(404).json({ error: "No rate card for this slot" });
+      res.json(quote);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/rate-cards", requireRole(...STAFF_ROLES), async (req, res) => {
+    const slotId = req.query.slotId ? parseInt(req.query.slotId as string) : undefined;
+    res.json(await storage.getRateCards(slotId));
   });
 
-  app.patch("/api/addon-prices", async (req, res) => {
+  app.post("/api/rate-cards", requireRole("manager"), async (req, res) => {
     try {
-      const { email, whatsapp } = req.body as { email?: number; whatsapp?: number };
-      if (email !== undefined) process.env.ADDON_EMAIL_PRICE = String(Number(email) || 0);
-      if (whatsapp !== undefined) process.env.ADDON_WHATSAPP_PRICE = String(Number(whatsapp) || 0);
-      res.json({
-        email: Number(process.env.ADDON_EMAIL_PRICE || 0),
-        whatsapp: Number(process.env.ADDON_WHATSAPP_PRICE || 0),
-      });
-    } catch (e: any) {
-      res.status(400).json({ error: e.message });
+      const data = insertRateCardSchema.parse({ ...req.body, createdById: currentUser(req).id });
+      res.json(await storage.createRateCard(data));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
     }
   });
 
-  app.get("/api/work-orders/:id", async (req, res) => {
-    const id = parseInt(req.params.id);
-    const workOrder = await storage.getWorkOrder(id);
-    if (!workOrder) return res.status(404).json({ error: "Work Order not found" });
-    const rawItems = await storage.getWorkOrderItems(id);
-    const items = await Promise.all(
-      rawItems.map(async (it: any) => {
-        if (it.slotId) {
-          const s = await storage.getSlot(it.slotId);
-          return { ...it, slot: s ? { id: s.id, mediaType: s.mediaType, pageType: s.pageType, position: s.position, dimensions: s.dimensions } : null };
-        }
-        return it;
-      })
-    );
-    // include release order id if exists
-    const ros = await storage.getReleaseOrders();
-    const ro = ros.find((r: any) => r.workOrderId === id);
-    res.json({ workOrder, items, releaseOrderId: ro?.id || null, releaseOrderStatus: ro?.status || null });
+  app.patch("/api/rate-cards/:id", requireRole("manager"), async (req, res) => {
+    try {
+      const { createdById: _createdById, ...patch } = req.body as Record<string, unknown>;
+      const card = await storage.updateRateCard(parseInt(req.params.id), insertRateCardSchema.partial().parse(patch));
+      if (!card) return res.status(404).json({ error: "Rate card not found" });
+      res.json(card);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/pricing/seasons", requireRole(...STAFF_ROLES), async (_req, res) => {
+    res.json(await storage.getSeasonalPricingRules());
   });
 
-  app.patch("/api/work-orders/:id", async (req, res) => {
+  app.post("/api/pricing/seasons", requireRole("manager"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const payload = req.body as Partial<{ totalAmount: string; paymentMode: string; status: string; quotedById: number; gstPercent: number; reason: string; actorId: number }>;
-      // Determine previous state
-      const before = await storage.getWorkOrder(id);
-      const patchData: Record<string, unknown> = { ...payload };
-      if (payload.status === "quoted") {
-        patchData.negotiationRequested = false;
-        patchData.negotiationReason = null;
-        patchData.negotiationRequestedAt = null;
-      }
-      const updated = await storage.updateWorkOrder(id, patchData as any);
-      if (!updated) return res.status(404).json({ error: "Work Order not found" });
-      // Recalculate total to include latest items + GST (if provided/changed)
-      await storage.recalcWorkOrderTotal(id);
-      const after = await storage.getWorkOrder(id);
-      // If status changed to quoted, notify client
-      try {
-        if (before?.status !== updated.status && updated.status === "quoted") {
-          const [client] = await db.select().from(users).where(eq(users.id, updated.clientId));
-          if (client) {
-            await notificationService.createNotification({
-              userId: client.id,
-              type: "quote_ready",
-              message: `Your Work Order #${updated.id} has been quoted. Please review.`,
-            });
-          }
-          try {
-            await storage.createActivityLog({
-              actorId: (payload.quotedById ?? payload.actorId) as any,
-              actorRole: "manager" as any,
-              action: "work_order_quoted",
-              entityType: "work_order",
-              entityId: id,
-              metadata: JSON.stringify({
-                paymentMode: updated.paymentMode,
-                gstPercent: payload.gstPercent ?? (updated as any)?.gstPercent ?? null,
-                totalAmount: updated.totalAmount,
-              }),
-            });
-          } catch {}
-        } else if (before?.status !== updated.status && updated.status === "rejected") {
+      const data = insertSeasonalPricingRuleSchema.parse({ ...req.body, createdById: currentUser(req).id });
+      if (data.startDate > data.endDate) return res.status(400).json({ error: "startDate must be before endDate" });
+      if (Number(data.multiplier) <= 0) return res.status(400).json({ error: "multiplier must be positive" });
+      res.json(await storage.createSeasonalPricingRule(data));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/pricing/seasons/:id", requireRole("manager"), async (req, res) => {
+    try {
+      const { createdById: _createdById, ...patch } = req.body as Record<string, unknown>;
+      const rule = await storage.updateSeasonalPricingRule(parseInt(req.params.id), insertSeasonalPricingRuleSchema.partial().parse(patch));
+      if (!rule) return res.status(404).json({ error: "Seasonal rule not found" });
+      res.json(rule);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/pricing/duration-discounts", requireRole(...STAFF_ROLES), async (_req, res) => {
+    res.json(await storage.getDurationDiscounts());
+  });
+
+  app.post("/api/pricing/duration-discounts", requireRole("manager"), async (req, res) => {
+    try {
+      const data = insertDurationDiscountSchema.parse({ ...req.body, createdById: currentUser(req).id });
+      const percent = Number(data.discountPercent);
+      if (data.minDays < 1 || percent < 0 || percent >= 100) {
+        return res.status(400).json({ error: "minDays must be at least 1 and discountPercent between 0 and 100" });
+      }
+      res.json(await storage.createDurationDiscount(data));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/pricing/duration-discounts/:id", requireRole("manager"), async (req, res) => {
+    try {
+      const { createdById: _createdById, ...patch } = req.body as Record<string, unknown>;
+      const discount = await storage.updateDurationDiscount(parseInt(req.params.id), insertDurationDiscountSchema.partial().parse(patch));
+      if (!discount) return res.status(404).json({ error: "Duration discount not found" });
+      res.json(discount);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Add-on products and their effective-dated prices
+  app.get("/api/addon-products", async (_req, res) => {
+    try {
+      const today = new Date().toISOString().split("T")[0];
+      const products = await storage.getAddonProducts();
+      const out = await Promise.all(
+        products.map(async (p) => {
+          const current = await storage.getEffectiveAddonPrice(p.id, today);
+          return { ...p, currentPrice: current ? Number(current.price) : 0, currentPriceFrom: current?.effectiveFrom ?? null };
+        })
+      );
+      res.json(out);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/addon-products", requireRole("admin"), async (req, res) => {
+    try {
+      const actor = currentUser(req);
+      const { price, ...rest } = req.body as { price?: number | string } & Record<string, unknown>;
+      const data = insertAddonProductSchema.parse(rest);
+      const amount = Number(price ?? 0);
+      if (isNaN(amount) || amount < 0) return res.status(400).json({ error: "Invalid price" });
+      if (await storage.getAddonProductByCode(data.code)) {
+        return res.status(409).json({ error: `An add-on with code "${data.code}" already exists` });
+      }
+      const product = await storage.createAddonProductWithPrice(data, {
+        price: String(amount),
+        effectiveFrom: new Date().toISOString().split("T")[0],
+        note: "Initial price",
+        createdById: actor.id,
+      });
+      await storage.createActivityLog({
+        actorId: actor.id,
+        actorRole: actor.role,
+        action: "addon_product_created",
+        entityType: "addon_product",
+        entityId: product.id,
+        metadata: JSON.stringify({ code: product.code, price: amount }),
+      });
+      res.json(product);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/addon-products/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const actor = currentUser(req);
+      const id = parseInt(req.params.id);
+      // The code is what work orders reference, so it cannot be renamed
+      const { code: _code, ...patch } = req.body as Record<string, unknown>;
+      const product = await storage.updateAddonProduct(id, insertAddonProductSchema.omit({ code: true }).partial().parse(patch));
+      if (!product) return res.status(404).json({ error: "Add-on not found" });
+      await storage.createActivityLog({
+        actorId: actor.id,
+        actorRole: actor.role,
+        action: "addon_product_updated",
+        entityType: "addon_product",
+        entityId: id,
+        metadata: JSON.stringify(patch),
+      });
+      res.json(product);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/addon-products/:id/prices", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const prices = await storage.getAddonProductPrices(parseInt(req.params.id));
+      const withAuthors = await Promise.all(
+        prices.map(async (p) => {
+          const author = p.createdById ? await storage.getUser(p.createdById) : undefined;
+          return { ...p, createdByName: author?.name ?? null };
+        })
+      );
+      res.json(withAuthors);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/addon-products/:id/prices", requireRole("admin"), async (req, res) => {
+    try {
+      const actor = currentUser(req);
+      const id = parseInt(req.params.id);
+      const { price, effectiveFrom, note } = req.body as { price: number | string; effectiveFrom?: string; note?: string };
+      const product = await storage.getAddonProduct(id);
+      if (!product) return res.status(404).json({ error: "Add-on not found" });
+      const amount = Number(price);
+      if (price === undefined || price === "" || isNaN(amount) || amount < 0) {
+        return res.status(400).json({ error: "Invalid price" });
+      }
+      const from = effectiveFrom || new Date().toISOString().split("T")[0];
+      if (!isIsoDate(from)) return res.status(400).json({ error: "effectiveFrom must be YYYY-MM-DD" });
+
+      const previous = await storage.getEffectiveAddonPrice(id, from);
+      const created = await storage.createAddonProductPrice({
+        addonProductId: id,
+        price: String(amount),
+        effectiveFrom: from,
+        note: note || null,
+        createdById: actor.id,
+      });
+      await storage.createActivityLog({
+        actorId: actor.id,
+        actorRole: actor.role,
+        action: "addon_price_changed",
+        entityType: "addon_product",
+        entityId: id,
+        metadata: JSON.stringify({ code: product.code, from: previous ? Number(previous.price) : null, to: amount, effectiveFrom: from, note: note || null }),
+      });
+      res.json(created);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Legacy shape used by older screens: today's email/WhatsApp prices
+  app.get("/api/addon-prices", async (_req, res) => {
+    try {
+      const today = new Date().toISOString().split("T")[0];
+      const priceFor = async (code: string) => {
+        const product = await storage.getAddonProductByCode(code);
+        const price = product ? await storage.getEffectiveAddonPrice(product.id, today) : undefined;
+        return price ? Number(price.price) : 0;
+      };
+      res.json({ email: await priceFor("email"), whatsapp: await priceFor("whatsapp") });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/work-orders/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    const workOrder = await storage.getWorkOrder(id);
+    if (!workOrder || !canAccessClient(currentUser(req), workOrder.clientId)) return res.status(404).json({ error: "Work Order not found" });
+    const rawItems = await storage.getWorkOrderItems(id);
+    const items = await Promise.all(
+      rawItems.map(async (it: any) => {
+        if (it.slotId) {
+          const s = await storage.getSlot(it.slotId);
+          return { ...it, slot: s ? { id: s.id, mediaType: s.mediaType, pageType: s.pageType, position: s.position, dimensions: s.dimensions } : null };
+        }
+        return it;
+      })
+    );
+    // include release order id if exists
+    const ros = await storage.getReleaseOrders();
+    const ro = ros.find((r: any) => r.workOrderId === id);
+    const quote = await quoteService.getLatest(id);
+    res.json({
+      workOrder,
+      items,
+      releaseOrderId: ro?.id || null,
+      releaseOrderStatus: ro?.status || null,
+      quote: quote ? { id: quote.id, version: quote.version, createdAt: quote.createdAt, acceptedAt: quote.acceptedAt } : null,
+    });
+  });
+
+  // Status changes go through the work order state machine; other fields are patched directly
+  app.patch("/api/work-orders/:id", requireRole("manager"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const actor = currentUser(req);
+      const payload = req.body as Partial<{ totalAmount: string; paymentMode: string; status: string; gstPercent: number; reason: string }>;
+      const before = await storage.getWorkOrder(id);
+      if (!before) return res.status(404).json({ error: "Work Order not found" });
+      // Actor fields always come from the session, never from the body
+      const { quotedById: _quotedById, actorId: _actorId, status, reason: _reason, ...patchData } = req.body as Record<string, unknown>;
+
+      const event = status && (status !== before.status || status === "quoted") ? PATCH_STATUS_EVENTS[String(status)] : undefined;
+      if (status && status !== before.status && !event) {
+        return res.status(409).json({ error: `Status "${status}" cannot be set directly` });
+      }
+
+      let updated;
+      let quote: WorkOrderQuote | undefined;
+      if (event === "quote") {
+        // The quote terms, the status change and the frozen version commit together, with the work order
+        // locked so a failed transition never leaves the terms half applied
+        ({ updated, quote } = await db.transaction(async (tx) => {
+          const [locked] = await tx.select().from(workOrders).where(eq(workOrders.id, id)).for("update");
+          if (!locked) throw new WorkOrderTransitionError("Work Order not found", 404);
+          await workOrderStateMachine.assertCan(locked, "quote", actor, await tx.select().from(workOrderItems).where(eq(workOrderItems.workOrderId, id)));
+          // Save the quote terms first so the total below reflects them
+          await storage.updateWorkOrder(id, patchData as any, tx);
+          await storage.recalcWorkOrderTotal(id, tx);
+          const [{ totalAmount: quotedTotal }] = await tx.select({ totalAmount: workOrders.totalAmount }).from(workOrders).where(eq(workOrders.id, id));
+          const updated = await workOrderStateMachine.transition(id, "quote", actor, {
+            patch: { quotedById: actor.id, negotiationRequested: false, negotiationReason: null, negotiationRequestedAt: null },
+            metadata: {
+              paymentMode: patchData.paymentMode ?? before.paymentMode,
+              gstPercent: patchData.gstPercent ?? before.gstPercent,
+              totalAmount: quotedTotal,
+            },
+            tx,
+          });
+          // Every (re-)quote freezes the pricing as a new version the client accepts against
+          return { updated, quote: await quoteService.freeze(tx, id, actor.id) };
+        }));
+      } else {
+        if (event) {
+          updated = await workOrderStateMachine.transition(id, event, actor, {
+            patch: patchData as any,
+            metadata: payload.reason ? { reason: payload.reason } : {},
+          });
+        } else {
+          updated = await storage.updateWorkOrder(id, patchData as any);
+          if (!updated) return res.status(404).json({ error: "Work Order not found" });
+        }
+        // Recalculate total to include latest items + GST (if provided/changed)
+        await storage.recalcWorkOrderTotal(id);
+      }
+
+      try {
+        if (event === "quote") {
+          const [client] = await db.select().from(users).where(eq(users.id, updated.clientId));
+          if (client) {
+            await notificationService.createNotification({
+              userId: client.id,
+              type: "quote_ready",
+              message: `Your Work Order #${updated.id} has been quoted (v${quote?.version}). Please review.`,
+            });
+          }
+        } else if (event === "reject") {
           // Notify client on rejection with optional reason
           const [client] = await db.select().from(users).where(eq(users.id, updated.clientId));
           if (client) {
@@ -1403,58 +1851,119 @@ export function registerRoutes(app: Express) {
               message: `Your Work Order #${updated.id} was rejected${payload.reason ? `: ${payload.reason}` : "."}`,
             });
           }
-          // Log activity
-          await storage.createActivityLog({
-            actorId: payload.actorId as any,
-            actorRole: "manager" as any,
-            action: "work_order_rejected",
-            entityType: "work_order",
-            entityId: id,
-            metadata: payload.reason ? JSON.stringify({ reason: payload.reason }) : null as any,
-          });
         }
       } catch {}
-      res.json(updated);
+      res.json(quote ? { ...updated, quoteVersion: quote.version } : updated);
     } catch (error: any) {
+      if (error instanceof WorkOrderTransitionError) return res.status(error.status).json({ error: error.message });
       res.status(400).json({ error: error.message });
     }
   });
 
+  app.get("/api/work-orders/:id/transitions", async (req, res) => {
+    try {
+      const actor = currentUser(req);
+      const wo = await storage.getWorkOrder(parseInt(req.params.id));
+      if (!wo || !canAccessClient(actor, wo.clientId)) return res.status(404).json({ error: "Work Order not found" });
+      res.json({ status: wo.status, allowed: await workOrderStateMachine.allowedEvents(wo, actor) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // Update a work order item price (manager can edit addon prices)
-  app.patch("/api/work-orders/:id/items/:itemId", async (req, res) => {
+  app.patch("/api/work-orders/:id/items/:itemId", requireRole("manager"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const itemId = parseInt(req.params.itemId);
       const { unitPrice } = req.body as { unitPrice: string | number };
       const price = Number(unitPrice);
       if (isNaN(price) || price < 0) return res.status(400).json({ error: "Invalid price" });
-      const item = await storage.updateWorkOrderItem(itemId, { unitPrice: String(price), subtotal: String(price) });
-      await storage.recalcWorkOrderTotal(id);
+      const item = await db.transaction(async (tx) => {
+        // Prices can only change while the work order can still be (re-)quoted; once accepted, the total
+        // must stay what the client accepted
+        const [wo] = await tx.select().from(workOrders).where(eq(workOrders.id, id)).for("update");
+        if (!wo) throw new WorkOrderTransitionError("Work Order not found", 404);
+        if (!WORK_ORDER_TRANSITIONS.quote.from.includes(wo.status)) {
+          throw new WorkOrderTransitionError(`Item prices cannot change while the work order is ${wo.status.replace(/_/g, " ")}`, 409);
+        }
+        const [existing] = await tx
+          .select()
+          .from(workOrderItems)
+          .where(and(eq(workOrderItems.id, itemId), eq(workOrderItems.workOrderId, id)));
+        if (!existing) throw new WorkOrderTransitionError("Work order item not found", 404);
+        // A changed price overrides the rate card for this item; re-saving the same price keeps its source
+        const changed = Number(existing.unitPrice) !== price;
+        const [item] = await tx
+          .update(workOrderItems)
+          .set({ unitPrice: String(price), subtotal: String(price), ...(changed ? { priceSource: "manual" as const } : {}) })
+          .where(eq(workOrderItems.id, itemId))
+          .returning();
+        await storage.recalcWorkOrderTotal(id, tx);
+        return item;
+      });
       res.json(item);
     } catch (error: any) {
+      if (error instanceof WorkOrderTransitionError) return res.status(error.status).json({ error: error.message });
       res.status(400).json({ error: error.message });
     }
   });
 
-  // Client accepts quote -> generate Release Order and Proforma
-  app.post("/api/work-orders/:id/accept", async (req, res) => {
+  // Re-runs the rate card on every item that has not been priced by hand
+  app.post("/api/work-orders/:id/reprice", requireRole("manager"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const wo = await storage.getWorkOrder(id);
       if (!wo) return res.status(404).json({ error: "Work Order not found" });
+      if (wo.status !== "draft") return res.status(409).json({ error: "Only draft work orders can be re-priced" });
 
-      // Enforce PO upload before acceptance
-      if (!('poUrl' in wo) || !(wo as any).poUrl) {
-        return res.status(400).json({ error: "Purchase Order (PO) must be uploaded before accepting the quote" });
+      const items = await storage.getWorkOrderItems(id);
+      const repriced = [];
+      for (const item of items) {
+        if (!item.slotId || item.priceSource === "manual") continue;
+        const slot = await storage.getSlot(item.slotId);
+        if (!slot) continue;
+        const quote = await pricingService.quoteSlot(slot, item.startDate, item.endDate);
+        if (!quote) continue;
+        repriced.push(
+          await storage.updateWorkOrderItem(item.id, {
+            unitPrice: String(quote.total),
+            subtotal: String(quote.total),
+            priceSource: "rate_card",
+            pricingBreakdown: JSON.stringify(quote),
+          })
+        );
       }
+      await storage.recalcWorkOrderTotal(id);
+      res.json({ workOrder: await storage.getWorkOrder(id), repriced });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      // mark as client_accepted (if not already)
-      if (wo.status !== "client_accepted") {
-        await storage.updateWorkOrder(id, { status: "client_accepted" });
-      }
+  // Client accepts quote -> generate Release Order and Proforma
+  app.post("/api/work-orders/:id/accept", requireRole("client"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const actor = currentUser(req);
+      const wo = await storage.getWorkOrder(id);
+      if (!wo || !canAccessClient(actor, wo.clientId)) return res.status(404).json({ error: "Work Order not found" });
+
+      // PO upload and open negotiations are enforced by the state machine; the quote must be the one the client saw
+      const { quoteVersion } = (req.body ?? {}) as { quoteVersion?: number };
+      const { items, quote } = await db.transaction(async (tx) => {
+        const [locked] = await tx.select().from(workOrders).where(eq(workOrders.id, id)).for("update");
+        const items = await tx.select().from(workOrderItems).where(eq(workOrderItems.workOrderId, id));
+        await workOrderStateMachine.assertCan(locked, "accept", actor, items);
+        const quote = await quoteService.accept(tx, locked, Number(quoteVersion), actor);
+        await workOrderStateMachine.transition(id, "accept", actor, {
+          tx,
+          metadata: { poUploaded: Boolean(locked.poUrl), items: items.length, quoteId: quote.id, quoteVersion: quote.version },
+        });
+        return { items, quote };
+      });
 
       // Notify stakeholders that client accepted; Release Order will be generated after PO approval
-      const items = await storage.getWorkOrderItems(id);
       try {
         const accountsUsers = await db.select().from(users).where(eq(users.role, "accounts"));
         for (const acc of accountsUsers) {
@@ -1490,32 +1999,21 @@ export function registerRoutes(app: Express) {
         }
       } catch {}
 
-      try {
-        await storage.createActivityLog({
-          actorId: wo.clientId as any,
-          actorRole: "client" as any,
-          action: "work_order_client_accepted",
-          entityType: "work_order",
-          entityId: id,
-          metadata: JSON.stringify({
-            poUploaded: Boolean((wo as any).poUrl),
-            items: items.length,
-          }),
-        });
-      } catch {}
-
-      res.json({ success: true, status: "client_accepted", items });
+      res.json({ success: true, status: "client_accepted", items, quoteVersion: quote.version });
     } catch (error: any) {
+      if (error instanceof WorkOrderTransitionError || error instanceof QuoteError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(400).json({ error: error.message });
     }
   });
 
   // Client uploads Purchase Order (PO) for a Work Order
-  app.post("/api/work-orders/:id/upload-po", upload.single("file"), async (req, res) => {
+  app.post("/api/work-orders/:id/upload-po", requireRole("client"), upload.single("file"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const wo = await storage.getWorkOrder(id);
-      if (!wo) return res.status(404).json({ error: "Work Order not found" });
+      if (!wo || !canAccessClient(currentUser(req), wo.clientId)) return res.status(404).json({ error: "Work Order not found" });
 
       if (!req.file) return res.status(400).json({ error: "No file uploaded" });
       
@@ -1594,20 +2092,55 @@ export function registerRoutes(app: Express) {
   });
 
   // Manager approves PO -> notify Accounts and create Proforma
-  app.post("/api/work-orders/:id/approve-po", async (req, res) => {
+  app.post("/api/work-orders/:id/approve-po", requireRole("manager"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { actorId } = (req.body ?? {}) as { actorId?: number };
-      const wo = await storage.getWorkOrder(id);
-      if (!wo) return res.status(404).json({ error: "Work Order not found" });
-      if (!(wo as any).poUrl) return res.status(400).json({ error: "No PO uploaded for this Work Order" });
+      const actor = currentUser(req);
+      // The release order (and its number) and the transition commit together under the work order lock,
+      // so concurrent approvals cannot both raise a numbered RO
+      const { ro, proformaInvoice } = await db.transaction(async (tx) => {
+        const [wo] = await tx.select().from(workOrders).where(eq(workOrders.id, id)).for("update");
+        if (!wo) throw new WorkOrderTransitionError("Work Order not found", 404);
+        // Checks the PO is uploaded; the transition is logged as po_approved with the RO/proforma below
+        const items = await tx.select().from(workOrderItems).where(eq(workOrderItems.workOrderId, id));
+        await workOrderStateMachine.assertCan(wo, "approve_po", actor, items);
+
+        // Create Release Order if absent
+        let [ro] = await tx.select().from(releaseOrders).where(eq(releaseOrders.workOrderId, id));
+        if (!ro) {
+          ro = await storage.createReleaseOrder(
+            {
+              workOrderId: id,
+              status: "pending_banner_upload" as any,
+              createdById: (wo as any).quotedById,
+              paymentStatus: "pending" as any,
+            } as any,
+            tx,
+          );
+          await storage.addReleaseOrderItems(
+            items.map((it) => ({ releaseOrderId: ro.id, workOrderItemId: it.id })),
+            tx,
+          );
+        } else if ((ro as any).status === "issued") {
+          await tx.update(releaseOrders)
+            .set({ status: "pending_banner_upload" as any })
+            .where(eq(releaseOrders.id, ro.id));
+          ro = { ...ro, status: "pending_banner_upload" };
+        }
 
-      // Update PO approval status
-      await storage.updateWorkOrder(id, { 
-        poApproved: true,
-        poApprovedAt: new Date(),
-        status: wo.status !== "client_accepted" ? "client_accepted" : wo.status
-      } as any);
+        const existingInvoices = await tx.select().from(invoices).where(eq(invoices.workOrderId, id));
+        const proformaInvoice = existingInvoices.find((i: any) => i.invoiceType === "proforma");
+
+        await workOrderStateMachine.transition(id, "approve_po", actor, {
+          patch: { poApproved: true, poApprovedAt: new Date() },
+          metadata: {
+            releaseOrderId: (ro as any)?.id ?? null,
+            proformaInvoiceId: (proformaInvoice as any)?.id ?? null,
+          },
+          tx,
+        });
+        return { ro, proformaInvoice };
+      });
 
       // Notify accounts
       const accountsUsers = await db.select().from(users).where(eq(users.role, "accounts"));
@@ -1619,62 +2152,29 @@ export function registerRoutes(app: Express) {
         });
       }
 
-      // Create Release Order if absent
-      const existingRos = await storage.getReleaseOrders();
-      let ro = existingRos.find((r: any) => r.workOrderId === id);
-      if (!ro) {
-        const roNumber = `RO-${id}-${Date.now()}`;
-        ro = await storage.createReleaseOrder({
-          workOrderId: id,
-          roNumber,
-          status: "pending_banner_upload" as any,
-          createdById: (wo as any).quotedById,
-          paymentStatus: "pending" as any,
-        } as any);
-
-        const items = await storage.getWorkOrderItems(id);
-        await storage.addReleaseOrderItems(
-          items.map((it) => ({ releaseOrderId: ro.id, workOrderItemId: it.id }))
-        );
-      } else if ((ro as any).status === "issued") {
-        await db.update(releaseOrders)
-          .set({ status: "pending_banner_upload" as any })
-          .where(eq(releaseOrders.id, ro.id));
-        ro = { ...ro, status: "pending_banner_upload" };
-      }
-
-      const existingInvoices = await db.select().from(invoices).where(eq(invoices.workOrderId, id));
-      const proformaInvoice = existingInvoices.find((i: any) => i.invoiceType === "proforma");
-
-      try {
-        await storage.createActivityLog({
-          actorId: actorId as any,
-          actorRole: "manager" as any,
-          action: "po_approved",
-          entityType: "work_order",
-          entityId: id,
-          metadata: JSON.stringify({
-            releaseOrderId: (ro as any)?.id ?? null,
-            proformaInvoiceId: (proformaInvoice as any)?.id ?? null,
-          }),
-        });
-      } catch {}
-
       res.json({ success: true, releaseOrder: ro, proforma: proformaInvoice ?? null });
     } catch (e: any) {
+      if (e instanceof WorkOrderTransitionError) return res.status(e.status).json({ error: e.message });
       res.status(400).json({ error: e.message });
     }
   });
 
   // Client uploads banner for a specific work order item
-  app.post("/api/work-orders/:id/items/:itemId/upload-banner", upload.single("file"), async (req, res) => {
+  app.post("/api/work-orders/:id/items/:itemId/upload-banner", requireRole("client", "manager"), upload.single("file"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const itemId = parseInt(req.params.itemId);
       const wo = await storage.getWorkOrder(id);
-      if (!wo) return res.status(404).json({ error: "Work Order not found" });
+      if (!wo || !canAccessClient(currentUser(req), wo.clientId)) return res.status(404).json({ error: "Work Order not found" });
+      // The item must belong to this work order, or a client could overwrite another client's banner
+      const items = await storage.getWorkOrderItems(id);
+      if (!items.some((item) => item.id === itemId)) return res.status(404).json({ error: "Work Order item not found" });
       if (!req.file) return res.status(400).json({ error: "No file uploaded" });
 
+      // Same image allow-list as deployed banners; the extension comes from the type, never the file name
+      const ext = BANNER_IMAGE_TYPES[req.file.mimetype];
+      if (!ext) return res.status(400).json({ error: "Only JPEG, PNG, GIF and WebP banners are allowed" });
+
       // Validate file size (below 500KB)
       const maxSize = 500 * 1024; // 500KB
       const fileSize = req.file.size;
@@ -1685,7 +2185,6 @@ export function registerRoutes(app: Express) {
         });
       }
 
-      const ext = path.extname(req.file.originalname) || '.png';
       const fileName = `banner-${itemId}-${Date.now()}${ext}`;
       try {
         const uploadDir = path.resolve(process.cwd(), "server", "uploads");
@@ -1695,7 +2194,7 @@ export function registerRoutes(app: Express) {
         return res.status(500).json({ error: "Failed to store banner", details: fsError.message });
       }
 
-      await storage.updateWorkOrderItem(itemId, { bannerUrl: `/uploads/${fileName}` } as any);
+      await storage.updateWorkOrderItem(itemId, { bannerUrl: `/uploads/${fileName}` });
       res.json({ url: `/uploads/${fileName}` });
     } catch (error: any) {
       res.status(400).json({ error: error.message });
@@ -1703,11 +2202,11 @@ export function registerRoutes(app: Express) {
   });
 
   // Client submits banners (notify managers)
-  app.post("/api/work-orders/:id/submit-banners", async (req, res) => {
+  app.post("/api/work-orders/:id/submit-banners", requireRole("client", "manager"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const wo = await storage.getWorkOrder(id);
-      if (!wo) return res.status(404).json({ error: "Work Order not found" });
+      if (!wo || !canAccessClient(currentUser(req), wo.clientId)) return res.status(404).json({ error: "Work Order not found" });
       
       // Validate that all banners are uploaded
       const items = await storage.getWorkOrderItems(id);
@@ -1722,243 +2221,77 @@ export function registerRoutes(app: Express) {
       
       const releaseOrdersForWo = await storage.getReleaseOrders();
       const ro = releaseOrdersForWo.find((r: any) => r.workOrderId === id);
-      if (ro && ["pending_banner_upload", "pending_manager_review"].includes(String(ro.status))) {
-        await db.update(releaseOrders)
-          .set({
-            status: "pending_manager_review" as any,
-            rejectionReason: null,
-            rejectedById: null,
-            rejectedAt: null,
-          })
-          .where(eq(releaseOrders.id, ro.id));
-      }
-      const managers = await db.select().from(users).where(eq(users.role, "manager"));
-      for (const m of managers) {
-        await notificationService.createNotification({
-          userId: m.id,
-          type: "banners_submitted",
-          message: `Client submitted banners for Work Order #${id}.`,
-        });
+      if (ro && (ro.status === "pending_banner_upload" || (ro.currentStageId == null && ro.status === "pending_manager_review"))) {
+        // Enters the first stage of the active approval policy, which notifies its approvers
+        await releaseOrderApprovalService.submit(ro.id);
       }
       res.json({ success: true });
     } catch (error: any) {
+      if (error instanceof ApprovalError) return res.status(error.status).json({ error: error.message });
       res.status(400).json({ error: error.message });
     }
   });
 
-  // Manager approves Release Order (notify VP)
-  app.post("/api/release-orders/:id/approve", async (req, res) => {
+  // Release order approval policy: stages, approver roles and skip rules are data, not code
+  app.get("/api/approval-policies", requireRole(...STAFF_ROLES), async (_req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const { actorId } = (req.body ?? {}) as { actorId?: number; comments?: string };
-      const ro = await storage.getReleaseOrder(id);
-      if (!ro) return res.status(404).json({ error: "Release Order not found" });
-      const wo = await storage.getWorkOrder(ro.workOrderId);
-      const client = wo ? await storage.getUser(wo.clientId) : undefined;
-
-      let nextStatus: "pending_vp_review" | "pending_pv_review" | "accepted" | null = null;
-      if (ro.status === "pending_manager_review") {
-        nextStatus = "pending_vp_review";
-      } else if (ro.status === "pending_vp_review") {
-        nextStatus = "pending_pv_review";
-      } else if (ro.status === "pending_pv_review") {
-        nextStatus = "accepted";
-      }
-
-      if (!nextStatus) {
-        return res.status(400).json({ error: "Release Order is not awaiting approval at this stage." });
-      }
-
-      const previousStatus = ro.status;
-      const updatePayload: Record<string, any> = { status: nextStatus as any };
-      if (ro.rejectionReason || ro.rejectedById || ro.rejectedAt) {
-        updatePayload.rejectionReason = null;
-        updatePayload.rejectedById = null;
-        updatePayload.rejectedAt = null;
-      }
-      await db.update(releaseOrders).set(updatePayload).where(eq(releaseOrders.id, id));
-
-      if (nextStatus === "pending_vp_review") {
-        const vps = await db.select().from(users).where(eq(users.role, "vp"));
-        for (const vp of vps) {
-          await notificationService.createNotification({
-            userId: vp.id,
-            type: "ro_approved",
-            message: `Release Order #${id} for ${client?.name ?? `WO ${ro.workOrderId}`} is ready for your approval.`,
-          });
-        }
-      } else if (nextStatus === "pending_pv_review") {
-        const pvs = await db.select().from(users).where(eq(users.role, "pv_sir"));
-        const approvalUrl = `${process.env.APP_URL || 'http://localhost:5173'}/`; // PV dashboard route
-        for (const pv of pvs) {
-          await notificationService.createNotification({
-            userId: pv.id,
-            type: "ro_approved",
-            message: `Release Order #${id} for ${client?.name ?? `WO ${ro.workOrderId}`} awaits your approval.`,
-          });
-          if (pv.email) {
-            await emailService.sendReleaseOrderApprovalEmail(
-              pv.email,
-              pv.name || "PV Sir",
-              id,
-              ro.workOrderId,
-              approvalUrl
-            );
-          }
-        }
-      } else if (nextStatus === "accepted") {
-        const notifyRoles = ["manager", "vp", "pv_sir", "accounts", "it"] as const;
-        for (const role of notifyRoles) {
-          const recipients = await db.select().from(users).where(eq(users.role, role));
-          for (const recipient of recipients) {
-            await notificationService.createNotification({
-              userId: recipient.id,
-              type: "ro_accepted",
-              message: `Release Order #${id} for ${client?.name ?? `WO ${ro.workOrderId}`} has been accepted.`,
-            });
-          }
-        }
-      }
-
-      try {
-        const actorRole =
-          previousStatus === "pending_manager_review"
-            ? "manager"
-            : previousStatus === "pending_vp_review"
-            ? "vp"
-            : previousStatus === "pending_pv_review"
-            ? "pv_sir"
-            : null;
-        await storage.createActivityLog({
-          actorId: actorId as any,
-          actorRole: actorRole as any,
-          action: "release_order_stage_update",
-          entityType: "release_order",
-          entityId: id,
-          metadata: JSON.stringify({
-            previousStatus,
-            nextStatus,
-          }),
-        });
-      } catch {}
+      res.json(await releaseOrderApprovalService.listPolicies());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      res.json({ success: true, status: nextStatus });
+  // Saves a new policy version and activates it; ROs already in review keep their policy
+  app.post("/api/approval-policies", requireRole("admin"), async (req, res) => {
+    try {
+      const { name, stages } = req.body as { name?: string; stages?: any[] };
+      const parsed = (stages ?? []).map((stage) =>
+        insertApprovalStageSchema.omit({ policyId: true, position: true }).parse(stage)
+      );
+      const policy = await releaseOrderApprovalService.createPolicy(name ?? "", parsed, currentUser(req).id);
+      res.status(201).json(policy);
     } catch (error: any) {
+      if (error instanceof ApprovalError) return res.status(error.status).json({ error: error.message });
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.post("/api/release-orders/:id/reject", async (req, res) => {
+  // Approves the stage the Release Order currently waits on
+  app.post("/api/release-orders/:id/approve", requireRole(...STAFF_ROLES), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { actorId, reason } = (req.body ?? {}) as { actorId?: number; reason?: string };
-      const ro = await storage.getReleaseOrder(id);
-      if (!ro) return res.status(404).json({ error: "Release Order not found" });
-
-      const currentStatus = String(ro.status);
-      console.log(`[REJECT DEBUG] RO #${id} current status: "${currentStatus}"`);
-      
-      if (currentStatus !== "pending_vp_review" && currentStatus !== "pending_pv_review") {
-        console.log(`[REJECT DEBUG] Invalid status: ${currentStatus}`);
-        return res.status(400).json({ error: "Release Order is not awaiting VP/PV review." });
-      }
-
-      const trimmedReason = (reason ?? "").trim();
-      const now = new Date();
-
-      // Determine the actor role and next status based on current status
-      let actorRole: "vp" | "pv_sir";
-      let nextStatus: "pending_vp_review" | "pending_manager_review";
-      let notifyRole: "vp" | "manager";
-      
-      if (currentStatus === "pending_pv_review") {
-        // PV Sir is rejecting - send to VP first (not directly to manager)
-        actorRole = "pv_sir";
-        nextStatus = "pending_vp_review";
-        notifyRole = "vp";
-        console.log(`[REJECT] PV Sir rejecting RO #${id}: sending to VP (pending_vp_review)`);
-      } else if (currentStatus === "pending_vp_review") {
-        // VP is rejecting - send to manager
-        actorRole = "vp";
-        nextStatus = "pending_manager_review";
-        notifyRole = "manager";
-        console.log(`[REJECT] VP rejecting RO #${id}: sending to Manager (pending_manager_review)`);
-      } else {
-        console.log(`[REJECT ERROR] Unexpected status: ${currentStatus}`);
-        return res.status(400).json({ error: "Invalid status for rejection." });
-      }
-
-      console.log(`[REJECT DEBUG] Updating RO #${id} to status: "${nextStatus}", notifying: ${notifyRole}`);
-      
-      const updateResult = await db
-        .update(releaseOrders)
-        .set({
-          status: nextStatus as any,
-          rejectionReason: trimmedReason || null,
-          rejectedById: actorId as any,
-          rejectedAt: now as any,
-        })
-        .where(eq(releaseOrders.id, id))
-        .returning();
-      
-      console.log(`[REJECT DEBUG] Update result:`, updateResult.length > 0 ? `Status updated to: ${updateResult[0].status}` : 'No rows updated');
-
-      // Verify the update was successful
-      const updatedRo = await storage.getReleaseOrder(id);
-      if (updatedRo) {
-        console.log(`[REJECT DEBUG] Verified RO #${id} status after update: "${String(updatedRo.status)}"`);
-      }
-
-      try {
-        await storage.createActivityLog({
-          actorId: actorId as any,
-          actorRole: actorRole as any,
-          action: "release_order_rejected",
-          entityType: "release_order",
-          entityId: id,
-          metadata: JSON.stringify({
-            previousStatus: ro.status,
-            reason: trimmedReason || null,
-          }),
-        });
-      } catch {}
-
-      if (notifyRole === "vp") {
-        const vps = await db.select().from(users).where(eq(users.role, "vp"));
-        console.log(`[REJECT DEBUG] Notifying ${vps.length} VP(s) about rejection`);
-        for (const vp of vps) {
-          await notificationService.createNotification({
-            userId: vp.id,
-            type: "ro_rejected",
-            message: `Release Order #${id} was rejected by PV Sir for revisions${trimmedReason ? `: ${trimmedReason}` : ""}.`,
-          });
-        }
-      } else {
-        const managers = await db.select().from(users).where(eq(users.role, "manager"));
-        console.log(`[REJECT DEBUG] Notifying ${managers.length} manager(s) about rejection`);
-        for (const manager of managers) {
-          await notificationService.createNotification({
-            userId: manager.id,
-            type: "ro_rejected",
-            message: `Release Order #${id} was rejected for revisions${trimmedReason ? `: ${trimmedReason}` : ""}.`,
-          });
-        }
-      }
+      const { comment } = (req.body ?? {}) as { comment?: string };
+      const result = await releaseOrderApprovalService.approve(id, currentUser(req), comment);
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      if (error instanceof ApprovalError) return res.status(error.status).json({ error: error.message });
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      res.json({ success: true, newStatus: nextStatus, notifiedRole: notifyRole });
+  // Sends the Release Order back one stage for revisions
+  app.post("/api/release-orders/:id/reject", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { reason } = (req.body ?? {}) as { reason?: string };
+      const result = await releaseOrderApprovalService.reject(id, currentUser(req), reason);
+      res.json({ success: true, newStatus: result.status, notifiedRole: result.returnedTo.approverRole });
     } catch (error: any) {
+      if (error instanceof ApprovalError) return res.status(error.status).json({ error: error.message });
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.post("/api/release-orders/:id/return-to-client", async (req, res) => {
+  app.post("/api/release-orders/:id/return-to-client", requireRole("manager"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { actorId, reason } = (req.body ?? {}) as { actorId?: number; reason?: string };
+      const actorId = currentUser(req).id;
+      const { reason } = (req.body ?? {}) as { reason?: string };
       const ro = await storage.getReleaseOrder(id);
       if (!ro) return res.status(404).json({ error: "Release Order not found" });
-      if (ro.status !== "pending_manager_review") {
-        return res.status(400).json({ error: "Release Order must be in manager review before returning to client." });
+      const progress = await releaseOrderApprovalService.getProgress(ro, currentUser(req));
+      if (!progress.isFirstStage) {
+        return res.status(400).json({ error: "Release Order must be in its first review stage before returning to client." });
       }
 
       const trimmedReason = (reason ?? "").trim();
@@ -1968,8 +2301,10 @@ export function registerRoutes(app: Express) {
         .update(releaseOrders)
         .set({
           status: "pending_banner_upload" as any,
+          currentStageId: null,
+          stageEnteredAt: null,
           rejectionReason: trimmedReason || ro.rejectionReason || null,
-          rejectedById: actorId as any,
+          rejectedById: actorId,
           rejectedAt: now as any,
         })
         .where(eq(releaseOrders.id, id));
@@ -1990,22 +2325,25 @@ export function registerRoutes(app: Express) {
   });
 
   // Client requests negotiation on a quoted Work Order
-  app.post("/api/work-orders/:id/negotiate", async (req, res) => {
+  app.post("/api/work-orders/:id/negotiate", requireRole("client"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const wo = await storage.getWorkOrder(id);
-      if (!wo) return res.status(404).json({ error: "Work Order not found" });
+      if (!wo || !canAccessClient(currentUser(req), wo.clientId)) return res.status(404).json({ error: "Work Order not found" });
 
-      const { reason } = req.body as { reason?: string };
+      const { reason, items } = req.body as { reason?: string; items?: unknown };
       const trimmedReason = (reason || "").trim();
       if (!trimmedReason) {
         return res.status(400).json({ error: "Negotiation reason is required" });
       }
 
-      await storage.updateWorkOrder(id, {
-        negotiationRequested: true as any,
-        negotiationReason: trimmedReason as any,
-        negotiationRequestedAt: new Date() as any,
+      const actor = currentUser(req);
+      await workOrderStateMachine.assertCan(wo, "request_negotiation", actor);
+      const entry = await negotiationService.addEntry(wo, actor, trimmedReason, items);
+      // negotiationReason mirrors the latest counter-offer; the full history lives in the thread
+      await workOrderStateMachine.transition(id, "request_negotiation", actor, {
+        patch: { negotiationRequested: true, negotiationReason: trimmedReason, negotiationRequestedAt: new Date() },
+        metadata: { reason: trimmedReason, negotiationId: entry.id, proposedTotal: entry.proposedTotal },
       });
 
       const managers = await db.select().from(users).where(eq(users.role, "manager"));
@@ -2016,14 +2354,74 @@ export function registerRoutes(app: Express) {
           message: `Client requested negotiation on Work Order #${id}: ${trimmedReason}`,
         });
       }
-      res.json({ success: true });
+      res.json({ success: true, entry });
+    } catch (error: any) {
+      if (error instanceof WorkOrderTransitionError || error instanceof NegotiationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/work-orders/:id/quotes", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const wo = await storage.getWorkOrder(id);
+      if (!wo || !canAccessClient(currentUser(req), wo.clientId)) return res.status(404).json({ error: "Work Order not found" });
+      res.json(await quoteService.list(id));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/work-orders/:id/negotiations", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const wo = await storage.getWorkOrder(id);
+      if (!wo || !canAccessClient(currentUser(req), wo.clientId)) return res.status(404).json({ error: "Work Order not found" });
+      res.json(await negotiationService.getThread(id));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Manager reply on the negotiation thread, optionally with revised per-item amounts
+  app.post("/api/work-orders/:id/negotiations", requireRole("manager"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const actor = currentUser(req);
+      const wo = await storage.getWorkOrder(id);
+      if (!wo) return res.status(404).json({ error: "Work Order not found" });
+      if (!["draft", "quoted"].includes(wo.status)) {
+        return res.status(409).json({ error: "Negotiation is closed for this Work Order" });
+      }
+      const { message, items } = req.body as { message?: string; items?: unknown };
+      const entry = await negotiationService.addEntry(wo, actor, message ?? "", items);
+
+      try {
+        await notificationService.createNotification({
+          userId: wo.clientId,
+          type: "negotiate_reply",
+          message: `Manager replied on Work Order #${id}: ${entry.message}`,
+        });
+        await storage.createActivityLog({
+          actorId: actor.id,
+          actorRole: actor.role,
+          action: "work_order_negotiation_reply",
+          entityType: "work_order",
+          entityId: id,
+          metadata: JSON.stringify({ negotiationId: entry.id, proposedTotal: entry.proposedTotal }),
+        });
+      } catch {}
+      res.status(201).json(entry);
     } catch (error: any) {
+      if (error instanceof NegotiationError) return res.status(error.status).json({ error: error.message });
       res.status(400).json({ error: error.message });
     }
   });
 
   // Release Orders
-  app.get("/api/release-orders", async (req, res) => {
+  app.get("/api/release-orders", requireRole(...STAFF_ROLES), async (req, res) => {
     try {
       const { status, rejectedById } = req.query as { status?: string; rejectedById?: string };
       let ros = await storage.getReleaseOrders();
@@ -2063,6 +2461,12 @@ export function registerRoutes(app: Express) {
     const id = parseInt(req.params.id);
     const ro = await storage.getReleaseOrder(id);
     if (!ro) return res.status(404).json({ error: "Release Order not found" });
+    if (currentUser(req).role === "client") {
+      const owner = await storage.getWorkOrder(ro.workOrderId);
+      if (!owner || !canAccessClient(currentUser(req), owner.clientId)) {
+        return res.status(404).json({ error: "Release Order not found" });
+      }
+    }
     const rawItems = await db.select().from(workOrderItems)
       .where(eq(workOrderItems.workOrderId, ro.workOrderId));
     const items = await Promise.all(
@@ -2077,10 +2481,11 @@ export function registerRoutes(app: Express) {
     const workOrder = await storage.getWorkOrder(ro.workOrderId);
     const client = workOrder ? await storage.getUser(workOrder.clientId) : undefined;
     const createdBy = (ro as any).createdById ? await storage.getUser((ro as any).createdById) : undefined;
-    res.json({ releaseOrder: ro, items, workOrder, client, createdBy });
+    const approval = await releaseOrderApprovalService.getProgress(ro, currentUser(req));
+    res.json({ releaseOrder: ro, items, workOrder, client, createdBy, approval });
   });
 
-  app.post("/api/payments/settle/:bookingId", async (req, res) => {
+  app.post("/api/payments/settle/:bookingId", requireRole("accounts"), async (req, res) => {
     try {
       const bookingId = parseInt(req.params.bookingId);
       const { amount, paymentMethod } = req.body;
@@ -2123,51 +2528,231 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  // Invoices by Work Order
-  app.get("/api/invoices/work-order/:id", async (req, res) => {
+  // Invoices by Work Order
+  app.get("/api/invoices/work-order/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const wo = await storage.getWorkOrder(id);
+      if (!wo || !canAccessClient(currentUser(req), wo.clientId)) return res.status(404).json({ error: "Work Order not found" });
+      const rows = await db.select().from(invoices).where(eq(invoices.workOrderId, id));
+      res.json(rows);
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/invoices", requireRole(...STAFF_ROLES), async (_req, res) => {
+    try {
+      const rows = await db.select().from(invoices);
+      res.json(rows);
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  // Pay invoice: records a receipt for the amount given (default: everything still due)
+  // Clients pay online through /payment-order; this settles an invoice by hand
+  app.post("/api/invoices/:id/pay", requireRole("accounts"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const [inv] = await db.select().from(invoices).where(eq(invoices.id, id));
+      if (!inv) return res.status(404).json({ error: "Invoice not found" });
+      const actor = currentUser(req);
+      const { amount, mode, reference, receivedOn } = (req.body ?? {}) as Record<string, any>;
+      const result = await receiptService.record(id, actor, {
+        amount: amount === undefined || amount === "" ? undefined : Number(amount),
+        mode,
+        reference,
+        receivedOn,
+      });
+      res.json({ success: true, ...result });
+    } catch (e: any) {
+      if (e instanceof ReceiptError || e instanceof WorkOrderTransitionError) return res.status(e.status).json({ error: e.message });
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/invoices/:id/payment-order", requireRole("client"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const [inv] = await db.select().from(invoices).where(eq(invoices.id, id));
+      const wo = inv?.workOrderId ? await storage.getWorkOrder(inv.workOrderId) : undefined;
+      if (!inv || !wo || !canAccessClient(currentUser(req), wo.clientId)) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      res.json(await paymentGatewayService.createOrder(id, currentUser(req)));
+    } catch (e: any) {
+      if (e instanceof PaymentGatewayError || e instanceof ReceiptError || e instanceof WorkOrderTransitionError) {
+        return res.status(e.status).json({ error: e.message });
+      }
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // Polled by checkout until the webhook has settled the order
+  app.get("/api/payment-orders/:id", requireRole("client", "accounts"), async (req, res) => {
+    try {
+      const order = await paymentGatewayService.getOrder(parseInt(req.params.id));
+      const actor = currentUser(req);
+      if (!order || (actor.role === "client" && order.createdById !== actor.id)) {
+        return res.status(404).json({ error: "Payment order not found" });
+      }
+      res.json(order);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/payment-orders/:id/simulate", requireRole("client"), async (req, res) => {
+    try {
+      const order = await paymentGatewayService.getOrder(parseInt(req.params.id));
+      if (!order || order.createdById !== currentUser(req).id) return res.status(404).json({ error: "Payment order not found" });
+      const outcome = req.body?.outcome === "failure" ? "failure" : "success";
+      res.json(await paymentGatewayService.simulate(order.id, outcome));
+    } catch (e: any) {
+      if (e instanceof PaymentGatewayError) return res.status(e.status).json({ error: e.message });
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/invoices/:id/receipts", requireRole("accounts", "manager"), async (req, res) => {
+    try {
+      res.json(await receiptService.listForInvoice(parseInt(req.params.id)));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // Accounts record each transfer or cheque as received, including any TDS the client deducted
+  app.post("/api/invoices/:id/receipts", requireRole("accounts"), async (req, res) => {
+    try {
+      const { amount, tdsAmount, tdsSection, mode, reference, receivedOn, note } = req.body as Record<string, any>;
+      const result = await receiptService.record(parseInt(req.params.id), currentUser(req), {
+        amount: amount === undefined || amount === "" ? undefined : Number(amount),
+        tdsAmount: tdsAmount === undefined || tdsAmount === "" ? undefined : Number(tdsAmount),
+        tdsSection: tdsSection || undefined,
+        mode,
+        reference,
+        receivedOn,
+        note,
+      });
+      res.status(201).json(result);
+    } catch (e: any) {
+      if (e instanceof ReceiptError || e instanceof WorkOrderTransitionError) return res.status(e.status).json({ error: e.message });
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/work-orders/:id/receipts", requireRole("accounts", "manager"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      res.json({ receipts: await receiptService.listForWorkOrder(id), balance: await receiptService.balanceOf(id) });
+    } catch (e: any) {
+      if (e instanceof ReceiptError) return res.status(e.status).json({ error: e.message });
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/bank-statements", requireRole("accounts"), async (_req, res) => {
+    try {
+      res.json(await bankStatementService.listImports());
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/bank-statements", requireRole("accounts"), upload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) return res.status(400).json({ error: "No file uploaded" });
+      const result = await bankStatementService.import(req.file.originalname, req.file.buffer.toString("utf8"), currentUser(req));
+      res.json(result);
+    } catch (e: any) {
+      if (e instanceof BankStatementError) return res.status(e.status).json({ error: e.message });
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/bank-statements/lines", requireRole("accounts"), async (req, res) => {
+    try {
+      const status = (req.query.status as string) || "unmatched";
+      if (!["unmatched", "matched", "ignored"].includes(status)) return res.status(400).json({ error: "Invalid status" });
+      res.json(await bankStatementService.listLines(status as "unmatched" | "matched" | "ignored"));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/bank-statements/lines/:id/confirm", requireRole("accounts"), async (req, res) => {
+    try {
+      const invoiceId = Number(req.body?.invoiceId);
+      if (!Number.isInteger(invoiceId)) return res.status(400).json({ error: "invoiceId is required" });
+      const tdsAmount = req.body?.tdsAmount !== undefined ? Number(req.body.tdsAmount) : undefined;
+      res.json(await bankStatementService.confirm(parseInt(req.params.id), invoiceId, currentUser(req), tdsAmount));
+    } catch (e: any) {
+      if (e instanceof BankStatementError || e instanceof ReceiptError || e instanceof WorkOrderTransitionError) {
+        return res.status(e.status).json({ error: e.message });
+      }
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/bank-statements/lines/:id/ignore", requireRole("accounts"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const rows = await db.select().from(invoices).where(eq(invoices.workOrderId, id));
-      res.json(rows);
+      res.json(await bankStatementService.ignore(parseInt(req.params.id), currentUser(req)));
     } catch (e: any) {
-      res.status(400).json({ error: e.message });
+      if (e instanceof BankStatementError) return res.status(e.status).json({ error: e.message });
+      res.status(500).json({ error: e.message });
     }
   });
 
-  app.get("/api/invoices", async (_req, res) => {
+  // Clients see their own TDS; accounts can filter by client or see everyone
+  const tdsClientScope = (req: any): number | undefined => {
+    const actor = currentUser(req);
+    if (actor.role === "client") return actor.id;
+    return req.query.clientId ? Number(req.query.clientId) : undefined;
+  };
+
+  app.get("/api/tds/outstanding", requireRole("accounts", "client"), async (req, res) => {
     try {
-      const rows = await db.select().from(invoices);
-      res.json(rows);
+      res.json(await tdsService.outstanding(tdsClientScope(req)));
     } catch (e: any) {
-      res.status(400).json({ error: e.message });
+      res.status(500).json({ error: e.message });
     }
   });
 
-  // Pay invoice (mock settle)
-  app.post("/api/invoices/:id/pay", async (req, res) => {
+  app.get("/api/tds/certificates", requireRole("accounts", "client"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const invs = await db.select().from(invoices).where(eq(invoices.id, id));
-      const inv = invs[0];
-      if (!inv) return res.status(404).json({ error: "Invoice not found" });
-      await db.update(invoices).set({ status: "completed" as any }).where(eq(invoices.id, id));
-      // After payment rules
-      if (inv.workOrderId) {
-        const wo = await storage.getWorkOrder(inv.workOrderId);
-        if (wo) {
-          const existingRos = await storage.getReleaseOrders();
-          const targetRo = existingRos.find((r: any) => r.workOrderId === wo.id);
-          if (targetRo) {
-            await db.update(releaseOrders)
-              .set({ paymentStatus: "completed" as any })
-              .where(eq(releaseOrders.id, targetRo.id));
-          }
-          await storage.updateWorkOrder(wo.id, { status: "paid" } as any);
-        }
-      }
-      res.json({ success: true });
+      res.json(await tdsService.listCertificates(tdsClientScope(req)));
     } catch (e: any) {
-      res.status(400).json({ error: e.message });
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/tds/certificates", requireRole("accounts", "client"), upload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) return res.status(400).json({ error: "No file uploaded" });
+      const actor = currentUser(req);
+      // Clients upload their own certificates; accounts must say whose it is
+      if (actor.role !== "client" && (req.body.clientId === undefined || req.body.clientId === "")) {
+        return res.status(400).json({ error: "clientId is required" });
+      }
+      const clientId = actor.role === "client" ? actor.id : Number(req.body.clientId);
+      if (!Number.isInteger(clientId)) return res.status(400).json({ error: "clientId must be a number" });
+      const result = await tdsService.uploadCertificate(
+        {
+          clientId,
+          financialYear: req.body.financialYear,
+          quarter: Number(req.body.quarter),
+          certificateNumber: req.body.certificateNumber,
+          tdsAmount: Number(req.body.tdsAmount),
+        },
+        req.file,
+        actor
+      );
+      res.status(201).json(result);
+    } catch (e: any) {
+      if (e instanceof TdsError) return res.status(e.status).json({ error: e.message });
+      res.status(500).json({ error: e.message });
     }
   });
 
@@ -2176,6 +2761,12 @@ export function registerRoutes(app: Express) {
       const id = parseInt(req.params.id);
       const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
       if (!invoice) return res.status(404).json({ error: "Invoice not found" });
+      if (currentUser(req).role === "client") {
+        const owner = invoice.workOrderId ? await storage.getWorkOrder(invoice.workOrderId) : undefined;
+        if (!owner || !canAccessClient(currentUser(req), owner.clientId)) {
+          return res.status(404).json({ error: "Invoice not found" });
+        }
+      }
 
       // If invoice has an uploaded file, serve it directly instead of generating
       if (invoice.fileUrl) {
@@ -2192,7 +2783,7 @@ export function registerRoutes(app: Express) {
         
         if (fs.existsSync(filePath)) {
           res.setHeader("Content-Type", "application/pdf");
-          res.setHeader("Content-Disposition", `attachment; filename=proforma-invoice-${invoice.id}.pdf`);
+          res.setHeader("Content-Disposition", `attachment; filename=${INVOICE_DOCUMENTS[invoice.invoiceType].fileName}-${invoice.id}.pdf`);
           return res.sendFile(filePath);
         }
       }
@@ -2202,20 +2793,15 @@ export function registerRoutes(app: Express) {
       const client = workOrder ? await storage.getUser(workOrder.clientId) : undefined;
 
       const items = await Promise.all(
-        rawItems.map(async (item: any) => {
+        rawItems.map(async (item) => {
           const slot = item.slotId ? await storage.getSlot(item.slotId) : null;
-          return { ...item, slot };
+          const { sacCode } = await taxInvoiceService.describeItem(item);
+          return { ...item, slot, sacCode };
         })
       );
 
       const toNumber = (value: any) => Number(value ?? 0);
 
-      const earliestStartDate = items
-        .map((it) => (it.startDate ? new Date(it.startDate as any) : null))
-        .filter((d): d is Date => !!d && !Number.isNaN(d.getTime()))
-        .sort((a, b) => a.getTime() - b.getTime())[0];
-      const earliestStart = earliestStartDate ? earliestStartDate.toISOString() : null;
-
       const describeSlot = (item: any) => {
         if (item.addonType) {
           return item.addonType === "email" ? "Email Campaign" : "WhatsApp Campaign";
@@ -2234,36 +2820,40 @@ export function registerRoutes(app: Express) {
       const invoiceLines: Array<{ sno: string; description: string; hsn?: string; amount: number; isNote?: boolean }> = [];
       let lineCounter = 1;
       let subtotal = 0;
-
-      items.forEach((item: any) => {
-        const amount = toNumber(item.subtotal ?? item.unitPrice);
-        const descriptionParts = [describeSlot(item)];
-        const range = formatDateRange(item.startDate, item.endDate);
-        if (range) descriptionParts.push(`(${range})`);
-        invoiceLines.push({
-          sno: String(lineCounter++),
-          description: descriptionParts.join("\n"),
-          hsn: DEFAULT_HSN,
-          amount,
+      const documentInfo = INVOICE_DOCUMENTS[invoice.invoiceType];
+      // Tax invoices and credit notes are GST documents: they print the lines frozen when they were issued
+      const isTaxInvoice = invoice.invoiceType !== "proforma";
+      const frozenLines = taxInvoiceService.parseLines(invoice);
+
+      if (frozenLines) {
+        frozenLines.forEach((line) => {
+          const range = formatDateRange(line.startDate, line.endDate);
+          invoiceLines.push({
+            sno: String(lineCounter++),
+            description: range ? `${line.description}\n(${range})` : line.description,
+            hsn: line.sacCode,
+            amount: line.taxableAmount,
+          });
+          subtotal += line.taxableAmount;
         });
-        subtotal += amount;
-      });
+      } else {
+        items.forEach((item: any) => {
+          const amount = toNumber(item.subtotal ?? item.unitPrice);
+          const descriptionParts = [describeSlot(item)];
+          const range = formatDateRange(item.startDate, item.endDate);
+          if (range) descriptionParts.push(`(${range})`);
+          invoiceLines.push({
+            sno: String(lineCounter++),
+            description: descriptionParts.join("\n"),
+            hsn: item.sacCode,
+            amount,
+          });
+          subtotal += amount;
+        });
+      }
 
-      let paymentNote = "";
-      if (workOrder?.paymentMode === "installment") {
-        paymentNote = earliestStart
-          ? `Payment 50% in advance & balance 50% before ${formatSingleDate(earliestStart)}`
-          : "Payment 50% in advance & balance 50% before campaign start";
-      } else if (workOrder?.paymentMode === "full") {
-        paymentNote = earliestStart
-          ? `Payment 100% in advance before ${formatSingleDate(earliestStart)}`
-          : "Payment 100% in advance before campaign start";
-      } else if (workOrder?.paymentMode === "pay_later") {
-        paymentNote = earliestStart
-          ? `Payment to be completed before ${formatSingleDate(earliestStart)}`
-          : "Payment to be completed before campaign start";
-      }
-      if (paymentNote) {
+      const paymentNote = workOrder ? await installmentPlanService.paymentNote(workOrder) : "";
+      if (paymentNote && !isTaxInvoice) {
         invoiceLines.push({
           sno: "*",
           description: paymentNote,
@@ -2272,23 +2862,32 @@ export function registerRoutes(app: Express) {
           isNote: true,
         });
       }
+      const installmentNote = workOrder ? await installmentPlanService.installmentNote(invoice, workOrder) : "";
+      if (installmentNote) {
+        invoiceLines.push({ sno: "*", description: installmentNote, hsn: "", amount: 0, isNote: true });
+      }
 
       const generatedAt = invoice.generatedAt ? new Date(invoice.generatedAt as any) : new Date();
-      const fiscalYearStart = generatedAt.getMonth() >= 3 ? generatedAt.getFullYear() : generatedAt.getFullYear() - 1;
-      const fiscalYearEnd = (fiscalYearStart + 1).toString().slice(-2);
-      const invoiceNumber = `PI/${String(fiscalYearStart).slice(-2)}-${fiscalYearEnd}/${invoice.id.toString().padStart(3, "0")}`;
+      // Invoices created before numbering series existed keep their id-derived number
+      const invoiceNumber =
+        invoice.invoiceNumber ??
+        `${documentInfo.legacyPrefix}/${financialYearOf(generatedAt).short}/${invoice.id.toString().padStart(3, "0")}`;
+      const [creditedInvoice] = invoice.creditedInvoiceId
+        ? await db.select().from(invoices).where(eq(invoices.id, invoice.creditedInvoiceId))
+        : [];
       const invoiceDate = generatedAt.toLocaleDateString("en-IN", { day: "2-digit", month: "2-digit", year: "numeric" });
 
-      const gstPercent = Number(workOrder?.gstPercent ?? 0);
+      // CGST+SGST or IGST as stored on the invoice; older rows without a breakup are split on the fly
+      const gst = computeGst(subtotal, Number(invoice.gstPercent ?? workOrder?.gstPercent ?? 0), invoice.recipientGstin ?? client?.gstNumber);
       const storedTotal = toNumber(invoice.amount);
-      const calculatedGst = Math.round((subtotal * gstPercent) / 100);
-      const total = storedTotal > 0 ? storedTotal : subtotal + calculatedGst;
-      const effectiveGst = Math.max(0, Math.round(total - subtotal));
-      const taxLines = effectiveGst > 0 ? [{ label: gstPercent ? `IGST ${gstPercent}%` : "Tax", amount: effectiveGst }] : [];
+      const taxableAmount = invoice.taxableAmount != null ? toNumber(invoice.taxableAmount) : subtotal;
+      const taxLines = invoiceTaxLines(invoice, gst);
+      const total = storedTotal > 0 ? storedTotal : gst.total;
+      const placeOfSupply = invoice.placeOfSupply ?? gst.placeOfSupply;
       const amountInWords = numberToIndianWords(Math.round(total));
 
       res.setHeader("Content-Type", "application/pdf");
-      res.setHeader("Content-Disposition", `attachment; filename=proforma-invoice-${invoice.id}.pdf`);
+      res.setHeader("Content-Disposition", `attachment; filename=${documentInfo.fileName}-${invoice.id}.pdf`);
 
       const doc = new PDFDocument({ size: "A4", margin: 36 });
       doc.pipe(res);
@@ -2308,12 +2907,24 @@ export function registerRoutes(app: Express) {
       });
 
       doc.moveDown(0.5);
-      doc.font("Helvetica-Bold").fontSize(16).text("PROFORMA INVOICE", left, doc.y, { align: "center" });
+      doc.font("Helvetica-Bold").fontSize(16).text(documentInfo.title, left, doc.y, { align: "center" });
+      if (invoice.status === "cancelled") {
+        doc.fillColor("#b91c1c").fontSize(12).text("CANCELLED", left, doc.y, { align: "center" }).fillColor("black");
+      }
+      if (creditedInvoice) {
+        const creditedDate = new Date(creditedInvoice.generatedAt).toLocaleDateString("en-IN", { day: "2-digit", month: "2-digit", year: "numeric" });
+        doc.font("Helvetica").fontSize(9).text(
+          `Against Invoice ${creditedInvoice.invoiceNumber ?? `#${creditedInvoice.id}`} dated ${creditedDate}${invoice.reason ? ` • Reason: ${invoice.reason}` : ""}`,
+          left,
+          doc.y + 4,
+          { align: "center" }
+        );
+      }
       doc.moveDown(0.5);
 
       const infoTop = doc.y + 10;
 
-      doc.font("Helvetica-Bold").fontSize(9).text("Proforma Invoice No:", columnRight, infoTop, { width: width * 0.45 });
+      doc.font("Helvetica-Bold").fontSize(9).text(documentInfo.numberLabel, columnRight, infoTop, { width: width * 0.45 });
       doc.font("Helvetica").fontSize(9).text(invoiceNumber, columnRight + 110, infoTop, { width: width * 0.35 });
       doc.font("Helvetica-Bold").fontSize(9).text("Dated:", columnRight, doc.y + 2, { width: width * 0.45 });
       doc.font("Helvetica").fontSize(9).text(invoiceDate, columnRight + 110, doc.y, { width: width * 0.35 });
@@ -2338,9 +2949,15 @@ export function registerRoutes(app: Express) {
       if (client?.schoolAddress) {
         doc.text(client.schoolAddress, columnRight + 120, doc.y, { width: width * 0.35 });
       }
-      if (client?.gstNumber) {
-        doc.text(`GSTN: ${client.gstNumber}`, columnRight + 120, doc.y, { width: width * 0.35 });
+      const recipientGstin = invoice.recipientGstin ?? client?.gstNumber;
+      if (recipientGstin) {
+        doc.text(`GSTN: ${recipientGstin}`, columnRight + 120, doc.y, { width: width * 0.35 });
+      } else if (isTaxInvoice) {
+        doc.text("GSTN: Unregistered", columnRight + 120, doc.y, { width: width * 0.35 });
       }
+      doc.text(`Place of Supply: ${GST_STATE_CODES[placeOfSupply] ?? placeOfSupply} (${placeOfSupply})`, columnRight + 120, doc.y, {
+        width: width * 0.35,
+      });
       const receiverBottom = doc.y;
 
       doc.y = Math.max(providerBottom, receiverBottom) + 18;
@@ -2398,7 +3015,7 @@ export function registerRoutes(app: Express) {
       const summaryBoxX = hsnX;
       const summaryBoxWidth = tableWidth - (summaryBoxX - left);
       const summaryRows = [
-        { label: "Amount", value: subtotal, bold: false },
+        { label: "Amount", value: taxableAmount, bold: false },
         ...taxLines.map((tax) => ({ label: tax.label, value: tax.amount, bold: false })),
         { label: "Total", value: total, bold: true },
       ];
@@ -2439,36 +3056,195 @@ export function registerRoutes(app: Express) {
       );
       doc.text("(Authorised Signatory)", signatureX + 60, bankBoxTop + bankBoxHeight - 18);
 
-      doc.moveTo(left, doc.page.height - doc.page.margins.bottom - 40)
-        .lineTo(right, doc.page.height - doc.page.margins.bottom - 40)
-        .stroke();
+      drawCompanyFooter(doc);
+
+      doc.end();
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Clients can only open their own ledger
+  const ledgerFor = async (req: any) => {
+    const clientId = parseInt(req.params.id);
+    if (!canAccessClient(currentUser(req), clientId)) throw new LedgerError("Client not found", 404);
+    return await ledgerService.forClient(clientId, {
+      from: (req.query.from as string) || undefined,
+      to: (req.query.to as string) || undefined,
+    });
+  };
+
+  app.get("/api/clients/:id/ledger", requireRole("accounts", "manager", "vp", "client"), async (req, res) => {
+    try {
+      res.json(await ledgerFor(req));
+    } catch (error: any) {
+      if (error instanceof LedgerError) return res.status(error.status).json({ error: error.message });
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/clients/:id/ledger/pdf", requireRole("accounts", "manager", "vp", "client"), async (req, res) => {
+    try {
+      const ledger = await ledgerFor(req);
+      const formatDate = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString("en-IN", { day: "2-digit", month: "2-digit", year: "numeric" });
+      // Balances print as Dr (client owes) or Cr (paid in advance)
+      const formatBalance = (value: number) => `${formatCurrencyINR(Math.abs(value))} ${value < 0 ? "Cr" : "Dr"}`;
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename=statement-of-account-${ledger.client.id}-${ledger.to}.pdf`);
+
+      const doc = new PDFDocument({ size: "A4", margin: 36 });
+      doc.pipe(res);
+
+      const left = doc.page.margins.left;
+      const right = doc.page.width - doc.page.margins.right;
+      const width = right - left;
+      const columnRight = left + width * 0.55;
+
+      doc.font("Helvetica-Bold").fontSize(12).text(SERVICE_PROVIDER.brandLine1, columnRight, doc.page.margins.top - 12, {
+        width: width * 0.45,
+        align: "right",
+      });
+      doc.font("Helvetica").fontSize(8).text(SERVICE_PROVIDER.brandLine2, columnRight, doc.y, {
+        width: width * 0.45,
+        align: "right",
+      });
 
-      doc.font("Helvetica-Bold").fontSize(10).text(
-        "Advanced Educational Activities Pvt. Ltd.",
+      doc.moveDown(0.5);
+      doc.font("Helvetica-Bold").fontSize(16).text("STATEMENT OF ACCOUNT", left, doc.y, { align: "center" });
+      doc.font("Helvetica").fontSize(9).text(
+        ledger.from ? `For the period ${formatDate(ledger.from)} to ${formatDate(ledger.to)}` : `As on ${formatDate(ledger.to)}`,
         left,
-        doc.page.height - doc.page.margins.bottom - 30,
-        { width }
+        doc.y + 4,
+        { align: "center" }
       );
+      doc.moveDown(0.5);
+
+      const infoTop = doc.y + 10;
+      doc.font("Helvetica-Bold").fontSize(10).text("Service Provider :", left, infoTop, { width: width * 0.45 });
+      doc.font("Helvetica").fontSize(10).text(SERVICE_PROVIDER.name, left + 120, infoTop, { width: width * 0.4 });
+      SERVICE_PROVIDER.addressLines.forEach((line) => {
+        doc.text(line, left + 120, doc.y, { width: width * 0.4 });
+      });
+      doc.text(SERVICE_PROVIDER.gst, left + 120, doc.y, { width: width * 0.4 });
+      const providerBottom = doc.y;
+
+      doc.font("Helvetica-Bold").fontSize(10).text("Client :", columnRight, infoTop, { width: width * 0.45 });
+      doc.font("Helvetica").fontSize(10).text(ledger.client.businessSchoolName || ledger.client.name, columnRight + 60, infoTop, {
+        width: width * 0.45 - 60,
+      });
+      if (ledger.client.schoolAddress) doc.text(ledger.client.schoolAddress, columnRight + 60, doc.y, { width: width * 0.45 - 60 });
+      if (ledger.client.gstNumber) doc.text(`GSTN: ${ledger.client.gstNumber}`, columnRight + 60, doc.y, { width: width * 0.45 - 60 });
+      doc.text(ledger.client.email, columnRight + 60, doc.y, { width: width * 0.45 - 60 });
+      const clientBottom = doc.y;
+
+      const columns = [
+        { label: "Date", width: 62, align: "left" as const },
+        { label: "Particulars", width: width - 62 - 90 - 3 * 72, align: "left" as const },
+        { label: "Doc No.", width: 90, align: "left" as const },
+        { label: "Debit (Rs)", width: 72, align: "right" as const },
+        { label: "Credit (Rs)", width: 72, align: "right" as const },
+        { label: "Balance (Rs)", width: 72, align: "right" as const },
+      ];
+      const pageBottom = doc.page.height - doc.page.margins.bottom - 50;
+      let currentY = Math.max(providerBottom, clientBottom) + 18;
+
+      const drawRow = (cells: string[], bold = false) => {
+        doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(8.5);
+        const rowHeight = Math.max(20, ...cells.map((cell, i) => doc.heightOfString(cell, { width: columns[i].width - 8 }) + 10));
+        if (currentY + rowHeight > pageBottom) {
+          drawCompanyFooter(doc);
+          doc.addPage();
+          currentY = doc.page.margins.top;
+          drawHeader();
+          doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(8.5);
+        }
+        doc.rect(left, currentY, width, rowHeight).stroke();
+        let x = left;
+        cells.forEach((cell, i) => {
+          doc.text(cell, x + 4, currentY + 5, { width: columns[i].width - 8, align: columns[i].align });
+          x += columns[i].width;
+        });
+        currentY += rowHeight;
+      };
+      const drawHeader = () => drawRow(columns.map((c) => c.label), true);
+
+      doc.lineWidth(0.7);
+      drawHeader();
+      drawRow([ledger.from ? formatDate(ledger.from) : "", "Opening Balance", "", "", "", formatBalance(ledger.openingBalance)], true);
+      ledger.entries.forEach((entry) => {
+        drawRow([
+          formatDate(entry.date),
+          entry.description,
+          entry.documentNumber,
+          entry.debit ? formatCurrencyINR(entry.debit) : "",
+          entry.credit ? formatCurrencyINR(entry.credit) : "",
+          formatBalance(entry.balance),
+        ]);
+      });
+      drawRow(["", "Total", "", formatCurrencyINR(ledger.totalDebit), formatCurrencyINR(ledger.totalCredit), ""], true);
+      drawRow([formatDate(ledger.to), "Closing Balance", "", "", "", formatBalance(ledger.closingBalance)], true);
+
       doc.font("Helvetica").fontSize(8).text(
-        "Regd. Office: 95B, 2nd Floor, Siddamsetty Complex, Park Lane, Secunderabad, Telangana - 500 003. Tel: 040-40088300/400.",
-        left,
-        doc.y,
-        { width }
-      );
-      doc.text(
-        "CIN No.: U80100TG1994PTC018452   e-mail: hoaccounts@time4education.com   website: www.time4education.com",
+        "Please report any discrepancy within 15 days of receipt of this statement. E. & O. E",
         left,
-        doc.y,
+        currentY + 10,
         { width }
       );
-
+      drawCompanyFooter(doc);
       doc.end();
     } catch (error: any) {
+      if (error instanceof LedgerError) return res.status(error.status).json({ error: error.message });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Issues the GST tax invoice for a paid proforma
+  app.post("/api/invoices/:id/tax-invoice", requireRole("accounts"), async (req, res) => {
+    try {
+      const taxInvoice = await taxInvoiceService.createFromProforma(parseInt(req.params.id), currentUser(req));
+      res.status(201).json(taxInvoice);
+    } catch (error: any) {
+      if (error instanceof TaxInvoiceError) return res.status(error.status).json({ error: error.message });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/invoices/:id/credit-notes", requireRole("accounts", "manager"), async (req, res) => {
+    try {
+      res.json(await creditNoteService.listFor(parseInt(req.params.id)));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Partially or fully reverses a tax invoice, e.g. when a campaign is cut short or a slot is pulled
+  app.post("/api/invoices/:id/credit-notes", requireRole("accounts"), async (req, res) => {
+    try {
+      const { amount, reason } = req.body as { amount?: number | string; reason?: string };
+      const creditNote = await creditNoteService.issue(parseInt(req.params.id), currentUser(req), {
+        amount: amount === undefined || amount === "" ? undefined : Number(amount),
+        reason: reason ?? "",
+      });
+      res.status(201).json(creditNote);
+    } catch (error: any) {
+      if (error instanceof CreditNoteError) return res.status(error.status).json({ error: error.message });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Cancels an unpaid invoice instead of deleting it; tax invoices are reversed by a credit note
+  app.post("/api/invoices/:id/cancel", requireRole("accounts"), async (req, res) => {
+    try {
+      const { reason } = req.body as { reason?: string };
+      res.json(await creditNoteService.cancel(parseInt(req.params.id), currentUser(req), reason ?? ""));
+    } catch (error: any) {
+      if (error instanceof CreditNoteError) return res.status(error.status).json({ error: error.message });
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.post("/api/release-orders/:id/accounts-invoice", upload.single("file"), async (req, res) => {
+  app.post("/api/release-orders/:id/accounts-invoice", requireRole("accounts"), upload.single("file"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const ro = await storage.getReleaseOrder(id);
@@ -2478,12 +3254,17 @@ export function registerRoutes(app: Express) {
         return res.status(400).json({ error: "Only PDF files are allowed" });
       }
 
+      // The PDF is the signed copy of a tax invoice issued from the system (proforma or installment)
+      if ((await taxInvoiceService.issuedFor(ro.workOrderId)).length === 0) {
+        return res.status(409).json({ error: "Issue the tax invoice for this work order before uploading its signed copy" });
+      }
+
       const uploadDir = path.resolve(process.cwd(), "server", "uploads");
       if (!fs.existsSync(uploadDir)) fs.mkdirSync(uploadDir, { recursive: true });
 
-      if ((ro as any).accountsInvoiceUrl) {
+      if (ro.accountsInvoiceUrl) {
         try {
-          fs.unlinkSync(path.join(uploadDir, (ro as any).accountsInvoiceUrl));
+          fs.unlinkSync(path.join(uploadDir, ro.accountsInvoiceUrl));
         } catch {}
       }
 
@@ -2492,45 +3273,9 @@ export function registerRoutes(app: Express) {
 
       await db
         .update(releaseOrders)
-        .set({ accountsInvoiceUrl: fileName as any })
+        .set({ accountsInvoiceUrl: fileName })
         .where(eq(releaseOrders.id, id));
-
-      // Create or update invoice record in invoices table
-      const workOrder = await storage.getWorkOrder((ro as any).workOrderId);
-      if (workOrder) {
-        // Get the total amount from work order
-        const totalAmount = Number(workOrder.totalAmount ?? 0);
-
-        // Check if invoice already exists for this work order with tax_invoice type
-        const existingInvoices = await db
-          .select()
-          .from(invoices)
-          .where(and(
-            eq(invoices.workOrderId, (ro as any).workOrderId),
-            eq(invoices.invoiceType, "tax_invoice")
-          ));
-
-        // Get authenticated user ID from request (if available)
-        const userId = (req as any).user?.id || (req as any).session?.userId || 1;
-
-        // If no invoice exists, create one
-        if (existingInvoices.length === 0) {
-          await db.insert(invoices).values({
-            workOrderId: (ro as any).workOrderId,
-            amount: String(totalAmount),
-            status: "pending",
-            fileUrl: `/uploads/${fileName}`,
-            invoiceType: "tax_invoice",
-            generatedById: userId,
-          } as any);
-        } else {
-          // Update existing invoice with new file URL
-          await db
-            .update(invoices)
-            .set({ fileUrl: `/uploads/${fileName}` })
-            .where(eq(invoices.id, existingInvoices[0].id));
-        }
-      }
+      await taxInvoiceService.attachSignedCopy(ro.workOrderId, `/uploads/${fileName}`);
 
       res.json({ success: true, accountsInvoiceUrl: fileName });
     } catch (error: any) {
@@ -2539,13 +3284,44 @@ export function registerRoutes(app: Express) {
   });
 
   // Installment routes
-  app.get("/api/installments/booking/:bookingId", async (req, res) => {
-    const installments = await storage.getInstallmentsByBooking(parseInt(req.params.bookingId));
+  app.get("/api/installments/booking/:bookingId", requireRole("client", "manager", "vp", "pv_sir", "accounts"), async (req, res) => {
+    const booking = await accessibleBooking(req, parseInt(req.params.bookingId));
+    if (!booking) return res.status(404).json({ error: "Booking not found" });
+    const installments = await storage.getInstallmentsByBooking(booking.id);
     res.json(installments);
   });
 
+  // Document number series (proforma, tax invoice, credit note, release order) with this year's counters
+  app.get("/api/number-series", requireRole("admin", "accounts"), async (_req, res) => {
+    try {
+      res.json(await numberingService.listSeries());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Changing a format applies to numbers issued from now on; issued numbers never change
+  app.patch("/api/number-series/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const { name, format } = req.body as { name?: string; format?: string };
+      const series = await numberingService.updateSeries(parseInt(req.params.id), { name, format });
+      await storage.createActivityLog({
+        actorId: currentUser(req).id,
+        actorRole: currentUser(req).role,
+        action: "number_series_updated",
+        entityType: "number_series",
+        entityId: series.id,
+        metadata: JSON.stringify({ name, format }),
+      });
+      res.json(series);
+    } catch (error: any) {
+      if (error instanceof NumberingError) return res.status(error.status).json({ error: error.message });
+      res.status(400).json({ error: error.message });
+    }
+  });
+
   // Activity Logs
-  app.get("/api/logs", async (req, res) => {
+  app.get("/api/logs", requireRole(...STAFF_ROLES), async (req, res) => {
     try {
       const { limit } = req.query as any;
       const rows = await storage.getActivityLogs(limit ? Number(limit) : 200);
@@ -2560,45 +3336,47 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  // Configure installment plan at Work Order scope -> creates multiple invoices with due dates
-  app.post("/api/work-orders/:id/installments", async (req, res) => {
+  // Put a Work Order on an installment plan template -> revises its unpaid installment invoices
+  app.post("/api/work-orders/:id/installments", requireRole("accounts"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const { schedule, generatedById } = req.body as { schedule: Array<{ amount: number; dueDate: string }>; generatedById: number };
-      const wo = await storage.getWorkOrder(id);
-      if (!wo) return res.status(404).json({ error: "Work Order not found" });
-      if (!Array.isArray(schedule) || schedule.length === 0) {
-        return res.status(400).json({ error: "Installment schedule is required" });
-      }
-      // Remove existing pending invoices (if any) for this WO to avoid duplicates
-      const existing = await db.select().from(invoices).where(eq(invoices.workOrderId, id));
-      for (const inv of existing) {
-        if (inv.status === "pending") {
-          await db.delete(invoices).where(eq(invoices.id, inv.id));
-        }
-      }
-      // Create invoices for each installment
-      for (const part of schedule) {
-        await storage.createInvoice({
-          workOrderId: id,
-          amount: String(Number(part.amount) || 0),
-          status: "pending" as any,
-          generatedById,
-          fileUrl: null as any,
-          invoiceType: "tax_invoice" as any,
-          dueDate: part.dueDate as any,
-        } as any);
-      }
-      const rows = await db.select().from(invoices).where(eq(invoices.workOrderId, id));
-      res.json(rows);
+      const planId = Number(req.body?.planId);
+      if (!Number.isInteger(planId)) return res.status(400).json({ error: "planId is required" });
+      res.json(await installmentPlanService.apply(parseInt(req.params.id), planId, currentUser(req)));
     } catch (e: any) {
+      if (e instanceof InstallmentPlanError) return res.status(e.status).json({ error: e.message });
       res.status(400).json({ error: e.message });
     }
   });
 
+  app.get("/api/installment-plans", requireRole("accounts", "manager"), async (req, res) => {
+    try {
+      res.json(await installmentPlanService.listPlans(req.query.all === "true"));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/installment-plans", requireRole("accounts"), async (req, res) => {
+    try {
+      res.status(201).json(await installmentPlanService.createPlan(req.body ?? {}));
+    } catch (e: any) {
+      if (e instanceof InstallmentPlanError) return res.status(e.status).json({ error: e.message });
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.patch("/api/installment-plans/:id", requireRole("accounts"), async (req, res) => {
+    try {
+      res.json(await installmentPlanService.updatePlan(parseInt(req.params.id), req.body ?? {}));
+    } catch (e: any) {
+      if (e instanceof InstallmentPlanError) return res.status(e.status).json({ error: e.message });
+      res.status(500).json({ error: e.message });
+    }
+  });
+
   // Admin routes
   // Simple client management API for managers (list/search/update clients)
-  app.get("/api/clients", async (req, res) => {
+  app.get("/api/clients", requireRole("manager"), async (req, res) => {
     try {
       const { q } = req.query as { q?: string };
       let rows = await db.select().from(users).where(eq(users.role, "client"));
@@ -2621,7 +3399,7 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  app.patch("/api/clients/:id", async (req, res) => {
+  app.patch("/api/clients/:id", requireRole("manager"), async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
       const updates = req.body;
@@ -2644,7 +3422,7 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  app.post("/api/clients", async (req, res) => {
+  app.post("/api/clients", requireRole("manager"), async (req, res) => {
     try {
       const { name, email, phone, businessSchoolName, schoolAddress, gstNumber } = req.body as {
         name: string; email: string; phone: string;
@@ -2677,7 +3455,7 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  app.get("/api/admin/users", async (req, res) => {
+  app.get("/api/admin/users", requireRole("admin"), async (req, res) => {
     try {
       const allUsers = await db.select().from(users);
       res.json(allUsers);
@@ -2686,7 +3464,7 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  app.post("/api/admin/users", async (req, res) => {
+  app.post("/api/admin/users", requireRole("admin"), async (req, res) => {
     try {
       const validatedData = insertUserSchema.parse(req.body);
       const [user] = await db.insert(users).values(validatedData).returning();
@@ -2696,7 +3474,7 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  app.patch("/api/admin/users/:id", async (req, res) => {
+  app.patch("/api/admin/users/:id", requireRole("admin"), async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
       const [updatedUser] = await db
@@ -2715,7 +3493,7 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  app.delete("/api/admin/users/:id", async (req, res) => {
+  app.delete("/api/admin/users/:id", requireRole("admin"), async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
       await db.delete(users).where(eq(users.id, userId));
@@ -2726,7 +3504,7 @@ export function registerRoutes(app: Express) {
   });
 
   // Deployment routes
-  app.post("/api/deployments/complete/:bookingId", async (req, res) => {
+  app.post("/api/deployments/complete/:bookingId", requireRole("it"), async (req, res) => {
     try {
       const bookingId = parseInt(req.params.bookingId);
       const booking = await storage.getBooking(bookingId);
@@ -2764,10 +3542,10 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  app.post("/api/work-orders/:id/upload-proforma", upload.single("file"), async (req, res) => {
+  app.post("/api/work-orders/:id/upload-proforma", requireRole("accounts"), upload.single("file"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { actorId } = (req.body ?? {}) as { actorId?: string };
+      const actorId = currentUser(req).id;
       const wo = await storage.getWorkOrder(id);
       if (!wo) return res.status(404).json({ error: "Work Order not found" });
       if (!req.file) return res.status(400).json({ error: "No file uploaded" });
@@ -2788,6 +3566,7 @@ export function registerRoutes(app: Express) {
         .where(and(eq(invoices.workOrderId, id), eq(invoices.invoiceType, "proforma" as any)));
 
       const total = Number((wo as any)?.totalAmount ?? 0);
+      const taxFields = invoiceTaxFields(wo, await storage.getUser(wo.clientId), total);
       let proforma = existing[0];
 
       if (proforma) {
@@ -2798,12 +3577,12 @@ export function registerRoutes(app: Express) {
         }
         const updated = await db
           .update(invoices)
-          .set({ amount: String(total), fileUrl: publicPath as any, generatedAt: new Date() as any })
+          .set({ amount: String(total), ...taxFields, fileUrl: publicPath as any, generatedAt: new Date() as any })
           .where(eq(invoices.id, proforma.id))
           .returning();
         proforma = updated[0];
       } else {
-        const generatedById = actorId ? Number(actorId) : (wo as any)?.quotedById || wo.clientId;
+        const generatedById = actorId;
         proforma = await storage.createInvoice({
           workOrderId: id,
           amount: String(total),
@@ -2811,6 +3590,7 @@ export function registerRoutes(app: Express) {
           generatedById,
           fileUrl: publicPath as any,
           invoiceType: "proforma" as any,
+          ...taxFields,
         } as any);
       }
 
@@ -2835,10 +3615,11 @@ export function registerRoutes(app: Express) {
   });
 
   // Accounts: Get payment tracking data with alerts
-  app.get("/api/accounts/payments", async (req, res) => {
+  app.get("/api/accounts/payments", requireRole("accounts"), async (req, res) => {
     try {
       const allWorkOrders = await db.select().from(workOrders);
       const allInvoices = await db.select().from(invoices);
+      const allReceipts = await db.select().from(receipts);
       const allReleaseOrders = await db.select().from(releaseOrders);
       
       const paymentData = await Promise.all(
@@ -2848,10 +3629,8 @@ export function registerRoutes(app: Express) {
           const ro = allReleaseOrders.find((r: any) => r.workOrderId === wo.id);
           
           const totalAmount = Number(wo.totalAmount ?? 0);
-          const paidAmount = woInvoices
-            .filter((inv) => inv.status === "completed")
-            .reduce((sum, inv) => sum + Number(inv.amount ?? 0), 0);
-          const pendingAmount = totalAmount - paidAmount;
+          const woReceipts = allReceipts.filter((r) => r.workOrderId === wo.id);
+          const { paidAmount, receivedAmount, tdsAmount, creditedAmount, pendingAmount } = workOrderBalance(totalAmount, woInvoices, woReceipts);
           
           const dueDate = proformaInvoice?.dueDate || ro?.dueDate || null;
           const today = new Date();
@@ -2868,7 +3647,7 @@ export function registerRoutes(app: Express) {
           const isDueSoon = daysOverdue === 0 && pendingAmount > 0 && dueDate;
           
           let paymentStatus = "pending";
-          if (paidAmount >= totalAmount) {
+          if (pendingAmount <= 0) {
             paymentStatus = "paid";
           } else if (isOverdue) {
             paymentStatus = "overdue";
@@ -2886,6 +3665,9 @@ export function registerRoutes(app: Express) {
             paymentMode: wo.paymentMode || "full",
             totalAmount,
             paidAmount,
+            receivedAmount,
+            tdsAmount,
+            creditedAmount,
             pendingAmount,
             dueDate,
             daysOverdue,
@@ -2895,6 +3677,7 @@ export function registerRoutes(app: Express) {
             proformaInvoice,
             releaseOrder: ro,
             invoices: woInvoices,
+            receipts: woReceipts,
             items: await Promise.all(
               items.map(async (item: any) => {
                 if (item.slotId) {
@@ -2915,10 +3698,11 @@ export function registerRoutes(app: Express) {
   });
 
   // Accounts: Get payment alerts (overdue and due soon)
-  app.get("/api/accounts/payment-alerts", async (req, res) => {
+  app.get("/api/accounts/payment-alerts", requireRole("accounts"), async (req, res) => {
     try {
       const allWorkOrders = await db.select().from(workOrders);
       const allInvoices = await db.select().from(invoices);
+      const allReceipts = await db.select().from(receipts);
       const allReleaseOrders = await db.select().from(releaseOrders);
       
       const alerts: Array<{ type: string; workOrderId: number; clientName: string; amount: number; daysOverdue?: number; dueDate?: string }> = [];
@@ -2929,10 +3713,7 @@ export function registerRoutes(app: Express) {
         const ro = allReleaseOrders.find((r: any) => r.workOrderId === wo.id);
         
         const totalAmount = Number(wo.totalAmount ?? 0);
-        const paidAmount = woInvoices
-          .filter((inv) => inv.status === "completed")
-          .reduce((sum, inv) => sum + Number(inv.amount ?? 0), 0);
-        const pendingAmount = totalAmount - paidAmount;
+        const { pendingAmount } = workOrderBalance(totalAmount, woInvoices, allReceipts.filter((r) => r.workOrderId === wo.id));
         
         if (pendingAmount <= 0) continue;
         
@@ -2975,10 +3756,96 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  // Dunning: escalation steps for overdue invoices and the messages they sent
+  app.get("/api/dunning/steps", requireRole("accounts"), async (_req, res) => {
+    try {
+      res.json(await dunningService.listSteps());
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.patch("/api/dunning/steps/:id", requireRole("accounts"), async (req, res) => {
+    try {
+      res.json(await dunningService.updateStep(parseInt(req.params.id), req.body ?? {}));
+    } catch (e: any) {
+      if (e instanceof DunningError) return res.status(e.status).json({ error: e.message });
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/dunning/logs", requireRole("accounts", "manager", "vp"), async (req, res) => {
+    try {
+      const workOrderId = req.query.workOrderId ? parseInt(String(req.query.workOrderId)) : undefined;
+      res.json(await dunningService.listLogs({ workOrderId }));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // Runs the daily dunning pass now; steps already sent are not repeated
+  app.post("/api/dunning/run", requireRole("accounts"), async (_req, res) => {
+    try {
+      res.json(await dunningService.run());
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // Payment default: the overdue threshold accounts set, and the holds it raises for VP approval
+  app.get("/api/payment-holds/policy", requireRole("accounts", "vp"), async (_req, res) => {
+    try {
+      res.json(await paymentHoldService.getPolicy());
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.patch("/api/payment-holds/policy", requireRole("accounts"), async (req, res) => {
+    try {
+      const { overdueDays, isActive } = req.body ?? {};
+      res.json(await paymentHoldService.updatePolicy({ overdueDays: overdueDays !== undefined ? Number(overdueDays) : undefined, isActive }, currentUser(req)));
+    } catch (e: any) {
+      if (e instanceof PaymentHoldError) return res.status(e.status).json({ error: e.message });
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.get("/api/payment-holds", requireRole("accounts", "vp", "it", "manager"), async (req, res) => {
+    try {
+      const { status } = req.query as { status?: string };
+      if (status !== undefined && !paymentHolds.status.enumValues.includes(status as PaymentHold["status"])) {
+        return res.status(400).json({ error: `Unknown hold status "${status}"` });
+      }
+      res.json(await paymentHoldService.listHolds(status as PaymentHold["status"] | undefined));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/payment-holds/:id/approve", requireRole("vp"), async (req, res) => {
+    try {
+      res.json(await paymentHoldService.approve(parseInt(req.params.id), currentUser(req), req.body?.note));
+    } catch (e: any) {
+      if (e instanceof PaymentHoldError) return res.status(e.status).json({ error: e.message });
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.post("/api/payment-holds/:id/dismiss", requireRole("vp"), async (req, res) => {
+    try {
+      res.json(await paymentHoldService.dismiss(parseInt(req.params.id), currentUser(req), req.body?.note));
+    } catch (e: any) {
+      if (e instanceof PaymentHoldError) return res.status(e.status).json({ error: e.message });
+      res.status(500).json({ error: e.message });
+    }
+  });
+
   // Deployment endpoints for IT team
-  app.post("/api/deployments/deploy", async (req, res) => {
+  app.post("/api/deployments/deploy", requireRole("it"), async (req, res) => {
     try {
-      const { releaseOrderId, workOrderItemId, bannerUrl, deployedById } = req.body;
+      const { releaseOrderId, workOrderItemId, bannerUrl } = req.body;
+      const deployedById = currentUser(req).id;
 
       if (!releaseOrderId || !workOrderItemId || !bannerUrl || !deployedById) {
         return res.status(400).json({ error: "Missing required fields" });
@@ -3003,6 +3870,20 @@ export function registerRoutes(app: Express) {
         return res.status(404).json({ error: "Work Order not found" });
       }
 
+      // A banner paused for payment default comes back when the hold clears, not by redeploying
+      const [paused] = await storage.getDeployments({ workOrderItemId, status: "paused" });
+      if (paused) {
+        return res.status(409).json({ error: "This banner is paused until the overdue payment for the Work Order is received" });
+      }
+      // One live deployment per item; a new creative goes through /api/deployments/:id/replace
+      const [live] = await storage.getDeployments({ workOrderItemId, status: "deployed" });
+      if (live) {
+        return res.status(409).json({
+          error: `This item is already deployed; use /api/deployments/${live.id}/replace to change its banner`,
+          deploymentId: live.id,
+        });
+      }
+
       // Get deployer user
       const deployer = await storage.getUser(deployedById);
       if (!deployer) {
@@ -3055,8 +3936,29 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  // Take a banner off its slot (live), or tick an expired one off the removal checklist
+  app.post("/api/deployments/:id/remove", requireRole("it"), async (req, res) => {
+    try {
+      res.json(await deploymentService.remove(parseInt(req.params.id), currentUser(req), req.body?.reason));
+    } catch (error: any) {
+      if (error instanceof DeploymentError) return res.status(error.status).json({ error: error.message });
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Swap the creative on a live deployment
+  app.post("/api/deployments/:id/replace", requireRole("it"), upload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) return res.status(400).json({ error: "No file uploaded" });
+      res.json(await deploymentService.replace(parseInt(req.params.id), req.file, currentUser(req)));
+    } catch (error: any) {
+      if (error instanceof DeploymentError) return res.status(error.status).json({ error: error.message });
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // Get deployments with optional status filter
-  app.get("/api/deployments", async (req, res) => {
+  app.get("/api/deployments", requireRole("it"), async (req, res) => {
     try {
       const { status, releaseOrderId, workOrderItemId } = req.query as { 
         status?: string; 
@@ -3084,7 +3986,7 @@ export function registerRoutes(app: Express) {
   });
 
   // Get deployment logs for IT team
-  app.get("/api/deployments/logs", async (req, res) => {
+  app.get("/api/deployments/logs", requireRole("it"), async (req, res) => {
     try {
       const { limit = 50 } = req.query;
       const logs = await storage.getActivityLogs(Number(limit));
@@ -3093,7 +3995,10 @@ export function registerRoutes(app: Express) {
       const deploymentLogs = logs.filter((log: any) => 
         log.action === "banner_deployed" || 
         log.action === "banner_removed" || 
-        log.action === "banner_replaced"
+        log.action === "banner_replaced" ||
+        log.action === "banner_paused" ||
+        log.action === "banner_resumed" ||
+        log.action === "banner_expired"
       );
 
       res.json(deploymentLogs);
@@ -0,0 +1,274 @@
+import fs from "fs";
+import path from "path";
+import { db } from "../db";
+import { deployments, slots, workOrderItems, type Slot, type User } from "@shared/schema";
+import { and, desc, eq, gte, lte } from "drizzle-orm";
+import { storage } from "../storage";
+import { BANNER_IMAGE_TYPES } from "./deployments";
+
+export class AdServingError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "AdServingError";
+  }
+}
+
+export interface ServedCreative {
+  slotId: number;
+  position: string;
+  pageType: Slot["pageType"];
+  deploymentId: number | null;
+  imageUrl: string;
+  clickUrl: string | null;
+  width: number | null;
+  height: number | null;
+  isHouseAd: boolean;
+}
+
+export interface EmbedSnippet {
+  position: string;
+  pageType: Slot["pageType"];
+  script: string;
+  iframe: string;
+}
+
+const MAX_BANNER_BYTES = 500 * 1024;
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const istToday = () => new Date(Date.now() + IST_OFFSET_MS).toISOString().slice(0, 10);
+// Only online inventory is served by the API; magazine and email slots are placed by hand
+const SERVED_MEDIA: Slot["mediaType"][] = ["website", "mobile"];
+
+// Served URLs are built from APP_URL only, never the request's Host header, because responses are
+// cached publicly
+function servingBaseUrl() {
+  const appUrl = process.env.APP_URL?.trim().replace(/\/+$/, "");
+  if (!appUrl) throw new AdServingError("Ad serving is not configured (APP_URL is not set)", 503);
+  return appUrl;
+}
+
+const absolute = (url: string, baseUrl: string) => (/^https?:\/\//i.test(url) ? url : `${baseUrl}${url.startsWith("/") ? "" : "/"}${url}`);
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+function parseDimensions(dimensions: string) {
+  const match = /^\s*(\d+)\s*[x×]\s*(\d+)\s*$/i.exec(dimensions);
+  return match ? { width: Number(match[1]), height: Number(match[2]) } : { width: null, height: null };
+}
+
+function validateLinkUrl(linkUrl: string | null | undefined) {
+  const trimmed = linkUrl?.trim();
+  if (!trimmed) return null;
+  if (!/^https?:\/\/\S+$/i.test(trimmed)) throw new AdServingError("The house ad link must be an http(s) URL", 400);
+  return trimmed;
+}
+
+class AdServingService {
+  private async servableSlot(slotId: number) {
+    if (!Number.isInteger(slotId) || slotId < 1) throw new AdServingError("Invalid slot id", 400);
+    const slot = await storage.getSlot(slotId);
+    if (!slot) throw new AdServingError("Slot not found", 404);
+    if (!SERVED_MEDIA.includes(slot.mediaType)) throw new AdServingError("Only website and mobile slots are served online", 404);
+    return slot;
+  }
+
+  private houseAd(slot: Slot, baseUrl: string): ServedCreative | null {
+    if (!slot.houseAdUrl) return null;
+    return {
+      slotId: slot.id,
+      position: slot.position,
+      pageType: slot.pageType,
+      deploymentId: null,
+      imageUrl: absolute(slot.houseAdUrl, baseUrl),
+      clickUrl: slot.houseAdLinkUrl,
+      ...parseDimensions(slot.dimensions),
+      isHouseAd: true,
+    };
+  }
+
+  /**
+   * The sold creative live on a slot today (IST): a deployed (not paused) banner whose work order item
+   * is within its campaign dates. When a replacement left two rows live, the latest deployment wins.
+   */
+  private async liveCreative(slot: Slot, baseUrl: string, today: string): Promise<ServedCreative | null> {
+    const [live] = await db
+      .select({ deployment: deployments })
+      .from(deployments)
+      .innerJoin(workOrderItems, eq(deployments.workOrderItemId, workOrderItems.id))
+      .where(
+        and(
+          eq(deployments.slotId, slot.id),
+          eq(deployments.status, "deployed"),
+          lte(workOrderItems.startDate, today),
+          gte(workOrderItems.endDate, today),
+        ),
+      )
+      .orderBy(desc(deployments.deployedAt))
+      .limit(1);
+    if (!live) return null;
+    return {
+      slotId: slot.id,
+      position: slot.position,
+      pageType: slot.pageType,
+      deploymentId: live.deployment.id,
+      imageUrl: absolute(live.deployment.bannerUrl, baseUrl),
+      clickUrl: null,
+      ...parseDimensions(slot.dimensions),
+      isHouseAd: false,
+    };
+  }
+
+  /** What a slot shows right now: its live creative, else its house ad, else nothing (null). */
+  async resolveSlot(slotId: number, today = istToday()): Promise<ServedCreative | null> {
+    const baseUrl = servingBaseUrl();
+    const slot = await this.servableSlot(slotId);
+    return (await this.liveCreative(slot, baseUrl, today)) ?? this.houseAd(slot, baseUrl);
+  }
+
+  /**
+   * What a page position shows right now. Several slots can share a position (e.g. rotating header
+   * inventory); the first with a live creative wins, then the first with a house ad.
+   */
+  async resolvePosition(position: string, pageType: string | undefined, today = istToday()): Promise<ServedCreative | null> {
+    const baseUrl = servingBaseUrl();
+    const candidates = (await db.select().from(slots).where(eq(slots.position, position)).orderBy(slots.id)).filter(
+      (slot) => SERVED_MEDIA.includes(slot.mediaType) && (!pageType || slot.pageType === pageType),
+    );
+    if (candidates.length === 0) throw new AdServingError("No slot is configured at this position", 404);
+    for (const slot of candidates) {
+      const live = await this.liveCreative(slot, baseUrl, today);
+      if (live) return live;
+    }
+    for (const slot of candidates) {
+      const house = this.houseAd(slot, baseUrl);
+      if (house) return house;
+    }
+    return null;
+  }
+
+  /** Sets (or, with no file and no link, clears) the house ad a slot falls back to when unsold. */
+  async setHouseAd(
+    slotId: number,
+    input: { file?: { buffer: Buffer; size: number; mimetype: string; originalname: string }; linkUrl?: string | null; clear?: boolean },
+    actor: User,
+  ): Promise<Slot> {
+    const slot = await this.servableSlot(slotId);
+    const updates: Partial<Slot> = {};
+    if (input.clear) {
+      updates.houseAdUrl = null;
+      updates.houseAdLinkUrl = null;
+    } else {
+      if (input.file) {
+        const extension = BANNER_IMAGE_TYPES[input.file.mimetype];
+        if (!extension) throw new AdServingError("Only JPEG, PNG, GIF and WebP house ads are allowed", 400);
+        if (input.file.size > MAX_BANNER_BYTES) {
+          throw new AdServingError(`House ad size must be below 500KB. Current size: ${(input.file.size / 1024).toFixed(2)}KB`, 400);
+        }
+        const uploadDir = path.resolve(process.cwd(), "server", "uploads");
+        if (!fs.existsSync(uploadDir)) fs.mkdirSync(uploadDir, { recursive: true });
+        const fileName = `house-ad-${slot.id}-${Date.now()}${extension}`;
+        fs.writeFileSync(path.join(uploadDir, fileName), input.file.buffer);
+        updates.houseAdUrl = `/uploads/${fileName}`;
+      }
+      if (input.linkUrl !== undefined) updates.houseAdLinkUrl = validateLinkUrl(input.linkUrl);
+      if (!(updates.houseAdUrl ?? slot.houseAdUrl)) throw new AdServingError("Upload a house ad image first", 400);
+    }
+
+    const [updated] = await db.update(slots).set(updates).where(eq(slots.id, slot.id)).returning();
+    await storage.createActivityLog({
+      actorId: actor.id,
+      actorRole: actor.role,
+      action: input.clear ? "house_ad_cleared" : "house_ad_updated",
+      entityType: "slot",
+      entityId: slot.id,
+      metadata: JSON.stringify({
+        previousUrl: slot.houseAdUrl,
+        houseAdUrl: updated.houseAdUrl,
+        houseAdLinkUrl: updated.houseAdLinkUrl,
+      }),
+    });
+    return updated;
+  }
+
+  /** Snippets IT pastes once into a page position; the page then follows whatever is live there. */
+  async embedSnippet(slotId: number): Promise<EmbedSnippet> {
+    const baseUrl = servingBaseUrl();
+    const slot = await this.servableSlot(slotId);
+    const { width, height } = parseDimensions(slot.dimensions);
+    const query = `pageType=${encodeURIComponent(slot.pageType)}`;
+    const position = encodeURIComponent(slot.position);
+    return {
+      position: slot.position,
+      pageType: slot.pageType,
+      script: [
+        `<div data-adslot-position="${escapeHtml(slot.position)}" data-adslot-page="${escapeHtml(slot.pageType)}"></div>`,
+        `<script async src="${baseUrl}/api/serve/embed.js"></script>`,
+      ].join("\n"),
+      iframe: `<iframe src="${baseUrl}/api/serve/positions/${position}/frame?${query}" width="${width ?? ""}" height="${height ?? ""}" frameborder="0" scrolling="no" style="border:0;overflow:hidden"></iframe>`,
+    };
+  }
+
+  /** Standalone page for the iframe embed; empty (but valid) when nothing is live. */
+  frameHtml(creative: ServedCreative | null): string {
+    const body = !creative
+      ? ""
+      : (() => {
+          const size = `${creative.width ? ` width="${creative.width}"` : ""}${creative.height ? ` height="${creative.height}"` : ""}`;
+          const img = `<img src="${escapeHtml(creative.imageUrl)}"${size} alt="" style="display:block;max-width:100%;height:auto;border:0">`;
+          return creative.clickUrl ? `<a href="${escapeHtml(creative.clickUrl)}" target="_blank" rel="noopener sponsored">${img}</a>` : img;
+        })();
+    return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="robots" content="noindex"><style>html,body{margin:0;padding:0;overflow:hidden}</style></head><body>${body}</body></html>`;
+  }
+
+  /**
+   * Loader script for the JS embed. It fills every element carrying data-adslot-slot or
+   * data-adslot-position (with optional data-adslot-page) from the serving API, so pages pick up a new
+   * creative without anyone editing them.
+   */
+  embedScript(): string {
+    return `(function () {
+  var base = ${JSON.stringify(servingBaseUrl())};
+  function render(el, creative) {
+    el.innerHTML = "";
+    if (!creative) return;
+    var img = document.createElement("img");
+    img.src = creative.imageUrl;
+    img.alt = "";
+    if (creative.width) img.width = creative.width;
+    if (creative.height) img.height = creative.height;
+    img.style.display = "block";
+    img.style.maxWidth = "100%";
+    img.style.height = "auto";
+    var node = img;
+    if (creative.clickUrl) {
+      node = document.createElement("a");
+      node.href = creative.clickUrl;
+      node.target = "_blank";
+      node.rel = "noopener sponsored";
+      node.appendChild(img);
+    }
+    el.appendChild(node);
+  }
+  function load(el) {
+    var slot = el.getAttribute("data-adslot-slot");
+    var position = el.getAttribute("data-adslot-position");
+    var page = el.getAttribute("data-adslot-page");
+    var url = slot
+      ? base + "/api/serve/slots/" + encodeURIComponent(slot)
+      : base + "/api/serve/positions/" + encodeURIComponent(position) + (page ? "?pageType=" + encodeURIComponent(page) : "");
+    fetch(url, { credentials: "omit" })
+      .then(function (res) { return res.ok ? res.json() : null; })
+      .then(function (body) { render(el, body && body.creative); })
+      .catch(function () {});
+  }
+  function run() {
+    var els = document.querySelectorAll("[data-adslot-slot],[data-adslot-position]");
+    for (var i = 0; i < els.length; i++) load(els[i]);
+  }
+  if (document.readyState === "loading") document.addEventListener("DOMContentLoaded", run);
+  else run();
+})();
+`;
+  }
+}
+
+export const adServingService = new AdServingService();
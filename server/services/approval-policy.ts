@@ -0,0 +1,379 @@
+import { db } from "../db";
+import {
+  approvalPolicies,
+  approvalStages,
+  releaseOrderApprovals,
+  releaseOrders,
+  users,
+  type ApprovalPolicy,
+  type ApprovalStage,
+  type InsertApprovalStage,
+  type ReleaseOrder,
+  type User,
+} from "@shared/schema";
+import { and, asc, desc, eq, gte, inArray } from "drizzle-orm";
+import { storage } from "../storage";
+import { notificationService } from "./notification";
+import { emailService } from "./email";
+import { installmentPlanService } from "./installment-plans";
+import type { DbTransaction } from "./availability";
+
+// Roles told when a release order clears its last stage, on top of every approver role in the policy
+const DOWNSTREAM_ROLES = ["accounts", "it"] as const;
+
+export type StageState = "done" | "current" | "pending" | "skipped";
+
+export interface StageProgress {
+  stage: ApprovalStage;
+  state: StageState;
+  approvals: number;
+}
+
+export interface ApprovalProgress {
+  policy: ApprovalPolicy | null;
+  stages: StageProgress[];
+  currentStage: ApprovalStage | null;
+  isFirstStage: boolean;
+  canApprove: boolean;
+  canReject: boolean;
+}
+
+export type NewApprovalStage = Omit<InsertApprovalStage, "policyId" | "position">;
+
+export class ApprovalError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "ApprovalError";
+  }
+}
+
+const canAct = (actor: User, stage: ApprovalStage) => actor.role === "admin" || actor.role === stage.approverRole;
+
+class ReleaseOrderApprovalService {
+  async listPolicies(): Promise<Array<ApprovalPolicy & { stages: ApprovalStage[] }>> {
+    const policies = await db.select().from(approvalPolicies).orderBy(desc(approvalPolicies.id));
+    const stages = policies.length
+      ? await db.select().from(approvalStages).where(inArray(approvalStages.policyId, policies.map((p) => p.id))).orderBy(asc(approvalStages.position))
+      : [];
+    return policies.map((p) => ({ ...p, stages: stages.filter((s) => s.policyId === p.id) }));
+  }
+
+  async getActivePolicy(): Promise<ApprovalPolicy | undefined> {
+    const [policy] = await db
+      .select()
+      .from(approvalPolicies)
+      .where(eq(approvalPolicies.isActive, true))
+      .orderBy(desc(approvalPolicies.id))
+      .limit(1);
+    return policy;
+  }
+
+  async getStages(policyId: number, executor: typeof db | DbTransaction = db): Promise<ApprovalStage[]> {
+    return await executor.select().from(approvalStages).where(eq(approvalStages.policyId, policyId)).orderBy(asc(approvalStages.position));
+  }
+
+  /**
+   * Saves a new policy and makes it the active one. Policies are never edited in place:
+   * release orders already in review keep the policy they were submitted under.
+   */
+  async createPolicy(name: string, stages: NewApprovalStage[], createdById: number) {
+    if (!name?.trim()) throw new ApprovalError("Policy name is required", 400);
+    if (!Array.isArray(stages) || stages.length === 0) throw new ApprovalError("A policy needs at least one stage", 400);
+    for (const stage of stages) {
+      if (!stage.name?.trim() || !stage.approverRole) throw new ApprovalError("Every stage needs a name and an approver role", 400);
+      if (stage.requiredApprovals != null && stage.requiredApprovals < 1) {
+        throw new ApprovalError("requiredApprovals must be at least 1", 400);
+      }
+    }
+
+    return await db.transaction(async (tx) => {
+      await tx.update(approvalPolicies).set({ isActive: false }).where(eq(approvalPolicies.isActive, true));
+      const [policy] = await tx.insert(approvalPolicies).values({ name: name.trim(), isActive: true, createdById }).returning();
+      const created = await tx
+        .insert(approvalStages)
+        .values(stages.map((stage, index) => ({ ...stage, name: stage.name.trim(), policyId: policy.id, position: index + 1 })))
+        .returning();
+      return { ...policy, stages: created.sort((a, b) => a.position - b.position) };
+    });
+  }
+
+  private async workOrderAmount(ro: ReleaseOrder) {
+    const wo = await storage.getWorkOrder(ro.workOrderId);
+    return Number(wo?.totalAmount ?? 0);
+  }
+
+  private applies(stage: ApprovalStage, amount: number) {
+    return stage.skipBelowAmount == null || amount >= Number(stage.skipBelowAmount);
+  }
+
+  // The RO's policy stages plus the one it waits on; ROs from before policies existed are matched by status
+  private async resolve(ro: ReleaseOrder, executor: typeof db | DbTransaction = db) {
+    const policyId = ro.approvalPolicyId ?? (await this.getActivePolicy())?.id;
+    const stages = policyId ? await this.getStages(policyId, executor) : [];
+    const current =
+      stages.find((s) => s.id === ro.currentStageId) ??
+      (ro.currentStageId == null ? stages.find((s) => s.releaseOrderStatus === ro.status) : undefined) ??
+      null;
+    const amount = await this.workOrderAmount(ro);
+    const applicable = stages.filter((s) => s.id === current?.id || this.applies(s, amount));
+    return { policyId: policyId ?? null, stages, applicable, current, amount };
+  }
+
+  private async approvalsAtStage(roId: number, stage: ApprovalStage, since: Date | null, executor: typeof db | DbTransaction = db) {
+    return await executor
+      .select()
+      .from(releaseOrderApprovals)
+      .where(
+        and(
+          eq(releaseOrderApprovals.releaseOrderId, roId),
+          eq(releaseOrderApprovals.stageId, stage.id),
+          since ? gte(releaseOrderApprovals.createdAt, since) : undefined
+        )
+      );
+  }
+
+  async getProgress(ro: ReleaseOrder, actor: User): Promise<ApprovalProgress> {
+    const { policyId, stages, applicable, current } = await this.resolve(ro);
+    const policy = policyId ? (await db.select().from(approvalPolicies).where(eq(approvalPolicies.id, policyId)))[0] ?? null : null;
+    const currentIndex = current ? applicable.findIndex((s) => s.id === current.id) : -1;
+    const decided = ro.status === "accepted" || ro.status === "ready_for_it" || ro.status === "deployed";
+    const approvals = current ? await this.approvalsAtStage(ro.id, current, ro.stageEnteredAt) : [];
+
+    return {
+      policy,
+      stages: stages.map((stage) => {
+        const index = applicable.findIndex((s) => s.id === stage.id);
+        let state: StageState;
+        if (index === -1) state = "skipped";
+        else if (decided || (currentIndex !== -1 && index < currentIndex)) state = "done";
+        else if (index === currentIndex) state = "current";
+        else state = "pending";
+        return {
+          stage,
+          state,
+          approvals: stage.id === current?.id ? new Set(approvals.filter((a) => a.decision === "approved").map((a) => a.approverId)).size : 0,
+        };
+      }),
+      currentStage: current,
+      isFirstStage: currentIndex === 0,
+      canApprove: !!current && canAct(actor, current) && !approvals.some((a) => a.approverId === actor.id && a.decision === "approved"),
+      canReject: !!current && currentIndex > 0 && canAct(actor, current),
+    };
+  }
+
+  private async notifyStage(ro: ReleaseOrder, stage: ApprovalStage, clientName: string) {
+    const approvers = await db.select().from(users).where(eq(users.role, stage.approverRole));
+    const approvalUrl = `${process.env.APP_URL || "http://localhost:5173"}/release-orders/${ro.id}`;
+    for (const approver of approvers) {
+      await notificationService.createNotification({
+        userId: approver.id,
+        type: "ro_approved",
+        message: `Release Order #${ro.id} for ${clientName} is ready for your approval (${stage.name}).`,
+      });
+      if (stage.notifyByEmail && approver.email) {
+        await emailService.sendReleaseOrderApprovalEmail(approver.email, approver.name, ro.id, ro.workOrderId, approvalUrl);
+      }
+    }
+  }
+
+  private async notifyAccepted(ro: ReleaseOrder, stages: ApprovalStage[], clientName: string) {
+    const roles = Array.from(new Set([...stages.map((s) => s.approverRole), ...DOWNSTREAM_ROLES]));
+    const recipients = await db.select().from(users).where(inArray(users.role, roles));
+    for (const recipient of recipients) {
+      await notificationService.createNotification({
+        userId: recipient.id,
+        type: "ro_accepted",
+        message: `Release Order #${ro.id} for ${clientName} has been accepted.`,
+      });
+    }
+  }
+
+  // Installments anchored to RO acceptance get their due dates once it is known
+  private async onAccepted(ro: ReleaseOrder, stages: ApprovalStage[], clientName: string) {
+    await this.notifyAccepted(ro, stages, clientName);
+    await installmentPlanService.refreshDueDates(ro.workOrderId);
+  }
+
+  private async clientName(ro: ReleaseOrder) {
+    const wo = await storage.getWorkOrder(ro.workOrderId);
+    const client = wo ? await storage.getUser(wo.clientId) : undefined;
+    return client?.name ?? `WO ${ro.workOrderId}`;
+  }
+
+  // Puts the RO into the first stage of the active policy that applies to its amount
+  async submit(roId: number): Promise<ReleaseOrder> {
+    const ro = await storage.getReleaseOrder(roId);
+    if (!ro) throw new ApprovalError("Release Order not found", 404);
+    const policy = await this.getActivePolicy();
+    if (!policy) throw new ApprovalError("No active release order approval policy is configured", 409);
+
+    const stages = await this.getStages(policy.id);
+    const amount = await this.workOrderAmount(ro);
+    const first = stages.find((s) => this.applies(s, amount));
+    const [updated] = await db
+      .update(releaseOrders)
+      .set({
+        approvalPolicyId: policy.id,
+        currentStageId: first?.id ?? null,
+        stageEnteredAt: new Date(),
+        status: first ? first.releaseOrderStatus : "accepted",
+        acceptedAt: first ? null : new Date(),
+        rejectionReason: null,
+        rejectedById: null,
+        rejectedAt: null,
+      })
+      .where(eq(releaseOrders.id, roId))
+      .returning();
+
+    const clientName = await this.clientName(updated);
+    if (first) await this.notifyStage(updated, first, clientName);
+    else await this.onAccepted(updated, stages, clientName);
+    return updated;
+  }
+
+  /**
+   * Records `actor`'s approval on the stage the RO waits on. Once the stage has its required number
+   * of distinct approvers the RO moves to the next stage that applies, or to accepted after the last.
+   */
+  async approve(roId: number, actor: User, comment?: string) {
+    const result = await db.transaction(async (tx) => {
+      const [ro] = await tx.select().from(releaseOrders).where(eq(releaseOrders.id, roId)).for("update");
+      if (!ro) throw new ApprovalError("Release Order not found", 404);
+      const { policyId, stages, applicable, current } = await this.resolve(ro, tx);
+      if (!current) throw new ApprovalError("Release Order is not awaiting approval at this stage.", 400);
+      if (!canAct(actor, current)) throw new ApprovalError("This Release Order is awaiting approval from another role.", 403);
+
+      const existing = await this.approvalsAtStage(ro.id, current, ro.stageEnteredAt, tx);
+      if (existing.some((a) => a.approverId === actor.id && a.decision === "approved")) {
+        throw new ApprovalError("You have already approved this stage", 409);
+      }
+      await tx.insert(releaseOrderApprovals).values({
+        releaseOrderId: ro.id,
+        stageId: current.id,
+        approverId: actor.id,
+        decision: "approved",
+        comment: comment?.trim() || null,
+      });
+
+      const approvers = new Set([...existing.filter((a) => a.decision === "approved").map((a) => a.approverId), actor.id]);
+      if (approvers.size < current.requiredApprovals) {
+        return { ro, previousStatus: ro.status, from: current, next: current, advanced: false, remaining: current.requiredApprovals - approvers.size, stages };
+      }
+
+      const next = applicable[applicable.findIndex((s) => s.id === current.id) + 1] ?? null;
+      const [updated] = await tx
+        .update(releaseOrders)
+        .set({
+          approvalPolicyId: policyId,
+          currentStageId: next?.id ?? null,
+          stageEnteredAt: new Date(),
+          status: next ? next.releaseOrderStatus : "accepted",
+          acceptedAt: next ? null : new Date(),
+          rejectionReason: null,
+          rejectedById: null,
+          rejectedAt: null,
+        })
+        .where(eq(releaseOrders.id, ro.id))
+        .returning();
+      return { ro: updated, previousStatus: ro.status, from: current, next, advanced: true, remaining: 0, stages };
+    });
+
+    if (result.advanced) {
+      const clientName = await this.clientName(result.ro);
+      if (result.next) await this.notifyStage(result.ro, result.next, clientName);
+      else await this.onAccepted(result.ro, result.stages, clientName);
+    }
+
+    try {
+      await storage.createActivityLog({
+        actorId: actor.id,
+        actorRole: actor.role,
+        action: "release_order_stage_update",
+        entityType: "release_order",
+        entityId: roId,
+        metadata: JSON.stringify({
+          previousStatus: result.previousStatus,
+          nextStatus: result.ro.status,
+          stage: result.from.name,
+          remainingApprovals: result.remaining,
+          comment: comment?.trim() || null,
+        }),
+      });
+    } catch {}
+
+    return {
+      status: result.ro.status,
+      // Stage now awaited (null once accepted)
+      stage: result.next?.name ?? null,
+      advanced: result.advanced,
+      remainingApprovals: result.remaining,
+    };
+  }
+
+  // Sends the RO back to the previous stage that applies; the first stage returns to the client instead
+  async reject(roId: number, actor: User, reason?: string) {
+    const trimmedReason = (reason ?? "").trim();
+    const result = await db.transaction(async (tx) => {
+      const [ro] = await tx.select().from(releaseOrders).where(eq(releaseOrders.id, roId)).for("update");
+      if (!ro) throw new ApprovalError("Release Order not found", 404);
+      const { policyId, applicable, current } = await this.resolve(ro, tx);
+      if (!current) throw new ApprovalError("Release Order is not awaiting review.", 400);
+      const index = applicable.findIndex((s) => s.id === current.id);
+      if (index <= 0) throw new ApprovalError("Release Order is at its first review stage; send it back to the client instead.", 400);
+      if (!canAct(actor, current)) throw new ApprovalError("This Release Order is awaiting review from another role.", 403);
+
+      const previous = applicable[index - 1];
+      await tx.insert(releaseOrderApprovals).values({
+        releaseOrderId: ro.id,
+        stageId: current.id,
+        approverId: actor.id,
+        decision: "rejected",
+        comment: trimmedReason || null,
+      });
+      const now = new Date();
+      const [updated] = await tx
+        .update(releaseOrders)
+        .set({
+          approvalPolicyId: policyId,
+          currentStageId: previous.id,
+          stageEnteredAt: now,
+          status: previous.releaseOrderStatus,
+          rejectionReason: trimmedReason || null,
+          rejectedById: actor.id,
+          rejectedAt: now,
+        })
+        .where(eq(releaseOrders.id, ro.id))
+        .returning();
+      return { ro: updated, previousStatus: ro.status, from: current, to: previous };
+    });
+
+    try {
+      await storage.createActivityLog({
+        actorId: actor.id,
+        actorRole: actor.role,
+        action: "release_order_rejected",
+        entityType: "release_order",
+        entityId: roId,
+        metadata: JSON.stringify({
+          previousStatus: result.previousStatus,
+          stage: result.from.name,
+          returnedTo: result.to.name,
+          reason: trimmedReason || null,
+        }),
+      });
+    } catch {}
+
+    const recipients = await db.select().from(users).where(eq(users.role, result.to.approverRole));
+    for (const recipient of recipients) {
+      await notificationService.createNotification({
+        userId: recipient.id,
+        type: "ro_rejected",
+        message: `Release Order #${roId} was rejected at ${result.from.name} for revisions${trimmedReason ? `: ${trimmedReason}` : ""}.`,
+      });
+    }
+
+    return { status: result.ro.status, returnedTo: result.to };
+  }
+}
+
+export const releaseOrderApprovalService = new ReleaseOrderApprovalService();
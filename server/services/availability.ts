@@ -0,0 +1,244 @@
+import { db } from "../db";
+import { slots, slotBlocks, slotHolds, bookings, workOrders, workOrderItems, type Slot } from "@shared/schema";
+import { and, eq, gt, lte, gte, ne, inArray, notInArray } from "drizzle-orm";
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | DbTransaction;
+
+// Ordered by precedence: when several overlap the same day, the first one wins
+export const OCCUPANCY_KINDS = ["manager_block", "work_order", "booking", "hold"] as const;
+export type OccupancyKind = (typeof OCCUPANCY_KINDS)[number];
+
+export interface Occupancy {
+  slotId: number;
+  kind: OccupancyKind;
+  startDate: string;
+  endDate: string;
+  workOrderId?: number | null;
+  bookingId?: number;
+  blockId?: number;
+  userId?: number | null;
+  reason?: string | null;
+}
+
+export interface OccupancyOptions {
+  // Only look at these kinds (defaults to all)
+  kinds?: OccupancyKind[];
+  // Holds owned by these users do not count (the viewer's own holds)
+  ignoreHoldsOf?: number[];
+  // Ignore items belonging to this work order (when re-validating it)
+  excludeWorkOrderId?: number;
+  executor?: Executor;
+}
+
+export interface SlotFilters {
+  pageType?: string;
+  mediaType?: string;
+  slotIds?: number[];
+}
+
+export type DayState = "available" | "blocked" | "booked" | "held";
+
+export interface SlotCalendar {
+  slotId: number;
+  days: Array<{ date: string; state: DayState; kind: OccupancyKind | null; workOrderId?: number | null }>;
+}
+
+// Legacy booking statuses that still occupy a slot
+const BLOCKING_BOOKING_STATUSES = [
+  "pending_manager",
+  "pending_vp",
+  "pending_pv",
+  "pending_payment",
+  "pending_deployment",
+  "approved",
+  "active",
+  "paused",
+] as const;
+
+const MAX_CALENDAR_DAYS = 366;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const dayState: Record<OccupancyKind, DayState> = {
+  manager_block: "blocked",
+  work_order: "booked",
+  booking: "booked",
+  hold: "held",
+};
+
+export function isIsoDate(value: unknown): value is string {
+  return typeof value === "string" && DATE_PATTERN.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+}
+
+function eachDay(startDate: string, endDate: string): string[] {
+  const days: string[] = [];
+  const cursor = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+  while (cursor <= end && days.length < MAX_CALENDAR_DAYS) {
+    days.push(cursor.toISOString().split("T")[0]);
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return days;
+}
+
+const covers = (o: Occupancy, day: string) => o.startDate <= day && o.endDate >= day;
+
+class SlotAvailabilityService {
+  /**
+   * Everything that occupies the given slots anywhere inside [startDate, endDate]:
+   * active slot blocks, non-rejected work order items, legacy bookings and live holds.
+   * All overlap checks run in SQL; pass `executor` to read inside a transaction.
+   */
+  async getOccupancies(slotIds: number[] | null, startDate: string, endDate: string, options: OccupancyOptions = {}): Promise<Occupancy[]> {
+    const executor = options.executor ?? db;
+    const kinds = new Set(options.kinds ?? OCCUPANCY_KINDS);
+    if (slotIds && slotIds.length === 0) return [];
+    const out: Occupancy[] = [];
+
+    if (kinds.has("manager_block")) {
+      const blocked = await executor
+        .select({
+          slotId: slotBlocks.slotId,
+          blockId: slotBlocks.id,
+          startDate: slotBlocks.startDate,
+          endDate: slotBlocks.endDate,
+          userId: slotBlocks.createdById,
+          reason: slotBlocks.reason,
+        })
+        .from(slotBlocks)
+        .where(
+          and(
+            slotIds ? inArray(slotBlocks.slotId, slotIds) : undefined,
+            eq(slotBlocks.status, "active"),
+            lte(slotBlocks.startDate, endDate),
+            gte(slotBlocks.endDate, startDate)
+          )
+        );
+      out.push(...blocked.map((b) => ({ ...b, kind: "manager_block" as const })));
+    }
+
+    if (kinds.has("work_order")) {
+      const items = await executor
+        .select({
+          slotId: workOrderItems.slotId,
+          workOrderId: workOrderItems.workOrderId,
+          startDate: workOrderItems.startDate,
+          endDate: workOrderItems.endDate,
+        })
+        .from(workOrderItems)
+        .innerJoin(workOrders, eq(workOrderItems.workOrderId, workOrders.id))
+        .where(
+          and(
+            slotIds ? inArray(workOrderItems.slotId, slotIds) : undefined,
+            lte(workOrderItems.startDate, endDate),
+            gte(workOrderItems.endDate, startDate),
+            ne(workOrders.status, "rejected"),
+            options.excludeWorkOrderId ? ne(workOrders.id, options.excludeWorkOrderId) : undefined
+          )
+        );
+      for (const it of items) {
+        if (it.slotId == null) continue; // add-on lines have no slot
+        out.push({ ...it, slotId: it.slotId, kind: "work_order" });
+      }
+    }
+
+    if (kinds.has("booking")) {
+      const booked = await executor
+        .select({ slotId: bookings.slotId, bookingId: bookings.id, workOrderId: bookings.workOrderId, startDate: bookings.startDate, endDate: bookings.endDate, userId: bookings.clientId })
+        .from(bookings)
+        .where(
+          and(
+            slotIds ? inArray(bookings.slotId, slotIds) : undefined,
+            lte(bookings.startDate, endDate),
+            gte(bookings.endDate, startDate),
+            inArray(bookings.status, [...BLOCKING_BOOKING_STATUSES])
+          )
+        );
+      out.push(...booked.map((b) => ({ ...b, kind: "booking" as const })));
+    }
+
+    if (kinds.has("hold")) {
+      const ignore = options.ignoreHoldsOf ?? [];
+      const holds = await executor
+        .select({ slotId: slotHolds.slotId, startDate: slotHolds.startDate, endDate: slotHolds.endDate, userId: slotHolds.userId })
+        .from(slotHolds)
+        .where(
+          and(
+            slotIds ? inArray(slotHolds.slotId, slotIds) : undefined,
+            eq(slotHolds.status, "active"),
+            gt(slotHolds.expiresAt, new Date()),
+            lte(slotHolds.startDate, endDate),
+            gte(slotHolds.endDate, startDate),
+            ignore.length > 0 ? notInArray(slotHolds.userId, ignore) : undefined
+          )
+        );
+      out.push(...holds.map((h) => ({ ...h, kind: "hold" as const })));
+    }
+
+    return out;
+  }
+
+  async getSlots(filters: SlotFilters = {}): Promise<Slot[]> {
+    return await db
+      .select()
+      .from(slots)
+      .where(
+        and(
+          filters.mediaType ? eq(slots.mediaType, filters.mediaType as Slot["mediaType"]) : undefined,
+          filters.pageType && filters.pageType !== "all" ? eq(slots.pageType, filters.pageType as Slot["pageType"]) : undefined,
+          filters.slotIds ? inArray(slots.id, filters.slotIds) : undefined
+        )
+      )
+      .orderBy(slots.id);
+  }
+
+  // Slots with their effective status for the range; the first (highest-precedence) occupancy decides
+  async getAvailability(startDate: string, endDate: string, filters: SlotFilters = {}, viewerId?: number) {
+    const slotList = await this.getSlots(filters);
+    const occupancies = await this.getOccupancies(
+      slotList.map((s) => s.id),
+      startDate,
+      endDate,
+      { ignoreHoldsOf: viewerId ? [viewerId] : [] }
+    );
+
+    return slotList.map((slot) => {
+      const mine = occupancies.filter((o) => o.slotId === slot.id);
+      const blocking = OCCUPANCY_KINDS.map((kind) => mine.find((o) => o.kind === kind)).find(Boolean);
+      return {
+        ...slot,
+        status: !blocking ? "available" : blocking.kind === "hold" ? "pending" : "booked",
+        available: !blocking,
+        blockType: blocking?.kind ?? null,
+        blockingWorkOrderId: blocking?.workOrderId ?? null,
+        blockReason: blocking?.kind === "manager_block" ? blocking.reason ?? null : null,
+      };
+    });
+  }
+
+  // Per-day occupancy for each slot across [startDate, endDate] (capped at MAX_CALENDAR_DAYS)
+  async getCalendar(slotIds: number[], startDate: string, endDate: string, viewerId?: number): Promise<SlotCalendar[]> {
+    const occupancies = await this.getOccupancies(slotIds, startDate, endDate, {
+      ignoreHoldsOf: viewerId ? [viewerId] : [],
+    });
+    const days = eachDay(startDate, endDate);
+
+    return slotIds.map((slotId) => {
+      const mine = occupancies.filter((o) => o.slotId === slotId);
+      return {
+        slotId,
+        days: days.map((date) => {
+          const hit = OCCUPANCY_KINDS.map((kind) => mine.find((o) => o.kind === kind && covers(o, date))).find(Boolean);
+          return {
+            date,
+            state: hit ? dayState[hit.kind] : "available",
+            kind: hit?.kind ?? null,
+            workOrderId: hit?.workOrderId ?? null,
+          };
+        }),
+      };
+    });
+  }
+}
+
+export const slotAvailabilityService = new SlotAvailabilityService();
@@ -0,0 +1,423 @@
+import { createHash } from "crypto";
+import { db } from "../db";
+import {
+  bankStatementImports,
+  bankStatementLines,
+  type BankStatementImport,
+  type BankStatementLine,
+  type Invoice,
+  type Receipt,
+  type User,
+} from "@shared/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { storage } from "../storage";
+import { receiptService } from "./receipts";
+
+export interface ParsedCredit {
+  valueDate: string; // YYYY-MM-DD
+  amount: number;
+  narration: string;
+  reference: string | null;
+}
+
+export interface MatchSuggestion {
+  invoiceId: number;
+  invoiceNumber: string | null;
+  workOrderId: number | null;
+  clientName: string | null;
+  due: number;
+  score: number;
+  reasons: string[];
+  tdsAmount: number; // TDS to record so the line settles the invoice, 0 when the amount matches as is
+}
+
+export class BankStatementError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "BankStatementError";
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+// TDS on advertising contracts (section 194C) is 2% of the value before GST
+const CONTRACT_TDS_RATE = 0.02;
+// Suggestions scoring below this are noise
+const MIN_SCORE = 25;
+
+// Statement dates are day-first: 05/04/2025, 05-04-25, 05-Apr-2025, 5 Apr 2025; ISO dates are accepted too
+export function parseStatementDate(raw: string): string | null {
+  const value = raw.trim();
+  let match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  match = value.match(/^(\d{1,2})[\/\-. ]([A-Za-z]{3})[A-Za-z]*[\/\-. ](\d{2,4})$/);
+  if (match) {
+    const month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+    if (month === 0) return null;
+    return isoDate(match[3], month, Number(match[1]));
+  }
+  match = value.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2,4})$/);
+  if (match) return isoDate(match[3], Number(match[2]), Number(match[1]));
+  return null;
+}
+
+function isoDate(year: string, month: number, day: number) {
+  const fullYear = year.length === 2 ? 2000 + Number(year) : Number(year);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${fullYear}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function parseAmount(raw: string | undefined): number {
+  if (!raw) return 0;
+  const cleaned = raw.replace(/[₹,\s]|INR/gi, "");
+  const negative = /^\(.*\)$/.test(cleaned) || cleaned.startsWith("-");
+  const value = Number(cleaned.replace(/[()\-]/g, ""));
+  return Number.isFinite(value) ? (negative ? -value : value) : 0;
+}
+
+// UTR or transfer id that banks put after the rail name, e.g. NEFT/N123250012345678/ACME or UPI-512345678901-...
+export function referenceFromNarration(narration: string): string | null {
+  const match = narration.match(/\b(?:NEFT|RTGS|IMPS|UPI)[\/\-: ]+(?:CR[\/\-: ]+)?([A-Z0-9]{10,22})\b/i);
+  return match ? match[1].toUpperCase() : null;
+}
+
+export function receiptModeFromNarration(narration: string): Receipt["mode"] {
+  const upper = narration.toUpperCase();
+  if (/\bUPI\b/.test(upper)) return "upi";
+  if (/\bRTGS\b/.test(upper)) return "rtgs";
+  if (/\bIMPS\b/.test(upper)) return "imps";
+  if (/\bNEFT\b/.test(upper)) return "neft";
+  if (/\b(CHQ|CHEQUE|CLG|CLEARING)\b/.test(upper)) return "cheque";
+  return "other";
+}
+
+function splitCsvRow(row: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < row.length; i++) {
+    const ch = row[i];
+    if (ch === '"') {
+      if (quoted && row[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (ch === delimiter && !quoted) {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Parses the credit lines of a CSV statement export. Banks put a preamble above the table, so the
+ * header is the first row naming a date column and a credit/deposit or amount column. Both the
+ * separate Debit/Credit layout and the Amount + Cr/Dr layout are understood.
+ */
+export function parseCsvStatement(text: string): ParsedCredit[] {
+  const rows = text.split(/\r?\n/).filter((row) => row.trim().length > 0);
+  const delimiter = rows.some((row) => row.includes(",")) ? "," : rows.some((row) => row.includes(";")) ? ";" : "\t";
+
+  let headerIndex = -1;
+  let header: string[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    const cells = splitCsvRow(rows[i], delimiter).map((cell) => cell.toLowerCase());
+    if (cells.some((cell) => cell.includes("date")) && cells.some((cell) => /credit|deposit|amount/.test(cell))) {
+      headerIndex = i;
+      header = cells;
+      break;
+    }
+  }
+  if (headerIndex < 0) throw new BankStatementError("Could not find the header row (a date column and a credit or amount column)", 400);
+
+  const find = (pattern: RegExp, exclude?: RegExp) => header.findIndex((cell) => pattern.test(cell) && !(exclude && exclude.test(cell)));
+  const valueDateCol = find(/value\s*d(ate|t)/);
+  const dateCol = valueDateCol >= 0 ? valueDateCol : find(/date/);
+  const narrationCol = find(/narration|description|particulars|remarks|details/);
+  const referenceCol = find(/ref|utr|ch(e)?q/);
+  const creditCol = find(/credit|deposit/, /debit|cr\s*\/\s*dr|dr\s*\/\s*cr/);
+  const amountCol = find(/amount/);
+  const typeCol = find(/cr\s*\/\s*dr|dr\s*\/\s*cr|^type$|txn\s*type/);
+  if (creditCol < 0 && (amountCol < 0 || typeCol < 0)) {
+    throw new BankStatementError("The statement needs a Credit/Deposit column, or Amount with a Cr/Dr column", 400);
+  }
+
+  const credits: ParsedCredit[] = [];
+  for (const row of rows.slice(headerIndex + 1)) {
+    const cells = splitCsvRow(row, delimiter);
+    const valueDate = parseStatementDate(cells[dateCol] ?? "");
+    if (!valueDate) continue; // totals, page breaks, closing balance rows
+    const amount =
+      creditCol >= 0
+        ? parseAmount(cells[creditCol])
+        : /^c/i.test(cells[typeCol] ?? "")
+          ? parseAmount(cells[amountCol])
+          : 0;
+    if (amount <= 0) continue;
+    const narration = narrationCol >= 0 ? cells[narrationCol] ?? "" : "";
+    const reference = (referenceCol >= 0 && cells[referenceCol]?.replace(/^0+$/, "")) || referenceFromNarration(narration);
+    credits.push({ valueDate, amount: round2(amount), narration, reference: reference || null });
+  }
+  return credits;
+}
+
+/**
+ * Parses the credit entries of an MT940 statement: each :61: statement line (value date, C/D mark,
+ * amount with a decimal comma, references) with the :86: narrative that follows it. Reversals of
+ * debits (RD) are money coming in and count as credits.
+ */
+export function parseMt940Statement(text: string): ParsedCredit[] {
+  const credits: ParsedCredit[] = [];
+  const lines = text.split(/\r?\n/);
+  let pending: (ParsedCredit & { isCredit: boolean }) | null = null;
+  let inNarrative = false;
+
+  const flush = () => {
+    if (pending?.isCredit) {
+      const { isCredit: _isCredit, ...credit } = pending;
+      credits.push({ ...credit, narration: credit.narration.trim(), reference: credit.reference ?? referenceFromNarration(credit.narration) });
+    }
+    pending = null;
+  };
+
+  for (const line of lines) {
+    const statementLine = line.match(/^:61:(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)[A-Z]?([\d,]+)[A-Z]\w{3}([^\/]*)(?:\/\/(.*))?$/);
+    if (statementLine) {
+      flush();
+      const [, yy, mm, dd, , mark, amount, ownerRef, bankRef] = statementLine;
+      const ref = [ownerRef, bankRef].map((r) => r?.trim()).find((r) => r && r !== "NONREF");
+      pending = {
+        valueDate: `20${yy}-${mm}-${dd}`,
+        amount: round2(Number(amount.replace(",", "."))),
+        narration: "",
+        reference: ref ?? null,
+        isCredit: mark === "C" || mark === "RD",
+      };
+      inNarrative = false;
+    } else if (line.startsWith(":86:")) {
+      if (pending) pending.narration = line.slice(4);
+      inNarrative = true;
+    } else if (/^:\d{2}[A-Z]?:/.test(line) || line.startsWith("-}")) {
+      inNarrative = false;
+      flush();
+    } else if (inNarrative && pending) {
+      pending.narration += ` ${line.trim()}`;
+    }
+  }
+  flush();
+  return credits;
+}
+
+const creditKey = (credit: ParsedCredit) =>
+  [credit.valueDate, credit.amount.toFixed(2), credit.reference ?? "", credit.narration.replace(/\s+/g, " ").toUpperCase()].join("|");
+
+/**
+ * Fingerprints for a statement's credits. Genuinely identical credits (same day, amount, reference and
+ * narration) are numbered by occurrence, so both are kept, while an overlapping statement repeating
+ * them still maps onto the same fingerprints and is skipped.
+ */
+function fingerprintsOf(credits: ParsedCredit[]) {
+  const seen = new Map<string, number>();
+  return credits.map((credit) => {
+    const key = creditKey(credit);
+    const occurrence = seen.get(key) ?? 0;
+    seen.set(key, occurrence + 1);
+    return createHash("sha256").update(`${key}|${occurrence}`).digest("hex");
+  });
+}
+
+const normalize = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]+/g, " ");
+
+class BankStatementService {
+  /**
+   * Stores the credit lines of an uploaded statement. Lines already imported from an earlier,
+   * overlapping statement are skipped and counted as duplicates.
+   */
+  async import(fileName: string, content: string, actor: User): Promise<BankStatementImport> {
+    const format = /^:20:/m.test(content) && /^:61:/m.test(content) ? "mt940" : "csv";
+    const credits = format === "mt940" ? parseMt940Statement(content) : parseCsvStatement(content);
+    if (credits.length === 0) throw new BankStatementError("No credit entries found in the statement", 400);
+
+    const fingerprints = fingerprintsOf(credits);
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(bankStatementImports).values({ fileName, format, importedById: actor.id }).returning();
+      const inserted = await tx
+        .insert(bankStatementLines)
+        .values(
+          credits.map((credit, index) => ({
+            importId: created.id,
+            valueDate: credit.valueDate,
+            amount: credit.amount.toFixed(2),
+            narration: credit.narration,
+            reference: credit.reference,
+            fingerprint: fingerprints[index],
+          }))
+        )
+        .onConflictDoNothing({ target: bankStatementLines.fingerprint })
+        .returning({ id: bankStatementLines.id });
+      const [updated] = await tx
+        .update(bankStatementImports)
+        .set({ creditCount: inserted.length, duplicateCount: credits.length - inserted.length })
+        .where(eq(bankStatementImports.id, created.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async listImports(): Promise<BankStatementImport[]> {
+    return await db.select().from(bankStatementImports).orderBy(desc(bankStatementImports.createdAt));
+  }
+
+  // Scores each open invoice against the line by amount, GSTIN, invoice/work order reference and client name
+  private score(line: BankStatementLine, invoice: Invoice & { due: number }, client?: { name: string; businessSchoolName: string | null; gstNumber: string | null }) {
+    const narration = normalize(`${line.narration} ${line.reference ?? ""}`);
+    const amount = Number(line.amount);
+    const reasons: string[] = [];
+    let score = 0;
+    let tdsAmount = 0;
+
+    const expectedTds = round2(Number(invoice.taxableAmount ?? invoice.amount) * CONTRACT_TDS_RATE * (invoice.due / Number(invoice.amount)));
+    if (Math.abs(amount - invoice.due) < 0.5) {
+      score += 50;
+      reasons.push("amount matches the balance due");
+    } else if (expectedTds > 0 && Math.abs(amount + expectedTds - invoice.due) < 1) {
+      score += 35;
+      tdsAmount = round2(invoice.due - amount);
+      reasons.push("amount matches the balance less 2% TDS");
+    }
+
+    const gstin = (invoice.recipientGstin ?? client?.gstNumber ?? "").toUpperCase();
+    if (gstin && narration.replace(/ /g, "").includes(gstin)) {
+      score += 40;
+      reasons.push("GSTIN in narration");
+    }
+
+    const compact = narration.replace(/ /g, "");
+    if (invoice.invoiceNumber && compact.includes(normalize(invoice.invoiceNumber).replace(/ /g, ""))) {
+      score += 40;
+      reasons.push("invoice number in narration");
+    } else if (invoice.workOrderId && new RegExp(`\\bWO ?${invoice.workOrderId}\\b`).test(narration)) {
+      score += 30;
+      reasons.push("work order number in narration");
+    }
+
+    const name = client?.businessSchoolName || client?.name;
+    if (name) {
+      const tokens = normalize(name).split(" ").filter((token) => token.length >= 4);
+      const hits = tokens.filter((token) => narration.includes(token)).length;
+      if (tokens.length > 0 && hits * 2 >= tokens.length) {
+        score += 25;
+        reasons.push("client name in narration");
+      }
+    }
+    return { score, reasons, tdsAmount };
+  }
+
+  async suggestMatches(lines: BankStatementLine[]): Promise<Map<number, MatchSuggestion[]>> {
+    const open = await receiptService.openInvoices();
+    const clients = new Map<number, { name: string; businessSchoolName: string | null; gstNumber: string | null; woClientId: number }>();
+    for (const invoice of open) {
+      if (!invoice.workOrderId || clients.has(invoice.workOrderId)) continue;
+      const wo = await storage.getWorkOrder(invoice.workOrderId);
+      const client = wo ? await storage.getUser(wo.clientId) : undefined;
+      if (wo && client) {
+        clients.set(invoice.workOrderId, {
+          name: client.name,
+          businessSchoolName: wo.businessSchoolName || client.businessSchoolName,
+          gstNumber: client.gstNumber,
+          woClientId: wo.clientId,
+        });
+      }
+    }
+
+    const result = new Map<number, MatchSuggestion[]>();
+    for (const line of lines) {
+      const suggestions = open
+        .map((invoice) => {
+          const client = invoice.workOrderId ? clients.get(invoice.workOrderId) : undefined;
+          const { score, reasons, tdsAmount } = this.score(line, invoice, client);
+          return {
+            invoiceId: invoice.id,
+            invoiceNumber: invoice.invoiceNumber,
+            workOrderId: invoice.workOrderId,
+            clientName: client?.businessSchoolName || client?.name || null,
+            due: invoice.due,
+            score,
+            reasons,
+            tdsAmount,
+          };
+        })
+        .filter((suggestion) => suggestion.score >= MIN_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 3);
+      result.set(line.id, suggestions);
+    }
+    return result;
+  }
+
+  async listLines(status: BankStatementLine["status"] = "unmatched") {
+    const lines = await db
+      .select()
+      .from(bankStatementLines)
+      .where(eq(bankStatementLines.status, status))
+      .orderBy(desc(bankStatementLines.valueDate), desc(bankStatementLines.id));
+    const suggestions = status === "unmatched" ? await this.suggestMatches(lines) : new Map<number, MatchSuggestion[]>();
+    return lines.map((line) => ({ ...line, suggestions: suggestions.get(line.id) ?? [] }));
+  }
+
+  // Claims the line so two accountants cannot both book it, then records the receipt
+  async confirm(lineId: number, invoiceId: number, actor: User, tdsAmount?: number) {
+    const [line] = await db
+      .update(bankStatementLines)
+      .set({ status: "matched", resolvedById: actor.id, resolvedAt: new Date() })
+      .where(and(eq(bankStatementLines.id, lineId), eq(bankStatementLines.status, "unmatched")))
+      .returning();
+    if (!line) throw new BankStatementError("This statement line is not open for matching", 409);
+
+    try {
+      const mode = receiptModeFromNarration(line.narration);
+      const { receipt, invoice } = await receiptService.record(invoiceId, actor, {
+        amount: Number(line.amount),
+        tdsAmount,
+        // Suggestions only propose TDS at the 194C contract rate
+        tdsSection: tdsAmount ? "194C" : undefined,
+        // Rails that need a reference fall back to "other" when the bank did not give one
+        mode: line.reference ? mode : "other",
+        reference: line.reference,
+        receivedOn: line.valueDate,
+        note: `Bank statement line #${line.id}`,
+      });
+      const [matched] = await db
+        .update(bankStatementLines)
+        .set({ receiptId: receipt.id })
+        .where(eq(bankStatementLines.id, line.id))
+        .returning();
+      return { line: matched, receipt, invoice };
+    } catch (error) {
+      await db
+        .update(bankStatementLines)
+        .set({ status: "unmatched", resolvedById: null, resolvedAt: null })
+        .where(eq(bankStatementLines.id, line.id));
+      throw error;
+    }
+  }
+
+  // Credits that are not client payments (interest, refunds, transfers between own accounts)
+  async ignore(lineId: number, actor: User) {
+    const [line] = await db
+      .update(bankStatementLines)
+      .set({ status: "ignored", resolvedById: actor.id, resolvedAt: new Date() })
+      .where(and(eq(bankStatementLines.id, lineId), eq(bankStatementLines.status, "unmatched")))
+      .returning();
+    if (!line) throw new BankStatementError("This statement line is not open for matching", 409);
+    return line;
+  }
+}
+
+export const bankStatementService = new BankStatementService();
@@ -0,0 +1,236 @@
+import { db } from "../db";
+import { invoices, type Invoice, type User } from "@shared/schema";
+import { and, eq } from "drizzle-orm";
+import { storage } from "../storage";
+import { notificationService } from "./notification";
+import { numberingService } from "./numbering";
+import { computeGstFromGross, invoiceTaxFields } from "./gst";
+import { taxInvoiceService, type TaxInvoiceLine } from "./tax-invoice";
+import { receiptService } from "./receipts";
+import type { DbTransaction } from "./availability";
+
+export class CreditNoteError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "CreditNoteError";
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Invoices that can still be cancelled: nothing has been received against them
+const CANCELLABLE_STATUSES: Invoice["status"][] = ["pending", "failed"];
+
+class CreditNoteService {
+  async listFor(invoiceId: number): Promise<Invoice[]> {
+    return await db
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.creditedInvoiceId, invoiceId), eq(invoices.invoiceType, "credit_note")))
+      .orderBy(invoices.id);
+  }
+
+  private async creditedAmount(tx: DbTransaction, invoiceId: number) {
+    const notes = await tx
+      .select({ amount: invoices.amount })
+      .from(invoices)
+      .where(and(eq(invoices.creditedInvoiceId, invoiceId), eq(invoices.invoiceType, "credit_note")));
+    return round2(notes.reduce((sum, note) => sum + Number(note.amount), 0));
+  }
+
+  // Reverses the original lines pro rata, keeping each line's SAC
+  private async creditLines(original: Invoice, taxableAmount: number): Promise<TaxInvoiceLine[]> {
+    const frozen = taxInvoiceService.parseLines(original);
+    if (!frozen || frozen.length === 0) {
+      const items = original.workOrderId ? await storage.getWorkOrderItems(original.workOrderId) : [];
+      return await taxInvoiceService.buildLines(items, taxableAmount);
+    }
+    const originalTaxable = frozen.reduce((sum, line) => sum + line.taxableAmount, 0);
+    let allocated = 0;
+    return frozen.map((line, index) => {
+      const share =
+        index === frozen.length - 1
+          ? round2(taxableAmount - allocated)
+          : round2(originalTaxable > 0 ? (taxableAmount * line.taxableAmount) / originalTaxable : 0);
+      allocated = round2(allocated + share);
+      return { ...line, taxableAmount: share };
+    });
+  }
+
+  private async insertCreditNote(
+    tx: DbTransaction,
+    original: Invoice,
+    grossAmount: number,
+    reason: string,
+    reissued: boolean,
+    actor: User
+  ): Promise<Invoice> {
+    const alreadyCredited = await this.creditedAmount(tx, original.id);
+    const remaining = round2(Number(original.amount) - alreadyCredited);
+    if (grossAmount > remaining + 0.005) {
+      throw new CreditNoteError(`At most ${remaining.toFixed(2)} can still be credited against this invoice`, 400);
+    }
+
+    // A credit of the whole invoice mirrors its stored breakup exactly; part credits are split at its rate
+    let taxFields;
+    if (alreadyCredited === 0 && Math.abs(grossAmount - Number(original.amount)) < 0.005 && original.supplyType) {
+      taxFields = {
+        taxableAmount: original.taxableAmount,
+        gstPercent: original.gstPercent,
+        supplyType: original.supplyType,
+        placeOfSupply: original.placeOfSupply,
+        recipientGstin: original.recipientGstin,
+        cgstAmount: original.cgstAmount,
+        sgstAmount: original.sgstAmount,
+        igstAmount: original.igstAmount,
+      };
+    } else if (original.supplyType) {
+      const breakup = computeGstFromGross(grossAmount, Number(original.gstPercent ?? 0), original.recipientGstin);
+      taxFields = {
+        taxableAmount: breakup.taxableAmount.toFixed(2),
+        gstPercent: breakup.gstPercent.toFixed(2),
+        supplyType: breakup.supplyType,
+        placeOfSupply: breakup.placeOfSupply,
+        recipientGstin: breakup.recipientGstin,
+        cgstAmount: breakup.cgstAmount.toFixed(2),
+        sgstAmount: breakup.sgstAmount.toFixed(2),
+        igstAmount: breakup.igstAmount.toFixed(2),
+      };
+    } else {
+      const wo = original.workOrderId ? await storage.getWorkOrder(original.workOrderId) : undefined;
+      if (!wo) throw new CreditNoteError("The invoice is not linked to a work order", 400);
+      taxFields = invoiceTaxFields(wo, await storage.getUser(wo.clientId), grossAmount);
+    }
+    const lines = await this.creditLines(original, Number(taxFields.taxableAmount));
+
+    const invoiceNumber = await numberingService.next(tx, "credit_note");
+    const [creditNote] = await tx
+      .insert(invoices)
+      .values({
+        ...taxFields,
+        workOrderId: original.workOrderId,
+        amount: grossAmount.toFixed(2),
+        status: "completed",
+        invoiceType: "credit_note",
+        invoiceNumber,
+        generatedById: actor.id,
+        creditedInvoiceId: original.id,
+        reissued,
+        reason,
+        lineItems: JSON.stringify(lines),
+      })
+      .returning();
+    return creditNote;
+  }
+
+  private async afterIssue(creditNote: Invoice, original: Invoice, actor: User, action: string) {
+    await storage.createActivityLog({
+      actorId: actor.id,
+      actorRole: actor.role,
+      action,
+      entityType: "invoice",
+      entityId: original.id,
+      metadata: JSON.stringify({
+        invoiceNumber: original.invoiceNumber,
+        creditNoteId: creditNote.id,
+        creditNoteNumber: creditNote.invoiceNumber,
+        amount: creditNote.amount,
+        reason: creditNote.reason,
+      }),
+    });
+    const wo = original.workOrderId ? await storage.getWorkOrder(original.workOrderId) : undefined;
+    if (wo) {
+      await notificationService.createNotification({
+        userId: wo.clientId,
+        type: "credit_note_issued",
+        message: `Credit note ${creditNote.invoiceNumber} for ${creditNote.amount} has been issued against invoice ${original.invoiceNumber ?? `#${original.id}`}.`,
+      });
+    }
+  }
+
+  /**
+   * Issues a credit note for `amount` (GST inclusive, defaults to whatever is not yet credited)
+   * against a tax invoice. Numbered from the credit note series in the same transaction.
+   */
+  async issue(invoiceId: number, actor: User, input: { amount?: number; reason: string }): Promise<Invoice> {
+    const reason = (input.reason ?? "").trim();
+    if (!reason) throw new CreditNoteError("A reason is required", 400);
+    if (input.amount !== undefined && (!Number.isFinite(input.amount) || input.amount <= 0)) {
+      throw new CreditNoteError("Amount must be more than zero", 400);
+    }
+
+    const { creditNote, original } = await db.transaction(async (tx) => {
+      // Lock the invoice so two credit notes cannot both take the remaining amount
+      const [original] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for("update");
+      if (!original) throw new CreditNoteError("Invoice not found", 404);
+      if (original.invoiceType !== "tax_invoice") throw new CreditNoteError("Credit notes can only be issued against tax invoices", 400);
+      if (original.status === "cancelled") throw new CreditNoteError("This invoice is already cancelled", 409);
+      const amount = input.amount ?? round2(Number(original.amount) - (await this.creditedAmount(tx, original.id)));
+      if (amount <= 0) throw new CreditNoteError("This invoice has already been fully credited", 409);
+      return { creditNote: await this.insertCreditNote(tx, original, amount, reason, false, actor), original };
+    });
+
+    await this.afterIssue(creditNote, original, actor, "credit_note_issued");
+    // A credit can leave nothing owed on the work order
+    if (original.workOrderId) await receiptService.syncWorkOrder(original.workOrderId, actor, original.id);
+    return creditNote;
+  }
+
+  /**
+   * Cancels an unpaid invoice. The row is kept with status cancelled; a tax invoice also gets a
+   * credit note for whatever is not yet credited, which reverses its GST. Set `reissued` when a
+   * replacement invoice bills the same amount again, so balances keep counting it as owed.
+   *
+   * Pass `tx` to cancel as part of a caller's transaction; the activity log and client notification
+   * are then left to the caller, who runs `afterCancel` once it has committed.
+   */
+  async cancel(invoiceId: number, actor: User, reason: string, options: { reissued?: boolean; tx?: DbTransaction } = {}) {
+    const trimmed = (reason ?? "").trim();
+    if (!trimmed) throw new CreditNoteError("A reason is required", 400);
+
+    const run = async (tx: DbTransaction) => {
+      const [original] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for("update");
+      if (!original) throw new CreditNoteError("Invoice not found", 404);
+      if (original.invoiceType === "credit_note") throw new CreditNoteError("Credit notes cannot be cancelled", 400);
+      if (!CANCELLABLE_STATUSES.includes(original.status)) {
+        throw new CreditNoteError(`A ${original.status} invoice cannot be cancelled; issue a credit note instead`, 409);
+      }
+
+      let creditNote: Invoice | null = null;
+      if (original.invoiceType === "tax_invoice") {
+        const remaining = round2(Number(original.amount) - (await this.creditedAmount(tx, original.id)));
+        if (remaining > 0) {
+          creditNote = await this.insertCreditNote(tx, original, remaining, trimmed, !!options.reissued, actor);
+        }
+      }
+      const [cancelled] = await tx
+        .update(invoices)
+        .set({ status: "cancelled", cancelledAt: new Date(), reason: trimmed })
+        .where(eq(invoices.id, original.id))
+        .returning();
+      return { invoice: cancelled, creditNote, reason: trimmed };
+    };
+
+    if (options.tx) return await run(options.tx);
+    const result = await db.transaction(run);
+    await this.afterCancel(result, actor);
+    return result;
+  }
+
+  async afterCancel({ invoice: cancelled, creditNote, reason: trimmed }: { invoice: Invoice; creditNote: Invoice | null; reason: string }, actor: User) {
+    if (creditNote) {
+      await this.afterIssue(creditNote, cancelled, actor, "invoice_cancelled");
+    } else {
+      await storage.createActivityLog({
+        actorId: actor.id,
+        actorRole: actor.role,
+        action: "invoice_cancelled",
+        entityType: "invoice",
+        entityId: cancelled.id,
+        metadata: JSON.stringify({ invoiceNumber: cancelled.invoiceNumber, reason: trimmed }),
+      });
+    }
+  }
+}
+
+export const creditNoteService = new CreditNoteService();
@@ -2,6 +2,11 @@ import { db } from "../db";
 import { bookings, banners } from "@shared/schema";
 import { eq, and, lte, gte } from "drizzle-orm";
 import { notificationService } from "./notification";
+import { slotReservationService } from "./reservation";
+import { installmentPlanService } from "./installment-plans";
+import { dunningService } from "./dunning";
+import { paymentHoldService } from "./payment-holds";
+import { deploymentService } from "./deployments";
 
 class CronService {
   private intervals: NodeJS.Timeout[] = [];
@@ -18,6 +23,18 @@ class CronService {
     
     // Send payment reminders every day at 10 AM
     this.schedulePaymentReminders();
+
+    // Release abandoned slot holds every minute
+    this.scheduleSlotHoldExpiry();
+
+    // Remind clients of installments on the days their plan asks for
+    this.scheduleInstallmentReminders();
+
+    // Escalate overdue invoices through the dunning steps every day
+    this.scheduleDunning();
+
+    // Flag live campaigns of work orders in severe payment default
+    this.schedulePaymentDefaultScan();
   }
 
   // Stop all cron jobs
@@ -44,18 +61,22 @@ class CronService {
     this.checkExpiringCampaigns();
   }
 
-  // Check for expired campaigns
+  // Check for expired campaigns and deployments
   private scheduleExpiredCampaignsCheck() {
     // Run every hour
     const interval = setInterval(async () => {
       try {
         await this.checkExpiredCampaigns();
+        await this.expireDeployments();
       } catch (error) {
         console.error("Error in expired campaigns check:", error);
       }
     }, 60 * 60 * 1000); // 1 hour
 
     this.intervals.push(interval);
+
+    // Run immediately on start
+    this.expireDeployments();
   }
 
   // Send payment reminders
@@ -72,6 +93,76 @@ class CronService {
     this.intervals.push(interval);
   }
 
+  // Expire slot holds that outlived SLOT_HOLD_TTL_MINUTES
+  private scheduleSlotHoldExpiry() {
+    const interval = setInterval(async () => {
+      try {
+        const expired = await slotReservationService.expireHolds();
+        if (expired > 0) {
+          console.log(`Expired ${expired} slot hold(s)`);
+        }
+      } catch (error) {
+        console.error("Error in slot hold expiry cron:", error);
+      }
+    }, 60 * 1000); // 1 minute
+
+    this.intervals.push(interval);
+  }
+
+  // Installment reminders are sent at most once a day per invoice, so running on start is safe
+  private scheduleInstallmentReminders() {
+    const run = async () => {
+      try {
+        const sent = await installmentPlanService.sendReminders();
+        if (sent > 0) {
+          console.log(`Sent ${sent} installment reminder(s)`);
+        }
+      } catch (error) {
+        console.error("Error in installment reminders cron:", error);
+      }
+    };
+    const interval = setInterval(run, 24 * 60 * 60 * 1000); // 24 hours
+
+    this.intervals.push(interval);
+    run();
+  }
+
+  // Each step goes out once per invoice, so running on start is safe
+  private scheduleDunning() {
+    const run = async () => {
+      try {
+        const { invoices, messages } = await dunningService.run();
+        if (invoices > 0) {
+          console.log(`Dunning: ${messages} message(s) for ${invoices} overdue invoice(s)`);
+        }
+      } catch (error) {
+        console.error("Error in dunning cron:", error);
+      }
+    };
+    const interval = setInterval(run, 24 * 60 * 60 * 1000); // 24 hours
+
+    this.intervals.push(interval);
+    run();
+  }
+
+  // Flags are raised once per work order until its overdue balance clears
+  private schedulePaymentDefaultScan() {
+    const run = async () => {
+      try {
+        const flagged = await paymentHoldService.scan();
+        if (flagged > 0) {
+          console.log(`Flagged ${flagged} work order(s) for payment default`);
+        }
+      } catch (error) {
+        console.error("Error in payment default cron:", error);
+      }
+    };
+    const interval = setInterval(run, 24 * 60 * 60 * 1000); // 24 hours
+
+    this.intervals.push(interval);
+    run();
+  }
+
   // Check for campaigns expiring in 2 days
   private async checkExpiringCampaigns() {
     try {
@@ -147,6 +238,18 @@ class CronService {
     }
   }
 
+  // Expire deployments whose work order item has ended; IT takes them down from the removal checklist
+  private async expireDeployments() {
+    try {
+      const expired = await deploymentService.expireEnded();
+      if (expired > 0) {
+        console.log(`Expired ${expired} deployment(s)`);
+      }
+    } catch (error) {
+      console.error("Error expiring deployments:", error);
+    }
+  }
+
   // Send payment reminders for pending payments
   private async sendPaymentReminders() {
     try {
@@ -0,0 +1,187 @@
+import fs from "fs";
+import path from "path";
+import { db } from "../db";
+import { deployments, workOrderItems, releaseOrders, users, type Deployment, type User } from "@shared/schema";
+import { and, eq, inArray, lt } from "drizzle-orm";
+import { storage } from "../storage";
+import { notificationService } from "./notification";
+
+export class DeploymentError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "DeploymentError";
+  }
+}
+
+// Banner images accepted anywhere a creative is uploaded, with the extension each is stored under.
+// The extension comes from the checked type, never the uploaded name, so nothing but an image
+// (no SVG, no HTML) ends up under /uploads.
+export const BANNER_IMAGE_TYPES: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+};
+const MAX_BANNER_BYTES = 500 * 1024;
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const istToday = () => new Date(Date.now() + IST_OFFSET_MS).toISOString().slice(0, 10);
+// Deployments whose banner is (or, while paused for payment, will be again) on a slot
+const LIVE_STATUSES: Deployment["status"][] = ["deployed", "paused"];
+
+class DeploymentService {
+  private async get(id: number) {
+    const deployment = await storage.getDeployment(id);
+    if (!deployment) throw new DeploymentError("Deployment not found", 404);
+    return deployment;
+  }
+
+  private async workOrderIdOf(deployment: Deployment) {
+    const ro = await storage.getReleaseOrder(deployment.releaseOrderId);
+    return ro?.workOrderId ?? null;
+  }
+
+  /**
+   * Takes a banner off its slot. A live deployment ends as removed; an expired one stays expired and
+   * is ticked off the IT removal checklist.
+   */
+  async remove(id: number, actor: User, reason?: string): Promise<Deployment> {
+    const deployment = await this.get(id);
+    if (deployment.removedAt) throw new DeploymentError("This banner has already been taken down", 409);
+    if (!LIVE_STATUSES.includes(deployment.status) && deployment.status !== "expired") {
+      throw new DeploymentError("Only live or expired deployments can be taken down", 409);
+    }
+    const [updated] = await db
+      .update(deployments)
+      .set({ status: deployment.status === "expired" ? "expired" : "removed", removedAt: new Date(), removedById: actor.id })
+      .where(and(eq(deployments.id, id), eq(deployments.status, deployment.status)))
+      .returning();
+    if (!updated) throw new DeploymentError("The deployment changed while you were taking it down; reload and retry", 409);
+
+    await storage.createActivityLog({
+      actorId: actor.id,
+      actorRole: actor.role,
+      action: "banner_removed",
+      entityType: "deployment",
+      entityId: id,
+      metadata: JSON.stringify({
+        workOrderId: await this.workOrderIdOf(deployment),
+        workOrderItemId: deployment.workOrderItemId,
+        slotId: deployment.slotId,
+        bannerUrl: deployment.bannerUrl,
+        previousStatus: deployment.status,
+        reason: reason?.trim() || (deployment.status === "expired" ? "campaign_ended" : null),
+      }),
+    });
+    return updated;
+  }
+
+  /**
+   * Swaps the creative on a live deployment: the current row is closed as removed and a new deployed
+   * row carries the new banner, so the history of what ran when is kept.
+   */
+  async replace(id: number, file: { buffer: Buffer; size: number; mimetype: string; originalname: string }, actor: User) {
+    const deployment = await this.get(id);
+    if (deployment.status !== "deployed") throw new DeploymentError("Only a live deployment can have its banner replaced", 409);
+    const extension = BANNER_IMAGE_TYPES[file.mimetype];
+    if (!extension) throw new DeploymentError("Only JPEG, PNG, GIF and WebP banners are allowed", 400);
+    if (file.size > MAX_BANNER_BYTES) {
+      throw new DeploymentError(`Banner size must be below 500KB. Current size: ${(file.size / 1024).toFixed(2)}KB`, 400);
+    }
+
+    const uploadDir = path.resolve(process.cwd(), "server", "uploads");
+    if (!fs.existsSync(uploadDir)) fs.mkdirSync(uploadDir, { recursive: true });
+    const fileName = `banner-${deployment.workOrderItemId}-${Date.now()}${extension}`;
+    fs.writeFileSync(path.join(uploadDir, fileName), file.buffer);
+    const bannerUrl = `/uploads/${fileName}`;
+
+    const replacement = await db.transaction(async (tx) => {
+      const [closed] = await tx
+        .update(deployments)
+        .set({ status: "removed", removedAt: new Date(), removedById: actor.id })
+        .where(and(eq(deployments.id, id), eq(deployments.status, "deployed")))
+        .returning();
+      if (!closed) throw new DeploymentError("The deployment changed while you were replacing it; reload and retry", 409);
+      const [created] = await tx
+        .insert(deployments)
+        .values({
+          releaseOrderId: deployment.releaseOrderId,
+          workOrderItemId: deployment.workOrderItemId,
+          bannerUrl,
+          slotId: deployment.slotId,
+          deployedById: actor.id,
+          status: "deployed",
+        })
+        .returning();
+      await tx.update(workOrderItems).set({ bannerUrl }).where(eq(workOrderItems.id, deployment.workOrderItemId));
+      return created;
+    });
+
+    await storage.createActivityLog({
+      actorId: actor.id,
+      actorRole: actor.role,
+      action: "banner_replaced",
+      entityType: "deployment",
+      entityId: replacement.id,
+      metadata: JSON.stringify({
+        workOrderId: await this.workOrderIdOf(deployment),
+        workOrderItemId: deployment.workOrderItemId,
+        slotId: deployment.slotId,
+        previousDeploymentId: deployment.id,
+        previousBannerUrl: deployment.bannerUrl,
+        bannerUrl,
+      }),
+    });
+    return replacement;
+  }
+
+  /**
+   * Expires live and paused deployments whose work order item ended before today (IST). IT is told
+   * what to take down; each one then sits on the removal checklist until marked removed.
+   */
+  async expireEnded(today = istToday()): Promise<number> {
+    const ended = await db
+      .select({ deployment: deployments, endDate: workOrderItems.endDate, workOrderId: releaseOrders.workOrderId })
+      .from(deployments)
+      .innerJoin(workOrderItems, eq(deployments.workOrderItemId, workOrderItems.id))
+      .innerJoin(releaseOrders, eq(deployments.releaseOrderId, releaseOrders.id))
+      .where(and(inArray(deployments.status, LIVE_STATUSES), lt(workOrderItems.endDate, today)));
+    if (ended.length === 0) return 0;
+
+    const expired = await db
+      .update(deployments)
+      .set({ status: "expired" })
+      .where(and(inArray(deployments.id, ended.map((row) => row.deployment.id)), inArray(deployments.status, LIVE_STATUSES)))
+      .returning();
+    for (const deployment of expired) {
+      const row = ended.find((r) => r.deployment.id === deployment.id)!;
+      await storage.createActivityLog({
+        actorId: null,
+        actorRole: null,
+        action: "banner_expired",
+        entityType: "deployment",
+        entityId: deployment.id,
+        metadata: JSON.stringify({
+          workOrderId: row.workOrderId,
+          workOrderItemId: deployment.workOrderItemId,
+          slotId: deployment.slotId,
+          endDate: row.endDate,
+          previousStatus: row.deployment.status,
+        }),
+      });
+    }
+
+    if (expired.length > 0) {
+      const itUsers = await db.select().from(users).where(eq(users.role, "it"));
+      for (const it of itUsers) {
+        await notificationService.createNotification({
+          userId: it.id,
+          type: "deployment_expired",
+          message: `${expired.length} banner(s) reached their campaign end date and must be taken down. See the removal checklist on Deployments.`,
+        });
+      }
+    }
+    return expired.length;
+  }
+}
+
+export const deploymentService = new DeploymentService();
@@ -0,0 +1,266 @@
+import { db } from "../db";
+import {
+  dunningLogs,
+  dunningSteps,
+  invoices,
+  users,
+  type DunningLog,
+  type DunningStep,
+  type Invoice,
+  type User,
+  type WorkOrder,
+} from "@shared/schema";
+import { asc, desc, eq, inArray } from "drizzle-orm";
+import { storage } from "../storage";
+import { notificationService } from "./notification";
+import { emailService } from "./email";
+import { whatsappService } from "./whatsapp";
+import { receiptService } from "./receipts";
+
+export type DunningChannel = "in_app" | "email" | "whatsapp";
+
+export interface DunningStepInput {
+  name?: string;
+  offsetDays?: number;
+  channels?: unknown;
+  notifyClient?: boolean;
+  copyRole?: User["role"] | null;
+  isActive?: boolean;
+}
+
+export type DunningLogRow = DunningLog & {
+  stepName: string;
+  recipientName: string;
+  invoiceNumber: string | null;
+};
+
+export class DunningError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "DunningError";
+  }
+}
+
+const CHANNELS: DunningChannel[] = ["in_app", "email", "whatsapp"];
+const COPY_ROLES: User["role"][] = ["manager", "vp", "pv_sir", "accounts", "admin"];
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const istToday = () => new Date(Date.now() + IST_OFFSET_MS).toISOString().slice(0, 10);
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+const formatDate = (isoDate: string) =>
+  new Date(`${isoDate}T00:00:00Z`).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric", timeZone: "UTC" });
+const formatAmount = (amount: number) => `₹${amount.toLocaleString("en-IN")}`;
+const ROLE_LABELS: Partial<Record<User["role"], string>> = { manager: "manager", vp: "VP", pv_sir: "PV Sir", accounts: "accounts team", admin: "admin" };
+
+interface OverdueInvoice {
+  invoice: Invoice;
+  workOrder: WorkOrder;
+  client: User;
+  clientName: string;
+  due: number;
+  dueDate: string;
+  daysOverdue: number;
+}
+
+function validateChannels(channels: unknown): DunningChannel[] {
+  if (!Array.isArray(channels) || channels.length === 0 || channels.some((c) => !CHANNELS.includes(c))) {
+    throw new DunningError(`Channels must be one or more of ${CHANNELS.join(", ")}`, 400);
+  }
+  return Array.from(new Set(channels as DunningChannel[]));
+}
+
+class DunningService {
+  parseChannels(step: DunningStep): DunningChannel[] {
+    return JSON.parse(step.channels) as DunningChannel[];
+  }
+
+  async listSteps(): Promise<DunningStep[]> {
+    return await db.select().from(dunningSteps).orderBy(asc(dunningSteps.stepNumber));
+  }
+
+  async updateStep(id: number, input: DunningStepInput): Promise<DunningStep> {
+    const updates: Partial<DunningStep> = {};
+    if (input.name !== undefined) {
+      if (!input.name.trim()) throw new DunningError("A name is required", 400);
+      updates.name = input.name.trim();
+    }
+    if (input.offsetDays !== undefined) {
+      if (!Number.isInteger(input.offsetDays) || input.offsetDays < 0) throw new DunningError("offsetDays must be a whole number of days after the due date", 400);
+      updates.offsetDays = input.offsetDays;
+    }
+    if (input.channels !== undefined) updates.channels = JSON.stringify(validateChannels(input.channels));
+    if (input.copyRole !== undefined) {
+      if (input.copyRole !== null && !COPY_ROLES.includes(input.copyRole)) throw new DunningError(`copyRole must be one of ${COPY_ROLES.join(", ")}`, 400);
+      updates.copyRole = input.copyRole;
+    }
+    if (input.notifyClient !== undefined) updates.notifyClient = !!input.notifyClient;
+    if (input.isActive !== undefined) updates.isActive = !!input.isActive;
+
+    const [current] = await db.select().from(dunningSteps).where(eq(dunningSteps.id, id));
+    if (!current) throw new DunningError("Dunning step not found", 404);
+    if ((updates.notifyClient ?? current.notifyClient) === false && !(updates.copyRole !== undefined ? updates.copyRole : current.copyRole)) {
+      throw new DunningError("A step that skips the client must escalate to a staff role", 400);
+    }
+    const [step] = await db.update(dunningSteps).set(updates).where(eq(dunningSteps.id, id)).returning();
+    return step;
+  }
+
+  async listLogs(filter: { workOrderId?: number; limit?: number } = {}): Promise<DunningLogRow[]> {
+    const query = db.select().from(dunningLogs);
+    const rows = await (filter.workOrderId !== undefined ? query.where(eq(dunningLogs.workOrderId, filter.workOrderId)) : query)
+      .orderBy(desc(dunningLogs.sentAt))
+      .limit(filter.limit ?? 200);
+    const steps = await this.listSteps();
+    const logged = rows.length > 0 ? await db.select().from(invoices).where(inArray(invoices.id, rows.map((row) => row.invoiceId))) : [];
+    const result: DunningLogRow[] = [];
+    for (const row of rows) {
+      const recipient = await storage.getUser(row.recipientId);
+      const invoice = logged.find((inv) => inv.id === row.invoiceId);
+      result.push({
+        ...row,
+        stepName: steps.find((s) => s.id === row.stepId)?.name ?? `Step #${row.stepId}`,
+        recipientName: recipient?.name ?? `User #${row.recipientId}`,
+        invoiceNumber: invoice?.invoiceNumber ?? null,
+      });
+    }
+    return result;
+  }
+
+  // Open work-order invoices past their due date
+  private async overdueInvoices(today: string): Promise<OverdueInvoice[]> {
+    const result: OverdueInvoice[] = [];
+    for (const invoice of await receiptService.openInvoices()) {
+      if (!invoice.workOrderId) continue;
+      const workOrder = await storage.getWorkOrder(invoice.workOrderId);
+      if (!workOrder) continue;
+      if (!invoice.dueDate) continue;
+      const daysOverdue = daysBetween(invoice.dueDate, today);
+      if (daysOverdue <= 0) continue;
+      const client = await storage.getUser(workOrder.clientId);
+      if (!client) continue;
+      result.push({
+        invoice,
+        workOrder,
+        client,
+        clientName: workOrder.businessSchoolName || client.businessSchoolName || client.name,
+        due: invoice.due,
+        dueDate: invoice.dueDate,
+        daysOverdue,
+      });
+    }
+    return result;
+  }
+
+  private clientMessage(step: DunningStep, item: OverdueInvoice) {
+    const label = `invoice ${item.invoice.invoiceNumber ?? `#${item.invoice.id}`} for Work Order #${item.workOrder.id}`;
+    if (!step.copyRole) {
+      return `This is a friendly reminder that ${label} of ${formatAmount(item.due)} was due on ${formatDate(item.dueDate)}. Please arrange the payment at your earliest convenience, or ignore this if it is already on its way.`;
+    }
+    return `${label[0].toUpperCase()}${label.slice(1)} of ${formatAmount(item.due)} is now ${item.daysOverdue} days overdue (due ${formatDate(item.dueDate)}). Please clear the payment immediately; our ${ROLE_LABELS[step.copyRole] ?? step.copyRole} has been copied on this reminder.`;
+  }
+
+  private staffMessage(step: DunningStep, item: OverdueInvoice) {
+    const label = `${item.invoice.invoiceNumber ?? `Invoice #${item.invoice.id}`} for ${item.clientName} (Work Order #${item.workOrder.id})`;
+    return step.notifyClient
+      ? `${step.name} sent to ${item.clientName}: ${label} of ${formatAmount(item.due)} is ${item.daysOverdue} days overdue.`
+      : `Escalation: ${label} of ${formatAmount(item.due)} is ${item.daysOverdue} days overdue and earlier reminders have not been paid.`;
+  }
+
+  /**
+   * Sends one step over its channels and logs every message. The client (when the step notifies
+   * them) is the addressee and staff of the step's role are copied; an escalation step addresses the
+   * staff directly. WhatsApp only goes to the addressees.
+   */
+  private async send(step: DunningStep, item: OverdueInvoice) {
+    const staff = step.copyRole ? await db.select().from(users).where(eq(users.role, step.copyRole)) : [];
+    const addressees = step.notifyClient ? [item.client] : staff;
+    const copied = step.notifyClient ? staff : [];
+    const messageFor = (user: User) => (user.id === item.client.id ? this.clientMessage(step, item) : this.staffMessage(step, item));
+    const subject = `${step.name}: ${item.invoice.invoiceNumber ?? `Invoice #${item.invoice.id}`} is ${item.daysOverdue} days overdue`;
+    const paymentUrl = `${process.env.APP_URL || "http://localhost:5000"}/payments/work-orders/${item.workOrder.id}`;
+
+    const logs: Array<typeof dunningLogs.$inferInsert> = [];
+    const log = (channel: DunningChannel, recipient: User, address: string | null, ok: boolean, error?: string) =>
+      logs.push({
+        invoiceId: item.invoice.id,
+        workOrderId: item.workOrder.id,
+        stepId: step.id,
+        channel,
+        recipientId: recipient.id,
+        recipientAddress: address,
+        status: ok ? "sent" : "failed",
+        amountDue: item.due.toFixed(2),
+        daysOverdue: item.daysOverdue,
+        error: ok ? null : error ?? "Delivery failed",
+      });
+
+    for (const channel of this.parseChannels(step)) {
+      if (channel === "in_app") {
+        for (const recipient of [...addressees, ...copied]) {
+          const created = await notificationService.createNotification({ userId: recipient.id, type: "payment_dunning", message: messageFor(recipient) });
+          log(channel, recipient, null, !!created);
+        }
+      } else if (channel === "email") {
+        const cc = copied.map((u) => u.email).filter(Boolean);
+        for (const recipient of addressees) {
+          if (!recipient.email) {
+            log(channel, recipient, null, false, "No email address");
+            continue;
+          }
+          const ok = await emailService.sendPaymentDunningEmail(recipient.email, cc, recipient.name, subject, messageFor(recipient), paymentUrl);
+          log(channel, recipient, recipient.email, ok);
+          for (const copy of copied) log(channel, copy, copy.email, ok);
+        }
+      } else {
+        for (const recipient of addressees) {
+          if (!recipient.phone) {
+            log(channel, recipient, null, false, "No phone number");
+            continue;
+          }
+          const ok = await whatsappService.sendMessage({ to: recipient.phone, message: `${subject}\n\n${messageFor(recipient)}\n${paymentUrl}` });
+          log(channel, recipient, recipient.phone, ok);
+        }
+      }
+    }
+    if (logs.length > 0) await db.insert(dunningLogs).values(logs);
+    return logs.length;
+  }
+
+  /**
+   * Daily: for each overdue invoice, sends the furthest active step it has reached unless that step
+   * (or a later one) already went out. Invoices that are already long overdue when dunning starts get
+   * the step matching their age rather than every step at once.
+   */
+  async run(today = istToday()): Promise<{ invoices: number; messages: number }> {
+    const steps = (await this.listSteps()).filter((s) => s.isActive);
+    if (steps.length === 0) return { invoices: 0, messages: 0 };
+    const overdue = await this.overdueInvoices(today);
+    if (overdue.length === 0) return { invoices: 0, messages: 0 };
+
+    const sent = await db
+      .select({ invoiceId: dunningLogs.invoiceId, stepId: dunningLogs.stepId })
+      .from(dunningLogs)
+      .where(inArray(dunningLogs.invoiceId, overdue.map((item) => item.invoice.id)));
+    let invoices = 0;
+    let messages = 0;
+    for (const item of overdue) {
+      const reached = steps.filter((s) => s.offsetDays <= item.daysOverdue);
+      const step = reached[reached.length - 1];
+      if (!step) continue;
+      const done = sent.filter((row) => row.invoiceId === item.invoice.id).map((row) => steps.find((s) => s.id === row.stepId)?.stepNumber ?? 0);
+      if (done.some((stepNumber) => stepNumber >= step.stepNumber)) continue;
+      messages += await this.send(step, item);
+      invoices++;
+      await storage.createActivityLog({
+        actorId: null,
+        actorRole: null,
+        action: "dunning_step_sent",
+        entityType: "invoice",
+        entityId: item.invoice.id,
+        metadata: JSON.stringify({ step: step.name, stepNumber: step.stepNumber, workOrderId: item.workOrder.id, daysOverdue: item.daysOverdue, amountDue: item.due }),
+      });
+    }
+    return { invoices, messages };
+  }
+}
+
+export const dunningService = new DunningService();
@@ -2,6 +2,7 @@ import nodemailer from "nodemailer";
 
 interface EmailOptions {
   to: string;
+  cc?: string[];
   subject: string;
   html: string;
   text?: string;
@@ -28,6 +29,7 @@ class EmailService {
       await this.transporter.sendMail({
         from: `"TIME Ad Management" <${process.env.SMTP_USER}>`,
         to: options.to,
+        cc: options.cc && options.cc.length > 0 ? options.cc : undefined,
         subject: options.subject,
         text: options.text,
         html: options.html,
@@ -316,6 +318,47 @@ class EmailService {
       text: `Release Order #${releaseOrderId} for Work Order #${workOrderId} awaits your approval. Review here: ${approvalUrl}`,
     });
   }
+
+  async sendPaymentDunningEmail(to: string, cc: string[], recipientName: string, subject: string, message: string, paymentUrl: string) {
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #F59E0B 0%, #D97706 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+            .content { background: #ffffff; padding: 30px; border: 1px solid #e5e5e5; border-top: none; }
+            .button { display: inline-block; background: #F59E0B; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+            .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>${subject}</h1>
+            </div>
+            <div class="content">
+              <p>Dear ${recipientName},</p>
+              <p>${message}</p>
+              <a href="${paymentUrl}" class="button">View & Pay</a>
+            </div>
+            <div class="footer">
+              <p>© ${new Date().getFullYear()} TIME. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to,
+      cc,
+      subject,
+      html,
+      text: `${message} View and pay here: ${paymentUrl}`,
+    });
+  }
 }
 
 export const emailService = new EmailService();
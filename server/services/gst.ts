@@ -0,0 +1,143 @@
+import type { Invoice, User, WorkOrder } from "@shared/schema";
+
+// Our registration (Telangana); the first two digits are the GST state code
+export const SUPPLIER_GSTIN = process.env.SUPPLIER_GSTIN || "36AAGCS0684P1ZQ";
+
+// GST state codes as issued in GSTINs
+export const GST_STATE_CODES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+  "97": "Other Territory",
+};
+
+export type SupplyType = "intra_state" | "inter_state";
+
+export interface GstBreakup {
+  supplierStateCode: string;
+  placeOfSupply: string;
+  placeOfSupplyName: string;
+  supplyType: SupplyType;
+  recipientGstin: string | null;
+  taxableAmount: number;
+  gstPercent: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalTax: number;
+  total: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function stateCodeOf(gstin: string | null | undefined): string | null {
+  const code = (gstin ?? "").trim().slice(0, 2);
+  return GST_STATE_CODES[code] ? code : null;
+}
+
+/**
+ * Splits GST on `taxableAmount`. Place of supply is the recipient's GSTIN state; an unregistered
+ * recipient (no or unrecognised GSTIN) is treated as being in our state. Same state means
+ * CGST + SGST at half the rate each, otherwise the whole rate is IGST.
+ */
+export function computeGst(taxableAmount: number, gstPercent: number, recipientGstin?: string | null): GstBreakup {
+  const supplierStateCode = stateCodeOf(SUPPLIER_GSTIN)!;
+  const placeOfSupply = stateCodeOf(recipientGstin) ?? supplierStateCode;
+  const supplyType: SupplyType = placeOfSupply === supplierStateCode ? "intra_state" : "inter_state";
+  const taxable = round2(taxableAmount);
+
+  let cgstAmount = 0;
+  let sgstAmount = 0;
+  let igstAmount = 0;
+  if (supplyType === "intra_state") {
+    cgstAmount = round2((taxable * gstPercent) / 200);
+    sgstAmount = cgstAmount;
+  } else {
+    igstAmount = round2((taxable * gstPercent) / 100);
+  }
+  const totalTax = round2(cgstAmount + sgstAmount + igstAmount);
+
+  return {
+    supplierStateCode,
+    placeOfSupply,
+    placeOfSupplyName: GST_STATE_CODES[placeOfSupply],
+    supplyType,
+    recipientGstin: recipientGstin?.trim() || null,
+    taxableAmount: taxable,
+    gstPercent,
+    cgstAmount,
+    sgstAmount,
+    igstAmount,
+    totalTax,
+    total: round2(taxable + totalTax),
+  };
+}
+
+// Same split for an amount that already includes GST (installments, uploaded invoices)
+export function computeGstFromGross(grossAmount: number, gstPercent: number, recipientGstin?: string | null): GstBreakup {
+  const breakup = computeGst(grossAmount / (1 + gstPercent / 100), gstPercent, recipientGstin);
+  // Put the rounding difference on the taxable value so the invoice total stays exactly the gross amount
+  return { ...breakup, taxableAmount: round2(grossAmount - breakup.totalTax), total: round2(grossAmount) };
+}
+
+// Columns to store on an invoice row for `grossAmount` billed against the work order
+export function invoiceTaxFields(wo: WorkOrder, client: User | undefined, grossAmount: number) {
+  const breakup = computeGstFromGross(grossAmount, Number(wo.gstPercent ?? 0), client?.gstNumber);
+  return {
+    taxableAmount: breakup.taxableAmount.toFixed(2),
+    gstPercent: breakup.gstPercent.toFixed(2),
+    supplyType: breakup.supplyType,
+    placeOfSupply: breakup.placeOfSupply,
+    recipientGstin: breakup.recipientGstin,
+    cgstAmount: breakup.cgstAmount.toFixed(2),
+    sgstAmount: breakup.sgstAmount.toFixed(2),
+    igstAmount: breakup.igstAmount.toFixed(2),
+  };
+}
+
+// Tax rows to print for an invoice, preferring the breakup stored on it
+export function invoiceTaxLines(invoice: Invoice, fallback: GstBreakup) {
+  const stored = invoice.supplyType != null;
+  const gstPercent = stored ? Number(invoice.gstPercent) : fallback.gstPercent;
+  const cgst = stored ? Number(invoice.cgstAmount) : fallback.cgstAmount;
+  const sgst = stored ? Number(invoice.sgstAmount) : fallback.sgstAmount;
+  const igst = stored ? Number(invoice.igstAmount) : fallback.igstAmount;
+  const lines: Array<{ label: string; amount: number }> = [];
+  if (cgst > 0) lines.push({ label: `CGST ${gstPercent / 2}%`, amount: cgst });
+  if (sgst > 0) lines.push({ label: `SGST ${gstPercent / 2}%`, amount: sgst });
+  if (igst > 0) lines.push({ label: `IGST ${gstPercent}%`, amount: igst });
+  return lines;
+}
@@ -0,0 +1,331 @@
+import { db } from "../db";
+import {
+  installmentPlans,
+  invoices,
+  releaseOrders,
+  workOrders,
+  type InstallmentPlan,
+  type Invoice,
+  type User,
+  type WorkOrder,
+} from "@shared/schema";
+import { and, eq, inArray, isNotNull } from "drizzle-orm";
+import { storage } from "../storage";
+import { notificationService } from "./notification";
+import { creditNoteService } from "./credit-notes";
+import { receiptService } from "./receipts";
+import { invoiceTaxFields } from "./gst";
+import { numberingService } from "./numbering";
+
+export interface InstallmentPart {
+  percent: number;
+  anchor: "ro_accepted" | "campaign_start";
+  offsetDays: number; // negative for days before the anchor
+}
+
+export interface ScheduledInstallment {
+  installmentNumber: number;
+  amount: number;
+  dueDate: string; // YYYY-MM-DD
+}
+
+export class InstallmentPlanError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "InstallmentPlanError";
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const istToday = () => new Date(Date.now() + IST_OFFSET_MS).toISOString().slice(0, 10);
+const addDays = (isoDate: string, days: number) => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+const formatDate = (isoDate: string) =>
+  new Date(`${isoDate}T00:00:00Z`).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric", timeZone: "UTC" });
+
+const ANCHORS: InstallmentPart["anchor"][] = ["ro_accepted", "campaign_start"];
+const DEFAULT_REMINDER_DAYS = [-3, 0, 7];
+// Installments that have money against them are never revised
+const SETTLED_STATUSES: Invoice["status"][] = ["completed", "partial"];
+const UNPAID_STATUSES: Invoice["status"][] = ["pending", "failed"];
+
+export function validateParts(parts: unknown): InstallmentPart[] {
+  if (!Array.isArray(parts) || parts.length === 0) throw new InstallmentPlanError("A plan needs at least one installment", 400);
+  const cleaned = parts.map((part: any) => ({
+    percent: Number(part?.percent),
+    anchor: part?.anchor,
+    offsetDays: Number(part?.offsetDays ?? 0),
+  }));
+  for (const part of cleaned) {
+    if (!Number.isFinite(part.percent) || part.percent <= 0) throw new InstallmentPlanError("Each installment needs a percentage above zero", 400);
+    if (!ANCHORS.includes(part.anchor)) throw new InstallmentPlanError(`Anchor must be one of ${ANCHORS.join(", ")}`, 400);
+    if (!Number.isInteger(part.offsetDays)) throw new InstallmentPlanError("offsetDays must be a whole number of days", 400);
+  }
+  const total = cleaned.reduce((sum, part) => sum + part.percent, 0);
+  if (Math.abs(total - 100) > 0.01) throw new InstallmentPlanError(`Installments must add up to 100% (got ${round2(total)}%)`, 400);
+  return cleaned;
+}
+
+function validateReminderDays(days: unknown): number[] {
+  if (!Array.isArray(days) || days.some((d) => !Number.isInteger(d))) {
+    throw new InstallmentPlanError("reminderDays must be a list of whole days relative to the due date", 400);
+  }
+  return Array.from(new Set(days as number[])).sort((a, b) => a - b);
+}
+
+function describePart(part: InstallmentPart) {
+  const anchor = part.anchor === "ro_accepted" ? "Release Order acceptance" : "campaign start";
+  if (part.offsetDays === 0) return part.anchor === "ro_accepted" ? `on ${anchor}` : `before ${anchor}`;
+  const days = Math.abs(part.offsetDays);
+  return part.offsetDays < 0 ? `${days} days before ${anchor}` : `within ${days} days of ${anchor}`;
+}
+
+class InstallmentPlanService {
+  parseParts(plan: InstallmentPlan): InstallmentPart[] {
+    return JSON.parse(plan.parts) as InstallmentPart[];
+  }
+
+  parseReminderDays(plan: InstallmentPlan | undefined): number[] {
+    return plan ? (JSON.parse(plan.reminderDays) as number[]) : DEFAULT_REMINDER_DAYS;
+  }
+
+  async listPlans(includeInactive = false): Promise<InstallmentPlan[]> {
+    const rows = await db.select().from(installmentPlans).orderBy(installmentPlans.id);
+    return includeInactive ? rows : rows.filter((plan) => plan.isActive);
+  }
+
+  async getPlan(id: number): Promise<InstallmentPlan | undefined> {
+    const [plan] = await db.select().from(installmentPlans).where(eq(installmentPlans.id, id));
+    return plan;
+  }
+
+  async createPlan(data: { name: string; parts: unknown; reminderDays?: unknown }): Promise<InstallmentPlan> {
+    const name = (data.name ?? "").trim();
+    if (!name) throw new InstallmentPlanError("A name is required", 400);
+    const parts = validateParts(data.parts);
+    const reminderDays = data.reminderDays === undefined ? DEFAULT_REMINDER_DAYS : validateReminderDays(data.reminderDays);
+    const [plan] = await db
+      .insert(installmentPlans)
+      .values({ name, parts: JSON.stringify(parts), reminderDays: JSON.stringify(reminderDays) })
+      .onConflictDoNothing({ target: installmentPlans.name })
+      .returning();
+    if (!plan) throw new InstallmentPlanError(`A plan named "${name}" already exists`, 409);
+    return plan;
+  }
+
+  /**
+   * Edits a template. Work orders already on it keep their invoices until accounts re-apply the
+   * plan, so a template change never silently rebills clients.
+   */
+  async updatePlan(id: number, data: { name?: string; parts?: unknown; reminderDays?: unknown; isActive?: boolean }) {
+    const updates: Partial<InstallmentPlan> = {};
+    if (data.name !== undefined) {
+      if (!data.name.trim()) throw new InstallmentPlanError("A name is required", 400);
+      updates.name = data.name.trim();
+    }
+    if (data.parts !== undefined) updates.parts = JSON.stringify(validateParts(data.parts));
+    if (data.reminderDays !== undefined) updates.reminderDays = JSON.stringify(validateReminderDays(data.reminderDays));
+    if (data.isActive !== undefined) updates.isActive = !!data.isActive;
+    const [plan] = await db.update(installmentPlans).set(updates).where(eq(installmentPlans.id, id)).returning();
+    if (!plan) throw new InstallmentPlanError("Installment plan not found", 404);
+    return plan;
+  }
+
+  // Dates the plan's due dates are measured from; null while the RO is not accepted or no item has a start date
+  async anchorDates(wo: WorkOrder): Promise<Record<InstallmentPart["anchor"], string | null>> {
+    const [ro] = await db.select().from(releaseOrders).where(eq(releaseOrders.workOrderId, wo.id));
+    const starts = (await storage.getWorkOrderItems(wo.id))
+      .map((item) => item.startDate)
+      .filter((d): d is string => !!d)
+      .sort();
+    return {
+      ro_accepted: ro?.acceptedAt ? new Date(ro.acceptedAt.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10) : null,
+      campaign_start: starts[0] ?? null,
+    };
+  }
+
+  // Until the RO is accepted, its installments fall due from today
+  private dueDate(part: InstallmentPart, anchors: Record<InstallmentPart["anchor"], string | null>) {
+    return addDays(anchors[part.anchor] ?? istToday(), part.offsetDays);
+  }
+
+  /**
+   * Puts a work order on `planId` and brings its installment invoices in line with it. Installments
+   * with money received are kept as they are; what is left of the work order total is spread over
+   * the remaining installments by their percentages. An unpaid installment whose amount still fits
+   * only has its due date moved; otherwise it is cancelled (tax invoices get a reissued credit note)
+   * and billed again. The whole revision is one transaction with the work order row locked, so a
+   * failure leaves the old installments in place and concurrent applies run one after the other.
+   */
+  async apply(workOrderId: number, planId: number, actor: User): Promise<Invoice[]> {
+    const plan = await this.getPlan(planId);
+    if (!plan || !plan.isActive) throw new InstallmentPlanError("Installment plan not found", 404);
+    const parts = this.parseParts(plan);
+
+    const { wo, schedule, keep, cancellations } = await db.transaction(async (tx) => {
+      const [wo] = await tx.select().from(workOrders).where(eq(workOrders.id, workOrderId)).for("update");
+      if (!wo) throw new InstallmentPlanError("Work Order not found", 404);
+      const anchors = await this.anchorDates(wo);
+
+      const all = await tx.select().from(invoices).where(eq(invoices.workOrderId, wo.id));
+      const active = all.filter((inv) => inv.invoiceType !== "credit_note" && inv.status !== "cancelled");
+      const credited = (inv: Invoice) =>
+        all.filter((cn) => cn.invoiceType === "credit_note" && cn.creditedInvoiceId === inv.id).reduce((sum, cn) => sum + Number(cn.amount), 0);
+      const settled = active.filter((inv) => SETTLED_STATUSES.includes(inv.status));
+      const settledNumbers = new Set(settled.map((inv) => inv.installmentNumber).filter((n): n is number => n != null));
+      const billed = round2(settled.reduce((sum, inv) => sum + Number(inv.amount) - credited(inv), 0));
+
+      const openParts = parts.map((part, index) => ({ part, installmentNumber: index + 1 })).filter(({ installmentNumber }) => !settledNumbers.has(installmentNumber));
+      const remaining = round2(Number(wo.totalAmount ?? 0) - billed);
+      const openPercent = openParts.reduce((sum, { part }) => sum + part.percent, 0);
+      const schedule: ScheduledInstallment[] = [];
+      let allocated = 0;
+      openParts.forEach(({ part, installmentNumber }, index) => {
+        const amount = index === openParts.length - 1 ? round2(remaining - allocated) : round2((remaining * part.percent) / openPercent);
+        allocated = round2(allocated + amount);
+        if (amount > 0) schedule.push({ installmentNumber, amount, dueDate: this.dueDate(part, anchors) });
+      });
+
+      const unpaid = active.filter((inv) => UNPAID_STATUSES.includes(inv.status));
+      const keep = new Map<number, Invoice>();
+      for (const entry of schedule) {
+        const match = unpaid.find((inv) => inv.installmentNumber === entry.installmentNumber && Math.abs(Number(inv.amount) - entry.amount) < 0.005);
+        if (match) keep.set(entry.installmentNumber, match);
+      }
+      const cancellations = [];
+      for (const inv of unpaid) {
+        if (Array.from(keep.values()).some((kept) => kept.id === inv.id)) continue;
+        cancellations.push(await creditNoteService.cancel(inv.id, actor, "Replaced by a revised installment plan", { reissued: true, tx }));
+      }
+
+      const client = await storage.getUser(wo.clientId);
+      for (const entry of schedule) {
+        const kept = keep.get(entry.installmentNumber);
+        if (kept) {
+          if (kept.dueDate !== entry.dueDate) await tx.update(invoices).set({ dueDate: entry.dueDate }).where(eq(invoices.id, kept.id));
+          continue;
+        }
+        await tx.insert(invoices).values({
+          ...invoiceTaxFields(wo, client, entry.amount),
+          workOrderId: wo.id,
+          amount: entry.amount.toFixed(2),
+          status: "pending",
+          generatedById: actor.id,
+          invoiceType: "tax_invoice",
+          invoiceNumber: await numberingService.next(tx, "tax_invoice"),
+          dueDate: entry.dueDate,
+          installmentNumber: entry.installmentNumber,
+        });
+      }
+
+      await tx.update(workOrders).set({ installmentPlanId: plan.id, paymentMode: "installment" }).where(eq(workOrders.id, wo.id));
+      return { wo, schedule, keep, cancellations };
+    });
+
+    for (const cancellation of cancellations) await creditNoteService.afterCancel(cancellation, actor);
+    await storage.createActivityLog({
+      actorId: actor.id,
+      actorRole: actor.role,
+      action: "installment_plan_applied",
+      entityType: "work_order",
+      entityId: wo.id,
+      metadata: JSON.stringify({ planId: plan.id, planName: plan.name, schedule, keptInvoiceIds: Array.from(keep.values()).map((inv) => inv.id) }),
+    });
+    return await db.select().from(invoices).where(eq(invoices.workOrderId, wo.id));
+  }
+
+  // Re-anchors unpaid installments once the dates they hang off are known (e.g. when the RO is accepted)
+  async refreshDueDates(workOrderId: number) {
+    const wo = await storage.getWorkOrder(workOrderId);
+    const plan = wo?.installmentPlanId ? await this.getPlan(wo.installmentPlanId) : undefined;
+    if (!wo || !plan) return;
+    const parts = this.parseParts(plan);
+    const anchors = await this.anchorDates(wo);
+    const unpaid = await db
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.workOrderId, wo.id), inArray(invoices.status, UNPAID_STATUSES), isNotNull(invoices.installmentNumber)));
+    for (const inv of unpaid) {
+      const part = parts[inv.installmentNumber! - 1];
+      if (!part) continue;
+      const dueDate = this.dueDate(part, anchors);
+      if (inv.dueDate !== dueDate) await db.update(invoices).set({ dueDate }).where(eq(invoices.id, inv.id));
+    }
+  }
+
+  /**
+   * Payment terms printed on the work order's invoices: the plan's installments when it has one,
+   * otherwise the terms of its payment mode.
+   */
+  async paymentNote(wo: WorkOrder): Promise<string> {
+    const plan = wo.installmentPlanId ? await this.getPlan(wo.installmentPlanId) : undefined;
+    const anchors = await this.anchorDates(wo);
+    const campaignStart = anchors.campaign_start ? formatDate(anchors.campaign_start) : null;
+    if (plan) {
+      const terms = this.parseParts(plan).map((part) => {
+        const known = anchors[part.anchor] ? ` (${formatDate(this.dueDate(part, anchors))})` : "";
+        return `${round2(part.percent)}% ${describePart(part)}${known}`;
+      });
+      return `Payment ${terms.join(", ")}`;
+    }
+    if (wo.paymentMode === "full") {
+      return campaignStart ? `Payment 100% in advance before ${campaignStart}` : "Payment 100% in advance before campaign start";
+    }
+    if (wo.paymentMode === "pay_later") {
+      return campaignStart ? `Payment to be completed before ${campaignStart}` : "Payment to be completed before campaign start";
+    }
+    return "";
+  }
+
+  // Line printed on an installment invoice, e.g. "Installment 2 of 3, due by 1 Dec 2025"
+  async installmentNote(invoice: Invoice, wo: WorkOrder): Promise<string> {
+    if (!invoice.installmentNumber) return "";
+    const plan = wo.installmentPlanId ? await this.getPlan(wo.installmentPlanId) : undefined;
+    const of = plan ? ` of ${this.parseParts(plan).length}` : "";
+    return `Installment ${invoice.installmentNumber}${of}${invoice.dueDate ? `, due by ${formatDate(invoice.dueDate)}` : ""}`;
+  }
+
+  /**
+   * Daily: reminds clients of unpaid installments on the days their plan asks for (relative to each
+   * due date). Each invoice is reminded at most once a day, so restarts do not repeat reminders.
+   */
+  async sendReminders(): Promise<number> {
+    const today = istToday();
+    const open = await db
+      .select()
+      .from(invoices)
+      .where(and(inArray(invoices.status, ["pending", "partial", "failed"]), isNotNull(invoices.installmentNumber), isNotNull(invoices.dueDate)));
+    const plans = new Map<number, InstallmentPlan | undefined>();
+    let sent = 0;
+    for (const inv of open) {
+      if (inv.lastReminderOn === today || !inv.workOrderId) continue;
+      const wo = await storage.getWorkOrder(inv.workOrderId);
+      if (!wo) continue;
+      if (wo.installmentPlanId && !plans.has(wo.installmentPlanId)) plans.set(wo.installmentPlanId, await this.getPlan(wo.installmentPlanId));
+      const reminderDays = this.parseReminderDays(wo.installmentPlanId ? plans.get(wo.installmentPlanId) : undefined);
+      const daysFromDue = daysBetween(inv.dueDate!, today);
+      if (!reminderDays.includes(daysFromDue)) continue;
+      const due = await receiptService.dueOn(inv);
+      if (due <= 0) continue;
+
+      const label = `Installment ${inv.installmentNumber} (${inv.invoiceNumber ?? `invoice #${inv.id}`}) of ₹${due.toLocaleString("en-IN")} for Work Order #${wo.id}`;
+      const message =
+        daysFromDue < 0
+          ? `${label} is due on ${formatDate(inv.dueDate!)}.`
+          : daysFromDue === 0
+            ? `${label} is due today.`
+            : `${label} was due on ${formatDate(inv.dueDate!)} and is ${daysFromDue} days overdue.`;
+      await notificationService.createNotification({ userId: wo.clientId, type: "installment_reminder", message });
+      await db.update(invoices).set({ lastReminderOn: today }).where(eq(invoices.id, inv.id));
+      sent++;
+    }
+    return sent;
+  }
+}
+
+export const installmentPlanService = new InstallmentPlanService();
@@ -0,0 +1,209 @@
+import { db } from "../db";
+import { invoices, receipts, workOrders, type Invoice, type User } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { storage } from "../storage";
+import { isIsoDate } from "./availability";
+import { workOrderBalance } from "./receipts";
+
+export interface LedgerEntry {
+  date: string; // YYYY-MM-DD
+  kind: "invoice" | "receipt" | "tds" | "credit_note";
+  documentNumber: string;
+  description: string;
+  workOrderId: number | null;
+  debit: number;
+  credit: number;
+  balance: number; // running balance after this entry; positive means the client owes us
+}
+
+export interface ClientLedger {
+  client: Pick<User, "id" | "name" | "email" | "businessSchoolName" | "schoolAddress" | "gstNumber">;
+  from: string | null;
+  to: string;
+  openingBalance: number;
+  entries: LedgerEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+  // Work orders whose ledger balance is more than their own outstanding amount (should stay empty)
+  discrepancies: Array<{ workOrderId: number; ledgerBalance: number; pendingAmount: number }>;
+}
+
+export class LedgerError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const istDate = (value: Date | string) => new Date(new Date(value).getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+const KIND_ORDER: Record<LedgerEntry["kind"], number> = { invoice: 0, credit_note: 1, receipt: 2, tds: 3 };
+const DOCUMENT_LABELS = { proforma: "Proforma Invoice", tax_invoice: "Tax Invoice" } as const;
+
+/**
+ * The invoices that bill a work order, from exactly one source: its installment invoices when it is
+ * on a plan, else its proformas (the tax invoices issued from them, or uploaded against the release
+ * order, describe the same supply), else its tax invoices. A cancelled proforma was never owed; a
+ * cancelled tax invoice stays billed and is offset by its credit note.
+ */
+function billingInvoices(woInvoices: Invoice[]): Invoice[] {
+  const billable = woInvoices.filter((inv) => inv.invoiceType !== "credit_note");
+  const installments = billable.filter((inv) => inv.installmentNumber !== null);
+  if (installments.length > 0) return installments;
+  const proformas = billable.filter((inv) => inv.invoiceType === "proforma");
+  if (proformas.length > 0) return proformas.filter((inv) => inv.status !== "cancelled");
+  return billable;
+}
+
+class LedgerService {
+  /**
+   * Everything billed to and settled by a client across work orders. Debits are the work order's
+   * billing invoices (see billingInvoices); credits are receipts, the TDS deducted on them and credit
+   * notes against a billed invoice (or the tax invoice issued from a billed proforma).
+   */
+  private async allEntries(clientId: number): Promise<Omit<LedgerEntry, "balance">[]> {
+    const clientInvoices = await db
+      .select({ invoice: invoices })
+      .from(invoices)
+      .innerJoin(workOrders, eq(invoices.workOrderId, workOrders.id))
+      .where(eq(workOrders.clientId, clientId));
+    const clientReceipts = await db
+      .select({ receipt: receipts })
+      .from(receipts)
+      .innerJoin(workOrders, eq(receipts.workOrderId, workOrders.id))
+      .where(eq(workOrders.clientId, clientId));
+    const numberOf = (id: number) => {
+      const found = clientInvoices.find((row) => row.invoice.id === id)?.invoice;
+      return found?.invoiceNumber ?? `#${id}`;
+    };
+
+    const byWorkOrder = new Map<number, Invoice[]>();
+    for (const { invoice } of clientInvoices) {
+      byWorkOrder.set(invoice.workOrderId!, [...(byWorkOrder.get(invoice.workOrderId!) ?? []), invoice]);
+    }
+    const billed = new Set<number>();
+    byWorkOrder.forEach((woInvoices) => billingInvoices(woInvoices).forEach((inv) => billed.add(inv.id)));
+    const creditsBilledInvoice = (creditNote: Invoice) => {
+      if (!creditNote.creditedInvoiceId) return true;
+      const credited = clientInvoices.find((row) => row.invoice.id === creditNote.creditedInvoiceId)?.invoice;
+      return !!credited && (billed.has(credited.id) || (!!credited.proformaInvoiceId && billed.has(credited.proformaInvoiceId)));
+    };
+
+    const entries: Omit<LedgerEntry, "balance">[] = [];
+    for (const { invoice } of clientInvoices) {
+      const amount = Number(invoice.amount);
+      if (invoice.invoiceType === "credit_note") {
+        if (!creditsBilledInvoice(invoice)) continue;
+        entries.push({
+          date: istDate(invoice.generatedAt),
+          kind: "credit_note",
+          documentNumber: invoice.invoiceNumber ?? `#${invoice.id}`,
+          description: `Credit Note against ${invoice.creditedInvoiceId ? numberOf(invoice.creditedInvoiceId) : "invoice"}${invoice.reason ? ` (${invoice.reason})` : ""}`,
+          workOrderId: invoice.workOrderId,
+          debit: 0,
+          credit: amount,
+        });
+        continue;
+      }
+      if (!billed.has(invoice.id)) continue;
+      entries.push({
+        date: istDate(invoice.generatedAt),
+        kind: "invoice",
+        documentNumber: invoice.invoiceNumber ?? `#${invoice.id}`,
+        description: `${DOCUMENT_LABELS[invoice.invoiceType]} for Work Order #${invoice.workOrderId}`,
+        workOrderId: invoice.workOrderId,
+        debit: amount,
+        credit: 0,
+      });
+    }
+    for (const { receipt } of clientReceipts) {
+      const against = numberOf(receipt.invoiceId);
+      entries.push({
+        date: receipt.receivedOn,
+        kind: "receipt",
+        documentNumber: receipt.reference ?? `R-${receipt.id}`,
+        description: `Payment received (${receipt.mode.toUpperCase()}) against ${against}`,
+        workOrderId: receipt.workOrderId,
+        debit: 0,
+        credit: Number(receipt.amount),
+      });
+      if (Number(receipt.tdsAmount) > 0) {
+        entries.push({
+          date: receipt.receivedOn,
+          kind: "tds",
+          documentNumber: receipt.reference ?? `R-${receipt.id}`,
+          description: `TDS deducted u/s ${receipt.tdsSection ?? "194C"} against ${against}`,
+          workOrderId: receipt.workOrderId,
+          debit: 0,
+          credit: Number(receipt.tdsAmount),
+        });
+      }
+    }
+    return entries.sort((a, b) => a.date.localeCompare(b.date) || KIND_ORDER[a.kind] - KIND_ORDER[b.kind]);
+  }
+
+  // Ledger between `from` and `to` (inclusive); everything before `from` is rolled into the opening balance
+  async forClient(clientId: number, range: { from?: string; to?: string } = {}): Promise<ClientLedger> {
+    if (range.from && !isIsoDate(range.from)) throw new LedgerError("from must be a YYYY-MM-DD date", 400);
+    if (range.to && !isIsoDate(range.to)) throw new LedgerError("to must be a YYYY-MM-DD date", 400);
+    if (range.from && range.to && range.from > range.to) throw new LedgerError("from must not be after to", 400);
+    const client = await storage.getUser(clientId);
+    if (!client || client.role !== "client") throw new LedgerError("Client not found", 404);
+
+    const from = range.from ?? null;
+    const to = range.to ?? istDate(new Date());
+    let balance = 0;
+    const entries: LedgerEntry[] = [];
+    for (const entry of await this.allEntries(clientId)) {
+      if (entry.date > to) break;
+      balance = round2(balance + entry.debit - entry.credit);
+      if (!from || entry.date >= from) entries.push({ ...entry, balance });
+    }
+    const totalDebit = round2(entries.reduce((sum, e) => sum + e.debit, 0));
+    const discrepancies = await this.reconcile(clientId);
+    const totalCredit = round2(entries.reduce((sum, e) => sum + e.credit, 0));
+    return {
+      client: {
+        id: client.id,
+        name: client.name,
+        email: client.email,
+        businessSchoolName: client.businessSchoolName,
+        schoolAddress: client.schoolAddress,
+        gstNumber: client.gstNumber,
+      },
+      from,
+      to,
+      openingBalance: round2(balance - totalDebit + totalCredit),
+      entries,
+      totalDebit,
+      totalCredit,
+      closingBalance: balance,
+      discrepancies,
+    };
+  }
+
+  /**
+   * Checks every work order's ledger balance against workOrderBalance. Billing can lag the work order
+   * total (nothing invoiced yet), so the ledger may owe less, but never more.
+   */
+  private async reconcile(clientId: number) {
+    const entries = await this.allEntries(clientId);
+    const clientWorkOrders = await db.select().from(workOrders).where(eq(workOrders.clientId, clientId));
+    const discrepancies: ClientLedger["discrepancies"] = [];
+    for (const wo of clientWorkOrders) {
+      const ledgerBalance = round2(entries.filter((e) => e.workOrderId === wo.id).reduce((sum, e) => sum + e.debit - e.credit, 0));
+      const woInvoices = await db.select().from(invoices).where(eq(invoices.workOrderId, wo.id));
+      const woReceipts = await db.select().from(receipts).where(eq(receipts.workOrderId, wo.id));
+      const { pendingAmount } = workOrderBalance(Number(wo.totalAmount ?? 0), woInvoices, woReceipts);
+      if (ledgerBalance - pendingAmount > 0.005) {
+        console.warn(`Ledger for client ${clientId} shows ${ledgerBalance} due on Work Order #${wo.id}, which only has ${pendingAmount} pending`);
+        discrepancies.push({ workOrderId: wo.id, ledgerBalance, pendingAmount });
+      }
+    }
+    return discrepancies;
+  }
+}
+
+export const ledgerService = new LedgerService();
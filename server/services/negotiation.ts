@@ -0,0 +1,88 @@
+import type { User, WorkOrder, WorkOrderItem, WorkOrderNegotiation } from "@shared/schema";
+import { storage } from "../storage";
+import { quoteService, buildQuoteSnapshot, type QuoteSnapshot } from "./quotes";
+
+export interface ProposedItem {
+  workOrderItemId: number;
+  amount: number;
+}
+
+export class NegotiationError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "NegotiationError";
+  }
+}
+
+class NegotiationService {
+  // Per-item amounts must name items of this work order; unlisted items keep their quoted price in the total
+  private parseProposal(raw: unknown, items: WorkOrderItem[]): ProposedItem[] {
+    if (raw == null) return [];
+    if (!Array.isArray(raw)) throw new NegotiationError("items must be a list of { workOrderItemId, amount }", 400);
+    const seen = new Set<number>();
+    return raw.map((entry: any) => {
+      const workOrderItemId = Number(entry?.workOrderItemId);
+      const amount = Number(entry?.amount);
+      if (!items.some((it) => it.id === workOrderItemId)) {
+        throw new NegotiationError(`Item ${entry?.workOrderItemId} is not part of this work order`, 400);
+      }
+      if (!Number.isFinite(amount) || amount < 0) {
+        throw new NegotiationError("Proposed amounts must be zero or more", 400);
+      }
+      if (seen.has(workOrderItemId)) throw new NegotiationError(`Item ${workOrderItemId} is listed twice`, 400);
+      seen.add(workOrderItemId);
+      return { workOrderItemId, amount };
+    });
+  }
+
+  private proposedTotal(wo: WorkOrder, items: WorkOrderItem[], proposal: ProposedItem[]) {
+    const base = items.reduce((sum, it) => {
+      const proposed = proposal.find((p) => p.workOrderItemId === it.id);
+      return sum + (proposed ? proposed.amount : Number(it.subtotal));
+    }, 0);
+    return base + (base * Number(wo.gstPercent || 0)) / 100;
+  }
+
+  async getThread(workOrderId: number) {
+    const entries = await storage.getWorkOrderNegotiations(workOrderId);
+    const versions = new Map((await quoteService.list(workOrderId)).map((q) => [q.id, q.version]));
+    const authors = new Map<number, string>();
+    for (const id of Array.from(new Set(entries.map((e) => e.authorId)))) {
+      const author = await storage.getUser(id);
+      if (author) authors.set(id, author.name);
+    }
+    return entries.map((entry) => ({
+      ...entry,
+      authorName: authors.get(entry.authorId) ?? null,
+      quoteVersion: entry.quoteId ? versions.get(entry.quoteId) ?? null : null,
+      proposedItems: entry.proposedItems ? (JSON.parse(entry.proposedItems) as ProposedItem[]) : [],
+      quoteSnapshot: JSON.parse(entry.quoteSnapshot) as QuoteSnapshot,
+    }));
+  }
+
+  /**
+   * Appends a counter-offer (client) or reply (staff) to the thread, linked to the latest quote
+   * version and with a snapshot of the pricing as it stands so later re-quotes do not change it.
+   */
+  async addEntry(wo: WorkOrder, author: User, message: string, rawItems?: unknown): Promise<WorkOrderNegotiation> {
+    const trimmed = (message ?? "").trim();
+    if (!trimmed) throw new NegotiationError("A message is required", 400);
+    const items = await storage.getWorkOrderItems(wo.id);
+    const proposal = this.parseProposal(rawItems, items);
+    const quote = await quoteService.getLatest(wo.id);
+
+    return await storage.createWorkOrderNegotiation({
+      workOrderId: wo.id,
+      authorId: author.id,
+      authorRole: author.role,
+      kind: author.role === "client" ? "counter_offer" : "reply",
+      message: trimmed,
+      proposedItems: proposal.length ? JSON.stringify(proposal) : null,
+      proposedTotal: proposal.length ? this.proposedTotal(wo, items, proposal).toFixed(2) : null,
+      quoteId: quote?.id ?? null,
+      quoteSnapshot: JSON.stringify(buildQuoteSnapshot(wo, items)),
+    });
+  }
+}
+
+export const negotiationService = new NegotiationService();
@@ -2,7 +2,7 @@ import { emailService } from "./email";
 import { whatsappService } from "./whatsapp";
 import { db } from "../db";
 import { notifications, users, bookings } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 
 interface NotificationPayload {
   userId: number;
@@ -246,14 +246,15 @@ class NotificationService {
     }
   }
 
-  // Mark notification as read
-  async markAsRead(notificationId: number) {
+  // Mark one of the user's notifications as read; false when it is not theirs (or does not exist)
+  async markAsRead(notificationId: number, userId: number) {
     try {
-      await db
+      const updated = await db
         .update(notifications)
         .set({ read: true })
-        .where(eq(notifications.id, notificationId));
-      return true;
+        .where(and(eq(notifications.id, notificationId), eq(notifications.userId, userId)))
+        .returning({ id: notifications.id });
+      return updated.length > 0;
     } catch (error) {
       console.error("Error marking notification as read:", error);
       return false;
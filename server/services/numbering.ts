@@ -0,0 +1,80 @@
+import { db } from "../db";
+import { numberSeries, numberSequences, type NumberSeries } from "@shared/schema";
+import { eq, sql } from "drizzle-orm";
+import type { DbTransaction } from "./availability";
+
+export type SeriesCode = "proforma" | "tax_invoice" | "credit_note" | "release_order";
+
+export class NumberingError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "NumberingError";
+  }
+}
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+// Indian financial year (April to March) of `date` in IST, e.g. { short: "25-26", long: "2025-26" }
+export function financialYearOf(date: Date = new Date()) {
+  const ist = new Date(date.getTime() + IST_OFFSET_MS);
+  const start = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  const end = String((start + 1) % 100).padStart(2, "0");
+  return { short: `${String(start % 100).padStart(2, "0")}-${end}`, long: `${start}-${end}` };
+}
+
+export function formatDocumentNumber(format: string, fy: { short: string; long: string }, value: number) {
+  return format
+    .replace(/\{FYYYY\}/g, fy.long)
+    .replace(/\{FY\}/g, fy.short)
+    .replace(/\{SEQ(?::(\d+))?\}/g, (_m, width?: string) => String(value).padStart(Number(width ?? 1), "0"));
+}
+
+const validFormat = (format: string) => /\{SEQ(?::\d+)?\}/.test(format) && /\{FY(YYY)?\}/.test(format);
+
+class NumberingService {
+  async listSeries(): Promise<Array<NumberSeries & { financialYear: string; lastValue: number; nextNumber: string }>> {
+    const fy = financialYearOf();
+    const series = await db.select().from(numberSeries).orderBy(numberSeries.id);
+    const counters = await db.select().from(numberSequences).where(eq(numberSequences.financialYear, fy.short));
+    return series.map((s) => {
+      const lastValue = counters.find((c) => c.seriesId === s.id)?.lastValue ?? 0;
+      return { ...s, financialYear: fy.short, lastValue, nextNumber: formatDocumentNumber(s.format, fy, lastValue + 1) };
+    });
+  }
+
+  async updateSeries(id: number, data: { name?: string; format?: string }): Promise<NumberSeries> {
+    if (data.format !== undefined && !validFormat(data.format)) {
+      throw new NumberingError("Format must contain {SEQ} (or {SEQ:n}) and {FY} (or {FYYYY})", 400);
+    }
+    const [updated] = await db
+      .update(numberSeries)
+      .set({ ...(data.name !== undefined && { name: data.name }), ...(data.format !== undefined && { format: data.format }) })
+      .where(eq(numberSeries.id, id))
+      .returning();
+    if (!updated) throw new NumberingError("Number series not found", 404);
+    return updated;
+  }
+
+  /**
+   * Takes the next number of `code` for the financial year of `onDate`. Must run in the transaction
+   * that inserts the numbered row: the counter row stays locked until commit and a rollback returns
+   * the number, so the series has no gaps or duplicates.
+   */
+  async next(tx: DbTransaction, code: SeriesCode, onDate: Date = new Date()): Promise<string> {
+    const [series] = await tx.select().from(numberSeries).where(eq(numberSeries.code, code));
+    if (!series) throw new NumberingError(`Number series "${code}" is not configured`, 500);
+    const fy = financialYearOf(onDate);
+
+    const [counter] = await tx
+      .insert(numberSequences)
+      .values({ seriesId: series.id, financialYear: fy.short, lastValue: 1 })
+      .onConflictDoUpdate({
+        target: [numberSequences.seriesId, numberSequences.financialYear],
+        set: { lastValue: sql`${numberSequences.lastValue} + 1` },
+      })
+      .returning();
+    return formatDocumentNumber(series.format, fy, counter.lastValue);
+  }
+}
+
+export const numberingService = new NumberingService();
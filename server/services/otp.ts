@@ -0,0 +1,115 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import { smsService } from "./sms";
+
+const envNumber = (key: string, fallback: number) => {
+  const value = Number(process.env[key]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const OTP_CONFIG = {
+  ttlMinutes: envNumber("OTP_TTL_MINUTES", 10),
+  resendCooldownSeconds: envNumber("OTP_RESEND_COOLDOWN_SECONDS", 60),
+  sendWindowMinutes: envNumber("OTP_SEND_WINDOW_MINUTES", 60),
+  maxSendsPerPhone: envNumber("OTP_MAX_SENDS_PER_PHONE", 5),
+  maxSendsPerIp: envNumber("OTP_MAX_SENDS_PER_IP", 20),
+  maxVerifyAttempts: envNumber("OTP_MAX_VERIFY_ATTEMPTS", 5),
+  lockoutMinutes: envNumber("OTP_LOCKOUT_MINUTES", 15),
+};
+
+export class OtpError extends Error {
+  constructor(message: string, public status: number, public retryAfterSeconds?: number) {
+    super(message);
+    this.name = "OtpError";
+  }
+}
+
+const secondsUntil = (date: Date) => Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+class OtpService {
+  // Throws an OtpError when the phone or IP has exhausted its send budget, or the phone is locked out
+  async assertCanSend(phone: string, requestIp?: string) {
+    const latest = await storage.getLatestOtp(phone);
+    if (latest?.lockedUntil && new Date(latest.lockedUntil) > new Date()) {
+      throw new OtpError(
+        "Too many incorrect attempts. Please try again later.",
+        429,
+        secondsUntil(new Date(latest.lockedUntil))
+      );
+    }
+    if (latest) {
+      const nextAllowed = new Date(new Date(latest.createdAt).getTime() + OTP_CONFIG.resendCooldownSeconds * 1000);
+      if (nextAllowed > new Date()) {
+        throw new OtpError("Please wait before requesting another OTP.", 429, secondsUntil(nextAllowed));
+      }
+    }
+
+    const windowStart = new Date(Date.now() - OTP_CONFIG.sendWindowMinutes * 60 * 1000);
+    const sentToPhone = await storage.countOtpsSince({ phone }, windowStart);
+    if (sentToPhone >= OTP_CONFIG.maxSendsPerPhone) {
+      throw new OtpError("OTP request limit reached for this phone number. Please try again later.", 429, OTP_CONFIG.sendWindowMinutes * 60);
+    }
+    if (requestIp) {
+      const sentFromIp = await storage.countOtpsSince({ requestIp }, windowStart);
+      if (sentFromIp >= OTP_CONFIG.maxSendsPerIp) {
+        throw new OtpError("Too many OTP requests from this network. Please try again later.", 429, OTP_CONFIG.sendWindowMinutes * 60);
+      }
+    }
+  }
+
+  // Issues a new code, invalidating any code previously sent to the phone
+  async issue(phone: string, requestIp?: string) {
+    await this.assertCanSend(phone, requestIp);
+
+    const code = crypto.randomInt(100000, 1000000).toString();
+    const expiresAt = new Date(Date.now() + OTP_CONFIG.ttlMinutes * 60 * 1000);
+
+    await storage.invalidateOtps(phone);
+    await storage.createOtpCode({ phone, code, expiresAt, verified: false, requestIp: requestIp ?? null });
+
+    const sent = await smsService.sendOtp(phone, code, OTP_CONFIG.ttlMinutes);
+    if (!sent) {
+      throw new OtpError("Failed to send OTP. Please try again.", 502);
+    }
+  }
+
+  // Verifies against the most recent live code; repeated failures burn the code and lock the phone
+  async verify(phone: string, code: string) {
+    const otp = await storage.getLatestOtp(phone);
+    if (!otp) {
+      throw new OtpError("Invalid or expired OTP", 400);
+    }
+    if (otp.lockedUntil && new Date(otp.lockedUntil) > new Date()) {
+      throw new OtpError("Too many incorrect attempts. Please try again later.", 429, secondsUntil(new Date(otp.lockedUntil)));
+    }
+    if (otp.verified || otp.invalidatedAt) {
+      throw new OtpError("Invalid or expired OTP", 400);
+    }
+    if (new Date() > new Date(otp.expiresAt)) {
+      throw new OtpError("OTP has expired", 400);
+    }
+
+    const expected = Buffer.from(otp.code);
+    const received = Buffer.from(String(code ?? ""));
+    const matches = expected.length === received.length && crypto.timingSafeEqual(expected, received);
+
+    if (!matches) {
+      const attempts = await storage.incrementOtpAttempts(otp.id);
+      if (attempts >= OTP_CONFIG.maxVerifyAttempts) {
+        const lockedUntil = new Date(Date.now() + OTP_CONFIG.lockoutMinutes * 60 * 1000);
+        await storage.updateOtpCode(otp.id, { invalidatedAt: new Date(), lockedUntil });
+        throw new OtpError("Too many incorrect attempts. Please try again later.", 429, secondsUntil(lockedUntil));
+      }
+      const remaining = OTP_CONFIG.maxVerifyAttempts - attempts;
+      throw new OtpError(`Invalid OTP. ${remaining} attempt${remaining === 1 ? "" : "s"} remaining.`, 400);
+    }
+
+    // A parallel request may have locked or used the code since it was read
+    if (!(await storage.markOtpAsVerified(otp.id))) {
+      throw new OtpError("Invalid or expired OTP", 400);
+    }
+    return otp;
+  }
+}
+
+export const otpService = new OtpService();
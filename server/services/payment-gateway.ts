@@ -0,0 +1,317 @@
+import axios from "axios";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { db } from "../db";
+import { invoices, paymentOrders, users, type Invoice, type PaymentOrder, type User } from "@shared/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { storage } from "../storage";
+import { notificationService } from "./notification";
+import { receiptService } from "./receipts";
+
+// A payment outcome reported by the provider's webhook, amounts in rupees
+export interface GatewayEvent {
+  type: "captured" | "failed";
+  orderId: string;
+  paymentId: string;
+  amount: number;
+  error?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  readonly signatureHeader: string;
+  createOrder(input: { amount: number; currency: string; receipt: string; notes: Record<string, string> }): Promise<string>;
+  // What the browser needs to open checkout for the order
+  checkoutOptions(order: PaymentOrder, description: string): Record<string, unknown>;
+  verifyWebhook(rawBody: Buffer, signature: string | undefined): boolean;
+  parseWebhook(payload: any): GatewayEvent | null;
+}
+
+export class PaymentGatewayError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "PaymentGatewayError";
+  }
+}
+
+const toPaise = (amount: number) => Math.round(amount * 100);
+const fromPaise = (paise: number) => Math.round(paise) / 100;
+const hmacHex = (secret: string, payload: string | Buffer) => createHmac("sha256", secret).update(payload).digest("hex");
+
+function signatureMatches(expected: string, signature: string | undefined) {
+  if (!signature) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(signature);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Razorpay webhook body: { event: "payment.captured" | "payment.failed", payload: { payment: { entity } } }
+function parseRazorpayEvent(payload: any): GatewayEvent | null {
+  const payment = payload?.payload?.payment?.entity;
+  if (!payment?.order_id) return null;
+  if (payload.event === "payment.captured") {
+    return { type: "captured", orderId: payment.order_id, paymentId: payment.id, amount: fromPaise(payment.amount) };
+  }
+  if (payload.event === "payment.failed") {
+    return { type: "failed", orderId: payment.order_id, paymentId: payment.id, amount: fromPaise(payment.amount), error: payment.error_description };
+  }
+  return null;
+}
+
+class RazorpayProvider implements PaymentProvider {
+  readonly name = "razorpay";
+  readonly signatureHeader = "x-razorpay-signature";
+
+  constructor(private keyId: string, private keySecret: string, private webhookSecret: string) {}
+
+  async createOrder(input: { amount: number; currency: string; receipt: string; notes: Record<string, string> }) {
+    const { data } = await axios.post(
+      "https://api.razorpay.com/v1/orders",
+      { amount: toPaise(input.amount), currency: input.currency, receipt: input.receipt.slice(0, 40), notes: input.notes },
+      { auth: { username: this.keyId, password: this.keySecret } }
+    );
+    return data.id as string;
+  }
+
+  checkoutOptions(order: PaymentOrder, description: string) {
+    return {
+      provider: this.name,
+      key: this.keyId,
+      orderId: order.providerOrderId,
+      amount: toPaise(Number(order.amount)),
+      currency: order.currency,
+      name: "TIME Ad Management",
+      description,
+    };
+  }
+
+  verifyWebhook(rawBody: Buffer, signature: string | undefined) {
+    return signatureMatches(hmacHex(this.webhookSecret, rawBody), signature);
+  }
+
+  parseWebhook(payload: any) {
+    return parseRazorpayEvent(payload);
+  }
+}
+
+/**
+ * Local stand-in that speaks the Razorpay webhook format and signs it with its own secret, so the
+ * whole order → checkout → signed webhook path runs without a gateway account.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+  readonly signatureHeader = "x-fake-signature";
+
+  constructor(private webhookSecret: string) {}
+
+  async createOrder() {
+    return `order_fake_${randomBytes(8).toString("hex")}`;
+  }
+
+  checkoutOptions(order: PaymentOrder, description: string) {
+    return { provider: this.name, orderId: order.providerOrderId, amount: toPaise(Number(order.amount)), currency: order.currency, description };
+  }
+
+  verifyWebhook(rawBody: Buffer, signature: string | undefined) {
+    return signatureMatches(hmacHex(this.webhookSecret, rawBody), signature);
+  }
+
+  parseWebhook(payload: any) {
+    return parseRazorpayEvent(payload);
+  }
+
+  // The webhook the provider would send once the client completes (or abandons) checkout
+  signedEvent(order: PaymentOrder, outcome: "success" | "failure") {
+    const body = JSON.stringify({
+      event: outcome === "success" ? "payment.captured" : "payment.failed",
+      payload: {
+        payment: {
+          entity: {
+            id: `pay_fake_${randomBytes(8).toString("hex")}`,
+            order_id: order.providerOrderId,
+            amount: toPaise(Number(order.amount)),
+            currency: order.currency,
+            ...(outcome === "failure" && { error_description: "Payment declined in test checkout" }),
+          },
+        },
+      },
+    });
+    return { rawBody: Buffer.from(body), signature: hmacHex(this.webhookSecret, body) };
+  }
+}
+
+// Invoices a client can pay online
+const PAYABLE_STATUSES: Invoice["status"][] = ["pending", "partial", "failed"];
+
+class PaymentGatewayService {
+  // Null in production when no real gateway is configured: online payments are then switched off
+  private provider: PaymentProvider | null;
+
+  constructor() {
+    const configured = process.env.PAYMENT_PROVIDER;
+    if (configured === "razorpay") {
+      const keyId = process.env.RAZORPAY_KEY_ID;
+      const keySecret = process.env.RAZORPAY_KEY_SECRET;
+      const webhookSecret = process.env.RAZORPAY_WEBHOOK_SECRET;
+      const missing = Object.entries({ RAZORPAY_KEY_ID: keyId, RAZORPAY_KEY_SECRET: keySecret, RAZORPAY_WEBHOOK_SECRET: webhookSecret })
+        .filter(([, value]) => !value)
+        .map(([name]) => name);
+      if (missing.length > 0) throw new Error(`PAYMENT_PROVIDER=razorpay requires ${missing.join(", ")}`);
+      this.provider = new RazorpayProvider(keyId!, keySecret!, webhookSecret!);
+    } else if (configured && configured !== "fake") {
+      throw new Error(`Unknown PAYMENT_PROVIDER "${configured}"`);
+    } else if (process.env.NODE_ENV === "production") {
+      // The fake provider's webhooks are forgeable by design; it never runs in production
+      this.provider = null;
+    } else {
+      // Without a configured secret each process signs with its own random one
+      this.provider = new FakePaymentProvider(process.env.PAYMENT_WEBHOOK_SECRET || randomBytes(32).toString("hex"));
+    }
+  }
+
+  // Allows swapping the gateway at runtime (e.g. in scripts or tests)
+  setProvider(provider: PaymentProvider) {
+    if (provider instanceof FakePaymentProvider && process.env.NODE_ENV === "production") {
+      throw new Error("The fake payment provider cannot be used in production");
+    }
+    this.provider = provider;
+  }
+
+  private activeProvider(): PaymentProvider {
+    if (!this.provider) throw new PaymentGatewayError("Online payments are not configured", 503);
+    return this.provider;
+  }
+
+  get signatureHeader() {
+    return this.provider?.signatureHeader ?? "x-signature";
+  }
+
+  async getOrder(id: number): Promise<PaymentOrder | undefined> {
+    const [order] = await db.select().from(paymentOrders).where(eq(paymentOrders.id, id));
+    return order;
+  }
+
+  /**
+   * Opens a gateway order for whatever is still due on the invoice. An unpaid order for the same
+   * amount is reused, so reopening checkout does not pile up orders at the provider.
+   */
+  async createOrder(invoiceId: number, actor: User): Promise<{ order: PaymentOrder; checkout: Record<string, unknown> }> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, invoiceId));
+    if (!invoice) throw new PaymentGatewayError("Invoice not found", 404);
+    if (invoice.invoiceType === "credit_note" || !PAYABLE_STATUSES.includes(invoice.status)) {
+      throw new PaymentGatewayError("This invoice cannot be paid online", 409);
+    }
+    const due = await receiptService.dueOn(invoice);
+    if (due <= 0) throw new PaymentGatewayError("This invoice is already settled", 409);
+    await receiptService.assertCanReceive(invoice, actor, due);
+    const provider = this.activeProvider();
+
+    const description = `Invoice ${invoice.invoiceNumber ?? `#${invoice.id}`}`;
+    const [open] = await db
+      .select()
+      .from(paymentOrders)
+      .where(
+        and(
+          eq(paymentOrders.invoiceId, invoice.id),
+          eq(paymentOrders.provider, provider.name),
+          eq(paymentOrders.status, "created"),
+          eq(paymentOrders.amount, due.toFixed(2))
+        )
+      );
+    if (open) return { order: open, checkout: provider.checkoutOptions(open, description) };
+
+    const providerOrderId = await provider.createOrder({
+      amount: due,
+      currency: "INR",
+      receipt: invoice.invoiceNumber ?? `INV-${invoice.id}`,
+      notes: { invoiceId: String(invoice.id) },
+    });
+    const [order] = await db
+      .insert(paymentOrders)
+      .values({ invoiceId: invoice.id, provider: provider.name, providerOrderId, amount: due.toFixed(2), createdById: actor.id })
+      .returning();
+    return { order, checkout: provider.checkoutOptions(order, description) };
+  }
+
+  /**
+   * Applies a provider webhook. Only a correctly signed body is trusted; each payment is applied
+   * once however often the provider retries. A captured payment becomes a receipt recorded as the
+   * client who opened the order.
+   */
+  async handleWebhook(providerName: string, rawBody: unknown, signature: string | undefined): Promise<{ handled: boolean }> {
+    const provider = this.provider;
+    if (!provider || providerName !== provider.name) throw new PaymentGatewayError("Unknown payment provider", 404);
+    if (provider instanceof FakePaymentProvider && process.env.NODE_ENV === "production") {
+      throw new PaymentGatewayError("Unknown payment provider", 404);
+    }
+    if (!Buffer.isBuffer(rawBody) || !provider.verifyWebhook(rawBody, signature)) {
+      throw new PaymentGatewayError("Invalid webhook signature", 401);
+    }
+    const event = provider.parseWebhook(JSON.parse(rawBody.toString("utf8")));
+    if (!event) return { handled: false };
+    const [order] = await db.select().from(paymentOrders).where(eq(paymentOrders.providerOrderId, event.orderId));
+    if (!order) return { handled: false };
+
+    if (event.type === "failed") {
+      await db
+        .update(paymentOrders)
+        .set({ status: "failed", error: event.error ?? "Payment failed" })
+        .where(and(eq(paymentOrders.id, order.id), eq(paymentOrders.status, "created")));
+      return { handled: true };
+    }
+
+    // A failed attempt can be retried on the same order, so both states can move to paid
+    const [claimed] = await db
+      .update(paymentOrders)
+      .set({ status: "paid", providerPaymentId: event.paymentId, paidAt: new Date(), error: null })
+      .where(and(eq(paymentOrders.id, order.id), inArray(paymentOrders.status, ["created", "failed"])))
+      .returning();
+    if (!claimed) return { handled: true };
+
+    const payer = await storage.getUser(order.createdById);
+    try {
+      if (!payer) throw new Error("The client who opened this order no longer exists");
+      const { receipt } = await receiptService.record(order.invoiceId, payer, {
+        amount: event.amount,
+        mode: "gateway",
+        reference: event.paymentId,
+        note: `Paid online via ${order.provider} (order ${order.providerOrderId})`,
+      });
+      await db.update(paymentOrders).set({ receiptId: receipt.id }).where(eq(paymentOrders.id, order.id));
+    } catch (error: any) {
+      // The money is with the gateway either way; accounts apply or refund it by hand
+      await db.update(paymentOrders).set({ error: error.message }).where(eq(paymentOrders.id, order.id));
+      await storage.createActivityLog({
+        actorId: order.createdById,
+        actorRole: payer?.role ?? "client",
+        action: "online_payment_unapplied",
+        entityType: "invoice",
+        entityId: order.invoiceId,
+        metadata: JSON.stringify({ paymentOrderId: order.id, paymentId: event.paymentId, amount: event.amount, error: error.message }),
+      });
+      const accountsUsers = await db.select().from(users).where(eq(users.role, "accounts"));
+      for (const user of accountsUsers) {
+        await notificationService.createNotification({
+          userId: user.id,
+          type: "online_payment_unapplied",
+          message: `Online payment ${event.paymentId} of ${event.amount.toFixed(2)} for invoice #${order.invoiceId} could not be applied: ${error.message}`,
+        });
+      }
+    }
+    return { handled: true };
+  }
+
+  // Completes checkout on the fake provider by feeding it a signed webhook, as the real gateway would
+  async simulate(orderId: number, outcome: "success" | "failure"): Promise<PaymentOrder> {
+    const provider = this.provider;
+    if (!(provider instanceof FakePaymentProvider) || process.env.NODE_ENV === "production") {
+      throw new PaymentGatewayError("Test payments are not available", 404);
+    }
+    const order = await this.getOrder(orderId);
+    if (!order) throw new PaymentGatewayError("Payment order not found", 404);
+    const { rawBody, signature } = provider.signedEvent(order, outcome);
+    await this.handleWebhook(provider.name, rawBody, signature);
+    return (await this.getOrder(orderId))!;
+  }
+}
+
+export const paymentGatewayService = new PaymentGatewayService();
@@ -0,0 +1,318 @@
+import { db } from "../db";
+import {
+  activityLogs,
+  deployments,
+  invoices,
+  paymentDefaultPolicy,
+  paymentHolds,
+  receipts,
+  releaseOrders,
+  users,
+  type PaymentDefaultPolicy,
+  type PaymentHold,
+  type User,
+} from "@shared/schema";
+import { and, desc, eq, inArray, isNotNull, lt } from "drizzle-orm";
+import { storage } from "../storage";
+import { notificationService } from "./notification";
+import type { DbTransaction } from "./availability";
+
+export type PaymentHoldRow = PaymentHold & {
+  clientName: string;
+  liveDeployments: number;
+  pausedDeployments: number;
+  decidedByName: string | null;
+};
+
+export class PaymentHoldError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "PaymentHoldError";
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const istToday = () => new Date(Date.now() + IST_OFFSET_MS).toISOString().slice(0, 10);
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+// Holds that keep a work order from being flagged again until its overdue balance clears
+const OPEN_STATUSES: PaymentHold["status"][] = ["pending_approval", "paused", "dismissed"];
+
+class PaymentHoldService {
+  async getPolicy(): Promise<PaymentDefaultPolicy> {
+    const [policy] = await db.select().from(paymentDefaultPolicy).orderBy(paymentDefaultPolicy.id).limit(1);
+    if (policy) return policy;
+    const [created] = await db.insert(paymentDefaultPolicy).values({}).returning();
+    return created;
+  }
+
+  async updatePolicy(input: { overdueDays?: number; isActive?: boolean }, actor: User): Promise<PaymentDefaultPolicy> {
+    const current = await this.getPolicy();
+    const updates: Partial<PaymentDefaultPolicy> = { updatedById: actor.id, updatedAt: new Date() };
+    if (input.overdueDays !== undefined) {
+      if (!Number.isInteger(input.overdueDays) || input.overdueDays < 1) throw new PaymentHoldError("overdueDays must be a whole number of days, at least 1", 400);
+      updates.overdueDays = input.overdueDays;
+    }
+    if (input.isActive !== undefined) updates.isActive = !!input.isActive;
+    const [policy] = await db.update(paymentDefaultPolicy).set(updates).where(eq(paymentDefaultPolicy.id, current.id)).returning();
+    await storage.createActivityLog({
+      actorId: actor.id,
+      actorRole: actor.role,
+      action: "payment_default_policy_updated",
+      entityType: "payment_default_policy",
+      entityId: policy.id,
+      metadata: JSON.stringify({ from: { overdueDays: current.overdueDays, isActive: current.isActive }, to: { overdueDays: policy.overdueDays, isActive: policy.isActive } }),
+    });
+    return policy;
+  }
+
+  async listHolds(status?: PaymentHold["status"]): Promise<PaymentHoldRow[]> {
+    const query = db.select().from(paymentHolds);
+    const rows = await (status ? query.where(eq(paymentHolds.status, status)) : query).orderBy(desc(paymentHolds.createdAt));
+    const result: PaymentHoldRow[] = [];
+    for (const hold of rows) result.push(await this.describe(hold));
+    return result;
+  }
+
+  private async describe(hold: PaymentHold): Promise<PaymentHoldRow> {
+    const wo = await storage.getWorkOrder(hold.workOrderId);
+    const client = wo ? await storage.getUser(wo.clientId) : undefined;
+    const woDeployments = await this.deploymentsOf(hold.workOrderId);
+    const decidedBy = hold.decidedById ? await storage.getUser(hold.decidedById) : undefined;
+    return {
+      ...hold,
+      clientName: wo?.businessSchoolName || client?.businessSchoolName || client?.name || `WO ${hold.workOrderId}`,
+      liveDeployments: woDeployments.filter((d) => d.status === "deployed").length,
+      pausedDeployments: woDeployments.filter((d) => d.paymentHoldId === hold.id && d.status === "paused").length,
+      decidedByName: decidedBy?.name ?? null,
+    };
+  }
+
+  private async deploymentsOf(workOrderId: number, executor: typeof db | DbTransaction = db) {
+    const rows = await executor
+      .select({ deployment: deployments })
+      .from(deployments)
+      .innerJoin(releaseOrders, eq(deployments.releaseOrderId, releaseOrders.id))
+      .where(eq(releaseOrders.workOrderId, workOrderId));
+    return rows.map((row) => row.deployment);
+  }
+
+  /**
+   * What is overdue per work order: open invoices past their due date, less credit notes and what
+   * has been received (including TDS) against them, with the age of the oldest one.
+   */
+  private async overdueByWorkOrder(workOrderIds: number[], today: string) {
+    const result = new Map<number, { amount: number; daysOverdue: number }>();
+    if (workOrderIds.length === 0) return result;
+    const open = await db
+      .select()
+      .from(invoices)
+      .where(
+        and(
+          inArray(invoices.workOrderId, workOrderIds),
+          inArray(invoices.status, ["pending", "partial", "failed"]),
+          isNotNull(invoices.dueDate),
+          lt(invoices.dueDate, today)
+        )
+      );
+    const billed = open.filter((inv) => inv.invoiceType !== "credit_note");
+    if (billed.length === 0) return result;
+    const ids = billed.map((inv) => inv.id);
+    const credits = await db
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.invoiceType, "credit_note"), inArray(invoices.creditedInvoiceId, ids)));
+    const settled = await db.select().from(receipts).where(inArray(receipts.invoiceId, ids));
+    for (const inv of billed) {
+      const due = round2(
+        Number(inv.amount) -
+          credits.filter((cn) => cn.creditedInvoiceId === inv.id).reduce((sum, cn) => sum + Number(cn.amount), 0) -
+          settled.filter((r) => r.invoiceId === inv.id).reduce((sum, r) => sum + Number(r.amount) + Number(r.tdsAmount ?? 0), 0)
+      );
+      if (due <= 0.005) continue;
+      const entry = result.get(inv.workOrderId!) ?? { amount: 0, daysOverdue: 0 };
+      entry.amount = round2(entry.amount + due);
+      entry.daysOverdue = Math.max(entry.daysOverdue, daysBetween(inv.dueDate!, today));
+      result.set(inv.workOrderId!, entry);
+    }
+    return result;
+  }
+
+  private async notifyRole(role: User["role"], message: string) {
+    const recipients = await db.select().from(users).where(eq(users.role, role));
+    for (const recipient of recipients) {
+      await notificationService.createNotification({ userId: recipient.id, type: "payment_hold", message });
+    }
+  }
+
+  /**
+   * Daily: flags work orders with live deployments whose oldest unpaid invoice is at least the
+   * policy's overdueDays late, and closes holds whose overdue balance has since cleared.
+   */
+  async scan(today = istToday()): Promise<number> {
+    for (const hold of await db.select().from(paymentHolds).where(inArray(paymentHolds.status, OPEN_STATUSES))) {
+      await this.releaseIfCleared(hold.workOrderId);
+    }
+    const policy = await this.getPolicy();
+    if (!policy.isActive) return 0;
+
+    const live = await db
+      .selectDistinct({ workOrderId: releaseOrders.workOrderId })
+      .from(deployments)
+      .innerJoin(releaseOrders, eq(deployments.releaseOrderId, releaseOrders.id))
+      .where(eq(deployments.status, "deployed"));
+    const overdue = await this.overdueByWorkOrder(live.map((row) => row.workOrderId), today);
+    const open = await db.select().from(paymentHolds).where(inArray(paymentHolds.status, OPEN_STATUSES));
+
+    let flagged = 0;
+    for (const [workOrderId, { amount, daysOverdue }] of Array.from(overdue.entries())) {
+      if (daysOverdue < policy.overdueDays || open.some((hold) => hold.workOrderId === workOrderId)) continue;
+      const [hold] = await db.insert(paymentHolds).values({ workOrderId, daysOverdue, amountOverdue: amount.toFixed(2) }).returning();
+      const row = await this.describe(hold);
+      await storage.createActivityLog({
+        actorId: null,
+        actorRole: null,
+        action: "payment_default_flagged",
+        entityType: "work_order",
+        entityId: workOrderId,
+        metadata: JSON.stringify({ holdId: hold.id, daysOverdue, amountOverdue: amount, policyOverdueDays: policy.overdueDays }),
+      });
+      const summary = `Work Order #${workOrderId} (${row.clientName}) has ₹${amount.toLocaleString("en-IN")} overdue for ${daysOverdue} days`;
+      await this.notifyRole("it", `${summary}. Its ${row.liveDeployments} live deployment(s) will be paused if a VP approves.`);
+      await this.notifyRole("vp", `${summary}. Approve or dismiss pausing its campaign.`);
+      flagged++;
+    }
+    return flagged;
+  }
+
+  // VP approval: pauses every live deployment of the work order under this hold
+  async approve(holdId: number, actor: User, note?: string) {
+    // The hold decision and the pause commit together, so an approved hold never leaves banners live
+    const { hold, live } = await db.transaction(async (tx) => {
+      const [hold] = await tx
+        .update(paymentHolds)
+        .set({ status: "paused", decidedById: actor.id, decidedAt: new Date(), decisionNote: note?.trim() || null })
+        .where(and(eq(paymentHolds.id, holdId), eq(paymentHolds.status, "pending_approval")))
+        .returning();
+      if (!hold) throw new PaymentHoldError("This hold is not awaiting approval", 409);
+
+      const live = (await this.deploymentsOf(hold.workOrderId, tx)).filter((d) => d.status === "deployed");
+      const pausedAt = new Date();
+      if (live.length > 0) {
+        await tx
+          .update(deployments)
+          .set({ status: "paused", pausedAt, paymentHoldId: hold.id })
+          .where(and(inArray(deployments.id, live.map((d) => d.id)), eq(deployments.status, "deployed")));
+      }
+      await tx.insert(activityLogs).values([
+        ...live.map((deployment) => ({
+          actorId: actor.id,
+          actorRole: actor.role,
+          action: "banner_paused",
+          entityType: "deployment",
+          entityId: deployment.id,
+          metadata: JSON.stringify({ holdId: hold.id, workOrderId: hold.workOrderId, slotId: deployment.slotId, reason: "payment_default" }),
+        })),
+        {
+          actorId: actor.id,
+          actorRole: actor.role,
+          action: "campaign_paused",
+          entityType: "work_order",
+          entityId: hold.workOrderId,
+          metadata: JSON.stringify({ holdId: hold.id, deploymentIds: live.map((d) => d.id), note: hold.decisionNote }),
+        },
+      ]);
+      return { hold, live };
+    });
+
+    const wo = await storage.getWorkOrder(hold.workOrderId);
+    await this.notifyRole("it", `Payment hold approved: take down the ${live.length} banner(s) of Work Order #${hold.workOrderId}; they are now paused.`);
+    await this.notifyRole("accounts", `Work Order #${hold.workOrderId}'s campaign was paused for payment default. It resumes once the overdue balance is received.`);
+    if (wo) {
+      await notificationService.createNotification({
+        userId: wo.clientId,
+        type: "payment_hold",
+        message: `Your campaign for Work Order #${wo.id} has been paused because ₹${Number(hold.amountOverdue).toLocaleString("en-IN")} is overdue. It will resume as soon as the payment is received.`,
+      });
+    }
+    return { hold, pausedDeployments: live.length };
+  }
+
+  async dismiss(holdId: number, actor: User, note?: string) {
+    const [hold] = await db
+      .update(paymentHolds)
+      .set({ status: "dismissed", decidedById: actor.id, decidedAt: new Date(), decisionNote: note?.trim() || null })
+      .where(and(eq(paymentHolds.id, holdId), eq(paymentHolds.status, "pending_approval")))
+      .returning();
+    if (!hold) throw new PaymentHoldError("This hold is not awaiting approval", 409);
+    await storage.createActivityLog({
+      actorId: actor.id,
+      actorRole: actor.role,
+      action: "payment_hold_dismissed",
+      entityType: "work_order",
+      entityId: hold.workOrderId,
+      metadata: JSON.stringify({ holdId: hold.id, note: hold.decisionNote }),
+    });
+    await this.notifyRole("it", `The payment hold on Work Order #${hold.workOrderId} was dismissed; its deployments stay live.`);
+    return hold;
+  }
+
+  /**
+   * Closes the work order's open hold once nothing on it is overdue any more, putting deployments
+   * the hold paused back live. Called whenever money or credit is applied to the work order.
+   */
+  async releaseIfCleared(workOrderId: number, actor?: User) {
+    const [hold] = await db
+      .select()
+      .from(paymentHolds)
+      .where(and(eq(paymentHolds.workOrderId, workOrderId), inArray(paymentHolds.status, OPEN_STATUSES)));
+    if (!hold) return null;
+    if ((await this.overdueByWorkOrder([workOrderId], istToday())).has(workOrderId)) return null;
+
+    const [resolved] = await db
+      .update(paymentHolds)
+      .set({ status: "resolved", resolvedAt: new Date() })
+      .where(and(eq(paymentHolds.id, hold.id), eq(paymentHolds.status, hold.status)))
+      .returning();
+    if (!resolved || hold.status !== "paused") return resolved ?? null;
+
+    const paused = (await this.deploymentsOf(workOrderId)).filter((d) => d.paymentHoldId === hold.id && d.status === "paused");
+    if (paused.length > 0) {
+      await db
+        .update(deployments)
+        .set({ status: "deployed", pausedAt: null, paymentHoldId: null })
+        .where(and(eq(deployments.paymentHoldId, hold.id), eq(deployments.status, "paused")));
+    }
+    for (const deployment of paused) {
+      await storage.createActivityLog({
+        actorId: actor?.id ?? null,
+        actorRole: actor?.role ?? null,
+        action: "banner_resumed",
+        entityType: "deployment",
+        entityId: deployment.id,
+        metadata: JSON.stringify({ holdId: hold.id, workOrderId, slotId: deployment.slotId, pausedAt: deployment.pausedAt }),
+      });
+    }
+    await storage.createActivityLog({
+      actorId: actor?.id ?? null,
+      actorRole: actor?.role ?? null,
+      action: "campaign_resumed",
+      entityType: "work_order",
+      entityId: workOrderId,
+      metadata: JSON.stringify({ holdId: hold.id, deploymentIds: paused.map((d) => d.id) }),
+    });
+
+    const wo = await storage.getWorkOrder(workOrderId);
+    await this.notifyRole("it", `Overdue payment for Work Order #${workOrderId} has been received: put its ${paused.length} paused banner(s) back live.`);
+    if (wo) {
+      await notificationService.createNotification({
+        userId: wo.clientId,
+        type: "payment_hold",
+        message: `Thank you for your payment. Your campaign for Work Order #${wo.id} has resumed.`,
+      });
+    }
+    return resolved;
+  }
+}
+
+export const paymentHoldService = new PaymentHoldService();
@@ -0,0 +1,146 @@
+import { db } from "../db";
+import { rateCards, seasonalPricingRules, durationDiscounts, type Slot, type RateCard } from "@shared/schema";
+import { and, eq, lte, gte, or, isNull, desc } from "drizzle-orm";
+
+const DAYS_PER_WEEK = 7;
+const DAYS_PER_MONTH = 30;
+
+export interface PriceQuote {
+  slotId: number;
+  startDate: string;
+  endDate: string;
+  days: number;
+  rateCardId: number;
+  baseAmount: number;
+  seasonal: Array<{ ruleId: number; name: string; multiplier: number; days: number }>;
+  seasonalAdjustment: number;
+  discountId: number | null;
+  discountPercent: number;
+  discountAmount: number;
+  total: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toUtc = (value: string) => new Date(`${value}T00:00:00Z`);
+
+function inclusiveDays(startDate: string, endDate: string) {
+  return Math.floor((toUtc(endDate).getTime() - toUtc(startDate).getTime()) / (24 * 60 * 60 * 1000)) + 1;
+}
+
+class PricingService {
+  // The active card for the slot whose effective window contains `onDate`; the latest one wins on overlap
+  async getRateCard(slotId: number, onDate: string): Promise<RateCard | undefined> {
+    const [card] = await db
+      .select()
+      .from(rateCards)
+      .where(
+        and(
+          eq(rateCards.slotId, slotId),
+          eq(rateCards.isActive, true),
+          lte(rateCards.effectiveFrom, onDate),
+          or(isNull(rateCards.effectiveTo), gte(rateCards.effectiveTo, onDate))
+        )
+      )
+      .orderBy(desc(rateCards.effectiveFrom), desc(rateCards.id))
+      .limit(1);
+    return card;
+  }
+
+  // Months, then weeks, then days; never more than charging every day at the daily rate
+  baseAmount(card: RateCard, days: number) {
+    const daily = Number(card.dailyRate);
+    let remaining = days;
+    let amount = 0;
+    if (card.monthlyRate != null) {
+      const months = Math.floor(remaining / DAYS_PER_MONTH);
+      amount += months * Number(card.monthlyRate);
+      remaining -= months * DAYS_PER_MONTH;
+    }
+    if (card.weeklyRate != null) {
+      const weeks = Math.floor(remaining / DAYS_PER_WEEK);
+      amount += weeks * Number(card.weeklyRate);
+      remaining -= weeks * DAYS_PER_WEEK;
+    }
+    amount += remaining * daily;
+    return Math.min(amount, days * daily);
+  }
+
+  /**
+   * Prices a slot for [startDate, endDate] from its rate card. Each day in a season is charged
+   * at the highest matching multiplier, then the best duration discount is taken off the total.
+   * Returns null when the slot has no rate card, leaving the price to the manager.
+   */
+  async quoteSlot(slot: Slot, startDate: string, endDate: string): Promise<PriceQuote | null> {
+    const card = await this.getRateCard(slot.id, startDate);
+    if (!card) return null;
+
+    const days = inclusiveDays(startDate, endDate);
+    if (days <= 0) throw new Error("endDate must be on or after startDate");
+    const baseAmount = this.baseAmount(card, days);
+    const perDay = baseAmount / days;
+
+    const seasons = await db
+      .select()
+      .from(seasonalPricingRules)
+      .where(
+        and(
+          eq(seasonalPricingRules.isActive, true),
+          lte(seasonalPricingRules.startDate, endDate),
+          gte(seasonalPricingRules.endDate, startDate),
+          or(isNull(seasonalPricingRules.mediaType), eq(seasonalPricingRules.mediaType, slot.mediaType)),
+          or(isNull(seasonalPricingRules.pageType), eq(seasonalPricingRules.pageType, slot.pageType))
+        )
+      );
+
+    const seasonalDays = new Map<number, number>();
+    let seasonalAdjustment = 0;
+    const cursor = toUtc(startDate);
+    for (let i = 0; i < days; i++) {
+      const day = cursor.toISOString().split("T")[0];
+      const applicable = seasons.filter((r) => r.startDate <= day && r.endDate >= day);
+      const best = applicable.sort((a, b) => Number(b.multiplier) - Number(a.multiplier))[0];
+      if (best) {
+        seasonalAdjustment += perDay * (Number(best.multiplier) - 1);
+        seasonalDays.set(best.id, (seasonalDays.get(best.id) || 0) + 1);
+      }
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+
+    const [discount] = await db
+      .select()
+      .from(durationDiscounts)
+      .where(
+        and(
+          eq(durationDiscounts.isActive, true),
+          lte(durationDiscounts.minDays, days),
+          or(isNull(durationDiscounts.mediaType), eq(durationDiscounts.mediaType, slot.mediaType))
+        )
+      )
+      .orderBy(desc(durationDiscounts.discountPercent))
+      .limit(1);
+
+    const gross = baseAmount + seasonalAdjustment;
+    const discountPercent = discount ? Number(discount.discountPercent) : 0;
+    const discountAmount = (gross * discountPercent) / 100;
+
+    return {
+      slotId: slot.id,
+      startDate,
+      endDate,
+      days,
+      rateCardId: card.id,
+      baseAmount: round2(baseAmount),
+      seasonal: seasons
+        .filter((r) => seasonalDays.has(r.id))
+        .map((r) => ({ ruleId: r.id, name: r.name, multiplier: Number(r.multiplier), days: seasonalDays.get(r.id) || 0 })),
+      seasonalAdjustment: round2(seasonalAdjustment),
+      discountId: discount?.id ?? null,
+      discountPercent,
+      discountAmount: round2(discountAmount),
+      total: round2(gross - discountAmount),
+    };
+  }
+}
+
+export const pricingService = new PricingService();
@@ -0,0 +1,143 @@
+import { db } from "../db";
+import { workOrders, workOrderItems, workOrderQuotes, type User, type WorkOrder, type WorkOrderItem, type WorkOrderQuote } from "@shared/schema";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import type { DbTransaction } from "./availability";
+
+export type QuotedItem = {
+  id: number;
+  slotId: number | null;
+  addonType: string | null;
+  startDate: string;
+  endDate: string;
+  unitPrice: string;
+  subtotal: string;
+};
+
+export interface QuoteSnapshot {
+  totalAmount: string;
+  gstPercent: string;
+  paymentMode: string;
+  quotedAt: string | null;
+  items: QuotedItem[];
+}
+
+export class QuoteError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "QuoteError";
+  }
+}
+
+const toQuotedItem = (it: WorkOrderItem): QuotedItem => ({
+  id: it.id,
+  slotId: it.slotId ?? null,
+  addonType: it.addonType ?? null,
+  startDate: it.startDate,
+  endDate: it.endDate,
+  unitPrice: it.unitPrice,
+  subtotal: it.subtotal,
+});
+
+export function buildQuoteSnapshot(wo: WorkOrder, items: WorkOrderItem[]): QuoteSnapshot {
+  return {
+    totalAmount: wo.totalAmount,
+    gstPercent: wo.gstPercent,
+    paymentMode: wo.paymentMode,
+    quotedAt: wo.status === "draft" ? null : wo.updatedAt ? new Date(wo.updatedAt).toISOString() : null,
+    items: items.map(toQuotedItem),
+  };
+}
+
+// Decimal columns come back as strings with varying scale ("100" vs "100.00"), so compare as numbers
+const sameAmount = (a: string | number, b: string | number) => Math.abs(Number(a) - Number(b)) < 0.005;
+
+class QuoteService {
+  async list(workOrderId: number): Promise<Array<Omit<WorkOrderQuote, "items"> & { items: QuotedItem[] }>> {
+    const quotes = await db.select().from(workOrderQuotes).where(eq(workOrderQuotes.workOrderId, workOrderId)).orderBy(desc(workOrderQuotes.version));
+    return quotes.map((q) => ({ ...q, items: JSON.parse(q.items) as QuotedItem[] }));
+  }
+
+  async getLatest(workOrderId: number, executor: typeof db | DbTransaction = db): Promise<WorkOrderQuote | undefined> {
+    const [quote] = await executor
+      .select()
+      .from(workOrderQuotes)
+      .where(eq(workOrderQuotes.workOrderId, workOrderId))
+      .orderBy(desc(workOrderQuotes.version))
+      .limit(1);
+    return quote;
+  }
+
+  // Freezes the work order's current items, GST and total as the next quote version, inside the caller's
+  // transaction so the quote and the status change commit together
+  async freeze(tx: DbTransaction, workOrderId: number, quotedById: number): Promise<WorkOrderQuote> {
+    const [wo] = await tx.select().from(workOrders).where(eq(workOrders.id, workOrderId)).for("update");
+    if (!wo) throw new QuoteError("Work Order not found", 404);
+    const items = await tx.select().from(workOrderItems).where(eq(workOrderItems.workOrderId, workOrderId)).orderBy(workOrderItems.id);
+    const [last] = await tx
+      .select({ version: workOrderQuotes.version })
+      .from(workOrderQuotes)
+      .where(eq(workOrderQuotes.workOrderId, workOrderId))
+      .orderBy(desc(workOrderQuotes.version))
+      .limit(1);
+
+    const [quote] = await tx
+      .insert(workOrderQuotes)
+      .values({
+        workOrderId,
+        version: (last?.version ?? 0) + 1,
+        paymentMode: wo.paymentMode,
+        gstPercent: wo.gstPercent,
+        subtotal: items.reduce((sum, it) => sum + Number(it.subtotal), 0).toFixed(2),
+        totalAmount: wo.totalAmount,
+        items: JSON.stringify(items.map(toQuotedItem)),
+        quotedById,
+      })
+      .returning();
+    return quote;
+  }
+
+  // Describes the first difference between the frozen quote and the live work order, or null if they match
+  diff(quote: WorkOrderQuote, wo: WorkOrder, items: WorkOrderItem[]): string | null {
+    if (quote.paymentMode !== wo.paymentMode) return "payment type";
+    if (!sameAmount(quote.gstPercent, wo.gstPercent)) return "GST";
+    if (!sameAmount(quote.totalAmount, wo.totalAmount)) return "total";
+    const quoted = JSON.parse(quote.items) as QuotedItem[];
+    if (quoted.length !== items.length) return "items";
+    for (const it of items) {
+      const q = quoted.find((entry) => entry.id === it.id);
+      if (!q || q.startDate !== it.startDate || q.endDate !== it.endDate || !sameAmount(q.unitPrice, it.unitPrice) || !sameAmount(q.subtotal, it.subtotal)) {
+        return "items";
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Checks that `version` is the latest quote and that nothing has been edited since it was
+   * frozen, then records the acceptance on it. Run it in the transaction that moves the work order
+   * on, with the work order row locked, so an edit cannot slip in and a failed move undoes it.
+   */
+  async accept(tx: DbTransaction, wo: WorkOrder, version: number, actor: User): Promise<WorkOrderQuote> {
+    if (!Number.isInteger(version) || version < 1) throw new QuoteError("quoteVersion is required", 400);
+    const latest = await this.getLatest(wo.id, tx);
+    if (!latest) throw new QuoteError("This Work Order has not been quoted yet", 409);
+    if (latest.version !== version) {
+      throw new QuoteError(`Quote v${version} has been replaced by v${latest.version}. Please review the latest quote.`, 409);
+    }
+    const items = await tx.select().from(workOrderItems).where(eq(workOrderItems.workOrderId, wo.id));
+    const changed = this.diff(latest, wo, items);
+    if (changed) {
+      throw new QuoteError(`The Work Order ${changed} changed after quote v${version} was issued. Please ask for a revised quote.`, 409);
+    }
+
+    const [accepted] = await tx
+      .update(workOrderQuotes)
+      .set({ acceptedAt: new Date(), acceptedById: actor.id })
+      .where(and(eq(workOrderQuotes.id, latest.id), isNull(workOrderQuotes.acceptedAt)))
+      .returning();
+    if (!accepted) throw new QuoteError(`Quote v${version} was already accepted`, 409);
+    return accepted;
+  }
+}
+
+export const quoteService = new QuoteService();
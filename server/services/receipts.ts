@@ -0,0 +1,212 @@
+import { db } from "../db";
+import { invoices, receipts, releaseOrders, type Invoice, type Receipt, type User } from "@shared/schema";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { storage } from "../storage";
+import { isIsoDate, type DbTransaction } from "./availability";
+import { workOrderStateMachine, WORK_ORDER_TRANSITIONS } from "./work-order-state";
+import { paymentHoldService } from "./payment-holds";
+
+export interface ReceiptInput {
+  amount?: number; // defaults to whatever is still due, less TDS
+  tdsAmount?: number;
+  tdsSection?: Receipt["tdsSection"];
+  mode?: Receipt["mode"];
+  reference?: string | null;
+  receivedOn?: string;
+  note?: string | null;
+}
+
+export class ReceiptError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "ReceiptError";
+  }
+}
+
+type Executor = typeof db | DbTransaction;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const receiptModes = receipts.mode.enumValues;
+const tdsSections = receipts.tdsSection.enumValues;
+// Bank and UPI transfers are matched by their UTR, cheques by number, gateway payments by payment id
+const MODES_NEEDING_REFERENCE: Receipt["mode"][] = ["neft", "rtgs", "imps", "upi", "cheque", "gateway"];
+const settles = (receipt: Pick<Receipt, "amount" | "tdsAmount">) => Number(receipt.amount) + Number(receipt.tdsAmount ?? 0);
+
+/**
+ * Paid, credited and outstanding amounts of a work order. Receipts count as paid including the TDS
+ * the client deducted (received + TDS = paid); credit notes reduce what is owed unless the credited
+ * invoice was reissued.
+ */
+export function workOrderBalance(totalAmount: number, woInvoices: Invoice[], woReceipts: Receipt[]) {
+  const receivedAmount = round2(woReceipts.reduce((sum, r) => sum + Number(r.amount), 0));
+  const tdsAmount = round2(woReceipts.reduce((sum, r) => sum + Number(r.tdsAmount ?? 0), 0));
+  const paidAmount = round2(receivedAmount + tdsAmount);
+  const creditedAmount = round2(
+    woInvoices.filter((inv) => inv.invoiceType === "credit_note" && !inv.reissued).reduce((sum, inv) => sum + Number(inv.amount ?? 0), 0)
+  );
+  return { paidAmount, receivedAmount, tdsAmount, creditedAmount, pendingAmount: round2(totalAmount - creditedAmount - paidAmount) };
+}
+
+class ReceiptService {
+  async listForInvoice(invoiceId: number): Promise<Receipt[]> {
+    return await db.select().from(receipts).where(eq(receipts.invoiceId, invoiceId)).orderBy(desc(receipts.receivedOn), desc(receipts.id));
+  }
+
+  async listForWorkOrder(workOrderId: number): Promise<Receipt[]> {
+    return await db.select().from(receipts).where(eq(receipts.workOrderId, workOrderId)).orderBy(desc(receipts.receivedOn), desc(receipts.id));
+  }
+
+  async balanceOf(workOrderId: number) {
+    const wo = await storage.getWorkOrder(workOrderId);
+    if (!wo) throw new ReceiptError("Work Order not found", 404);
+    const woInvoices = await db.select().from(invoices).where(eq(invoices.workOrderId, workOrderId));
+    return workOrderBalance(Number(wo.totalAmount ?? 0), woInvoices, await this.listForWorkOrder(workOrderId));
+  }
+
+  // Invoices still expecting money, with what is due on each
+  async openInvoices(): Promise<Array<Invoice & { due: number }>> {
+    const open = await db.select().from(invoices).where(inArray(invoices.status, ["pending", "partial", "failed"]));
+    const result: Array<Invoice & { due: number }> = [];
+    for (const invoice of open) {
+      if (invoice.invoiceType === "credit_note") continue;
+      const due = await this.outstanding(db, invoice);
+      if (due > 0) result.push({ ...invoice, due });
+    }
+    return result;
+  }
+
+  async dueOn(invoice: Invoice) {
+    return await this.outstanding(db, invoice);
+  }
+
+  /**
+   * Fails before any money is taken if `incoming` (defaults to everything due on the invoice) would
+   * settle a work order that cannot be marked paid yet.
+   */
+  async assertCanReceive(invoice: Invoice, actor: User, incoming?: number) {
+    const wo = invoice.workOrderId ? await storage.getWorkOrder(invoice.workOrderId) : undefined;
+    if (!wo || ["paid", "active", "completed"].includes(wo.status)) return;
+    const { pendingAmount } = await this.balanceOf(wo.id);
+    const amount = incoming ?? (await this.outstanding(db, invoice));
+    if (pendingAmount - amount <= 0.005) await workOrderStateMachine.assertCan(wo, "record_payment", actor);
+  }
+
+  // Invoice amount less credit notes and what has already been settled
+  private async outstanding(tx: Executor, invoice: Invoice) {
+    const credits = await tx
+      .select({ amount: invoices.amount })
+      .from(invoices)
+      .where(and(eq(invoices.creditedInvoiceId, invoice.id), eq(invoices.invoiceType, "credit_note")));
+    const settled = await tx.select().from(receipts).where(eq(receipts.invoiceId, invoice.id));
+    return round2(
+      Number(invoice.amount) - credits.reduce((sum, c) => sum + Number(c.amount), 0) - settled.reduce((sum, r) => sum + settles(r), 0)
+    );
+  }
+
+  /**
+   * Records money received against an invoice and derives its status (partial or completed).
+   * The work order moves to paid and its release order to completed only once the whole work
+   * order total is settled.
+   */
+  async record(invoiceId: number, actor: User, input: ReceiptInput): Promise<{ receipt: Receipt; invoice: Invoice }> {
+    const tdsAmount = round2(Number(input.tdsAmount ?? 0));
+    if (!Number.isFinite(tdsAmount) || tdsAmount < 0) throw new ReceiptError("TDS must be zero or more", 400);
+    const tdsSection = tdsAmount > 0 ? input.tdsSection ?? null : null;
+    if (tdsAmount > 0 && (!tdsSection || !tdsSections.includes(tdsSection))) {
+      throw new ReceiptError(`TDS section must be one of ${tdsSections.join(", ")}`, 400);
+    }
+    if (input.amount !== undefined && (!Number.isFinite(input.amount) || input.amount <= 0)) {
+      throw new ReceiptError("Amount must be more than zero", 400);
+    }
+    const mode = input.mode ?? "other";
+    if (!receiptModes.includes(mode)) throw new ReceiptError(`Mode must be one of ${receiptModes.join(", ")}`, 400);
+    const reference = input.reference?.trim() || null;
+    if (MODES_NEEDING_REFERENCE.includes(mode) && !reference) {
+      throw new ReceiptError(mode === "cheque" ? "Cheque number is required" : "UTR / reference is required", 400);
+    }
+    const receivedOn = input.receivedOn ?? new Date().toISOString().slice(0, 10);
+    if (!isIsoDate(receivedOn)) throw new ReceiptError("receivedOn must be a YYYY-MM-DD date", 400);
+
+    const [current] = await db.select().from(invoices).where(eq(invoices.id, invoiceId));
+    if (!current) throw new ReceiptError("Invoice not found", 404);
+    await this.assertCanReceive(current, actor, input.amount !== undefined ? input.amount + tdsAmount : undefined);
+    const wo = current.workOrderId ? await storage.getWorkOrder(current.workOrderId) : undefined;
+
+    const result = await db.transaction(async (tx) => {
+      // Lock the invoice so concurrent receipts cannot overpay it
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for("update");
+      if (invoice.invoiceType === "credit_note" || invoice.status === "cancelled") {
+        throw new ReceiptError("Payments cannot be recorded against this invoice", 409);
+      }
+      const due = await this.outstanding(tx, invoice);
+      if (due <= 0) throw new ReceiptError("This invoice is already settled", 409);
+      const amount = round2(input.amount ?? due - tdsAmount);
+      if (amount <= 0) throw new ReceiptError("TDS cannot exceed the amount due", 400);
+      if (amount + tdsAmount > due + 0.005) {
+        throw new ReceiptError(`Only ${due.toFixed(2)} is due on this invoice`, 400);
+      }
+
+      const [receipt] = await tx
+        .insert(receipts)
+        .values({
+          invoiceId,
+          workOrderId: invoice.workOrderId,
+          amount: amount.toFixed(2),
+          tdsAmount: tdsAmount.toFixed(2),
+          tdsSection,
+          mode,
+          reference,
+          receivedOn,
+          note: input.note?.trim() || null,
+          recordedById: actor.id,
+        })
+        .returning();
+      const [updated] = await tx
+        .update(invoices)
+        .set({ status: due - amount - tdsAmount <= 0.005 ? "completed" : "partial" })
+        .where(eq(invoices.id, invoiceId))
+        .returning();
+      return { receipt, invoice: updated };
+    });
+
+    await storage.createActivityLog({
+      actorId: actor.id,
+      actorRole: actor.role,
+      action: "receipt_recorded",
+      entityType: "invoice",
+      entityId: invoiceId,
+      metadata: JSON.stringify({
+        receiptId: result.receipt.id,
+        amount: result.receipt.amount,
+        tdsAmount: result.receipt.tdsAmount,
+        tdsSection,
+        mode,
+        reference,
+        invoiceStatus: result.invoice.status,
+      }),
+    });
+    if (wo) await this.syncWorkOrder(wo.id, actor, invoiceId);
+    return result;
+  }
+
+  // Moves the release order's paymentStatus, the work order's status and any payment hold to match what is settled
+  async syncWorkOrder(workOrderId: number, actor: User, invoiceId?: number) {
+    const wo = await storage.getWorkOrder(workOrderId);
+    if (!wo) return;
+    const { paidAmount, pendingAmount } = await this.balanceOf(workOrderId);
+    const settled = pendingAmount <= 0.005;
+    const paymentStatus = settled ? "completed" : paidAmount > 0 ? "partial" : "pending";
+
+    const [ro] = await db.select().from(releaseOrders).where(eq(releaseOrders.workOrderId, workOrderId));
+    if (ro && ro.paymentStatus !== paymentStatus) {
+      await db.update(releaseOrders).set({ paymentStatus }).where(eq(releaseOrders.id, ro.id));
+    }
+    if (settled && WORK_ORDER_TRANSITIONS.record_payment.from.includes(wo.status)) {
+      await workOrderStateMachine.transition(workOrderId, "record_payment", actor, { metadata: { invoiceId } });
+    }
+    // A campaign paused for payment default resumes once nothing on the work order is overdue
+    await paymentHoldService.releaseIfCleared(workOrderId, actor);
+  }
+}
+
+export const receiptService = new ReceiptService();
@@ -0,0 +1,188 @@
+import { db } from "../db";
+import { slots, slotBlocks, slotHolds, type SlotBlock, type SlotHold } from "@shared/schema";
+import { and, eq, gt, lte, inArray, asc } from "drizzle-orm";
+import { slotAvailabilityService, type Occupancy, type DbTransaction } from "./availability";
+
+export interface SlotRange {
+  slotId: number;
+  startDate: string; // yyyy-mm-dd
+  endDate: string; // yyyy-mm-dd
+}
+
+export type SlotConflict = Occupancy;
+
+export class SlotConflictError extends Error {
+  status = 409;
+
+  constructor(public conflicts: SlotConflict[]) {
+    super(
+      conflicts.length === 1
+        ? conflicts[0].kind === "manager_block"
+          ? `Slot ${conflicts[0].slotId} is blocked by the manager for part of the selected dates. Please pick different dates or another slot.`
+          : `Slot ${conflicts[0].slotId} was just reserved by someone else for ${conflicts[0].startDate} to ${conflicts[0].endDate}. Please pick different dates or another slot.`
+        : `${conflicts.length} of the selected slots were just reserved by someone else. Please review your selection.`
+    );
+    this.name = "SlotConflictError";
+  }
+}
+
+export class SlotHoldError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "SlotHoldError";
+  }
+}
+
+const HOLD_TTL_MINUTES = (() => {
+  const value = Number(process.env.SLOT_HOLD_TTL_MINUTES);
+  return Number.isFinite(value) && value > 0 ? value : 15;
+})();
+
+class SlotReservationService {
+  get holdTtlMinutes() {
+    return HOLD_TTL_MINUTES;
+  }
+
+  // Row-locks the slots (in id order, so concurrent requests cannot deadlock) for the rest of the transaction
+  private async lockSlots(tx: DbTransaction, slotIds: number[]) {
+    const ids = Array.from(new Set(slotIds)).sort((a, b) => a - b);
+    if (ids.length === 0) return [];
+    const locked = await tx.select({ id: slots.id }).from(slots).where(inArray(slots.id, ids)).orderBy(asc(slots.id)).for("update");
+    const missing = ids.filter((id) => !locked.some((row) => row.id === id));
+    if (missing.length > 0) {
+      throw new SlotHoldError(`Slot ${missing[0]} not found`, 404);
+    }
+    return locked;
+  }
+
+  // Anything already occupying the ranges, ignoring holds owned by `ownerIds`
+  private async findConflicts(tx: DbTransaction, ranges: SlotRange[], ownerIds: number[], excludeWorkOrderId?: number) {
+    const conflicts: SlotConflict[] = [];
+    for (const range of ranges) {
+      const occupied = await slotAvailabilityService.getOccupancies([range.slotId], range.startDate, range.endDate, {
+        ignoreHoldsOf: ownerIds,
+        excludeWorkOrderId,
+        executor: tx,
+      });
+      if (occupied[0]) conflicts.push(occupied[0]);
+    }
+    return conflicts;
+  }
+
+  /**
+   * Manager block over a date range. Runs under the same slot lock as reservations, so it cannot land
+   * on dates a work order is being reserved for at the same moment, nor on another block.
+   */
+  async block(slotId: number, range: { startDate: string; endDate: string; reason: string | null }, createdById: number): Promise<SlotBlock> {
+    return await db.transaction(async (tx) => {
+      await this.lockSlots(tx, [slotId]);
+      const occupied = await slotAvailabilityService.getOccupancies([slotId], range.startDate, range.endDate, {
+        kinds: ["manager_block", "work_order", "booking"],
+        executor: tx,
+      });
+      if (occupied.some((o) => o.kind !== "manager_block")) {
+        throw new SlotHoldError("Cannot block this slot: overlaps with an existing client work order period.", 409);
+      }
+      const existing = occupied.find((o) => o.kind === "manager_block");
+      if (existing) throw new SlotHoldError(`Slot is already blocked from ${existing.startDate} to ${existing.endDate}`, 409);
+      const [block] = await tx
+        .insert(slotBlocks)
+        .values({ slotId, startDate: range.startDate, endDate: range.endDate, reason: range.reason, status: "active", createdById })
+        .returning();
+      return block;
+    });
+  }
+
+  // Takes a date-range hold on a slot; replaces any live hold the same user already had on that slot
+  async hold(slotId: number, userId: number, startDate: string, endDate: string): Promise<SlotHold> {
+    if (!startDate || !endDate || startDate > endDate) {
+      throw new SlotHoldError("A valid startDate and endDate are required to hold a slot", 400);
+    }
+    return await db.transaction(async (tx) => {
+      await this.lockSlots(tx, [slotId]);
+      const conflicts = await this.findConflicts(tx, [{ slotId, startDate, endDate }], [userId]);
+      if (conflicts.length > 0) throw new SlotConflictError(conflicts);
+
+      await tx
+        .update(slotHolds)
+        .set({ status: "released", releasedAt: new Date() })
+        .where(and(eq(slotHolds.slotId, slotId), eq(slotHolds.userId, userId), eq(slotHolds.status, "active")));
+
+      const [created] = await tx
+        .insert(slotHolds)
+        .values({
+          slotId,
+          userId,
+          startDate,
+          endDate,
+          status: "active",
+          expiresAt: new Date(Date.now() + HOLD_TTL_MINUTES * 60 * 1000),
+        })
+        .returning();
+      return created;
+    });
+  }
+
+  async release(slotId: number, userId: number): Promise<SlotHold | null> {
+    const released = await db
+      .update(slotHolds)
+      .set({ status: "released", releasedAt: new Date() })
+      .where(and(eq(slotHolds.slotId, slotId), eq(slotHolds.userId, userId), eq(slotHolds.status, "active")))
+      .returning();
+    return released[0] || null;
+  }
+
+  async getActiveHolds(userId: number): Promise<SlotHold[]> {
+    return await db
+      .select()
+      .from(slotHolds)
+      .where(and(eq(slotHolds.userId, userId), eq(slotHolds.status, "active"), gt(slotHolds.expiresAt, new Date())));
+  }
+
+  /**
+   * Runs `work` in a transaction that holds row locks on every slot in `ranges`, after checking
+   * that none of the ranges overlap another work order or someone else's live hold. Holds owned by
+   * `ownerIds` on those slots are marked confirmed against the work order id returned by `work`.
+   */
+  async reserveForWorkOrder<T extends { workOrderId: number }>(
+    ranges: SlotRange[],
+    ownerIds: number[],
+    work: (tx: DbTransaction) => Promise<T>,
+    options: { excludeWorkOrderId?: number } = {}
+  ): Promise<T> {
+    return await db.transaction(async (tx) => {
+      await this.lockSlots(tx, ranges.map((r) => r.slotId));
+      const conflicts = await this.findConflicts(tx, ranges, ownerIds, options.excludeWorkOrderId);
+      if (conflicts.length > 0) throw new SlotConflictError(conflicts);
+
+      const result = await work(tx);
+
+      const slotIds = Array.from(new Set(ranges.map((r) => r.slotId)));
+      if (slotIds.length > 0 && ownerIds.length > 0) {
+        await tx
+          .update(slotHolds)
+          .set({ status: "confirmed", workOrderId: result.workOrderId, releasedAt: new Date() })
+          .where(
+            and(
+              inArray(slotHolds.slotId, slotIds),
+              inArray(slotHolds.userId, ownerIds),
+              eq(slotHolds.status, "active")
+            )
+          );
+      }
+      return result;
+    });
+  }
+
+  // Marks holds past their TTL as expired; returns how many were swept
+  async expireHolds(): Promise<number> {
+    const expired = await db
+      .update(slotHolds)
+      .set({ status: "expired", releasedAt: new Date() })
+      .where(and(eq(slotHolds.status, "active"), lte(slotHolds.expiresAt, new Date())))
+      .returning({ id: slotHolds.id });
+    return expired.length;
+  }
+}
+
+export const slotReservationService = new SlotReservationService();
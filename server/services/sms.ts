@@ -0,0 +1,108 @@
+import axios from "axios";
+import fs from "fs";
+import path from "path";
+
+interface SmsMessage {
+  to: string;
+  message: string;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+  send(options: SmsMessage): Promise<boolean>;
+}
+
+// Development stand-in: prints the message and keeps a copy in server/logs/sms-outbox.log
+class LocalSmsProvider implements SmsProvider {
+  readonly name = "local";
+  private outboxPath = path.resolve(process.cwd(), "server", "logs", "sms-outbox.log");
+
+  async send(options: SmsMessage): Promise<boolean> {
+    console.log(`\n📱 SMS to ${options.to}: ${options.message}\n`);
+    try {
+      fs.mkdirSync(path.dirname(this.outboxPath), { recursive: true });
+      fs.appendFileSync(this.outboxPath, `${new Date().toISOString()}\t${options.to}\t${options.message}\n`);
+    } catch (error) {
+      console.error("Error writing SMS outbox:", error);
+    }
+    return true;
+  }
+}
+
+// Generic HTTP gateway (MSG91, Twilio, Gupshup etc. behind a simple JSON endpoint)
+class HttpSmsProvider implements SmsProvider {
+  readonly name = "http";
+
+  constructor(private apiUrl: string, private apiKey: string, private senderId: string) {}
+
+  async send(options: SmsMessage): Promise<boolean> {
+    try {
+      await axios.post(
+        this.apiUrl,
+        {
+          to: options.to,
+          sender: this.senderId,
+          message: options.message,
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${this.apiKey}`,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+      console.log(`SMS sent successfully to ${options.to}`);
+      return true;
+    } catch (error) {
+      console.error("Error sending SMS:", error);
+      return false;
+    }
+  }
+}
+
+class SmsService {
+  private provider: SmsProvider | null;
+
+  constructor() {
+    const configured = process.env.SMS_PROVIDER;
+    if (configured === "http") {
+      const apiUrl = process.env.SMS_API_URL;
+      const apiKey = process.env.SMS_API_KEY;
+      const missing = Object.entries({ SMS_API_URL: apiUrl, SMS_API_KEY: apiKey })
+        .filter(([, value]) => !value)
+        .map(([name]) => name);
+      if (missing.length > 0) throw new Error(`SMS_PROVIDER=http requires ${missing.join(", ")}`);
+      this.provider = new HttpSmsProvider(apiUrl!, apiKey!, process.env.SMS_SENDER_ID || "TIMEAD");
+    } else if (configured && configured !== "local") {
+      throw new Error(`Unknown SMS_PROVIDER "${configured}"`);
+    } else if (process.env.NODE_ENV === "production") {
+      // The local provider logs every code it sends; it never runs in production
+      this.provider = null;
+    } else {
+      this.provider = new LocalSmsProvider();
+    }
+  }
+
+  // Allows swapping the gateway at runtime (e.g. in scripts or tests)
+  setProvider(provider: SmsProvider) {
+    if (provider instanceof LocalSmsProvider && process.env.NODE_ENV === "production") {
+      throw new Error("The local SMS provider cannot be used in production");
+    }
+    this.provider = provider;
+  }
+
+  async sendMessage(options: SmsMessage): Promise<boolean> {
+    if (!this.provider) {
+      console.error("SMS is not configured; set SMS_PROVIDER=http with SMS_API_URL and SMS_API_KEY");
+      return false;
+    }
+    return this.provider.send(options);
+  }
+
+  async sendOtp(phone: string, code: string, ttlMinutes: number) {
+    const message = `${code} is your TIME Ad Management login code. It expires in ${ttlMinutes} minutes. Do not share it with anyone.`;
+    return this.sendMessage({ to: phone, message });
+  }
+}
+
+export const smsService = new SmsService();
@@ -0,0 +1,174 @@
+import { db } from "../db";
+import { invoices, type Invoice, type User, type WorkOrderItem } from "@shared/schema";
+import { and, eq, inArray, isNull, ne } from "drizzle-orm";
+import { storage } from "../storage";
+import { notificationService } from "./notification";
+import { invoiceTaxFields } from "./gst";
+
+// Used when a slot or add-on has no SAC of its own: sale of internet advertising space or time
+export const DEFAULT_SAC = "998365";
+
+export interface TaxInvoiceLine {
+  workOrderItemId: number;
+  description: string;
+  startDate: string | null;
+  endDate: string | null;
+  sacCode: string;
+  taxableAmount: number;
+}
+
+export class TaxInvoiceError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "TaxInvoiceError";
+  }
+}
+
+const titleCase = (value: string) => value.replace(/_/g, " ").replace(/\b\w/g, (m) => m.toUpperCase());
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+class TaxInvoiceService {
+  // Description and SAC of a work order item as printed on an invoice
+  async describeItem(item: WorkOrderItem): Promise<{ description: string; sacCode: string }> {
+    if (item.addonType) {
+      const product = await storage.getAddonProductByCode(item.addonType);
+      return {
+        description: product?.name ?? (item.addonType === "email" ? "Email Campaign" : "WhatsApp Campaign"),
+        sacCode: product?.sacCode ?? DEFAULT_SAC,
+      };
+    }
+    const slot = item.slotId ? await storage.getSlot(item.slotId) : undefined;
+    if (!slot) return { description: `Item ${item.id}`, sacCode: DEFAULT_SAC };
+    const parts = [titleCase(slot.mediaType), titleCase(slot.pageType), titleCase(slot.position), slot.dimensions].filter(Boolean);
+    return { description: parts.join(" • ") || `Slot ${slot.id}`, sacCode: slot.sacCode };
+  }
+
+  /**
+   * Splits `taxableAmount` across the work order items in proportion to their quoted subtotals, so
+   * an installment proforma still yields lines that add up to exactly its taxable value.
+   */
+  async buildLines(items: WorkOrderItem[], taxableAmount: number): Promise<TaxInvoiceLine[]> {
+    const itemsTotal = items.reduce((sum, it) => sum + Number(it.subtotal), 0);
+    const lines: TaxInvoiceLine[] = [];
+    let allocated = 0;
+    for (let index = 0; index < items.length; index++) {
+      const item = items[index];
+      const { description, sacCode } = await this.describeItem(item);
+      const share =
+        index === items.length - 1
+          ? round2(taxableAmount - allocated)
+          : round2(itemsTotal > 0 ? (taxableAmount * Number(item.subtotal)) / itemsTotal : taxableAmount / items.length);
+      allocated = round2(allocated + share);
+      lines.push({ workOrderItemId: item.id, description, startDate: item.startDate, endDate: item.endDate, sacCode, taxableAmount: share });
+    }
+    return lines;
+  }
+
+  parseLines(invoice: Invoice): TaxInvoiceLine[] | null {
+    return invoice.lineItems ? (JSON.parse(invoice.lineItems) as TaxInvoiceLine[]) : null;
+  }
+
+  /**
+   * Issues the tax invoice for a paid proforma: same amount and GST breakup, its own number from
+   * the tax invoice series, and per-line SAC codes frozen on the row. One tax invoice per proforma.
+   */
+  async createFromProforma(proformaId: number, actor: User): Promise<Invoice> {
+    const [proforma] = await db.select().from(invoices).where(eq(invoices.id, proformaId));
+    if (!proforma) throw new TaxInvoiceError("Invoice not found", 404);
+    if (proforma.invoiceType !== "proforma") throw new TaxInvoiceError("Only proforma invoices can be converted", 400);
+    if (proforma.status !== "completed") throw new TaxInvoiceError("The proforma must be paid before a tax invoice is issued", 409);
+    const [existing] = await db
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.proformaInvoiceId, proformaId), eq(invoices.invoiceType, "tax_invoice")));
+    if (existing) throw new TaxInvoiceError(`Tax invoice ${existing.invoiceNumber ?? `#${existing.id}`} was already issued for this proforma`, 409);
+
+    const wo = proforma.workOrderId ? await storage.getWorkOrder(proforma.workOrderId) : undefined;
+    if (!wo) throw new TaxInvoiceError("The proforma is not linked to a work order", 400);
+    // Older work orders may carry a tax invoice recorded by hand against the release order
+    const [recordedByHand] = await db
+      .select()
+      .from(invoices)
+      .where(
+        and(
+          eq(invoices.workOrderId, wo.id),
+          eq(invoices.invoiceType, "tax_invoice"),
+          ne(invoices.status, "cancelled"),
+          isNull(invoices.proformaInvoiceId),
+          isNull(invoices.installmentNumber)
+        )
+      );
+    if (recordedByHand) {
+      throw new TaxInvoiceError(
+        `Tax invoice ${recordedByHand.invoiceNumber ?? `#${recordedByHand.id}`} was already recorded for this work order; cancel it before issuing another`,
+        409
+      );
+    }
+    const client = await storage.getUser(wo.clientId);
+    const amount = Number(proforma.amount);
+    // Keep the breakup the client was billed with; older proformas without one are split now
+    const taxFields = proforma.supplyType
+      ? {
+          taxableAmount: proforma.taxableAmount,
+          gstPercent: proforma.gstPercent,
+          supplyType: proforma.supplyType,
+          placeOfSupply: proforma.placeOfSupply,
+          recipientGstin: proforma.recipientGstin,
+          cgstAmount: proforma.cgstAmount,
+          sgstAmount: proforma.sgstAmount,
+          igstAmount: proforma.igstAmount,
+        }
+      : invoiceTaxFields(wo, client, amount);
+    const lines = await this.buildLines(await storage.getWorkOrderItems(wo.id), Number(taxFields.taxableAmount));
+
+    const taxInvoice = await storage.createInvoice({
+      ...taxFields,
+      workOrderId: wo.id,
+      amount: proforma.amount,
+      status: "completed",
+      invoiceType: "tax_invoice",
+      generatedById: actor.id,
+      proformaInvoiceId: proforma.id,
+      lineItems: JSON.stringify(lines),
+    });
+
+    await storage.createActivityLog({
+      actorId: actor.id,
+      actorRole: actor.role,
+      action: "tax_invoice_issued",
+      entityType: "invoice",
+      entityId: taxInvoice.id,
+      metadata: JSON.stringify({ invoiceNumber: taxInvoice.invoiceNumber, proformaInvoiceId: proforma.id, workOrderId: wo.id }),
+    });
+    await notificationService.createNotification({
+      userId: wo.clientId,
+      type: "tax_invoice_issued",
+      message: `Tax invoice ${taxInvoice.invoiceNumber} has been issued for Work Order #${wo.id}.`,
+    });
+    return taxInvoice;
+  }
+
+  // Tax invoices issued (and not cancelled) for a work order
+  async issuedFor(workOrderId: number): Promise<Invoice[]> {
+    return await db
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.workOrderId, workOrderId), eq(invoices.invoiceType, "tax_invoice"), ne(invoices.status, "cancelled")));
+  }
+
+  /**
+   * Attaches the signed PDF accounts upload against a release order to the tax invoices already
+   * issued for its work order. It never raises an invoice of its own, so nothing is billed twice.
+   */
+  async attachSignedCopy(workOrderId: number, fileUrl: string): Promise<Invoice[]> {
+    const issued = await this.issuedFor(workOrderId);
+    if (issued.length === 0) return [];
+    return await db
+      .update(invoices)
+      .set({ fileUrl })
+      .where(inArray(invoices.id, issued.map((inv) => inv.id)))
+      .returning();
+  }
+}
+
+export const taxInvoiceService = new TaxInvoiceService();
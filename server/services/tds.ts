@@ -0,0 +1,174 @@
+import fs from "fs";
+import path from "path";
+import { db } from "../db";
+import { receipts, tdsCertificates, workOrders, type TdsCertificate, type User } from "@shared/schema";
+import { and, desc, eq, gt, inArray, isNull } from "drizzle-orm";
+import { storage } from "../storage";
+import { financialYearOf } from "./numbering";
+
+export interface CertificateInput {
+  clientId: number;
+  financialYear: string;
+  quarter: number;
+  certificateNumber: string;
+  tdsAmount: number;
+}
+
+// TDS deducted by one client in one quarter that no Form 16A covers yet
+export interface OutstandingTds {
+  clientId: number;
+  clientName: string;
+  financialYear: string;
+  quarter: number;
+  tdsAmount: number;
+  receiptIds: number[];
+  certificateDueOn: string;
+  overdue: boolean;
+}
+
+export class TdsError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "TdsError";
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Financial year and quarter (1 = Apr-Jun ... 4 = Jan-Mar) a YYYY-MM-DD date falls in
+export function tdsQuarterOf(isoDate: string) {
+  const month = Number(isoDate.slice(5, 7));
+  return { financialYear: financialYearOf(new Date(`${isoDate}T12:00:00Z`)).short, quarter: month >= 4 ? Math.floor((month - 4) / 3) + 1 : 4 };
+}
+
+// Deductors must issue Form 16A within 15 days of the quarterly TDS return due date
+export function certificateDueDate(financialYear: string, quarter: number) {
+  const startYear = 2000 + Number(financialYear.slice(0, 2));
+  const [year, monthDay] = [
+    [startYear, "08-15"],
+    [startYear, "11-15"],
+    [startYear + 1, "02-15"],
+    [startYear + 1, "06-15"],
+  ][quarter - 1] as [number, string];
+  return `${year}-${monthDay}`;
+}
+
+class TdsService {
+  async listCertificates(clientId?: number): Promise<TdsCertificate[]> {
+    const query = db.select().from(tdsCertificates);
+    return await (clientId !== undefined ? query.where(eq(tdsCertificates.clientId, clientId)) : query).orderBy(desc(tdsCertificates.createdAt));
+  }
+
+  // Receipts with TDS deducted and no certificate yet, with the client they came from
+  private async uncertified(clientId?: number) {
+    const rows = await db
+      .select({ receipt: receipts, clientId: workOrders.clientId, businessSchoolName: workOrders.businessSchoolName })
+      .from(receipts)
+      .innerJoin(workOrders, eq(receipts.workOrderId, workOrders.id))
+      .where(
+        and(
+          gt(receipts.tdsAmount, "0"),
+          isNull(receipts.tdsCertificateId),
+          ...(clientId !== undefined ? [eq(workOrders.clientId, clientId)] : [])
+        )
+      );
+    return rows;
+  }
+
+  async outstanding(clientId?: number): Promise<OutstandingTds[]> {
+    const today = new Date().toISOString().slice(0, 10);
+    const groups = new Map<string, OutstandingTds>();
+    for (const row of await this.uncertified(clientId)) {
+      const { financialYear, quarter } = tdsQuarterOf(row.receipt.receivedOn);
+      const key = `${row.clientId}|${financialYear}|${quarter}`;
+      let group = groups.get(key);
+      if (!group) {
+        const client = await storage.getUser(row.clientId);
+        const certificateDueOn = certificateDueDate(financialYear, quarter);
+        group = {
+          clientId: row.clientId,
+          clientName: row.businessSchoolName || client?.businessSchoolName || client?.name || `Client #${row.clientId}`,
+          financialYear,
+          quarter,
+          tdsAmount: 0,
+          receiptIds: [],
+          certificateDueOn,
+          overdue: certificateDueOn < today,
+        };
+        groups.set(key, group);
+      }
+      group.tdsAmount = round2(group.tdsAmount + Number(row.receipt.tdsAmount));
+      group.receiptIds.push(row.receipt.id);
+    }
+    return Array.from(groups.values()).sort((a, b) => a.certificateDueOn.localeCompare(b.certificateDueOn) || a.clientName.localeCompare(b.clientName));
+  }
+
+  /**
+   * Stores a Form 16A and marks the client's uncertified TDS receipts of that quarter as covered.
+   * The certified amount is kept as given; `difference` tells accounts when it does not agree with
+   * what was recorded on the receipts.
+   */
+  async uploadCertificate(input: CertificateInput, file: { buffer: Buffer; mimetype: string }, actor: User) {
+    const certificateNumber = (input.certificateNumber ?? "").trim();
+    if (!certificateNumber) throw new TdsError("Certificate number is required", 400);
+    if (!/^\d{2}-\d{2}$/.test(input.financialYear ?? "")) throw new TdsError("Financial year must look like 25-26", 400);
+    if (![1, 2, 3, 4].includes(input.quarter)) throw new TdsError("Quarter must be 1, 2, 3 or 4", 400);
+    if (!Number.isFinite(input.tdsAmount) || input.tdsAmount <= 0) throw new TdsError("Certified TDS amount must be more than zero", 400);
+    if (file.mimetype !== "application/pdf") throw new TdsError("Only PDF files are allowed", 400);
+    if (!Number.isInteger(input.clientId)) throw new TdsError("A valid clientId is required", 400);
+    const client = await storage.getUser(input.clientId);
+    if (!client || client.role !== "client") throw new TdsError("Client not found", 404);
+
+    const fileName = `form16a-${input.clientId}-${input.financialYear}-q${input.quarter}-${Date.now()}.pdf`;
+    const covered = (await this.uncertified(input.clientId)).filter((row) => {
+      const period = tdsQuarterOf(row.receipt.receivedOn);
+      return period.financialYear === input.financialYear && period.quarter === input.quarter;
+    });
+
+    const certificate = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(tdsCertificates)
+        .values({
+          clientId: input.clientId,
+          financialYear: input.financialYear,
+          quarter: input.quarter,
+          certificateNumber,
+          tdsAmount: input.tdsAmount.toFixed(2),
+          fileUrl: `/uploads/${fileName}`,
+          uploadedById: actor.id,
+        })
+        .returning();
+      if (covered.length > 0) {
+        await tx
+          .update(receipts)
+          .set({ tdsCertificateId: created.id })
+          .where(and(inArray(receipts.id, covered.map((row) => row.receipt.id)), isNull(receipts.tdsCertificateId)));
+      }
+      // Written last, so a rejected upload leaves no file behind and a failed write rolls the row back
+      const uploadDir = path.resolve(process.cwd(), "server", "uploads");
+      if (!fs.existsSync(uploadDir)) fs.mkdirSync(uploadDir, { recursive: true });
+      fs.writeFileSync(path.join(uploadDir, fileName), file.buffer);
+      return created;
+    });
+
+    const recorded = round2(covered.reduce((sum, row) => sum + Number(row.receipt.tdsAmount), 0));
+    await storage.createActivityLog({
+      actorId: actor.id,
+      actorRole: actor.role,
+      action: "tds_certificate_uploaded",
+      entityType: "client",
+      entityId: input.clientId,
+      metadata: JSON.stringify({
+        certificateId: certificate.id,
+        certificateNumber,
+        financialYear: input.financialYear,
+        quarter: input.quarter,
+        certified: input.tdsAmount,
+        recorded,
+      }),
+    });
+    return { certificate, receiptIds: covered.map((row) => row.receipt.id), recorded, difference: round2(input.tdsAmount - recorded) };
+  }
+}
+
+export const tdsService = new TdsService();
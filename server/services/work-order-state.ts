@@ -0,0 +1,151 @@
+import { db } from "../db";
+import { activityLogs, workOrderItems, workOrders, type User, type WorkOrder, type WorkOrderItem, type InsertWorkOrder } from "@shared/schema";
+import { and, eq } from "drizzle-orm";
+import { storage } from "../storage";
+import type { DbTransaction } from "./availability";
+
+export type WorkOrderStatus = WorkOrder["status"];
+type Role = User["role"];
+
+export type WorkOrderEvent =
+  | "quote"
+  | "request_negotiation"
+  | "accept"
+  | "approve_po"
+  | "reject"
+  | "record_payment"
+  | "activate"
+  | "complete";
+
+interface GuardContext {
+  workOrder: WorkOrder;
+  items: WorkOrderItem[];
+}
+
+interface Guard {
+  message: string;
+  check(ctx: GuardContext): boolean;
+}
+
+const GUARDS = {
+  allItemsPriced: {
+    message: "Every slot item must have a price before the work order can be quoted",
+    check: ({ items }) => items.length > 0 && items.every((it) => !!it.addonType || Number(it.unitPrice) > 0),
+  },
+  poUploaded: {
+    message: "Purchase Order (PO) must be uploaded first",
+    check: ({ workOrder }) => !!workOrder.poUrl,
+  },
+  noOpenNegotiation: {
+    message: "A negotiation request is open; wait for the manager's revised quote",
+    check: ({ workOrder }) => !workOrder.negotiationRequested,
+  },
+} satisfies Record<string, Guard>;
+
+interface TransitionDef {
+  from: WorkOrderStatus[];
+  to: WorkOrderStatus;
+  roles: Role[];
+  guards: Guard[];
+  // Activity log action written for every accepted transition
+  action: string;
+}
+
+// Admin may trigger any edge; every other role must be listed
+export const WORK_ORDER_TRANSITIONS: Record<WorkOrderEvent, TransitionDef> = {
+  quote: { from: ["draft", "quoted"], to: "quoted", roles: ["manager"], guards: [GUARDS.allItemsPriced], action: "work_order_quoted" },
+  request_negotiation: { from: ["quoted"], to: "quoted", roles: ["client"], guards: [], action: "work_order_negotiation_requested" },
+  accept: {
+    from: ["quoted"],
+    to: "client_accepted",
+    roles: ["client"],
+    guards: [GUARDS.poUploaded, GUARDS.noOpenNegotiation],
+    action: "work_order_client_accepted",
+  },
+  approve_po: { from: ["quoted", "client_accepted"], to: "client_accepted", roles: ["manager"], guards: [GUARDS.poUploaded], action: "po_approved" },
+  reject: { from: ["draft", "quoted", "client_accepted"], to: "rejected", roles: ["manager"], guards: [], action: "work_order_rejected" },
+  record_payment: { from: ["client_accepted"], to: "paid", roles: ["client", "accounts"], guards: [], action: "work_order_paid" },
+  activate: { from: ["paid"], to: "active", roles: ["manager"], guards: [], action: "work_order_activated" },
+  complete: { from: ["active"], to: "completed", roles: ["manager"], guards: [], action: "work_order_completed" },
+};
+
+export class WorkOrderTransitionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "WorkOrderTransitionError";
+  }
+}
+
+const describe = (event: WorkOrderEvent) => event.replace(/_/g, " ");
+
+class WorkOrderStateMachine {
+  // Throws a WorkOrderTransitionError explaining why `actor` may not fire `event` right now
+  async assertCan(workOrder: WorkOrder, event: WorkOrderEvent, actor: User, items?: WorkOrderItem[]) {
+    const def = WORK_ORDER_TRANSITIONS[event];
+    if (!def.from.includes(workOrder.status)) {
+      throw new WorkOrderTransitionError(
+        `Cannot ${describe(event)} work order #${workOrder.id} while it is ${workOrder.status.replace(/_/g, " ")}`,
+        409
+      );
+    }
+    if (actor.role !== "admin" && !def.roles.includes(actor.role)) {
+      throw new WorkOrderTransitionError(`Your role cannot ${describe(event)} this work order`, 403);
+    }
+    const ctx = { workOrder, items: items ?? (await storage.getWorkOrderItems(workOrder.id)) };
+    const failed = def.guards.find((guard) => !guard.check(ctx));
+    if (failed) {
+      throw new WorkOrderTransitionError(failed.message, 409);
+    }
+  }
+
+  async allowedEvents(workOrder: WorkOrder, actor: User): Promise<WorkOrderEvent[]> {
+    const items = await storage.getWorkOrderItems(workOrder.id);
+    const allowed: WorkOrderEvent[] = [];
+    for (const event of Object.keys(WORK_ORDER_TRANSITIONS) as WorkOrderEvent[]) {
+      try {
+        await this.assertCan(workOrder, event, actor, items);
+        allowed.push(event);
+      } catch {}
+    }
+    return allowed;
+  }
+
+  /**
+   * Fires `event` on the work order: checks the edge, role and guards, applies `patch` together
+   * with the new status (only if nobody changed the status meanwhile) and writes the activity log.
+   * Pass `tx` to make the transition part of a caller's transaction.
+   */
+  async transition(
+    workOrderId: number,
+    event: WorkOrderEvent,
+    actor: User,
+    options: { patch?: Partial<InsertWorkOrder>; metadata?: Record<string, unknown>; tx?: DbTransaction } = {}
+  ): Promise<WorkOrder> {
+    const executor = options.tx ?? db;
+    const [workOrder] = await executor.select().from(workOrders).where(eq(workOrders.id, workOrderId));
+    if (!workOrder) throw new WorkOrderTransitionError("Work Order not found", 404);
+    await this.assertCan(workOrder, event, actor, await executor.select().from(workOrderItems).where(eq(workOrderItems.workOrderId, workOrderId)));
+
+    const def = WORK_ORDER_TRANSITIONS[event];
+    const [updated] = await executor
+      .update(workOrders)
+      .set({ ...options.patch, status: def.to, updatedAt: new Date() })
+      .where(and(eq(workOrders.id, workOrderId), eq(workOrders.status, workOrder.status)))
+      .returning();
+    if (!updated) {
+      throw new WorkOrderTransitionError(`Work order #${workOrderId} was updated by someone else; please reload`, 409);
+    }
+
+    await executor.insert(activityLogs).values({
+      actorId: actor.id,
+      actorRole: actor.role,
+      action: def.action,
+      entityType: "work_order",
+      entityId: workOrderId,
+      metadata: JSON.stringify({ event, from: workOrder.status, to: def.to, ...options.metadata }),
+    });
+    return updated;
+  }
+}
+
+export const workOrderStateMachine = new WorkOrderStateMachine();
@@ -3,6 +3,12 @@ import {
   users, type User, type InsertUser,
   otpCodes, type OtpCode, type InsertOtpCode,
   slots, type Slot, type InsertSlot,
+  slotBlocks, type SlotBlock, type InsertSlotBlock,
+  rateCards, type RateCard, type InsertRateCard,
+  seasonalPricingRules, type SeasonalPricingRule, type InsertSeasonalPricingRule,
+  durationDiscounts, type DurationDiscount, type InsertDurationDiscount,
+  addonProducts, type AddonProduct, type InsertAddonProduct,
+  addonProductPrices, type AddonProductPrice, type InsertAddonProductPrice,
   bookings, type Booking, type InsertBooking,
   banners, type Banner, type InsertBanner,
   approvals, type Approval, type InsertApproval,
@@ -15,12 +21,15 @@ import {
   versionHistory, type VersionHistory, type InsertVersionHistory,
   workOrders, type WorkOrder, type InsertWorkOrder,
   workOrderItems, type WorkOrderItem, type InsertWorkOrderItem,
+  workOrderNegotiations, type WorkOrderNegotiation, type InsertWorkOrderNegotiation,
   releaseOrders, type ReleaseOrder, type InsertReleaseOrder,
   releaseOrderItems, type ReleaseOrderItem, type InsertReleaseOrderItem,
   activityLogs, type ActivityLog, type InsertActivityLog,
   deployments, type Deployment, type InsertDeployment
 } from "@shared/schema";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { eq, and, desc, sql, gte, lte, isNull } from "drizzle-orm";
+import { numberingService } from "./services/numbering";
+import type { DbTransaction } from "./services/availability";
 
 export interface IStorage {
   // Users
@@ -31,17 +40,46 @@ export interface IStorage {
   
   // OTP
   createOtpCode(otp: InsertOtpCode): Promise<OtpCode>;
-  getValidOtp(phone: string, code: string): Promise<OtpCode | undefined>;
-  markOtpAsVerified(id: number): Promise<void>;
+  getLatestOtp(phone: string): Promise<OtpCode | undefined>;
+  countOtpsSince(filter: { phone?: string; requestIp?: string }, since: Date): Promise<number>;
+  invalidateOtps(phone: string): Promise<void>;
+  updateOtpCode(id: number, otp: Partial<OtpCode>): Promise<void>;
+  incrementOtpAttempts(id: number): Promise<number>;
+  markOtpAsVerified(id: number): Promise<boolean>;
   
   // Slots
   getAllSlots(): Promise<Slot[]>;
   getSlot(id: number): Promise<Slot | undefined>;
   createSlot(slot: InsertSlot): Promise<Slot>;
   updateSlot(id: number, slot: Partial<InsertSlot>): Promise<Slot | undefined>;
-  selectSlot(slotId: number, userId: number): Promise<Slot | null>;
-  releaseSlot(slotId: number, userId: number): Promise<Slot | null>;
-  confirmSlot(slotId: number, userId: number): Promise<Slot | null>;
+
+  // Slot blocks
+  getSlotBlocks(filter?: { slotId?: number; status?: SlotBlock["status"] }): Promise<SlotBlock[]>;
+  getSlotBlock(id: number): Promise<SlotBlock | undefined>;
+  createSlotBlock(block: InsertSlotBlock): Promise<SlotBlock>;
+  cancelSlotBlock(id: number, cancelledById: number, cancelReason?: string | null): Promise<SlotBlock | undefined>;
+
+  // Pricing
+  getRateCards(slotId?: number): Promise<RateCard[]>;
+  createRateCard(card: InsertRateCard): Promise<RateCard>;
+  updateRateCard(id: number, card: Partial<InsertRateCard>): Promise<RateCard | undefined>;
+  getSeasonalPricingRules(): Promise<SeasonalPricingRule[]>;
+  createSeasonalPricingRule(rule: InsertSeasonalPricingRule): Promise<SeasonalPricingRule>;
+  updateSeasonalPricingRule(id: number, rule: Partial<InsertSeasonalPricingRule>): Promise<SeasonalPricingRule | undefined>;
+  getDurationDiscounts(): Promise<DurationDiscount[]>;
+  createDurationDiscount(discount: InsertDurationDiscount): Promise<DurationDiscount>;
+  updateDurationDiscount(id: number, discount: Partial<InsertDurationDiscount>): Promise<DurationDiscount | undefined>;
+
+  // Add-on products
+  getAddonProducts(): Promise<AddonProduct[]>;
+  getAddonProduct(id: number): Promise<AddonProduct | undefined>;
+  getAddonProductByCode(code: string): Promise<AddonProduct | undefined>;
+  createAddonProduct(product: InsertAddonProduct): Promise<AddonProduct>;
+  createAddonProductWithPrice(product: InsertAddonProduct, price: Omit<InsertAddonProductPrice, "addonProductId">): Promise<AddonProduct>;
+  updateAddonProduct(id: number, product: Partial<InsertAddonProduct>): Promise<AddonProduct | undefined>;
+  getAddonProductPrices(addonProductId: number): Promise<AddonProductPrice[]>;
+  getEffectiveAddonPrice(addonProductId: number, onDate: string): Promise<AddonProductPrice | undefined>;
+  createAddonProductPrice(price: InsertAddonProductPrice): Promise<AddonProductPrice>;
   
   // Bookings
   getAllBookings(): Promise<Booking[]>;
@@ -85,13 +123,15 @@ export interface IStorage {
   addWorkOrderItems(items: InsertWorkOrderItem[]): Promise<WorkOrderItem[]>;
   getWorkOrder(id: number): Promise<WorkOrder | undefined>;
   getWorkOrderItems(workOrderId: number): Promise<WorkOrderItem[]>;
-  updateWorkOrder(id: number, data: Partial<InsertWorkOrder>): Promise<WorkOrder | undefined>;
+  updateWorkOrder(id: number, data: Partial<InsertWorkOrder>, executor?: typeof db | DbTransaction): Promise<WorkOrder | undefined>;
   updateWorkOrderItem(id: number, data: Partial<InsertWorkOrderItem>): Promise<WorkOrderItem | undefined>;
-  recalcWorkOrderTotal(id: number): Promise<void>;
+  recalcWorkOrderTotal(id: number, executor?: typeof db | DbTransaction): Promise<void>;
+  getWorkOrderNegotiations(workOrderId: number): Promise<WorkOrderNegotiation[]>;
+  createWorkOrderNegotiation(entry: InsertWorkOrderNegotiation): Promise<WorkOrderNegotiation>;
 
   // Release Orders
-  createReleaseOrder(data: InsertReleaseOrder): Promise<ReleaseOrder>;
-  addReleaseOrderItems(items: InsertReleaseOrderItem[]): Promise<ReleaseOrderItem[]>;
+  createReleaseOrder(data: InsertReleaseOrder, tx?: DbTransaction): Promise<ReleaseOrder>;
+  addReleaseOrderItems(items: InsertReleaseOrderItem[], executor?: typeof db | DbTransaction): Promise<ReleaseOrderItem[]>;
   getReleaseOrders(): Promise<ReleaseOrder[]>;
   getReleaseOrder(id: number): Promise<ReleaseOrder | undefined>;
   
@@ -147,21 +187,54 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
-  async getValidOtp(phone: string, code: string): Promise<OtpCode | undefined> {
+  async getLatestOtp(phone: string): Promise<OtpCode | undefined> {
     const result = await db.select().from(otpCodes)
+      .where(eq(otpCodes.phone, phone))
+      .orderBy(desc(otpCodes.createdAt), desc(otpCodes.id))
+      .limit(1);
+    return result[0];
+  }
+
+  async countOtpsSince(filter: { phone?: string; requestIp?: string }, since: Date): Promise<number> {
+    const conditions = [gte(otpCodes.createdAt, since)];
+    if (filter.phone) conditions.push(eq(otpCodes.phone, filter.phone));
+    if (filter.requestIp) conditions.push(eq(otpCodes.requestIp, filter.requestIp));
+    const result = await db.select({ count: sql<number>`count(*)::int` }).from(otpCodes).where(and(...conditions));
+    return result[0]?.count ?? 0;
+  }
+
+  async invalidateOtps(phone: string): Promise<void> {
+    await db.update(otpCodes)
+      .set({ invalidatedAt: new Date() })
       .where(
         and(
           eq(otpCodes.phone, phone),
-          eq(otpCodes.code, code),
-          eq(otpCodes.verified, false)
+          eq(otpCodes.verified, false),
+          isNull(otpCodes.invalidatedAt)
         )
-      )
-      .orderBy(desc(otpCodes.createdAt));
-    return result[0];
+      );
+  }
+
+  async updateOtpCode(id: number, otp: Partial<OtpCode>): Promise<void> {
+    await db.update(otpCodes).set(otp).where(eq(otpCodes.id, id));
   }
 
-  async markOtpAsVerified(id: number): Promise<void> {
-    await db.update(otpCodes).set({ verified: true }).where(eq(otpCodes.id, id));
+  // Atomic, so parallel wrong guesses each count; returns the new attempt count
+  async incrementOtpAttempts(id: number): Promise<number> {
+    const result = await db.update(otpCodes)
+      .set({ attempts: sql`${otpCodes.attempts} + 1` })
+      .where(eq(otpCodes.id, id))
+      .returning({ attempts: otpCodes.attempts });
+    return result[0]?.attempts ?? Number.MAX_SAFE_INTEGER;
+  }
+
+  // Only a live code can be verified, and only once
+  async markOtpAsVerified(id: number): Promise<boolean> {
+    const result = await db.update(otpCodes)
+      .set({ verified: true })
+      .where(and(eq(otpCodes.id, id), eq(otpCodes.verified, false), isNull(otpCodes.invalidatedAt)))
+      .returning({ id: otpCodes.id });
+    return result.length > 0;
   }
 
   // Slots
@@ -184,57 +257,144 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
-  async selectSlot(slotId: number, userId: number): Promise<Slot | null> {
-    const result = await db.update(slots)
-      .set({
-        status: "pending",
-        reservedByUserId: userId,
-        reservedAt: new Date(),
-      })
+  // Slot blocks
+  async getSlotBlocks(filter: { slotId?: number; status?: SlotBlock["status"] } = {}): Promise<SlotBlock[]> {
+    return await db
+      .select()
+      .from(slotBlocks)
       .where(
         and(
-          eq(slots.id, slotId),
-          eq(slots.status, "available")
+          filter.slotId ? eq(slotBlocks.slotId, filter.slotId) : undefined,
+          filter.status ? eq(slotBlocks.status, filter.status) : undefined
         )
       )
-      .returning();
-    return result[0] || null;
+      .orderBy(desc(slotBlocks.startDate));
   }
 
-  async releaseSlot(slotId: number, userId: number): Promise<Slot | null> {
-    const result = await db.update(slots)
-      .set({
-        status: "available",
-        reservedByUserId: null,
-        reservedAt: null,
-      })
-      .where(
-        and(
-          eq(slots.id, slotId),
-          eq(slots.status, "pending"),
-          eq(slots.reservedByUserId, userId)
-        )
-      )
-      .returning();
-    return result[0] || null;
+  async getSlotBlock(id: number): Promise<SlotBlock | undefined> {
+    const result = await db.select().from(slotBlocks).where(eq(slotBlocks.id, id));
+    return result[0];
   }
 
-  async confirmSlot(slotId: number, userId: number): Promise<Slot | null> {
-    const result = await db.update(slots)
-      .set({
-        status: "booked",
-        reservedByUserId: null,
-        reservedAt: null,
-      })
-      .where(
-        and(
-          eq(slots.id, slotId),
-          eq(slots.status, "pending"),
-          eq(slots.reservedByUserId, userId)
-        )
-      )
+  async createSlotBlock(block: InsertSlotBlock): Promise<SlotBlock> {
+    const result = await db.insert(slotBlocks).values(block).returning();
+    return result[0];
+  }
+
+  async cancelSlotBlock(id: number, cancelledById: number, cancelReason?: string | null): Promise<SlotBlock | undefined> {
+    const result = await db
+      .update(slotBlocks)
+      .set({ status: "cancelled", cancelledById, cancelledAt: new Date(), cancelReason: cancelReason || null })
+      .where(and(eq(slotBlocks.id, id), eq(slotBlocks.status, "active")))
       .returning();
-    return result[0] || null;
+    return result[0];
+  }
+
+  // Pricing
+  async getRateCards(slotId?: number): Promise<RateCard[]> {
+    return await db
+      .select()
+      .from(rateCards)
+      .where(slotId ? eq(rateCards.slotId, slotId) : undefined)
+      .orderBy(rateCards.slotId, desc(rateCards.effectiveFrom));
+  }
+
+  async createRateCard(card: InsertRateCard): Promise<RateCard> {
+    const result = await db.insert(rateCards).values(card).returning();
+    return result[0];
+  }
+
+  async updateRateCard(id: number, card: Partial<InsertRateCard>): Promise<RateCard | undefined> {
+    const result = await db.update(rateCards).set(card).where(eq(rateCards.id, id)).returning();
+    return result[0];
+  }
+
+  async getSeasonalPricingRules(): Promise<SeasonalPricingRule[]> {
+    return await db.select().from(seasonalPricingRules).orderBy(desc(seasonalPricingRules.startDate));
+  }
+
+  async createSeasonalPricingRule(rule: InsertSeasonalPricingRule): Promise<SeasonalPricingRule> {
+    const result = await db.insert(seasonalPricingRules).values(rule).returning();
+    return result[0];
+  }
+
+  async updateSeasonalPricingRule(id: number, rule: Partial<InsertSeasonalPricingRule>): Promise<SeasonalPricingRule | undefined> {
+    const result = await db.update(seasonalPricingRules).set(rule).where(eq(seasonalPricingRules.id, id)).returning();
+    return result[0];
+  }
+
+  async getDurationDiscounts(): Promise<DurationDiscount[]> {
+    return await db.select().from(durationDiscounts).orderBy(durationDiscounts.minDays);
+  }
+
+  async createDurationDiscount(discount: InsertDurationDiscount): Promise<DurationDiscount> {
+    const result = await db.insert(durationDiscounts).values(discount).returning();
+    return result[0];
+  }
+
+  async updateDurationDiscount(id: number, discount: Partial<InsertDurationDiscount>): Promise<DurationDiscount | undefined> {
+    const result = await db.update(durationDiscounts).set(discount).where(eq(durationDiscounts.id, id)).returning();
+    return result[0];
+  }
+
+  // Add-on products
+  async getAddonProducts(): Promise<AddonProduct[]> {
+    return await db.select().from(addonProducts).orderBy(addonProducts.id);
+  }
+
+  async getAddonProduct(id: number): Promise<AddonProduct | undefined> {
+    const result = await db.select().from(addonProducts).where(eq(addonProducts.id, id));
+    return result[0];
+  }
+
+  async getAddonProductByCode(code: string): Promise<AddonProduct | undefined> {
+    const result = await db.select().from(addonProducts).where(eq(addonProducts.code, code));
+    return result[0];
+  }
+
+  async createAddonProduct(product: InsertAddonProduct): Promise<AddonProduct> {
+    const result = await db.insert(addonProducts).values(product).returning();
+    return result[0];
+  }
+
+  // A new add-on and its first price row are created together, or not at all
+  async createAddonProductWithPrice(
+    product: InsertAddonProduct,
+    price: Omit<InsertAddonProductPrice, "addonProductId">
+  ): Promise<AddonProduct> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(addonProducts).values(product).returning();
+      await tx.insert(addonProductPrices).values({ ...price, addonProductId: created.id });
+      return created;
+    });
+  }
+
+  async updateAddonProduct(id: number, product: Partial<InsertAddonProduct>): Promise<AddonProduct | undefined> {
+    const result = await db.update(addonProducts).set(product).where(eq(addonProducts.id, id)).returning();
+    return result[0];
+  }
+
+  async getAddonProductPrices(addonProductId: number): Promise<AddonProductPrice[]> {
+    return await db
+      .select()
+      .from(addonProductPrices)
+      .where(eq(addonProductPrices.addonProductId, addonProductId))
+      .orderBy(desc(addonProductPrices.effectiveFrom), desc(addonProductPrices.id));
+  }
+
+  async getEffectiveAddonPrice(addonProductId: number, onDate: string): Promise<AddonProductPrice | undefined> {
+    const result = await db
+      .select()
+      .from(addonProductPrices)
+      .where(and(eq(addonProductPrices.addonProductId, addonProductId), lte(addonProductPrices.effectiveFrom, onDate)))
+      .orderBy(desc(addonProductPrices.effectiveFrom), desc(addonProductPrices.id))
+      .limit(1);
+    return result[0];
+  }
+
+  async createAddonProductPrice(price: InsertAddonProductPrice): Promise<AddonProductPrice> {
+    const result = await db.insert(addonProductPrices).values(price).returning();
+    return result[0];
   }
 
   // Bookings
@@ -353,9 +513,13 @@ export class DbStorage implements IStorage {
   }
 
   // Invoices
+  // The invoice number is taken from its type's series in the same transaction as the insert
   async createInvoice(invoice: InsertInvoice): Promise<Invoice> {
-    const result = await db.insert(invoices).values(invoice).returning();
-    return result[0];
+    return await db.transaction(async (tx) => {
+      const invoiceNumber = await numberingService.next(tx, invoice.invoiceType ?? "tax_invoice");
+      const result = await tx.insert(invoices).values({ ...invoice, invoiceNumber }).returning();
+      return result[0];
+    });
   }
 
   async getInvoicesByBooking(bookingId: number): Promise<Invoice[]> {
@@ -382,8 +546,8 @@ export class DbStorage implements IStorage {
     return await db.select().from(workOrderItems).where(eq(workOrderItems.workOrderId, workOrderId));
   }
 
-  async updateWorkOrder(id: number, data: Partial<InsertWorkOrder>): Promise<WorkOrder | undefined> {
-    const result = await db.update(workOrders).set(data).where(eq(workOrders.id, id)).returning();
+  async updateWorkOrder(id: number, data: Partial<InsertWorkOrder>, executor: typeof db | DbTransaction = db): Promise<WorkOrder | undefined> {
+    const result = await executor.update(workOrders).set(data).where(eq(workOrders.id, id)).returning();
     return result[0];
   }
 
@@ -392,23 +556,39 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
-  async recalcWorkOrderTotal(id: number): Promise<void> {
-    const items = await this.getWorkOrderItems(id);
+  async recalcWorkOrderTotal(id: number, executor: typeof db | DbTransaction = db): Promise<void> {
+    const items = await executor.select().from(workOrderItems).where(eq(workOrderItems.workOrderId, id));
     const base = items.reduce((sum, it) => sum + Number(it.subtotal as any), 0);
-    const wo = await this.getWorkOrder(id);
+    const [wo] = await executor.select().from(workOrders).where(eq(workOrders.id, id));
     const gst = wo ? Number((wo as any).gstPercent || 0) : 0;
     const total = base + (base * gst) / 100;
-    await db.update(workOrders).set({ totalAmount: String(total) }).where(eq(workOrders.id, id));
+    await executor.update(workOrders).set({ totalAmount: String(total) }).where(eq(workOrders.id, id));
+  }
+
+  async getWorkOrderNegotiations(workOrderId: number): Promise<WorkOrderNegotiation[]> {
+    return await db
+      .select()
+      .from(workOrderNegotiations)
+      .where(eq(workOrderNegotiations.workOrderId, workOrderId))
+      .orderBy(workOrderNegotiations.createdAt, workOrderNegotiations.id);
+  }
+
+  async createWorkOrderNegotiation(entry: InsertWorkOrderNegotiation): Promise<WorkOrderNegotiation> {
+    const result = await db.insert(workOrderNegotiations).values(entry).returning();
+    return result[0];
   }
 
   // Release Orders
-  async createReleaseOrder(data: InsertReleaseOrder): Promise<ReleaseOrder> {
-    const result = await db.insert(releaseOrders).values(data).returning();
+  // Pass the caller's transaction so the RO number is only taken if the rest of its work commits
+  async createReleaseOrder(data: InsertReleaseOrder, tx?: DbTransaction): Promise<ReleaseOrder> {
+    if (!tx) return await db.transaction((own) => this.createReleaseOrder(data, own));
+    const roNumber = await numberingService.next(tx, "release_order");
+    const result = await tx.insert(releaseOrders).values({ ...data, roNumber }).returning();
     return result[0];
   }
 
-  async addReleaseOrderItems(items: InsertReleaseOrderItem[]): Promise<ReleaseOrderItem[]> {
-    const result = await db.insert(releaseOrderItems).values(items).returning();
+  async addReleaseOrderItems(items: InsertReleaseOrderItem[], executor: typeof db | DbTransaction = db): Promise<ReleaseOrderItem[]> {
+    const result = await executor.insert(releaseOrderItems).values(items).returning();
     return result;
   }
 
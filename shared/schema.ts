@@ -1,4 +1,4 @@
-import { pgTable, serial, text, integer, timestamp, boolean, decimal, pgEnum, date } from "drizzle-orm/pg-core";
+import { pgTable, serial, text, integer, timestamp, boolean, decimal, pgEnum, date, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -20,7 +20,7 @@ export const bookingStatusEnum = pgEnum("booking_status", [
   "paused"
 ]);
 export const paymentTypeEnum = pgEnum("payment_type", ["full", "installment", "pay_later"]);
-export const paymentStatusEnum = pgEnum("payment_status", ["pending", "completed", "failed", "partial"]);
+export const paymentStatusEnum = pgEnum("payment_status", ["pending", "completed", "failed", "partial", "cancelled"]);
 export const approvalStatusEnum = pgEnum("approval_status", ["pending", "approved", "rejected"]);
 export const bannerStatusEnum = pgEnum("banner_status", ["pending", "approved", "rejected", "active", "expired"]);
 export const workOrderStatusEnum = pgEnum("work_order_status", [
@@ -38,13 +38,29 @@ export const releaseOrderStatusEnum = pgEnum("release_order_status", [
   "pending_manager_review",
   "pending_vp_review",
   "pending_pv_review",
+  // Stages added through an approval policy that have no dedicated status of their own
+  "pending_approval",
   "accepted",
   "ready_for_it",
   "deployed",
 ]);
-export const invoiceTypeEnum = pgEnum("invoice_type", ["proforma", "tax_invoice"]);
+export const invoiceTypeEnum = pgEnum("invoice_type", ["proforma", "tax_invoice", "credit_note"]);
 export const addonTypeEnum = pgEnum("addon_type", ["email", "whatsapp"]);
-export const deploymentStatusEnum = pgEnum("deployment_status", ["deployed", "removed", "expired"]);
+export const deploymentStatusEnum = pgEnum("deployment_status", ["deployed", "removed", "expired", "paused"]);
+export const slotHoldStatusEnum = pgEnum("slot_hold_status", ["active", "released", "confirmed", "expired"]);
+export const slotBlockStatusEnum = pgEnum("slot_block_status", ["active", "cancelled"]);
+export const priceSourceEnum = pgEnum("price_source", ["rate_card", "manual"]);
+export const approvalDecisionEnum = pgEnum("approval_decision", ["approved", "rejected"]);
+export const gstSupplyTypeEnum = pgEnum("gst_supply_type", ["intra_state", "inter_state"]);
+export const negotiationEntryKindEnum = pgEnum("negotiation_entry_kind", ["counter_offer", "reply"]);
+export const receiptModeEnum = pgEnum("receipt_mode", ["neft", "rtgs", "imps", "upi", "cheque", "cash", "gateway", "other"]);
+export const bankStatementFormatEnum = pgEnum("bank_statement_format", ["csv", "mt940"]);
+export const bankLineStatusEnum = pgEnum("bank_line_status", ["unmatched", "matched", "ignored"]);
+export const tdsSectionEnum = pgEnum("tds_section", ["194C", "194J"]);
+export const paymentOrderStatusEnum = pgEnum("payment_order_status", ["created", "paid", "failed"]);
+export const dunningChannelEnum = pgEnum("dunning_channel", ["in_app", "email", "whatsapp"]);
+export const dunningSendStatusEnum = pgEnum("dunning_send_status", ["sent", "failed"]);
+export const paymentHoldStatusEnum = pgEnum("payment_hold_status", ["pending_approval", "paused", "dismissed", "resolved"]);
 
 // Users table
 export const users = pgTable("users", {
@@ -94,6 +110,10 @@ export const otpCodes = pgTable("otp_codes", {
   code: text("code").notNull(),
   expiresAt: timestamp("expires_at").notNull(),
   verified: boolean("verified").default(false).notNull(),
+  attempts: integer("attempts").default(0).notNull(), // failed verification attempts
+  requestIp: text("request_ip"),
+  invalidatedAt: timestamp("invalidated_at"), // superseded by a newer code or burned by too many attempts
+  lockedUntil: timestamp("locked_until"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -110,15 +130,21 @@ export const slots = pgTable("slots", {
   dimensions: text("dimensions").notNull(), // e.g., "728x90", "300x250"
   pricing: decimal("pricing", { precision: 10, scale: 2 }).notNull(),
   status: slotStatusEnum("status").default("available").notNull(),
-  isBlocked: boolean("is_blocked").default(false).notNull(), // Manager can block slots
+  // Legacy single block window; manager blocks now live in slot_blocks
+  isBlocked: boolean("is_blocked").default(false).notNull(),
   blockReason: text("block_reason"),
   blockedById: integer("blocked_by_id").references(() => users.id),
   blockStart: date("block_start"),
   magazinePageNumber: integer("magazine_page_number"), // Only for magazine media type
   layoutData: text("layout_data"), // JSON string for manager's drag-drop layout
+  // Legacy whole-slot reservation; date-scoped reservations live in slot_holds
   reservedByUserId: integer("reserved_by_user_id").references(() => users.id),
   reservedAt: timestamp("reserved_at"),
   blockUntil: date("block_until"),
+  sacCode: text("sac_code").default("998365").notNull(), // SAC printed on tax invoices
+  // Served by the ad-serving API when nothing sold is live on the slot
+  houseAdUrl: text("house_ad_url"),
+  houseAdLinkUrl: text("house_ad_link_url"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   createdById: integer("created_by_id").references(() => users.id),
 });
@@ -127,6 +153,94 @@ export const insertSlotSchema = createInsertSchema(slots).omit({ id: true, creat
 export type InsertSlot = z.infer<typeof insertSlotSchema>;
 export type Slot = typeof slots.$inferSelect;
 
+// Rate cards: per-slot base rates, effective from a date until superseded
+export const rateCards = pgTable("rate_cards", {
+  id: serial("id").primaryKey(),
+  slotId: integer("slot_id").notNull().references(() => slots.id),
+  dailyRate: decimal("daily_rate", { precision: 10, scale: 2 }).notNull(),
+  weeklyRate: decimal("weekly_rate", { precision: 10, scale: 2 }),
+  monthlyRate: decimal("monthly_rate", { precision: 10, scale: 2 }),
+  effectiveFrom: date("effective_from").notNull(),
+  effectiveTo: date("effective_to"),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertRateCardSchema = createInsertSchema(rateCards).omit({ id: true, createdAt: true });
+export type InsertRateCard = z.infer<typeof insertRateCardSchema>;
+export type RateCard = typeof rateCards.$inferSelect;
+
+// Seasonal multipliers (e.g. CAT / admission season); null media/page type applies to every slot
+export const seasonalPricingRules = pgTable("seasonal_pricing_rules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+  multiplier: decimal("multiplier", { precision: 5, scale: 2 }).notNull(),
+  mediaType: mediaTypeEnum("media_type"),
+  pageType: pageTypeEnum("page_type"),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertSeasonalPricingRuleSchema = createInsertSchema(seasonalPricingRules).omit({ id: true, createdAt: true });
+export type InsertSeasonalPricingRule = z.infer<typeof insertSeasonalPricingRuleSchema>;
+export type SeasonalPricingRule = typeof seasonalPricingRules.$inferSelect;
+
+// Duration discounts: the largest discount whose minDays the booking reaches is applied
+export const durationDiscounts = pgTable("duration_discounts", {
+  id: serial("id").primaryKey(),
+  minDays: integer("min_days").notNull(),
+  discountPercent: decimal("discount_percent", { precision: 5, scale: 2 }).notNull(),
+  mediaType: mediaTypeEnum("media_type"),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertDurationDiscountSchema = createInsertSchema(durationDiscounts).omit({ id: true, createdAt: true });
+export type InsertDurationDiscount = z.infer<typeof insertDurationDiscountSchema>;
+export type DurationDiscount = typeof durationDiscounts.$inferSelect;
+
+// Slot holds: temporary, date-scoped reservations taken while a client reviews a request
+export const slotHolds = pgTable("slot_holds", {
+  id: serial("id").primaryKey(),
+  slotId: integer("slot_id").notNull().references(() => slots.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+  status: slotHoldStatusEnum("status").default("active").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  workOrderId: integer("work_order_id"), // set when the hold is converted into a work order
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  releasedAt: timestamp("released_at"),
+});
+
+export const insertSlotHoldSchema = createInsertSchema(slotHolds).omit({ id: true, createdAt: true });
+export type InsertSlotHold = z.infer<typeof insertSlotHoldSchema>;
+export type SlotHold = typeof slotHolds.$inferSelect;
+
+// Slot blocks: dated windows (maintenance, internal campaigns) during which a slot cannot be sold
+export const slotBlocks = pgTable("slot_blocks", {
+  id: serial("id").primaryKey(),
+  slotId: integer("slot_id").notNull().references(() => slots.id),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+  reason: text("reason"),
+  status: slotBlockStatusEnum("status").default("active").notNull(),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  cancelledById: integer("cancelled_by_id").references(() => users.id),
+  cancelledAt: timestamp("cancelled_at"),
+  cancelReason: text("cancel_reason"),
+});
+
+export const insertSlotBlockSchema = createInsertSchema(slotBlocks).omit({ id: true, createdAt: true });
+export type InsertSlotBlock = z.infer<typeof insertSlotBlockSchema>;
+export type SlotBlock = typeof slotBlocks.$inferSelect;
+
 // Bookings table
 export const bookings = pgTable("bookings", {
   id: serial("id").primaryKey(),
@@ -233,12 +347,177 @@ export const invoices = pgTable("invoices", {
   generatedAt: timestamp("generated_at").defaultNow().notNull(),
   invoiceType: invoiceTypeEnum("invoice_type").default("tax_invoice").notNull(),
   dueDate: date("due_date"),
+  invoiceNumber: text("invoice_number").unique(), // assigned from the number series of invoiceType
+  // Tax invoices: the paid proforma they were issued against, and their frozen lines
+  proformaInvoiceId: integer("proforma_invoice_id").unique(),
+  lineItems: text("line_items"), // JSON string of TaxInvoiceLine[]
+  // Credit notes: the invoice they reverse (amounts are positive), and whether it was reissued so the money is still owed
+  creditedInvoiceId: integer("credited_invoice_id"),
+  reissued: boolean("reissued").default(false).notNull(),
+  reason: text("reason"), // why a credit note was issued or an invoice cancelled
+  cancelledAt: timestamp("cancelled_at"),
+  // Installments: position in the work order's installment plan (1-based) and when the client was last reminded
+  installmentNumber: integer("installment_number"),
+  lastReminderOn: date("last_reminder_on"),
+  // GST breakup frozen when the invoice is raised; `amount` is the gross (taxable + tax)
+  taxableAmount: decimal("taxable_amount", { precision: 12, scale: 2 }),
+  gstPercent: decimal("gst_percent", { precision: 5, scale: 2 }),
+  supplyType: gstSupplyTypeEnum("supply_type"),
+  placeOfSupply: text("place_of_supply"), // GST state code, e.g. "36"
+  recipientGstin: text("recipient_gstin"),
+  cgstAmount: decimal("cgst_amount", { precision: 12, scale: 2 }).default("0").notNull(),
+  sgstAmount: decimal("sgst_amount", { precision: 12, scale: 2 }).default("0").notNull(),
+  igstAmount: decimal("igst_amount", { precision: 12, scale: 2 }).default("0").notNull(),
 });
 
 export const insertInvoiceSchema = createInsertSchema(invoices).omit({ id: true, generatedAt: true });
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 export type Invoice = typeof invoices.$inferSelect;
 
+// Form 16A certificates issued by clients for the TDS they deducted in a quarter
+export const tdsCertificates = pgTable("tds_certificates", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => users.id),
+  financialYear: text("financial_year").notNull(), // e.g. 25-26
+  quarter: integer("quarter").notNull(), // 1 = Apr-Jun ... 4 = Jan-Mar
+  certificateNumber: text("certificate_number").notNull(),
+  tdsAmount: decimal("tds_amount", { precision: 12, scale: 2 }).notNull(), // as certified
+  fileUrl: text("file_url").notNull(),
+  uploadedById: integer("uploaded_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type TdsCertificate = typeof tdsCertificates.$inferSelect;
+
+// Money received against an invoice; the invoice status is derived from these rows
+export const receipts = pgTable("receipts", {
+  id: serial("id").primaryKey(),
+  invoiceId: integer("invoice_id").notNull().references(() => invoices.id),
+  workOrderId: integer("work_order_id").references(() => workOrders.id),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(), // received in the bank
+  tdsAmount: decimal("tds_amount", { precision: 12, scale: 2 }).default("0").notNull(), // deducted by the client; settles the invoice too
+  tdsSection: tdsSectionEnum("tds_section"), // set whenever tdsAmount is
+  tdsCertificateId: integer("tds_certificate_id").references(() => tdsCertificates.id), // Form 16A covering this deduction
+  mode: receiptModeEnum("mode").notNull(),
+  reference: text("reference"), // UTR, UPI or cheque number
+  receivedOn: date("received_on").notNull(),
+  note: text("note"),
+  recordedById: integer("recorded_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertReceiptSchema = createInsertSchema(receipts).omit({ id: true, createdAt: true });
+export type InsertReceipt = z.infer<typeof insertReceiptSchema>;
+export type Receipt = typeof receipts.$inferSelect;
+
+// Online payments: one gateway order per checkout attempt, settled by the provider's signed webhook
+export const paymentOrders = pgTable("payment_orders", {
+  id: serial("id").primaryKey(),
+  invoiceId: integer("invoice_id").notNull().references(() => invoices.id),
+  provider: text("provider").notNull(), // razorpay, fake
+  providerOrderId: text("provider_order_id").notNull().unique(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  currency: text("currency").default("INR").notNull(),
+  status: paymentOrderStatusEnum("status").default("created").notNull(),
+  providerPaymentId: text("provider_payment_id"),
+  receiptId: integer("receipt_id").references(() => receipts.id),
+  error: text("error"), // why a captured payment could not be applied, or why it failed
+  createdById: integer("created_by_id").notNull().references(() => users.id),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type PaymentOrder = typeof paymentOrders.$inferSelect;
+
+// Escalation ladder for overdue invoices; a step fires once per invoice when it is offsetDays past due
+export const dunningSteps = pgTable("dunning_steps", {
+  id: serial("id").primaryKey(),
+  stepNumber: integer("step_number").notNull().unique(),
+  name: text("name").notNull(),
+  offsetDays: integer("offset_days").notNull(), // days after the due date
+  channels: text("channels").notNull(), // JSON array of dunning_channel values
+  notifyClient: boolean("notify_client").default(true).notNull(),
+  copyRole: userRoleEnum("copy_role"), // staff role copied on (or, without the client, escalated to)
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type DunningStep = typeof dunningSteps.$inferSelect;
+
+// One row per message a dunning step sent, to whom and over which channel
+export const dunningLogs = pgTable("dunning_logs", {
+  id: serial("id").primaryKey(),
+  invoiceId: integer("invoice_id").notNull().references(() => invoices.id),
+  workOrderId: integer("work_order_id").notNull().references(() => workOrders.id),
+  stepId: integer("step_id").notNull().references(() => dunningSteps.id),
+  channel: dunningChannelEnum("channel").notNull(),
+  recipientId: integer("recipient_id").notNull().references(() => users.id),
+  recipientAddress: text("recipient_address"), // email or phone the message went to
+  status: dunningSendStatusEnum("status").notNull(),
+  amountDue: decimal("amount_due", { precision: 12, scale: 2 }).notNull(),
+  daysOverdue: integer("days_overdue").notNull(),
+  error: text("error"),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+});
+
+export type DunningLog = typeof dunningLogs.$inferSelect;
+
+// Uploaded bank statements; only credit lines are kept, for matching against open invoices
+export const bankStatementImports = pgTable("bank_statement_imports", {
+  id: serial("id").primaryKey(),
+  fileName: text("file_name").notNull(),
+  format: bankStatementFormatEnum("format").notNull(),
+  creditCount: integer("credit_count").default(0).notNull(),
+  duplicateCount: integer("duplicate_count").default(0).notNull(),
+  importedById: integer("imported_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type BankStatementImport = typeof bankStatementImports.$inferSelect;
+
+export const bankStatementLines = pgTable("bank_statement_lines", {
+  id: serial("id").primaryKey(),
+  importId: integer("import_id").notNull().references(() => bankStatementImports.id),
+  valueDate: date("value_date").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  narration: text("narration").notNull(),
+  reference: text("reference"), // UTR or cheque number when the bank gives one
+  // Same date, amount, reference and narration means the line was already imported from an earlier statement
+  fingerprint: text("fingerprint").notNull().unique(),
+  status: bankLineStatusEnum("status").default("unmatched").notNull(),
+  receiptId: integer("receipt_id").references(() => receipts.id),
+  resolvedById: integer("resolved_by_id").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type BankStatementLine = typeof bankStatementLines.$inferSelect;
+
+// Document numbering: one series per document type, counters reset each financial year
+export const numberSeries = pgTable("number_series", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // proforma, tax_invoice, credit_note, release_order
+  name: text("name").notNull(),
+  // Tokens: {FY} = 25-26, {FYYYY} = 2025-26, {SEQ:n} = counter zero-padded to n digits
+  format: text("format").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertNumberSeriesSchema = createInsertSchema(numberSeries).omit({ id: true, createdAt: true });
+export type InsertNumberSeries = z.infer<typeof insertNumberSeriesSchema>;
+export type NumberSeries = typeof numberSeries.$inferSelect;
+
+export const numberSequences = pgTable("number_sequences", {
+  id: serial("id").primaryKey(),
+  seriesId: integer("series_id").notNull().references(() => numberSeries.id),
+  financialYear: text("financial_year").notNull(), // e.g. 25-26
+  lastValue: integer("last_value").default(0).notNull(),
+}, (table) => ({
+  seriesYearIdx: uniqueIndex("number_sequences_series_fy_idx").on(table.seriesId, table.financialYear),
+}));
+
+export type NumberSequence = typeof numberSequences.$inferSelect;
+
 // Analytics table
 export const analytics = pgTable("analytics", {
   id: serial("id").primaryKey(),
@@ -281,6 +560,18 @@ export const insertVersionHistorySchema = createInsertSchema(versionHistory).omi
 export type InsertVersionHistory = z.infer<typeof insertVersionHistorySchema>;
 export type VersionHistory = typeof versionHistory.$inferSelect;
 
+// Installment plan templates, e.g. 50/50 or 30/40/30, with due dates relative to RO acceptance or campaign start
+export const installmentPlans = pgTable("installment_plans", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  parts: text("parts").notNull(), // JSON string of InstallmentPart[]: { percent, anchor: ro_accepted | campaign_start, offsetDays }
+  reminderDays: text("reminder_days").default("[-3,0,7]").notNull(), // JSON string: days relative to each due date to remind the client
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type InstallmentPlan = typeof installmentPlans.$inferSelect;
+
 // Work Orders
 export const workOrders = pgTable("work_orders", {
   id: serial("id").primaryKey(),
@@ -289,6 +580,7 @@ export const workOrders = pgTable("work_orders", {
   contactName: text("contact_name"),
   status: workOrderStatusEnum("status").default("draft").notNull(),
   paymentMode: paymentTypeEnum("payment_mode").default("full").notNull(),
+  installmentPlanId: integer("installment_plan_id").references(() => installmentPlans.id),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).default("0").notNull(),
   gstPercent: decimal("gst_percent", { precision: 5, scale: 2 }).default("0").notNull(),
   poUrl: text("po_url"),
@@ -320,12 +612,131 @@ export const workOrderItems = pgTable("work_order_items", {
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
   bannerUrl: text("banner_url"),
+  priceSource: priceSourceEnum("price_source").default("manual").notNull(),
+  pricingBreakdown: text("pricing_breakdown"), // JSON string of the rate card calculation
 });
 
 export const insertWorkOrderItemSchema = createInsertSchema(workOrderItems).omit({ id: true });
 export type InsertWorkOrderItem = z.infer<typeof insertWorkOrderItemSchema>;
 export type WorkOrderItem = typeof workOrderItems.$inferSelect;
 
+// Add-on products (email blast, WhatsApp, ...) sold alongside slots.
+// `code` matches work_order_items.addon_type for the channels that can be ordered.
+export const addonProducts = pgTable("addon_products", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  name: text("name").notNull(),
+  description: text("description"),
+  sacCode: text("sac_code").default("998365").notNull(), // SAC printed on tax invoices
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAddonProductSchema = createInsertSchema(addonProducts).omit({ id: true, createdAt: true });
+export type InsertAddonProduct = z.infer<typeof insertAddonProductSchema>;
+export type AddonProduct = typeof addonProducts.$inferSelect;
+
+// Price history: the latest row effective on a date is the price for that date; rows are never edited
+export const addonProductPrices = pgTable("addon_product_prices", {
+  id: serial("id").primaryKey(),
+  addonProductId: integer("addon_product_id").notNull().references(() => addonProducts.id),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  effectiveFrom: date("effective_from").notNull(),
+  note: text("note"),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAddonProductPriceSchema = createInsertSchema(addonProductPrices).omit({ id: true, createdAt: true });
+export type InsertAddonProductPrice = z.infer<typeof insertAddonProductPriceSchema>;
+export type AddonProductPrice = typeof addonProductPrices.$inferSelect;
+
+// Frozen copy of a work order's pricing each time it is quoted; never updated except to record acceptance
+export const workOrderQuotes = pgTable("work_order_quotes", {
+  id: serial("id").primaryKey(),
+  workOrderId: integer("work_order_id").notNull().references(() => workOrders.id),
+  version: integer("version").notNull(),
+  paymentMode: paymentTypeEnum("payment_mode").notNull(),
+  gstPercent: decimal("gst_percent", { precision: 5, scale: 2 }).notNull(),
+  subtotal: decimal("subtotal", { precision: 12, scale: 2 }).notNull(),
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull(),
+  items: text("items").notNull(), // JSON string of the quoted items
+  quotedById: integer("quoted_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedById: integer("accepted_by_id").references(() => users.id),
+});
+
+export const insertWorkOrderQuoteSchema = createInsertSchema(workOrderQuotes).omit({ id: true, createdAt: true });
+export type InsertWorkOrderQuote = z.infer<typeof insertWorkOrderQuoteSchema>;
+export type WorkOrderQuote = typeof workOrderQuotes.$inferSelect;
+
+// Negotiation thread on a work order: client counter-offers and manager replies
+export const workOrderNegotiations = pgTable("work_order_negotiations", {
+  id: serial("id").primaryKey(),
+  workOrderId: integer("work_order_id").notNull().references(() => workOrders.id),
+  authorId: integer("author_id").notNull().references(() => users.id),
+  authorRole: userRoleEnum("author_role").notNull(),
+  kind: negotiationEntryKindEnum("kind").notNull(),
+  message: text("message").notNull(),
+  proposedItems: text("proposed_items"), // JSON string: [{ workOrderItemId, amount }]
+  proposedTotal: decimal("proposed_total", { precision: 12, scale: 2 }),
+  // Latest quote version when the entry was written (null before the first quote)
+  quoteId: integer("quote_id").references(() => workOrderQuotes.id),
+  quoteSnapshot: text("quote_snapshot").notNull(), // JSON string of the quote this entry answers
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertWorkOrderNegotiationSchema = createInsertSchema(workOrderNegotiations).omit({ id: true, createdAt: true });
+export type InsertWorkOrderNegotiation = z.infer<typeof insertWorkOrderNegotiationSchema>;
+export type WorkOrderNegotiation = typeof workOrderNegotiations.$inferSelect;
+
+// Release order approval policies: ordered stages, each approved by one role
+export const approvalPolicies = pgTable("approval_policies", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertApprovalPolicySchema = createInsertSchema(approvalPolicies).omit({ id: true, createdAt: true });
+export type InsertApprovalPolicy = z.infer<typeof insertApprovalPolicySchema>;
+export type ApprovalPolicy = typeof approvalPolicies.$inferSelect;
+
+export const approvalStages = pgTable("approval_stages", {
+  id: serial("id").primaryKey(),
+  policyId: integer("policy_id").notNull().references(() => approvalPolicies.id),
+  position: integer("position").notNull(),
+  name: text("name").notNull(),
+  approverRole: userRoleEnum("approver_role").notNull(),
+  // Distinct approvers of approverRole needed before the stage is passed
+  requiredApprovals: integer("required_approvals").default(1).notNull(),
+  // Status the release order shows while waiting on this stage
+  releaseOrderStatus: releaseOrderStatusEnum("release_order_status").default("pending_approval").notNull(),
+  // Stage is skipped when the work order total is below this amount
+  skipBelowAmount: decimal("skip_below_amount", { precision: 12, scale: 2 }),
+  notifyByEmail: boolean("notify_by_email").default(false).notNull(),
+});
+
+export const insertApprovalStageSchema = createInsertSchema(approvalStages).omit({ id: true });
+export type InsertApprovalStage = z.infer<typeof insertApprovalStageSchema>;
+export type ApprovalStage = typeof approvalStages.$inferSelect;
+
+export const releaseOrderApprovals = pgTable("release_order_approvals", {
+  id: serial("id").primaryKey(),
+  releaseOrderId: integer("release_order_id").notNull().references(() => releaseOrders.id),
+  stageId: integer("stage_id").notNull().references(() => approvalStages.id),
+  approverId: integer("approver_id").notNull().references(() => users.id),
+  decision: approvalDecisionEnum("decision").notNull(),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertReleaseOrderApprovalSchema = createInsertSchema(releaseOrderApprovals).omit({ id: true, createdAt: true });
+export type InsertReleaseOrderApproval = z.infer<typeof insertReleaseOrderApprovalSchema>;
+export type ReleaseOrderApproval = typeof releaseOrderApprovals.$inferSelect;
+
 // Release Orders
 export const releaseOrders = pgTable("release_orders", {
   id: serial("id").primaryKey(),
@@ -340,6 +751,11 @@ export const releaseOrders = pgTable("release_orders", {
   rejectionReason: text("rejection_reason"),
   rejectedById: integer("rejected_by_id").references(() => users.id),
   rejectedAt: timestamp("rejected_at"),
+  acceptedAt: timestamp("accepted_at"), // anchors installment due dates
+  // Policy the RO was submitted under and the stage it currently waits on (see approval_stages)
+  approvalPolicyId: integer("approval_policy_id").references(() => approvalPolicies.id),
+  currentStageId: integer("current_stage_id").references(() => approvalStages.id),
+  stageEnteredAt: timestamp("stage_entered_at"),
 });
 
 export const insertReleaseOrderSchema = createInsertSchema(releaseOrders).omit({ id: true, issuedAt: true });
@@ -373,6 +789,33 @@ export const insertActivityLogSchema = createInsertSchema(activityLogs).omit({ i
 export type InsertActivityLog = z.infer<typeof insertActivityLogSchema>;
 export type ActivityLog = typeof activityLogs.$inferSelect;
 
+// When a work order's overdue invoices put its live campaign on hold; a single row edited by accounts
+export const paymentDefaultPolicy = pgTable("payment_default_policy", {
+  id: serial("id").primaryKey(),
+  overdueDays: integer("overdue_days").default(30).notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  updatedById: integer("updated_by_id").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type PaymentDefaultPolicy = typeof paymentDefaultPolicy.$inferSelect;
+
+// A work order flagged for payment default; a VP approval pauses its live deployments
+export const paymentHolds = pgTable("payment_holds", {
+  id: serial("id").primaryKey(),
+  workOrderId: integer("work_order_id").notNull().references(() => workOrders.id),
+  status: paymentHoldStatusEnum("status").default("pending_approval").notNull(),
+  daysOverdue: integer("days_overdue").notNull(), // at the time it was flagged
+  amountOverdue: decimal("amount_overdue", { precision: 12, scale: 2 }).notNull(),
+  decidedById: integer("decided_by_id").references(() => users.id),
+  decidedAt: timestamp("decided_at"),
+  decisionNote: text("decision_note"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type PaymentHold = typeof paymentHolds.$inferSelect;
+
 // Deployments table
 export const deployments = pgTable("deployments", {
   id: serial("id").primaryKey(),
@@ -385,6 +828,8 @@ export const deployments = pgTable("deployments", {
   status: deploymentStatusEnum("status").default("deployed").notNull(),
   removedAt: timestamp("removed_at"),
   removedById: integer("removed_by_id").references(() => users.id),
+  pausedAt: timestamp("paused_at"),
+  paymentHoldId: integer("payment_hold_id").references(() => paymentHolds.id), // hold that paused it
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 